@@ -9,6 +9,13 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  // Manuscripts are posted to the text extraction server action (see src/lib/text-extraction.ts).
+  experimental: {
+    serverActions: {
+      bodySizeLimit: '10mb',
+    },
+  },
+  serverExternalPackages: ['unpdf'],
   images: {
     remotePatterns: [
       {
@@ -0,0 +1,17 @@
+// Delivers the emails in the outbox that are due, once, against the configured Firebase project.
+// Usage: npm run jobs:email-outbox
+import { config } from 'dotenv';
+config({ path: ['.env.local', '.env'] });
+
+import { deliverPendingEmails } from '@/lib/email-outbox';
+
+const main = async () => {
+  const summary = await deliverPendingEmails();
+  console.log(`${summary.checked} emails due: ${summary.sent} sent, ${summary.retrying} to retry, ${summary.failed} given up.`);
+  process.exitCode = summary.retrying + summary.failed > 0 ? 1 : 0;
+};
+
+main().catch(error => {
+  console.error('Email delivery failed:', error);
+  process.exitCode = 1;
+});
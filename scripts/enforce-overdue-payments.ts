@@ -0,0 +1,24 @@
+// Runs the payment enforcement job once against the configured Firebase project.
+// Usage: npm run jobs:payment-enforcement [-- --dry-run]
+import { config } from 'dotenv';
+config({ path: ['.env.local', '.env'] });
+
+import { enforceOverduePayments } from '@/lib/payment-enforcement';
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  const run = await enforceOverduePayments({ trigger: 'script', dryRun });
+  console.log(`${dryRun ? '[dry run] ' : ''}Checked ${run.papersChecked} papers awaiting payment; ${run.actions.length} overdue.`);
+  run.actions.forEach(action => {
+    console.log(`  ${action.paperId}  "${action.paperTitle}"  due ${action.paymentDueDate}  ${action.overdueAction} -> ${action.finalStatus}`);
+  });
+  run.paymentsPending?.forEach(paperId => console.log(`  ${paperId}  held: a payment is still being processed`));
+  run.errors.forEach(error => console.error(`  FAILED ${error.paperId}: ${error.message}`));
+  if (!dryRun) console.log(`Recorded as jobRuns/${run.id}.`);
+  process.exitCode = run.errors.length > 0 ? 1 : 0;
+};
+
+main().catch(error => {
+  console.error('Payment enforcement failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,16 @@
+// Moves conflict-of-interest declarations and override justifications off papers and reviews into the admin-only collections.
+// Usage: npm run migrate:conflict-records
+import { config } from 'dotenv';
+config({ path: ['.env.local', '.env'] });
+
+import { moveLegacyConflictRecords } from '@/lib/review-assignment';
+
+const main = async () => {
+  const moved = await moveLegacyConflictRecords();
+  console.log(`${moved.papers} papers and ${moved.reviews} reviews updated.`);
+};
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,16 @@
+// Removes the submitting author's ID from review documents written before reviewers were kept from seeing it.
+// Usage: npm run migrate:review-owner-ids
+import { config } from 'dotenv';
+config({ path: ['.env.local', '.env'] });
+
+import { removeLegacyReviewOwnerIds } from '@/lib/reviewer-access';
+
+const main = async () => {
+  const updated = await removeLegacyReviewOwnerIds();
+  console.log(`${updated} review documents updated.`);
+};
+
+main().catch(error => {
+  console.error('Migration failed:', error);
+  process.exitCode = 1;
+});
@@ -2,4 +2,3 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/acceptance-probability.ts';
-import '@/ai/flows/plagiarism-check.ts';
\ No newline at end of file
@@ -5,13 +5,18 @@
  * @fileOverview Provides an AI flow to determine the acceptance probability score of a research paper.
  *
  * - acceptanceProbability - A function that takes paper content and returns an acceptance probability score.
+ * - runAcceptanceProbability - Same, plus the model and prompt version used, for recording the run.
  * - AcceptanceProbabilityInput - The input type for the acceptanceProbability function.
  * - AcceptanceProbabilityOutput - The return type for the acceptanceProbability function.
  */
 
 import {ai} from '@/ai/genkit';
+import {getConfiguredModelName} from '@/ai/providers';
 import {z} from 'genkit';
 
+// Bump whenever the prompt text or output schema changes, so recorded runs stay comparable.
+const PROMPT_VERSION = 'acceptance-v1';
+
 const AcceptanceProbabilityInputSchema = z.object({
   paperText: z.string().describe('The text content of the research paper.'),
 });
@@ -33,6 +38,13 @@ export async function acceptanceProbability(input: AcceptanceProbabilityInput):
   return acceptanceProbabilityFlow(input);
 }
 
+export async function runAcceptanceProbability(
+  input: AcceptanceProbabilityInput
+): Promise<{output: AcceptanceProbabilityOutput; model: string; promptVersion: string}> {
+  const output = await acceptanceProbabilityFlow(input);
+  return {output, model: getConfiguredModelName(), promptVersion: PROMPT_VERSION};
+}
+
 const acceptanceProbabilityPrompt = ai.definePrompt({
   name: 'acceptanceProbabilityPrompt',
   input: {schema: AcceptanceProbabilityInputSchema},
@@ -1,73 +0,0 @@
-// This is an experimental implementation that does not actually check for plagiarism.
-// Instead it calls an LLM to generate a plausible plagiarism score and some highlighted sections.
-// It should be replaced with a real plagiarism checking service.
-
-'use server';
-
-/**
- * @fileOverview Implements the plagiarism check flow using Genkit.
- *
- * - plagiarismCheck - The main function to check a document for plagiarism.
- * - PlagiarismCheckInput - Input type for the plagiarismCheck function.
- * - PlagiarismCheckOutput - Output type for the plagiarismCheck function.
- */
-
-import {ai} from '@/ai/genkit';
-import {z} from 'genkit';
-
-const PlagiarismCheckInputSchema = z.object({
-  documentUrl: z
-    .string()
-    .url()
-    .describe('The publicly accessible URL of the document to check for plagiarism.'),
-  fileName: z.string().optional().describe('The original name of the file, for context.'),
-});
-export type PlagiarismCheckInput = z.infer<typeof PlagiarismCheckInputSchema>;
-
-const PlagiarismCheckOutputSchema = z.object({
-  plagiarismScore: z
-    .number()
-    .min(0)
-    .max(1)
-    .describe(
-      'A score between 0 and 1 indicating the likelihood of plagiarism, where 1 is definite plagiarism.'
-    ),
-  highlightedSections: z
-    .array(z.string())
-    .describe(
-      'Sections of the document that may be plagiarized, highlighted for review.'
-    ),
-});
-export type PlagiarismCheckOutput = z.infer<typeof PlagiarismCheckOutputSchema>;
-
-export async function plagiarismCheck(input: PlagiarismCheckInput): Promise<PlagiarismCheckOutput> {
-  return plagiarismCheckFlow(input);
-}
-
-const plagiarismCheckPrompt = ai.definePrompt({
-  name: 'plagiarismCheckPrompt',
-  input: {schema: PlagiarismCheckInputSchema},
-  output: {schema: PlagiarismCheckOutputSchema},
-  prompt: `You are an AI plagiarism checker. Given a document accessible at the URL below, you will provide a plagiarism score and highlight potentially plagiarized sections.
-
-Document URL: {{{documentUrl}}}
-{{#if fileName}}
-Original File Name: {{{fileName}}}
-{{/if}}
-
-Return a plagiarism score between 0 and 1, where 1 indicates definite plagiarism. Highlight specific sections that appear to be copied or reused from the content accessible at the URL. If you cannot access the URL, state that and provide a placeholder score and message.
-
-Output in JSON format.`,
-});
-
-const plagiarismCheckFlow = ai.defineFlow(
-  {
-    name: 'plagiarismCheckFlow',
-    inputSchema: PlagiarismCheckInputSchema,
-    outputSchema: PlagiarismCheckOutputSchema,
-  },
-  async input => {
-    const {output} = await plagiarismCheckPrompt(input);
-    return output!;
-  }
-);
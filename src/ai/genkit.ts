@@ -1,8 +1,4 @@
-
 import {genkit} from 'genkit';
-import {googleAI} from '@genkit-ai/googleai';
+import {getGenkitOptions} from '@/ai/providers';
 
-export const ai = genkit({
-  plugins: [googleAI()],
-  model: 'googleai/gemini-2.0-flash',
-});
+export const ai = genkit(getGenkitOptions());
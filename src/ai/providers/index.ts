@@ -0,0 +1,35 @@
+import type { GenkitOptions } from 'genkit';
+import { googleAI } from '@genkit-ai/googleai';
+import { stubProvider, STUB_MODEL } from '@/ai/providers/stub';
+
+/**
+ * @fileOverview Selects the model provider for all flows from the AI_PROVIDER environment variable.
+ *
+ * - googleai (default) - Gemini through the Google AI plugin; needs GEMINI_API_KEY or GOOGLE_API_KEY.
+ * - stub - Offline deterministic model (see ./stub.ts) for air-gapped development and tests.
+ *
+ * AI_MODEL overrides the provider's default model name, e.g. "googleai/gemini-2.5-flash".
+ */
+
+export const AI_PROVIDERS = ['googleai', 'stub'] as const;
+export type AiProvider = typeof AI_PROVIDERS[number];
+
+const DEFAULT_MODELS: Record<AiProvider, string> = {
+  googleai: 'googleai/gemini-2.0-flash',
+  stub: STUB_MODEL,
+};
+
+export const getAiProvider = (): AiProvider => {
+  const configured = (process.env.AI_PROVIDER || 'googleai').trim().toLowerCase();
+  if (!(AI_PROVIDERS as readonly string[]).includes(configured)) {
+    throw new Error(`Unknown AI_PROVIDER "${configured}". Expected one of: ${AI_PROVIDERS.join(', ')}.`);
+  }
+  return configured as AiProvider;
+};
+
+export const getConfiguredModelName = (): string => process.env.AI_MODEL || DEFAULT_MODELS[getAiProvider()];
+
+export const getGenkitOptions = (): GenkitOptions => ({
+  plugins: [getAiProvider() === 'stub' ? stubProvider() : googleAI()],
+  model: getConfiguredModelName(),
+});
@@ -0,0 +1,115 @@
+import { genkitPlugin } from 'genkit/plugin';
+import type { GenerateRequest } from 'genkit/model';
+
+/**
+ * @fileOverview Offline model for development and tests without network access.
+ *
+ * The stub never looks at the meaning of the prompt. It builds a value that satisfies the
+ * requested output JSON schema (ranges, enums, required fields, array bounds), seeded by a hash
+ * of the prompt text, so the same input always produces the same output.
+ */
+
+export const STUB_MODEL = 'stub/deterministic';
+
+type JsonSchema = Record<string, any>;
+
+// 32-bit FNV-1a.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// A value in [0, 1) derived from the seed and the path of the field being generated.
+const unitValue = (seed: number, path: string) => hashString(`${seed}:${path}`) / 0x100000000;
+
+const resolveRef = (schema: JsonSchema, root: JsonSchema): JsonSchema => {
+  if (typeof schema.$ref !== 'string') return schema;
+  const target = schema.$ref
+    .replace(/^#\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .reduce((node: any, key: string) => node?.[key], root);
+  return target || {};
+};
+
+const generateValue = (rawSchema: JsonSchema, root: JsonSchema, seed: number, path: string): unknown => {
+  const schema = resolveRef(rawSchema, root);
+  if (schema.const !== undefined) return schema.const;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum[Math.floor(unitValue(seed, path) * schema.enum.length)];
+  }
+  const variants: JsonSchema[] | undefined = schema.anyOf || schema.oneOf;
+  if (variants && variants.length > 0) {
+    const nonNull = variants.find(variant => variant.type !== 'null');
+    return generateValue(nonNull || variants[0], root, seed, path);
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    return generateValue(Object.assign({}, ...schema.allOf), root, seed, path);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + 1e-6 : 0);
+      const max = schema.maximum ?? (schema.exclusiveMaximum !== undefined ? schema.exclusiveMaximum - 1e-6 : Math.max(min, 1) * 100);
+      const value = min + unitValue(seed, path) * (max - min);
+      return type === 'integer' ? Math.min(Math.ceil(value), Math.floor(max)) : Number(value.toFixed(2));
+    }
+    case 'boolean':
+      return unitValue(seed, path) >= 0.5;
+    case 'string': {
+      const text = `Stub ${path || 'response'} generated offline for testing (ref ${hashString(`${seed}:${path}`).toString(16)}).`;
+      const padded = schema.minLength && text.length < schema.minLength ? text.padEnd(schema.minLength, '.') : text;
+      return schema.maxLength ? padded.slice(0, schema.maxLength) : padded;
+    }
+    case 'array': {
+      const count = Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? 3);
+      return Array.from({ length: count }, (_, index) => generateValue(schema.items || {}, root, seed, `${path}[${index}]`));
+    }
+    case 'object': {
+      const properties: Record<string, JsonSchema> = schema.properties || {};
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, propertySchema]) => [key, generateValue(propertySchema, root, seed, path ? `${path}.${key}` : key)])
+      );
+    }
+    case 'null':
+      return null;
+    default:
+      return path ? null : {};
+  }
+};
+
+const promptText = (request: GenerateRequest) =>
+  request.messages
+    .flatMap(message => message.content)
+    .map(part => part.text || '')
+    .join('\n');
+
+export const generateStubResponse = (request: GenerateRequest): string => {
+  const seed = hashString(promptText(request));
+  const schema = request.output?.schema;
+  if (schema) {
+    return JSON.stringify(generateValue(schema, schema, seed, ''));
+  }
+  return `Stub response generated offline for testing (ref ${seed.toString(16)}).`;
+};
+
+export const stubProvider = () =>
+  genkitPlugin('stub', async ai => {
+    ai.defineModel(
+      {
+        name: STUB_MODEL,
+        label: 'Offline deterministic stub',
+        supports: { multiturn: true, systemRole: true, media: false, tools: false, output: ['text', 'json'], constrained: 'all' },
+      },
+      async request => ({
+        message: { role: 'model', content: [{ text: generateStubResponse(request) }] },
+        finishReason: 'stop',
+      })
+    );
+  });
@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import type { AuditAction, AuditEntry, AuditTargetType } from '@/types';
+import { getAuditLogPage, type AuditLogRange } from '@/lib/audit-service';
+import { AUDIT_ACTION_LABELS, AUDIT_TARGET_TYPE_LABELS, buildAuditLogCsv, formatAuditActor, formatAuditValues, matchesAuditSearch } from '@/lib/audit';
+import { downloadTextFile } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { History, Download, AlertTriangle, ArrowRight } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export default function AdminAuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [search, setSearch] = useState("");
+  const [actionFilter, setActionFilter] = useState<AuditAction | "all">("all");
+  const [targetTypeFilter, setTargetTypeFilter] = useState<AuditTargetType | "all">("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [nextCursor, setNextCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The date inputs are local days, so "to" runs until the start of the following day.
+  const range = useMemo((): AuditLogRange => {
+    const to = toDate ? new Date(`${toDate}T00:00:00`) : null;
+    to?.setDate(to.getDate() + 1);
+    return { from: fromDate ? new Date(`${fromDate}T00:00:00`) : null, to };
+  }, [fromDate, toDate]);
+
+  // The date range is applied in the query; older entries are loaded a page at a time.
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const page = await getAuditLogPage(range);
+        setEntries(page.entries);
+        setNextCursor(page.nextCursor);
+      } catch (err: any) {
+        setError(err.message || "Failed to load the audit log.");
+        toast({ variant: "destructive", title: "Error Loading Audit Log", description: err.message });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchEntries();
+  }, [range]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await getAuditLogPage(range, nextCursor);
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error Loading Audit Log", description: err.message || "Could not load older entries." });
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const filteredEntries = useMemo(() => entries.filter(entry => {
+    if (actionFilter !== "all" && entry.action !== actionFilter) return false;
+    if (targetTypeFilter !== "all" && entry.targetType !== targetTypeFilter) return false;
+    return matchesAuditSearch(entry, search);
+  }), [entries, actionFilter, targetTypeFilter, search]);
+
+  const handleExport = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`audit-log-${today}.csv`, buildAuditLogCsv(filteredEntries), 'text/csv');
+  };
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg w-full">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <History className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Audit Log</CardTitle>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={isLoading || filteredEntries.length === 0}>
+            <Download className="mr-2 h-4 w-4" /> Export CSV
+          </Button>
+        </div>
+        <CardDescription>
+          Privileged and status-changing actions, newest first. Entries cannot be edited or deleted. The export contains the loaded entries matching the current filters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-3 mb-4 sm:grid-cols-2 lg:grid-cols-5">
+          <div className="space-y-1 lg:col-span-2">
+            <Label htmlFor="audit-search">Search</Label>
+            <Input id="audit-search" value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Actor, target or value..." />
+          </div>
+          <div className="space-y-1">
+            <Label>Action</Label>
+            <Select value={actionFilter} onValueChange={(value) => setActionFilter(value as AuditAction | "all")}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Target</Label>
+            <Select value={targetTypeFilter} onValueChange={(value) => setTargetTypeFilter(value as AuditTargetType | "all")}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All targets</SelectItem>
+                {(Object.keys(AUDIT_TARGET_TYPE_LABELS) as AuditTargetType[]).map(targetType => (
+                  <SelectItem key={targetType} value={targetType}>{AUDIT_TARGET_TYPE_LABELS[targetType]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="audit-from">From</Label>
+              <Input id="audit-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-1 flex-1">
+              <Label htmlFor="audit-to">To</Label>
+              <Input id="audit-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+          </div>
+        </div>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-10">
+            <LoadingSpinner size={32} /> <p className="ml-2">Loading audit log...</p>
+          </div>
+        ) : (
+          <>
+            <p className="text-xs text-muted-foreground mb-2">
+              Showing {filteredEntries.length} of {entries.length} loaded entries.
+              {nextCursor
+                ? " Older entries in this period are not loaded yet, so search, filters and the export do not include them."
+                : " Every entry in this period is loaded."}
+            </p>
+            {filteredEntries.length === 0 ? (
+              <p className="text-muted-foreground text-center py-4">No entries match these filters.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Actor</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Target</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredEntries.map(entry => (
+                      <TableRow key={entry.id}>
+                        <TableCell className="text-xs whitespace-nowrap">{entry.createdAt ? new Date(entry.createdAt).toLocaleString() : "—"}</TableCell>
+                        <TableCell className="text-sm">
+                          {formatAuditActor(entry)}
+                          {entry.actorEmail && entry.actorName && <span className="block text-xs text-muted-foreground">{entry.actorEmail}</span>}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{AUDIT_ACTION_LABELS[entry.action] || entry.action}</TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          {entry.targetLabel || entry.targetId}
+                          <span className="block text-xs text-muted-foreground">{AUDIT_TARGET_TYPE_LABELS[entry.targetType] || entry.targetType} · {entry.targetId}</span>
+                        </TableCell>
+                        <TableCell className="text-xs max-w-md">
+                          {entry.before && <span className="block text-muted-foreground break-words">{formatAuditValues(entry.before)}</span>}
+                          {entry.before && entry.after && <ArrowRight className="h-3 w-3 my-1 text-muted-foreground" />}
+                          {entry.after && <span className="block break-words">{formatAuditValues(entry.after)}</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {nextCursor && (
+              <div className="flex justify-center mt-4">
+                <Button variant="outline" onClick={handleLoadMore} disabled={isLoadingMore}>
+                  {isLoadingMore ? "Loading..." : "Load older entries"}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -2,9 +2,9 @@
 "use client";
 
 import { useAuth } from "@/hooks/use-auth";
-import type { Paper, PaperStatus } from "@/types";
+import type { Paper, PaperStatus, Venue } from "@/types";
 import { Shield, BarChartHorizontalBig, AlertTriangle, Users, FileText as FileTextIcon, Clock, Info, LayoutDashboard } from "lucide-react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -13,42 +13,36 @@ import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { getAllPapers, updatePaperStatus } from "@/lib/paper-service";
+import { getVenues } from "@/lib/venue-service";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import CountdownTimer from "@/components/shared/CountdownTimer";
 import { toast } from "@/hooks/use-toast";
 
+// The status shown on the dashboard: a pending payment past its due date shows as overdue before the server marks it.
+type DashboardPaper = Paper & { displayStatus: PaperStatus };
+
 function AdminDashboardContent() {
   const { user, isAdmin, loading: authLoading } = useAuth();
-  const [papers, setPapers] = useState<Paper[]>([]);
+  const [papers, setPapers] = useState<DashboardPaper[]>([]);
   const [isLoadingPapers, setIsLoadingPapers] = useState(true);
-
-  const [stats, setStats] = useState({
-    totalSubmissions: 0,
-    pendingReview: 0,
-    issuesFound: 0,
-    paymentPending: 0,
-  });
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [venueFilter, setVenueFilter] = useState<string>("all"); // "all", "none" (papers without a venue) or a venue ID
 
   const fetchAndSetPapers = async () => {
     if (!authLoading && user && isAdmin) {
       setIsLoadingPapers(true);
       try {
-        const fetchedPapers = await getAllPapers(); // Fetch from Firestore
+        const [fetchedPapers, fetchedVenues] = await Promise.all([getAllPapers(), getVenues()]); // Fetch from Firestore
+        setVenues(fetchedVenues);
         const now = new Date();
-        const processedPapers = fetchedPapers.map(p => {
+        const processedPapers = fetchedPapers.map((p): DashboardPaper => {
           const paymentDueDateValid = p.paymentDueDate && !isNaN(new Date(p.paymentDueDate).getTime());
-          if (p.status === 'Payment Pending' && paymentDueDateValid && new Date(p.paymentDueDate!) < now) {
-            return { ...p, displayStatus: 'Payment Overdue' as PaperStatus };
+          if (p.status === 'Payment Pending' && paymentDueDateValid && p.feeWaiverStatus !== 'pending' && new Date(p.paymentDueDate!) < now) {
+            return { ...p, displayStatus: 'Payment Overdue' };
           }
           return { ...p, displayStatus: p.status };
         });
         setPapers(processedPapers);
-
-        const totalSubmissions = processedPapers.length;
-        const pendingReview = processedPapers.filter(p => p.status === 'Submitted' || p.status === 'Under Review').length;
-        const issuesFound = processedPapers.filter(p => p.status === 'Action Required' || (p.plagiarismScore && p.plagiarismScore > 0.15)).length;
-        const paymentPending = processedPapers.filter(p => p.status === 'Payment Pending' && !(p.displayStatus === 'Payment Overdue')).length;
-
-        setStats({ totalSubmissions, pendingReview, issuesFound, paymentPending });
       } catch (error: any) {
         // console.error("AdminDashboard: Error fetching papers from Firestore:", error);
         toast({ variant: "destructive", title: "Error Loading Papers", description: error.message || "Could not load papers for admin." });
@@ -69,6 +63,24 @@ function AdminDashboardContent() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, isAdmin, authLoading]);
 
+  const filteredPapers = useMemo(() => papers.filter(p =>
+    venueFilter === "all" || (venueFilter === "none" ? !p.venueId : p.venueId === venueFilter)
+  ), [papers, venueFilter]);
+
+  const stats = useMemo(() => ({
+    totalSubmissions: filteredPapers.length,
+    pendingReview: filteredPapers.filter(p => p.status === 'Submitted' || p.status === 'Under Review').length,
+    issuesFound: filteredPapers.filter(p => p.status === 'Action Required' || (p.plagiarismScore && p.plagiarismScore > 0.15)).length,
+    paymentPending: filteredPapers.filter(p => p.status === 'Payment Pending' && p.displayStatus !== 'Payment Overdue').length,
+  }), [filteredPapers]);
+
+  const venueName = (paper: Paper) => {
+    if (!paper.venueId) return null;
+    const venue = venues.find(v => v.id === paper.venueId);
+    const track = venue?.tracks.find(t => t.id === paper.trackId);
+    return venue ? `${venue.acronym || venue.name}${track ? ` · ${track.name}` : ''}` : 'Unknown venue';
+  };
+
   const getStatusBadgeVariant = (status: PaperStatus | undefined) => {
     switch (status) {
       case 'Accepted': case 'Published': return 'default';
@@ -83,15 +95,7 @@ function AdminDashboardContent() {
     const paperToNotify = papers.find(p => p.id === paperId);
     try {
       await updatePaperStatus(paperId, 'Rejected');
-      toast({title: "Paper Rejected", description: `Paper "${paperToNotify?.title || 'ID: '+paperId}" marked as rejected due to overdue payment.`});
-      if (paperToNotify) {
-        toast({
-          title: "Email Notification (Simulated)",
-          description: `An email notification about the rejection (due to non-payment) would be sent for paper: ${paperToNotify.title}.`,
-          variant: "default",
-          duration: 7000,
-        });
-      }
+      toast({title: "Paper Rejected", description: `Paper "${paperToNotify?.title || 'ID: '+paperId}" marked as rejected due to overdue payment. The author is notified by email.`});
       fetchAndSetPapers(); // Refresh paper list
     } catch (error: any) {
       toast({variant: "destructive", title: "Error Rejecting Paper", description: error.message || "Could not update paper status."});
@@ -148,6 +152,18 @@ function AdminDashboardContent() {
         <h1 className="text-3xl md:text-4xl font-bold tracking-tight flex items-center">
           <LayoutDashboard className="mr-3 h-8 w-8 text-primary" /> Dashboard Overview
         </h1>
+        <Select value={venueFilter} onValueChange={setVenueFilter}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All venues</SelectItem>
+            {venues.map(venue => (
+              <SelectItem key={venue.id} value={venue.id}>{venue.acronym || venue.name}</SelectItem>
+            ))}
+            <SelectItem value="none">No venue (older submissions)</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
@@ -199,8 +215,10 @@ function AdminDashboardContent() {
           <CardDescription>Review and manage all papers submitted to the platform.</CardDescription>
         </CardHeader>
         <CardContent>
-          {papers.length === 0 ? (
-            <p className="text-muted-foreground text-center py-4">No papers have been submitted to the platform yet.</p>
+          {filteredPapers.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">
+              {papers.length === 0 ? "No papers have been submitted to the platform yet." : "No papers match the selected venue."}
+            </p>
           ) : (
             <div className="overflow-x-auto">
               <Table>
@@ -208,6 +226,7 @@ function AdminDashboardContent() {
                   <TableRow>
                     <TableHead>Title</TableHead>
                     <TableHead>Author(s)</TableHead>
+                    <TableHead>Venue</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Uploaded</TableHead>
                     <TableHead>Payment Due</TableHead>
@@ -215,8 +234,8 @@ function AdminDashboardContent() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {papers.map((paper) => {
-                    const effectiveStatus = (paper as any).displayStatus || paper.status;
+                  {filteredPapers.map((paper) => {
+                    const effectiveStatus = paper.displayStatus;
                     const isPaymentOverdue = effectiveStatus === 'Payment Overdue';
                     
                     return (
@@ -225,6 +244,7 @@ function AdminDashboardContent() {
                           <Link href={`/papers/${paper.id}`} className="hover:text-primary">{paper.title}</Link>
                         </TableCell>
                         <TableCell className="max-w-xs truncate">{paper.authors.join(', ')}</TableCell>
+                        <TableCell className="text-sm">{venueName(paper) || <span className="text-muted-foreground">N/A</span>}</TableCell>
                         <TableCell>
                           <Badge variant={getStatusBadgeVariant(effectiveStatus)}>
                             {effectiveStatus}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { DiscountCode, FeeWaiverRequest, FeeWaiverStatus, Venue } from '@/types';
+import { createDiscountCode, getDiscountCodes, getFeeWaiverRequests, updateDiscountCode, type DiscountCodeInput } from '@/lib/discount-service';
+import { getVenues } from '@/lib/venue-service';
+import { decideFeeWaiver } from '@/lib/payment-actions';
+import { FEE_WAIVER_REASON_LABELS, FEE_WAIVER_STATUS_LABELS, formatDiscount } from '@/lib/discounts';
+import { formatFee, formatVenueName } from '@/lib/venue-schedule';
+import { auth } from '@/lib/firebase';
+import DiscountCodeForm from '@/components/payment/DiscountCodeForm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { BadgePercent, HandCoins, Plus, Pencil, Check, X, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+const WAIVER_BADGE_VARIANTS: Record<FeeWaiverStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+const isExpired = (code: DiscountCode) => !!code.expiresAt && new Date(code.expiresAt) <= new Date();
+
+export default function AdminDiscountsPage() {
+  const [discountCodes, setDiscountCodes] = useState<DiscountCode[]>([]);
+  const [waivers, setWaivers] = useState<FeeWaiverRequest[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [waiverFilter, setWaiverFilter] = useState<FeeWaiverStatus | "all">("pending");
+  const [decisionNotes, setDecisionNotes] = useState<Record<string, string>>({});
+  const [decidingWaiverId, setDecidingWaiverId] = useState<string | null>(null);
+  const [editingCode, setEditingCode] = useState<DiscountCode | "new" | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [fetchedCodes, fetchedWaivers, fetchedVenues] = await Promise.all([getDiscountCodes(), getFeeWaiverRequests(), getVenues()]);
+        setDiscountCodes(fetchedCodes);
+        setWaivers(fetchedWaivers);
+        setVenues(fetchedVenues);
+      } catch (err: any) {
+        setError(err.message || "Failed to load discounts and waivers.");
+        toast({ variant: "destructive", title: "Error Loading Discounts", description: err.message });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const handleSaveCode = async (code: string, input: DiscountCodeInput) => {
+    try {
+      if (editingCode && editingCode !== "new") {
+        const saved = await updateDiscountCode(editingCode.id, input);
+        setDiscountCodes(current => current.map(c => c.id === saved.id ? saved : c));
+        toast({ title: "Discount Code Updated", description: `${saved.id} has been saved.` });
+      } else {
+        const saved = await createDiscountCode(code, input);
+        setDiscountCodes(current => [saved, ...current]);
+        toast({ title: "Discount Code Created", description: `${saved.id} can now be redeemed.` });
+      }
+      setEditingCode(null);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error Saving Discount Code", description: err.message || "Could not save the discount code." });
+    }
+  };
+
+  const handleDecision = async (waiver: FeeWaiverRequest, approve: boolean) => {
+    if (!auth.currentUser) return;
+    setDecidingWaiverId(waiver.id);
+    try {
+      const decided = await decideFeeWaiver(await auth.currentUser.getIdToken(), waiver.id, approve, decisionNotes[waiver.id]);
+      setWaivers(current => current.map(w => w.id === decided.id ? decided : w));
+      toast({
+        title: approve ? "Fee Waived" : "Waiver Declined",
+        description: approve ? `"${waiver.paperTitle}" has been submitted without payment.` : `The fee for "${waiver.paperTitle}" is still due.`,
+      });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Decision Not Saved", description: err.message || "Could not decide the fee waiver request." });
+    } finally {
+      setDecidingWaiverId(null);
+    }
+  };
+
+  const venueNames = (venueIds?: string[] | null) => {
+    if (!venueIds?.length) return "All venues";
+    return venueIds.map(id => {
+      const venue = venues.find(v => v.id === id);
+      return venue ? formatVenueName(venue) : id;
+    }).join(', ');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading discounts and waivers...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const filteredWaivers = waiverFilter === "all" ? waivers : waivers.filter(w => w.status === waiverFilter);
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <HandCoins className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Fee Waiver Requests</CardTitle>
+            </div>
+            <Select value={waiverFilter} onValueChange={(value) => setWaiverFilter(value as FeeWaiverStatus | "all")}>
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All requests</SelectItem>
+                {(Object.keys(FEE_WAIVER_STATUS_LABELS) as FeeWaiverStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{FEE_WAIVER_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <CardDescription>Approving a request submits the paper without payment. The author sees your note either way.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredWaivers.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No fee waiver requests to show.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Requested</TableHead>
+                    <TableHead>Paper</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Decision</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredWaivers.map(waiver => (
+                    <TableRow key={waiver.id}>
+                      <TableCell className="text-xs whitespace-nowrap">{new Date(waiver.requestedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">
+                        <Link href={`/papers/${waiver.paperId}`} className="hover:text-primary">{waiver.paperTitle || waiver.paperId}</Link>
+                        <span className="block text-xs text-muted-foreground">{waiver.authorName}</span>
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        {FEE_WAIVER_REASON_LABELS[waiver.reason]}{waiver.country && ` (${waiver.country})`}
+                        <span className="block text-xs text-muted-foreground whitespace-pre-wrap">{waiver.justification}</span>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatFee(waiver.submissionFee, waiver.currency)}</TableCell>
+                      <TableCell>
+                        <Badge variant={WAIVER_BADGE_VARIANTS[waiver.status]}>{FEE_WAIVER_STATUS_LABELS[waiver.status]}</Badge>
+                        {waiver.decisionNote && <span className="block text-xs text-muted-foreground mt-1">{waiver.decisionNote}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {waiver.status === "pending" ? (
+                          <div className="flex flex-col items-end gap-2">
+                            <Input
+                              placeholder="Note to the author (optional)"
+                              value={decisionNotes[waiver.id] || ""}
+                              onChange={(e) => setDecisionNotes(current => ({ ...current, [waiver.id]: e.target.value }))}
+                              disabled={decidingWaiverId === waiver.id}
+                              className="h-8 w-56"
+                            />
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={() => handleDecision(waiver, true)} disabled={decidingWaiverId === waiver.id}>
+                                {decidingWaiverId === waiver.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />} Approve
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleDecision(waiver, false)} disabled={decidingWaiverId === waiver.id}>
+                                <X className="mr-2 h-4 w-4" /> Decline
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{waiver.decidedAt ? new Date(waiver.decidedAt).toLocaleString() : "—"}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingCode && (
+        <Card className="shadow-lg w-full">
+          <CardHeader>
+            <CardTitle className="text-xl">{editingCode === "new" ? "New Discount Code" : `Edit ${editingCode.id}`}</CardTitle>
+            <CardDescription>Changes apply to redemptions from now on; fees already discounted are not recalculated.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DiscountCodeForm
+              key={editingCode === "new" ? "new" : editingCode.id}
+              discountCode={editingCode === "new" ? null : editingCode}
+              venues={venues}
+              onSubmit={handleSaveCode}
+              onCancel={() => setEditingCode(null)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <BadgePercent className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Discount Codes</CardTitle>
+            </div>
+            <Button onClick={() => setEditingCode("new")} disabled={editingCode === "new"}>
+              <Plus className="mr-2 h-4 w-4" /> New Code
+            </Button>
+          </div>
+          <CardDescription>Codes authors can enter when paying the submission fee. ({discountCodes.length} codes)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {discountCodes.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No discount codes yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Code</TableHead>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Venues</TableHead>
+                    <TableHead>Uses</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discountCodes.map(code => (
+                    <TableRow key={code.id}>
+                      <TableCell className="font-mono font-medium">
+                        {code.id}
+                        {code.description && <span className="block font-sans text-xs text-muted-foreground">{code.description}</span>}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDiscount(code)}</TableCell>
+                      <TableCell className="text-sm">{venueNames(code.venueIds)}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {code.redemptionCount}{code.maxRedemptions != null ? ` / ${code.maxRedemptions}` : ""}
+                        {code.maxRedemptionsPerAuthor != null && <span className="block text-xs text-muted-foreground">{code.maxRedemptionsPerAuthor} per author</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">{code.expiresAt ? new Date(code.expiresAt).toLocaleString() : "Never"}</TableCell>
+                      <TableCell>
+                        {!code.isActive
+                          ? <Badge variant="secondary">Inactive</Badge>
+                          : isExpired(code)
+                            ? <Badge variant="outline">Expired</Badge>
+                            : <Badge variant="default">Active</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setEditingCode(code)}>
+                          <Pencil className="mr-2 h-4 w-4" /> Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { EmailMessage, EmailMessageStatus } from '@/types';
+import { getEmailOutbox } from '@/lib/email-service';
+import { deliverDueEmails, retryOutboxEmail } from '@/lib/email-actions';
+import { EMAIL_MESSAGE_STATUS_BADGE_VARIANTS, EMAIL_MESSAGE_STATUS_LABELS, EMAIL_TEMPLATE_LABELS } from '@/lib/email-templates';
+import { auth } from '@/lib/firebase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Mail, Send, RotateCw, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export default function AdminEmailOutboxPage() {
+  const [messages, setMessages] = useState<EmailMessage[]>([]);
+  const [statusFilter, setStatusFilter] = useState<EmailMessageStatus | "all">("all");
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [isDelivering, setIsDelivering] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMessages = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setMessages(await getEmailOutbox());
+    } catch (err: any) {
+      setError(err.message || "Failed to load the email outbox.");
+      toast({ variant: "destructive", title: "Error Loading Emails", description: err.message });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMessages();
+  }, []);
+
+  const filteredMessages = useMemo(
+    () => messages.filter(message => statusFilter === "all" || message.status === statusFilter),
+    [messages, statusFilter]
+  );
+  const failedCount = messages.filter(message => message.status === "failed").length;
+
+  const handleDeliver = async () => {
+    if (!auth.currentUser) return;
+    setIsDelivering(true);
+    try {
+      const summary = await deliverDueEmails(await auth.currentUser.getIdToken());
+      toast({ title: "Outbox Processed", description: `${summary.checked} due: ${summary.sent} sent, ${summary.retrying} will be retried, ${summary.failed} failed.` });
+      await fetchMessages();
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Delivery Failed", description: err.message || "Could not process the outbox." });
+    } finally {
+      setIsDelivering(false);
+    }
+  };
+
+  const handleRetry = async (message: EmailMessage) => {
+    if (!auth.currentUser) return;
+    setRetryingId(message.id);
+    try {
+      const updated = await retryOutboxEmail(await auth.currentUser.getIdToken(), message.id);
+      setMessages(current => current.map(m => m.id === updated.id ? updated : m));
+      toast(updated.status === "sent"
+        ? { title: "Email Sent", description: `"${updated.subject}" was delivered to ${updated.to}.` }
+        : { variant: "destructive", title: "Email Not Sent", description: updated.lastError || "The delivery failed again." });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Retry Failed", description: err.message || "Could not retry the email." });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading email outbox...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg w-full">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Mail className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Email Outbox</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as EmailMessageStatus | "all")}>
+              <SelectTrigger className="w-[150px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All emails</SelectItem>
+                {(Object.keys(EMAIL_MESSAGE_STATUS_LABELS) as EmailMessageStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{EMAIL_MESSAGE_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleDeliver} disabled={isDelivering}>
+              {isDelivering ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />} Deliver Due Emails
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Notifications to authors and reviewers, newest first. Failed deliveries are retried automatically with increasing delays; emails that still fail are marked failed and can be retried here.
+          {failedCount > 0 && ` ${failedCount} failed.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {filteredMessages.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No emails to show.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredMessages.map(message => (
+                  <TableRow key={message.id}>
+                    <TableCell className="text-xs whitespace-nowrap">{new Date(message.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">{message.to}</TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      {message.subject}
+                      <span className="block text-xs text-muted-foreground">{EMAIL_TEMPLATE_LABELS[message.template]}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={EMAIL_MESSAGE_STATUS_BADGE_VARIANTS[message.status]}>{EMAIL_MESSAGE_STATUS_LABELS[message.status]}</Badge>
+                      <span className="block text-xs text-muted-foreground mt-1">
+                        {message.status === "sent" && message.sentAt
+                          ? `${new Date(message.sentAt).toLocaleString()} via ${message.transport}`
+                          : `${message.attempts} attempt${message.attempts === 1 ? "" : "s"}`}
+                      </span>
+                      {message.status !== "sent" && message.lastError && (
+                        <span className="block text-xs text-destructive mt-1 max-w-xs truncate" title={message.lastError}>{message.lastError}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {message.status !== "sent" && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRetry(message)} disabled={retryingId === message.id}>
+                          {retryingId === message.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCw className="mr-2 h-4 w-4" />} Retry Now
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
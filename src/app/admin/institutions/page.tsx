@@ -0,0 +1,277 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { Institution, InstitutionInvoice, User } from '@/types';
+import type { InstitutionInput } from '@/lib/institution-membership';
+import { getInstitutionInvoices, getInstitutions } from '@/lib/institution-service';
+import { getAllUsers } from '@/lib/user-service';
+import { invoiceInstitution, recordInstitutionInvoicePayment, saveInstitution } from '@/lib/institution-actions';
+import { getRemainingInstitutionSubmissions, isInstitutionPeriodActive } from '@/lib/institutions';
+import { downloadInstitutionInvoicePdf } from '@/lib/invoice-pdf';
+import { formatFee } from '@/lib/venue-schedule';
+import { auth } from '@/lib/firebase';
+import InstitutionForm from '@/components/institutions/InstitutionForm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Building, Receipt, Plus, Pencil, FileDown, Check, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export default function AdminInstitutionsPage() {
+  const [institutions, setInstitutions] = useState<Institution[]>([]);
+  const [invoices, setInvoices] = useState<InstitutionInvoice[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [editingInstitution, setEditingInstitution] = useState<Institution | "new" | null>(null);
+  const [invoicingId, setInvoicingId] = useState<string | null>(null);
+  const [paymentReferences, setPaymentReferences] = useState<Record<string, string>>({});
+  const [recordingInvoiceId, setRecordingInvoiceId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [fetchedInstitutions, fetchedInvoices, fetchedUsers] = await Promise.all([getInstitutions(), getInstitutionInvoices(), getAllUsers()]);
+        setInstitutions(fetchedInstitutions);
+        setInvoices(fetchedInvoices);
+        setUsers(fetchedUsers);
+      } catch (err: any) {
+        setError(err.message || "Failed to load institutions.");
+        toast({ variant: "destructive", title: "Error Loading Institutions", description: err.message });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const adminEmailsOf = (institution: Institution): string[] =>
+    institution.adminIds.map(uid => users.find(u => u.id === uid)?.email || "").filter(Boolean);
+
+  const handleSave = async (input: InstitutionInput) => {
+    if (!auth.currentUser) return;
+    const institutionId = editingInstitution && editingInstitution !== "new" ? editingInstitution.id : null;
+    try {
+      const saved = await saveInstitution(await auth.currentUser.getIdToken(), institutionId, input);
+      setInstitutions(current => institutionId
+        ? current.map(i => i.id === saved.id ? saved : i)
+        : [...current, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setUsers(await getAllUsers());
+      setEditingInstitution(null);
+      toast({ title: institutionId ? "Institution Updated" : "Institution Created", description: `${saved.name} has been saved.` });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error Saving Institution", description: err.message || "Could not save the institution." });
+    }
+  };
+
+  const handleIssueInvoice = async (institution: Institution) => {
+    if (!auth.currentUser) return;
+    setInvoicingId(institution.id);
+    try {
+      const invoice = await invoiceInstitution(await auth.currentUser.getIdToken(), institution.id);
+      setInvoices(current => [invoice, ...current]);
+      toast({ title: "Invoice Issued", description: `${invoice.number} bills ${invoice.paperIds.length} submission${invoice.paperIds.length === 1 ? "" : "s"} to ${institution.name}.` });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Invoice Not Issued", description: err.message || "Could not issue the invoice." });
+    } finally {
+      setInvoicingId(null);
+    }
+  };
+
+  const handleRecordPayment = async (invoice: InstitutionInvoice) => {
+    if (!auth.currentUser) return;
+    setRecordingInvoiceId(invoice.id);
+    try {
+      const updated = await recordInstitutionInvoicePayment(await auth.currentUser.getIdToken(), invoice.id, paymentReferences[invoice.id] || "");
+      setInvoices(current => current.map(i => i.id === updated.id ? updated : i));
+      toast({ title: "Payment Recorded", description: `${invoice.number} is marked as paid.` });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Payment Not Recorded", description: err.message || "Could not update the invoice." });
+    } finally {
+      setRecordingInvoiceId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading institutions...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {editingInstitution && (
+        <Card className="shadow-lg w-full">
+          <CardHeader>
+            <CardTitle className="text-xl">{editingInstitution === "new" ? "New Institution" : `Edit ${editingInstitution.name}`}</CardTitle>
+            <CardDescription>Admins must already have an account; they take a seat and can invite the rest of their members.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <InstitutionForm
+              key={editingInstitution === "new" ? "new" : editingInstitution.id}
+              institution={editingInstitution === "new" ? null : editingInstitution}
+              adminEmails={editingInstitution === "new" ? [] : adminEmailsOf(editingInstitution)}
+              onSubmit={handleSave}
+              onCancel={() => setEditingInstitution(null)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Building className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Institutions</CardTitle>
+            </div>
+            <Button onClick={() => setEditingInstitution("new")} disabled={editingInstitution === "new"}>
+              <Plus className="mr-2 h-4 w-4" /> New Institution
+            </Button>
+          </div>
+          <CardDescription>Members&apos; submissions are covered by the institution&apos;s allowance and billed on a consolidated invoice. ({institutions.length} institutions)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {institutions.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No institutions yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Institution</TableHead>
+                    <TableHead>Seats</TableHead>
+                    <TableHead>Submissions</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {institutions.map(institution => {
+                    const isActive = isInstitutionPeriodActive(institution);
+                    return (
+                      <TableRow key={institution.id}>
+                        <TableCell className="text-sm">
+                          {institution.name}
+                          <span className="block text-xs text-muted-foreground">{institution.emailDomains.join(", ") || "Invite only"}</span>
+                        </TableCell>
+                        <TableCell>{institution.memberIds.length} / {institution.seatLimit}</TableCell>
+                        <TableCell>
+                          {institution.submissionsUsed} / {institution.submissionAllowance}
+                          <span className="block text-xs text-muted-foreground">{formatFee(institution.submissionRate, institution.currency)} each</span>
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {new Date(institution.periodStart).toLocaleDateString()} – {new Date(institution.periodEnd).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={isActive ? "default" : "outline"}>{isActive ? "Active" : institution.isActive ? "Outside period" : "Inactive"}</Badge>
+                          {isActive && getRemainingInstitutionSubmissions(institution) === 0 && <span className="block text-xs text-muted-foreground mt-1">Allowance used up</span>}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingInstitution(institution)}>
+                            <Pencil className="mr-2 h-4 w-4" /> Edit
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => handleIssueInvoice(institution)} disabled={invoicingId === institution.id}>
+                            {invoicingId === institution.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Receipt className="mr-2 h-4 w-4" />} Invoice
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Receipt className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Consolidated Invoices</CardTitle>
+          </div>
+          <CardDescription>Each invoice bills the covered submissions not on an earlier invoice, at the institution&apos;s current rate.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No consolidated invoices issued yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Institution</TableHead>
+                    <TableHead>Submissions</TableHead>
+                    <TableHead>Total</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Payment</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map(invoice => (
+                    <TableRow key={invoice.id}>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        <Button variant="link" className="h-auto p-0" onClick={() => downloadInstitutionInvoicePdf(invoice)}>
+                          <FileDown className="mr-1 h-4 w-4" /> {invoice.number}
+                        </Button>
+                        <span className="block text-xs text-muted-foreground">{new Date(invoice.issuedAt).toLocaleDateString()}</span>
+                      </TableCell>
+                      <TableCell className="text-sm">{invoice.institutionName}</TableCell>
+                      <TableCell>{invoice.paperIds.length}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatFee(invoice.gst.total, invoice.currency)}</TableCell>
+                      <TableCell>
+                        <Badge variant={invoice.status === "paid" ? "default" : "secondary"}>{invoice.status === "paid" ? "Paid" : "Unpaid"}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {invoice.status === "unpaid" ? (
+                          <div className="flex justify-end gap-2">
+                            <Input
+                              placeholder="Bank reference"
+                              value={paymentReferences[invoice.id] || ""}
+                              onChange={(e) => setPaymentReferences(current => ({ ...current, [invoice.id]: e.target.value }))}
+                              disabled={recordingInvoiceId === invoice.id}
+                              className="h-8 w-40"
+                            />
+                            <Button size="sm" onClick={() => handleRecordPayment(invoice)} disabled={recordingInvoiceId === invoice.id}>
+                              {recordingInvoiceId === invoice.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />} Mark Paid
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">
+                            {invoice.paidAt && new Date(invoice.paidAt).toLocaleDateString()}{invoice.paymentReference && ` · ${invoice.paymentReference}`}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@ import React from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
-import { Shield, Users, LayoutDashboard, FileText as FileTextIcon, UserCheck, Eye } from 'lucide-react';
+import { Shield, Users, LayoutDashboard, FileText as FileTextIcon, UserCheck, Eye, Landmark, Settings, Receipt, BadgePercent, Award, Building, Mail, History } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 
@@ -18,6 +18,14 @@ const adminNavLinks = [
   { href: '/admin/users', label: 'User Management', icon: <Users className="mr-2 h-5 w-5" /> },
   { href: '/admin/registered-admins', label: 'Registered Admins', icon: <UserCheck className="mr-2 h-5 w-5" /> },
   { href: '/admin/reviewers', label: 'Reviewer Management', icon: <Eye className="mr-2 h-5 w-5" /> },
+  { href: '/admin/venues', label: 'Venues', icon: <Landmark className="mr-2 h-5 w-5" /> },
+  { href: '/admin/payments', label: 'Payments', icon: <Receipt className="mr-2 h-5 w-5" /> },
+  { href: '/admin/discounts', label: 'Discounts & Waivers', icon: <BadgePercent className="mr-2 h-5 w-5" /> },
+  { href: '/admin/subscriptions', label: 'Subscriptions', icon: <Award className="mr-2 h-5 w-5" /> },
+  { href: '/admin/institutions', label: 'Institutions', icon: <Building className="mr-2 h-5 w-5" /> },
+  { href: '/admin/emails', label: 'Email Outbox', icon: <Mail className="mr-2 h-5 w-5" /> },
+  { href: '/admin/audit', label: 'Audit Log', icon: <History className="mr-2 h-5 w-5" /> },
+  { href: '/admin/settings', label: 'Settings', icon: <Settings className="mr-2 h-5 w-5" /> },
 ];
 
 export default function AdminLayout({ children }: AdminLayoutProps) {
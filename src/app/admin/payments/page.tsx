@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import type { Invoice, PaymentRecord, PaymentStatus } from '@/types';
+import { getAllInvoices, getAllPayments } from '@/lib/payment-service';
+import { buildPaymentsCsv, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_BADGE_VARIANTS, PAYMENT_STATUS_LABELS } from '@/lib/payment-records';
+import { downloadInvoicePdf } from '@/lib/invoice-pdf';
+import { formatFee } from '@/lib/venue-schedule';
+import { downloadTextFile } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Receipt, Download, FileText, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export default function AdminPaymentsPage() {
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PaymentStatus | "all">("all");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getAllPayments(), getAllInvoices()])
+      .then(([fetchedPayments, fetchedInvoices]) => {
+        setPayments(fetchedPayments);
+        setInvoices(fetchedInvoices);
+      })
+      .catch((err: any) => {
+        setError(err.message || "Failed to load payments.");
+        toast({ variant: "destructive", title: "Error Loading Payments", description: err.message });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const invoicesByPayment = useMemo(() => new Map(invoices.map(invoice => [invoice.paymentId, invoice])), [invoices]);
+  const filteredPayments = useMemo(
+    () => statusFilter === "all" ? payments : payments.filter(payment => payment.status === statusFilter),
+    [payments, statusFilter],
+  );
+  const totalsByCurrency = useMemo(() => {
+    const totals = new Map<string, number>();
+    payments.filter(payment => payment.status === "paid").forEach(payment => {
+      totals.set(payment.currency, (totals.get(payment.currency) || 0) + payment.amount);
+    });
+    return Array.from(totals.entries());
+  }, [payments]);
+
+  const handleExport = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    downloadTextFile(`payments-${statusFilter}-${today}.csv`, buildPaymentsCsv(filteredPayments, invoices), 'text/csv');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading payments...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="flex items-center gap-2">
+            <Receipt className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Payments & Invoices</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as PaymentStatus | "all")}>
+              <SelectTrigger className="w-[180px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All payments</SelectItem>
+                {(Object.keys(PAYMENT_STATUS_LABELS) as PaymentStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleExport} disabled={filteredPayments.length === 0}>
+              <Download className="mr-2 h-4 w-4" /> Export CSV
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          Submission fee payments and the invoices issued for them. ({payments.length} payments, {invoices.length} invoices
+          {totalsByCurrency.length > 0 && `; collected ${totalsByCurrency.map(([currency, total]) => formatFee(total, currency)).join(", ")}`})
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {filteredPayments.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No payments found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Paper</TableHead>
+                  <TableHead>Payer</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Invoice</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredPayments.map(payment => {
+                  const invoice = invoicesByPayment.get(payment.id);
+                  return (
+                    <TableRow key={payment.id}>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {new Date(payment.paidAt || payment.createdAt).toLocaleString()}
+                        <span className="block text-muted-foreground">{payment.gateway}: {payment.gatewayPaymentId || payment.gatewayOrderId}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Link href={`/papers/${payment.paperId}`} className="hover:text-primary text-sm">{invoice?.paperTitle || payment.paperId}</Link>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {payment.payer?.name || "—"}
+                        {payment.payer?.gstin && <span className="block text-xs text-muted-foreground">GSTIN {payment.payer.gstin}</span>}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatFee(payment.amount, payment.currency)}
+                        {!!payment.refundedAmount && <span className="block text-xs text-muted-foreground">Refunded {formatFee(payment.refundedAmount, payment.currency)}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">{payment.method ? PAYMENT_METHOD_LABELS[payment.method] : "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={PAYMENT_STATUS_BADGE_VARIANTS[payment.status]}>{PAYMENT_STATUS_LABELS[payment.status]}</Badge>
+                        {payment.failureReason && <span className="block text-xs text-destructive mt-1">{payment.failureReason}</span>}
+                      </TableCell>
+                      <TableCell>
+                        {invoice ? (
+                          <Button variant="link" size="sm" className="h-auto p-0" onClick={() => downloadInvoicePdf(invoice)}>
+                            <FileText className="mr-1 h-3 w-3" /> {invoice.number}
+                          </Button>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">{payment.paidAt ? "Not issued" : "—"}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
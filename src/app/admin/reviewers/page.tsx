@@ -4,6 +4,9 @@
 import { useEffect, useState } from 'react';
 import type { User } from '@/types';
 import { getAllUsers } from '@/lib/user-service';
+import { getAllPapers } from '@/lib/paper-service';
+import { getSubmittedReviews } from '@/lib/review-service';
+import { collectReviewedPapers, type ReviewedPaper } from '@/lib/reviewer-matching';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
@@ -14,6 +17,7 @@ import { toast } from '@/hooks/use-toast';
 
 export default function ReviewerManagementPage() {
   const [reviewerUsers, setReviewerUsers] = useState<User[]>([]);
+  const [reviewedPapers, setReviewedPapers] = useState<Record<string, ReviewedPaper[]>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -22,9 +26,10 @@ export default function ReviewerManagementPage() {
       setIsLoading(true);
       setError(null);
       try {
-        const allUsers = await getAllUsers();
+        const [allUsers, submittedReviews, papers] = await Promise.all([getAllUsers(), getSubmittedReviews(), getAllPapers()]);
         const filteredReviewers = allUsers.filter(user => user.role === "Reviewer");
         setReviewerUsers(filteredReviewers);
+        setReviewedPapers(collectReviewedPapers(submittedReviews, papers));
       } catch (err: any) {
         // console.error("ReviewerManagementPage: Error fetching users:", err);
         setError(err.message || "Failed to load reviewer users.");
@@ -77,6 +82,8 @@ export default function ReviewerManagementPage() {
                     <TableHead>Email</TableHead>
                     <TableHead>Username</TableHead>
                     <TableHead>Institution</TableHead>
+                    <TableHead>Expertise</TableHead>
+                    <TableHead>Papers Reviewed</TableHead>
                     <TableHead>Joined</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -87,6 +94,23 @@ export default function ReviewerManagementPage() {
                       <TableCell>{user.email || 'N/A'}</TableCell>
                       <TableCell>{user.username || 'N/A'}</TableCell>
                       <TableCell>{user.institution || 'N/A'}</TableCell>
+                      <TableCell>
+                        {user.expertiseKeywords && user.expertiseKeywords.length > 0 ? (
+                          <div className="flex flex-wrap gap-1 max-w-xs">
+                            {user.expertiseKeywords.map(keyword => <Badge key={keyword} variant="secondary">{keyword}</Badge>)}
+                          </div>
+                        ) : 'Not provided'}
+                      </TableCell>
+                      <TableCell>
+                        {(reviewedPapers[user.id] || []).length === 0 ? '0' : (
+                          <div className="max-w-xs">
+                            <span className="font-medium">{reviewedPapers[user.id].length}</span>
+                            <ul className="text-xs text-muted-foreground list-disc list-inside">
+                              {reviewedPapers[user.id].slice(0, 3).map(paper => <li key={paper.id} className="truncate">{paper.title}</li>)}
+                            </ul>
+                          </div>
+                        )}
+                      </TableCell>
                       <TableCell>{user.createdAt ? new Date(user.createdAt as string).toLocaleDateString() : 'N/A'}</TableCell>
                     </TableRow>
                   ))}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { PaymentPolicy, Venue } from '@/types';
+import { getVenues, updateVenue } from '@/lib/venue-service';
+import { formatVenueName } from '@/lib/venue-schedule';
+import { DEFAULT_PAYMENT_POLICY, formatGracePeriod, OVERDUE_PAYMENT_ACTION_LABELS } from '@/lib/payment-policy';
+import PaymentPolicyForm from '@/components/venues/PaymentPolicyForm';
+import PaymentEnforcementRuns from '@/components/payment/PaymentEnforcementRuns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Settings, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export default function AdminSettingsPage() {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getVenues()
+      .then(setVenues)
+      .catch((err: any) => {
+        setError(err.message || "Failed to load venues.");
+        toast({ variant: "destructive", title: "Error Loading Venues", description: err.message });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleSavePolicy = async (venue: Venue, paymentPolicy: PaymentPolicy) => {
+    try {
+      const saved = await updateVenue(venue.id, { paymentPolicy });
+      setVenues(current => current.map(v => v.id === saved.id ? saved : v));
+      toast({ title: "Payment Settings Saved", description: `New submissions to ${saved.name} get ${formatGracePeriod(paymentPolicy.gracePeriodHours)} to pay.` });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error Saving Settings", description: err.message || "Could not save payment settings." });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading settings...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Settings className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Payment Settings</CardTitle>
+          </div>
+          <CardDescription>
+            How long authors who choose &quot;Pay Later&quot; have to pay, when they are reminded, and what happens to unpaid papers.
+            Changes apply to papers that enter &quot;Payment Pending&quot; from now on. Papers without a venue use the default:{" "}
+            {formatGracePeriod(DEFAULT_PAYMENT_POLICY.gracePeriodHours)}, {OVERDUE_PAYMENT_ACTION_LABELS[DEFAULT_PAYMENT_POLICY.overdueAction].toLowerCase()}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {venues.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No venues yet. Create one under Venues to configure its payment settings.</p>
+          ) : (
+            venues.map(venue => (
+              <div key={venue.id} className="rounded-md border p-4 space-y-3">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-semibold">{formatVenueName(venue)}</h3>
+                  {!venue.paymentPolicy && <Badge variant="secondary">Default</Badge>}
+                </div>
+                <PaymentPolicyForm policy={venue.paymentPolicy || DEFAULT_PAYMENT_POLICY} onSubmit={(policy) => handleSavePolicy(venue, policy)} />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <PaymentEnforcementRuns />
+    </div>
+  );
+}
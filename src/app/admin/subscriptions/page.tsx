@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { SubscriptionRequest, SubscriptionRequestStatus, User } from '@/types';
+import { getSubscriptionRequests } from '@/lib/subscription-service';
+import { getAllUsers } from '@/lib/user-service';
+import { decideSubscription } from '@/lib/payment-actions';
+import {
+  getRemainingSubmissions,
+  isSubscriptionActive,
+  SUBSCRIPTION_PAYMENT_METHOD_LABELS,
+  SUBSCRIPTION_PLANS,
+  SUBSCRIPTION_REQUEST_STATUS_BADGE_VARIANTS,
+  SUBSCRIPTION_REQUEST_STATUS_LABELS,
+} from '@/lib/subscriptions';
+import { formatFee } from '@/lib/venue-schedule';
+import { auth } from '@/lib/firebase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Award, Landmark, Check, X, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+export default function AdminSubscriptionsPage() {
+  const [requests, setRequests] = useState<SubscriptionRequest[]>([]);
+  const [subscribers, setSubscribers] = useState<User[]>([]);
+  const [requestFilter, setRequestFilter] = useState<SubscriptionRequestStatus | "all">("pending");
+  const [decisionNotes, setDecisionNotes] = useState<Record<string, string>>({});
+  const [decidingRequestId, setDecidingRequestId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSubscribers = async () => {
+    const users = await getAllUsers();
+    setSubscribers(users
+      .filter(u => u.subscription)
+      .sort((a, b) => b.subscription!.endDate.localeCompare(a.subscription!.endDate)));
+  };
+
+  useEffect(() => {
+    const fetchData = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [fetchedRequests] = await Promise.all([getSubscriptionRequests(), loadSubscribers()]);
+        setRequests(fetchedRequests);
+      } catch (err: any) {
+        setError(err.message || "Failed to load subscriptions.");
+        toast({ variant: "destructive", title: "Error Loading Subscriptions", description: err.message });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, []);
+
+  const handleDecision = async (request: SubscriptionRequest, approve: boolean) => {
+    if (!auth.currentUser) return;
+    setDecidingRequestId(request.id);
+    try {
+      const decided = await decideSubscription(await auth.currentUser.getIdToken(), request.id, approve, decisionNotes[request.id]);
+      setRequests(current => current.map(r => r.id === decided.id ? decided : r));
+      toast({
+        title: approve ? "Subscription Activated" : "Payment Declined",
+        description: approve ? `${request.userName}'s subscription is now active.` : `${request.userName} can send corrected payment details.`,
+      });
+      if (approve) {
+        await loadSubscribers();
+      }
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Decision Not Saved", description: err.message || "Could not decide the subscription request." });
+    } finally {
+      setDecidingRequestId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading subscriptions...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  const filteredRequests = requestFilter === "all" ? requests : requests.filter(r => r.status === requestFilter);
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Landmark className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Subscription Payments</CardTitle>
+            </div>
+            <Select value={requestFilter} onValueChange={(value) => setRequestFilter(value as SubscriptionRequestStatus | "all")}>
+              <SelectTrigger className="w-52"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All payments</SelectItem>
+                {(Object.keys(SUBSCRIPTION_REQUEST_STATUS_LABELS) as SubscriptionRequestStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{SUBSCRIPTION_REQUEST_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <CardDescription>Check each reference against the bank statement before confirming. Confirming activates the subscription, or renews it if it is still running.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredRequests.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No subscription payments to show.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reported</TableHead>
+                    <TableHead>Subscriber</TableHead>
+                    <TableHead>Transfer</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Decision</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredRequests.map(request => (
+                    <TableRow key={request.id}>
+                      <TableCell className="text-xs whitespace-nowrap">{new Date(request.requestedAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">
+                        {request.userName}
+                        <span className="block text-xs text-muted-foreground">{request.userEmail}</span>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <span className="font-mono">{request.transactionReference}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {SUBSCRIPTION_PAYMENT_METHOD_LABELS[request.paymentMethod]} · paid {new Date(request.paidOn).toLocaleDateString()}
+                        </span>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {formatFee(request.amount, request.currency)}
+                        <span className="block text-xs text-muted-foreground">{SUBSCRIPTION_PLANS[request.planId]?.name}</span>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={SUBSCRIPTION_REQUEST_STATUS_BADGE_VARIANTS[request.status]}>{SUBSCRIPTION_REQUEST_STATUS_LABELS[request.status]}</Badge>
+                        {request.decisionNote && <span className="block text-xs text-muted-foreground mt-1">{request.decisionNote}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {request.status === "pending" ? (
+                          <div className="flex flex-col items-end gap-2">
+                            <Input
+                              placeholder="Note to the subscriber (optional)"
+                              value={decisionNotes[request.id] || ""}
+                              onChange={(e) => setDecisionNotes(current => ({ ...current, [request.id]: e.target.value }))}
+                              disabled={decidingRequestId === request.id}
+                              className="h-8 w-56"
+                            />
+                            <div className="flex gap-2">
+                              <Button size="sm" onClick={() => handleDecision(request, true)} disabled={decidingRequestId === request.id}>
+                                {decidingRequestId === request.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />} Confirm
+                              </Button>
+                              <Button size="sm" variant="outline" onClick={() => handleDecision(request, false)} disabled={decidingRequestId === request.id}>
+                                <X className="mr-2 h-4 w-4" /> Decline
+                              </Button>
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{request.decidedAt ? new Date(request.decidedAt).toLocaleString() : "—"}</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Award className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Subscribers</CardTitle>
+          </div>
+          <CardDescription>Authors with a current or past subscription. ({subscribers.length} subscribers)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {subscribers.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No one has subscribed yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subscriber</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Submissions Used</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscribers.map(subscriber => {
+                    const subscription = subscriber.subscription!;
+                    const isActive = isSubscriptionActive(subscription);
+                    return (
+                      <TableRow key={subscriber.id}>
+                        <TableCell className="text-sm">
+                          {subscriber.displayName || subscriber.email}
+                          <span className="block text-xs text-muted-foreground">{subscriber.email}</span>
+                        </TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">
+                          {new Date(subscription.startDate).toLocaleDateString()} – {new Date(subscription.endDate).toLocaleDateString()}
+                        </TableCell>
+                        <TableCell>
+                          {subscription.submissionsUsed} / {subscription.submissionQuota}
+                          {isActive && <span className="block text-xs text-muted-foreground">{getRemainingSubmissions(subscription)} left</span>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={isActive ? "default" : "outline"}>{isActive ? "Active" : "Expired"}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { User, Venue } from '@/types';
+import { createVenue, getVenues, updateVenue, type VenueInput } from '@/lib/venue-service';
+import { getAllUsers } from '@/lib/user-service';
+import { formatFee, getSubmissionFee, isVenueOpenForSubmission, VENUE_TYPE_LABELS } from '@/lib/venue-schedule';
+import { REVIEW_MODE_LABELS } from '@/lib/anonymization';
+import VenueForm from '@/components/venues/VenueForm';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Landmark, Plus, Pencil, AlertTriangle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+const formatWindow = (venue: Venue) => {
+  const { opensAt, closesAt } = venue.submissionWindow;
+  if (!opensAt && !closesAt) return "Always open";
+  const format = (iso: string) => new Date(iso).toLocaleDateString();
+  if (!opensAt) return `Until ${format(closesAt!)}`;
+  if (!closesAt) return `From ${format(opensAt)}`;
+  return `${format(opensAt)} – ${format(closesAt)}`;
+};
+
+export default function VenueManagementPage() {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editingVenue, setEditingVenue] = useState<Venue | "new" | null>(null);
+
+  useEffect(() => {
+    const fetchVenues = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const [fetchedVenues, allUsers] = await Promise.all([getVenues(), getAllUsers()]);
+        setVenues(fetchedVenues);
+        setUsers(allUsers);
+      } catch (err: any) {
+        setError(err.message || "Failed to load venues.");
+        toast({ variant: "destructive", title: "Error Loading Venues", description: err.message });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchVenues();
+  }, []);
+
+  const handleSave = async (input: VenueInput) => {
+    try {
+      if (editingVenue && editingVenue !== "new") {
+        const saved = await updateVenue(editingVenue.id, input);
+        setVenues(current => current.map(v => v.id === saved.id ? saved : v));
+        toast({ title: "Venue Updated", description: `${saved.name} has been saved.` });
+      } else {
+        const saved = await createVenue(input);
+        setVenues(current => [...current, saved].sort((a, b) => a.name.localeCompare(b.name)));
+        toast({ title: "Venue Created", description: `${saved.name} has been created.` });
+      }
+      setEditingVenue(null);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error Saving Venue", description: err.message || "Could not save the venue." });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading venues...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {editingVenue && (
+        <Card className="shadow-lg w-full">
+          <CardHeader>
+            <CardTitle className="text-xl">{editingVenue === "new" ? "New Venue" : `Edit ${editingVenue.name}`}</CardTitle>
+            <CardDescription>Submission windows, fees and review mode apply to papers submitted from now on.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <VenueForm
+              key={editingVenue === "new" ? "new" : editingVenue.id}
+              venue={editingVenue === "new" ? null : editingVenue}
+              users={users}
+              onSubmit={handleSave}
+              onCancel={() => setEditingVenue(null)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-lg w-full">
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Landmark className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Venues</CardTitle>
+            </div>
+            <Button onClick={() => setEditingVenue("new")} disabled={editingVenue === "new"}>
+              <Plus className="mr-2 h-4 w-4" /> New Venue
+            </Button>
+          </div>
+          <CardDescription>Conferences and journals that accept submissions. ({venues.length} venues)</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {venues.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No venues yet. Authors cannot submit papers until a venue is open.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Submission Window</TableHead>
+                    <TableHead>Current Fee</TableHead>
+                    <TableHead>Review Mode</TableHead>
+                    <TableHead>Tracks</TableHead>
+                    <TableHead>Committee</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {venues.map(venue => (
+                    <TableRow key={venue.id}>
+                      <TableCell className="font-medium">
+                        {venue.name}
+                        {venue.acronym && <span className="block text-xs text-muted-foreground">{venue.acronym}</span>}
+                      </TableCell>
+                      <TableCell>{VENUE_TYPE_LABELS[venue.type]}</TableCell>
+                      <TableCell className="text-sm">
+                        {formatWindow(venue)}
+                        <span className="block">
+                          {isVenueOpenForSubmission(venue)
+                            ? <Badge variant="default">Open</Badge>
+                            : <Badge variant="secondary">{venue.isActive ? "Closed" : "Inactive"}</Badge>}
+                        </span>
+                      </TableCell>
+                      <TableCell>{formatFee(getSubmissionFee(venue), venue.currency)}</TableCell>
+                      <TableCell className="text-xs">{REVIEW_MODE_LABELS[venue.reviewMode]}</TableCell>
+                      <TableCell className="text-sm">{venue.tracks.length > 0 ? venue.tracks.map(t => t.name).join(', ') : <span className="text-muted-foreground">None</span>}</TableCell>
+                      <TableCell className="text-sm">{venue.committee.length}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="outline" size="sm" onClick={() => setEditingVenue(venue)}>
+                          <Pencil className="mr-2 h-4 w-4" /> Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
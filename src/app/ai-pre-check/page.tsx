@@ -9,7 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { plagiarismCheck, PlagiarismCheckOutput } from '@/ai/flows/plagiarism-check';
+import { checkPlagiarism } from '@/lib/plagiarism-service';
+import type { PlagiarismCheckOutput } from '@/lib/plagiarism-engine';
 import { acceptanceProbability, AcceptanceProbabilityOutput } from '@/ai/flows/acceptance-probability';
 import PlagiarismReport from '@/components/papers/PlagiarismReport';
 import AcceptanceProbabilityReport from '@/components/papers/AcceptanceProbabilityReport';
@@ -19,25 +20,8 @@ import { Sparkles, ShieldCheck, BarChart3, AlertTriangle, Info, UploadCloud, Dow
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import { toast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
-
-// Function to simulate reading file content (replace with actual parsers in a real app)
-async function readFileContentSimulated(file: File): Promise<string> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Simulate some content based on file type for variety
-      let simulatedContent = `\n\n[Simulated content of ${file.name}. File type: ${file.type}.`;
-      if (file.type === "application/pdf") {
-        simulatedContent += " This appears to be a PDF document. It might contain complex layouts, figures, and references.]\n\n";
-      } else if (file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document") {
-        simulatedContent += " This seems to be a DOCX file, likely rich text with formatting.]\n\n";
-      } else {
-        simulatedContent += " This is a generic file. Content extraction would depend on its specific format.]\n\n";
-      }
-      resolve(simulatedContent);
-    }, 500); // Simulate async reading
-  });
-}
-
+import { extractDocumentText } from '@/lib/text-extraction';
+import { auth } from '@/lib/firebase';
 
 const preCheckSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters."),
@@ -101,7 +85,16 @@ function AiPreCheckContent() {
 
     if (fileToUpload) {
       try {
-        fileContentForAnalysis = await readFileContentSimulated(fileToUpload);
+        if (!auth.currentUser) {
+          throw new Error("Your session has expired. Please log in again.");
+        }
+        const formData = new FormData();
+        formData.append("file", fileToUpload);
+        const extracted = await extractDocumentText(await auth.currentUser.getIdToken(), formData);
+        if (!extracted.text) {
+          throw new Error("No text could be found in the file. Scanned documents without a text layer are not supported.");
+        }
+        fileContentForAnalysis = extracted.text;
       } catch (readError) {
         console.error("File reading error:", readError);
         const errorMessage = readError instanceof Error ? readError.message : "Could not read file content.";
@@ -124,7 +117,7 @@ function AiPreCheckContent() {
         contentToAnalyze += `\n\nAbstract/Provided Text:\n${data.paperText}`;
     }
     if (fileContentForAnalysis) {
-        contentToAnalyze += `\n\n--- Start of Uploaded File Content (Simulated) ---\n${fileContentForAnalysis}\n--- End of Uploaded File Content (Simulated) ---`;
+        contentToAnalyze += `\n\n--- Start of Uploaded File Content ---\n${fileContentForAnalysis}\n--- End of Uploaded File Content ---`;
     }
     
     if (data.title.length < 5 || (!data.paperText && !fileToUpload)) { 
@@ -135,7 +128,7 @@ function AiPreCheckContent() {
     }
 
     try {
-      const plagiarism = await plagiarismCheck({ documentText: contentToAnalyze });
+      const plagiarism = await checkPlagiarism(contentToAnalyze);
       setPlagiarismResult(plagiarism);
       toast({title: "Plagiarism Check Complete"});
 
@@ -174,12 +167,12 @@ function AiPreCheckContent() {
       feedbackText += `-----------------\n`;
       feedbackText += `Score: ${(plagiarismResult.plagiarismScore * 100).toFixed(1)}%\n`;
       if (plagiarismResult.highlightedSections && plagiarismResult.highlightedSections.length > 0) {
-        feedbackText += `Potentially Plagiarized Sections (from title, abstract, and/or simulated file content):\n`;
+        feedbackText += `Passages matching papers in the ResearchSphere corpus (from title, abstract, and/or file content):\n`;
         plagiarismResult.highlightedSections.forEach(section => {
-          feedbackText += `  - "...${section}..."\n`;
+          feedbackText += `  - "${section.passage}" (${section.wordCount} words, source paper ${section.sourcePaperId}, overall similarity ${(section.sourceSimilarity * 100).toFixed(1)}%)\n`;
         });
       } else {
-        feedbackText += `No specific sections highlighted by AI as potentially plagiarized.\n`;
+        feedbackText += `No passages matching papers in the ResearchSphere corpus were found.\n`;
       }
       feedbackText += `\n\n`;
     }
@@ -188,7 +181,7 @@ function AiPreCheckContent() {
       feedbackText += `ACCEPTANCE PROBABILITY REPORT\n`;
       feedbackText += `-----------------------------\n`;
       feedbackText += `Estimated Probability: ${(acceptanceResult.probabilityScore * 100).toFixed(1)}%\n`;
-      feedbackText += `AI Reasoning (based on title, abstract, and/or simulated file content): ${acceptanceResult.reasoning}\n`;
+      feedbackText += `AI Reasoning (based on title, abstract, and/or file content): ${acceptanceResult.reasoning}\n`;
     }
 
     const blob = new Blob([feedbackText], { type: 'text/plain' });
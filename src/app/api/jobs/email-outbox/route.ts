@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { deliverPendingEmails } from "@/lib/email-outbox";
+
+// Called by a scheduler (e.g. Cloud Scheduler every few minutes) with "Authorization: Bearer $JOB_SECRET".
+export const dynamic = "force-dynamic";
+
+const handle = async (request: Request) => {
+  const secret = process.env.JOB_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Scheduled jobs are not configured (JOB_SECRET is not set)." }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  try {
+    const summary = await deliverPendingEmails();
+    return NextResponse.json(summary, { status: summary.retrying + summary.failed > 0 ? 207 : 200 });
+  } catch (error: any) {
+    console.error("Email Outbox Route: Job failed:", error);
+    return NextResponse.json({ error: error.message || "Email delivery failed." }, { status: 500 });
+  }
+};
+
+export const GET = handle;
+export const POST = handle;
@@ -0,0 +1,27 @@
+
+import { NextResponse } from "next/server";
+import { enforceOverduePayments } from "@/lib/payment-enforcement";
+
+// Called by a scheduler (e.g. Cloud Scheduler every 15 minutes) with "Authorization: Bearer $JOB_SECRET".
+export const dynamic = "force-dynamic";
+
+const handle = async (request: Request) => {
+  const secret = process.env.JOB_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: "Scheduled jobs are not configured (JOB_SECRET is not set)." }, { status: 503 });
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+  try {
+    const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+    const run = await enforceOverduePayments({ trigger: "schedule", dryRun });
+    return NextResponse.json(run, { status: run.errors.length > 0 ? 207 : 200 });
+  } catch (error: any) {
+    console.error("Payment Enforcement Route: Job failed:", error);
+    return NextResponse.json({ error: error.message || "Payment enforcement failed." }, { status: 500 });
+  }
+};
+
+export const GET = handle;
+export const POST = handle;
@@ -3,6 +3,7 @@
 
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import PaperListItem from "@/components/papers/PaperListItem";
+import SubscriptionQuota from "@/components/payment/SubscriptionQuota";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/use-auth";
 import type { Paper } from "@/types";
@@ -69,6 +70,8 @@ function DashboardContent() {
         )}
       </div>
 
+      {!user?.isAdmin && user?.subscription && <SubscriptionQuota subscription={user.subscription} />}
+
       {papers.length === 0 && !user?.isAdmin ? (
         <Alert className="bg-secondary">
           <FileText className="h-4 w-4" />
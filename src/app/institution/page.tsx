@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import InstitutionMembersPanel from "@/components/institutions/InstitutionMembersPanel";
+import InstitutionUsageReport from "@/components/institutions/InstitutionUsageReport";
+import { useAuth } from "@/hooks/use-auth";
+import type { Institution, InstitutionInvite, InstitutionInvoice } from "@/types";
+import { getInstitution, getInstitutionInvoices, getPendingInvitesForEmail } from "@/lib/institution-service";
+import { acceptInstitutionInvite, getJoinableInstitutions, joinInstitution, leaveInstitution } from "@/lib/institution-actions";
+import { getRemainingInstitutionSubmissions, isInstitutionPeriodActive } from "@/lib/institutions";
+import { downloadInstitutionInvoicePdf } from "@/lib/invoice-pdf";
+import { formatFee } from "@/lib/venue-schedule";
+import { auth } from "@/lib/firebase";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import LoadingSpinner from "@/components/shared/LoadingSpinner";
+import { Building, Check, FileDown, LogOut, Loader2, Receipt } from "lucide-react";
+import Link from "next/link";
+import { toast } from "@/hooks/use-toast";
+
+function InstitutionContent() {
+  const { user, refreshUser } = useAuth();
+  const [institution, setInstitution] = useState<Institution | null>(null);
+  const [invoices, setInvoices] = useState<InstitutionInvoice[]>([]);
+  const [invites, setInvites] = useState<InstitutionInvite[]>([]);
+  const [joinable, setJoinable] = useState<Array<Pick<Institution, "id" | "name">>>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const isInstitutionAdmin = !!(user && institution?.adminIds.includes(user.id));
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!user || !auth?.currentUser) return;
+      setIsLoading(true);
+      try {
+        if (user.institutionId) {
+          const fetchedInstitution = await getInstitution(user.institutionId);
+          setInstitution(fetchedInstitution);
+          if (fetchedInstitution?.adminIds.includes(user.id)) {
+            setInvoices(await getInstitutionInvoices(fetchedInstitution.id));
+          }
+        } else {
+          setInstitution(null);
+          const [fetchedInvites, fetchedJoinable] = await Promise.all([
+            user.email ? getPendingInvitesForEmail(user.email) : Promise.resolve([]),
+            getJoinableInstitutions(await auth.currentUser.getIdToken()),
+          ]);
+          setInvites(fetchedInvites);
+          setJoinable(fetchedJoinable);
+        }
+      } catch (err: any) {
+        toast({ variant: "destructive", title: "Error Loading Institution", description: err.message || "Could not load your institution." });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchData();
+  }, [user]);
+
+  const runMembershipChange = async (id: string, change: (idToken: string) => Promise<unknown>, successTitle: string, errorTitle: string) => {
+    if (!auth.currentUser) return;
+    setBusyId(id);
+    try {
+      await change(await auth.currentUser.getIdToken());
+      toast({ title: successTitle });
+      await refreshUser();
+    } catch (err: any) {
+      toast({ variant: "destructive", title: errorTitle, description: err.message || "Please try again." });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleLeave = () => {
+    if (!institution || !confirm(`Leave ${institution.name}? Your future submissions will no longer be covered.`)) return;
+    runMembershipChange(institution.id, idToken => leaveInstitution(idToken, institution.id), "You Left the Institution", "Could Not Leave");
+  };
+
+  if (!user || isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading institution...</p>
+      </div>
+    );
+  }
+
+  if (!institution) {
+    return (
+      <div className="container py-8 md:py-12 px-4 max-w-3xl space-y-6">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Building className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Institutional Membership</CardTitle>
+            </div>
+            <CardDescription>
+              Members of a subscribed university or research institution submit papers against its pooled allowance instead of paying the fee themselves.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {invites.length === 0 && joinable.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                You have no pending invites. Ask your institution&apos;s admin to invite {user.email || "you"}, verify your institutional email address, or{" "}
+                <Link href="/contact-us" className="text-primary hover:underline">contact us</Link> to set up a membership for your institution.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {invites.map(invite => (
+                  <div key={invite.id} className="flex items-center justify-between gap-4 rounded-md border p-4">
+                    <div>
+                      <p className="font-medium">{invite.institutionName}</p>
+                      <p className="text-xs text-muted-foreground">Invited {new Date(invite.createdAt).toLocaleDateString()}</p>
+                    </div>
+                    <Button onClick={() => runMembershipChange(invite.id, idToken => acceptInstitutionInvite(idToken, invite.id), "Invite Accepted", "Could Not Accept Invite")} disabled={!!busyId}>
+                      {busyId === invite.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />} Accept
+                    </Button>
+                  </div>
+                ))}
+                {joinable.map(option => (
+                  <div key={option.id} className="flex items-center justify-between gap-4 rounded-md border p-4">
+                    <div>
+                      <p className="font-medium">{option.name}</p>
+                      <p className="text-xs text-muted-foreground">Open to your verified email address</p>
+                    </div>
+                    <Button onClick={() => runMembershipChange(option.id, idToken => joinInstitution(idToken, option.id), "Joined Institution", "Could Not Join")} disabled={!!busyId}>
+                      {busyId === option.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Building className="mr-2 h-4 w-4" />} Join
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const isActive = isInstitutionPeriodActive(institution);
+  const remaining = getRemainingInstitutionSubmissions(institution);
+
+  return (
+    <div className="container py-8 md:py-12 px-4 space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <div className="flex items-center gap-2">
+              <Building className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">{institution.name}</CardTitle>
+            </div>
+            <CardDescription className="mt-1">
+              {isActive
+                ? `Membership period ${new Date(institution.periodStart).toLocaleDateString()} – ${new Date(institution.periodEnd).toLocaleDateString()}`
+                : "The membership is not active, so new submissions are not covered."}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleLeave} disabled={!!busyId}>
+            {busyId === institution.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />} Leave
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Progress value={institution.submissionAllowance ? Math.min(institution.submissionsUsed / institution.submissionAllowance, 1) * 100 : 100} />
+          <p className="text-sm text-muted-foreground">
+            {institution.submissionsUsed} of {institution.submissionAllowance} pooled submissions used
+            {isActive && ` · ${remaining} left; papers you submit are covered instead of paying the fee`}
+          </p>
+        </CardContent>
+      </Card>
+
+      {isInstitutionAdmin && (
+        <>
+          <InstitutionMembersPanel institution={institution} currentUserId={user.id} onInstitutionChange={setInstitution} />
+          <InstitutionUsageReport institution={institution} />
+          <Card className="shadow-lg">
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <Receipt className="h-6 w-6 text-primary" />
+                <CardTitle className="text-xl">Invoices</CardTitle>
+              </div>
+              <CardDescription>Consolidated invoices for the submissions your members made against the allowance.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {invoices.length === 0 ? (
+                <p className="text-muted-foreground text-center py-4">No invoices yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Invoice</TableHead>
+                      <TableHead>Issued</TableHead>
+                      <TableHead>Submissions</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">PDF</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invoices.map(invoice => (
+                      <TableRow key={invoice.id}>
+                        <TableCell className="text-sm">{invoice.number}</TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">{new Date(invoice.issuedAt).toLocaleDateString()}</TableCell>
+                        <TableCell>{invoice.paperIds.length}</TableCell>
+                        <TableCell className="whitespace-nowrap">{formatFee(invoice.gst.total, invoice.currency)}</TableCell>
+                        <TableCell>
+                          <Badge variant={invoice.status === "paid" ? "default" : "secondary"}>{invoice.status === "paid" ? "Paid" : "Unpaid"}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="sm" onClick={() => downloadInstitutionInvoicePdf(invoice)}>
+                            <FileDown className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default function InstitutionPage() {
+  return (
+    <ProtectedRoute>
+      <InstitutionContent />
+    </ProtectedRoute>
+  );
+}
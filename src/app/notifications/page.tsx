@@ -0,0 +1,159 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import NotificationPreferencesCard from "@/components/notifications/NotificationPreferencesCard";
+import type { NotificationEvent } from "@/types";
+import { useNotifications } from "@/hooks/use-notifications";
+import { markNotificationsRead } from "@/lib/notification-service";
+import { NOTIFICATION_EVENTS, getNotificationEventLabel } from "@/lib/notifications";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import LoadingSpinner from "@/components/shared/LoadingSpinner";
+import { AlertTriangle, Bell, Check, CheckCheck, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "@/hooks/use-toast";
+
+type ReadFilter = "all" | "unread" | "read";
+
+function NotificationsContent() {
+  const { notifications, unreadCount, isLoading, error } = useNotifications();
+  const [readFilter, setReadFilter] = useState<ReadFilter>("all");
+  const [eventFilter, setEventFilter] = useState<NotificationEvent | "all">("all");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const filteredNotifications = useMemo(
+    () => notifications.filter(notification =>
+      (readFilter === "all" || notification.read === (readFilter === "read")) &&
+      (eventFilter === "all" || notification.event === eventFilter)
+    ),
+    [notifications, readFilter, eventFilter]
+  );
+  const unreadShown = filteredNotifications.filter(notification => !notification.read);
+
+  // The listener picks up the change, so the list updates by itself.
+  const markRead = async (ids: string[], busyKey: string) => {
+    setBusyId(busyKey);
+    try {
+      await markNotificationsRead(ids);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error", description: err.message || "Could not update your notifications." });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-10">
+        <LoadingSpinner size={32} /> <p className="ml-2">Loading notifications...</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="container py-8 md:py-12 px-4">
+        <Alert variant="destructive" className="w-full max-w-2xl mx-auto">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8 md:py-12 px-4 grid gap-6 lg:grid-cols-3">
+      <Card className="shadow-lg lg:col-span-2">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Bell className="h-6 w-6 text-primary" />
+              <CardTitle className="text-2xl">Notifications</CardTitle>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => markRead(unreadShown.map(notification => notification.id), "all")} disabled={unreadShown.length === 0 || !!busyId}>
+              {busyId === "all" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCheck className="mr-2 h-4 w-4" />} Mark All Read
+            </Button>
+          </div>
+          <CardDescription>
+            Updates on your papers and review assignments{unreadCount > 0 ? ` · ${unreadCount} unread` : ""}.
+          </CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Select value={readFilter} onValueChange={(value) => setReadFilter(value as ReadFilter)}>
+              <SelectTrigger className="w-[130px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="unread">Unread</SelectItem>
+                <SelectItem value="read">Read</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={eventFilter} onValueChange={(value) => setEventFilter(value as NotificationEvent | "all")}>
+              <SelectTrigger className="w-[190px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All events</SelectItem>
+                {NOTIFICATION_EVENTS.map(({ event, label }) => (
+                  <SelectItem key={event} value={event}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {filteredNotifications.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No notifications to show.</p>
+          ) : (
+            <ul className="divide-y">
+              {filteredNotifications.map(notification => (
+                <li key={notification.id} className={cn("flex items-start justify-between gap-4 py-3", !notification.read && "bg-secondary/40 -mx-2 px-2 rounded-md")}>
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={cn("text-sm", !notification.read && "font-semibold")}>{notification.title}</span>
+                      <Badge variant="outline" className="text-[11px]">{getNotificationEventLabel(notification.event)}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{notification.message}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {new Date(notification.createdAt).toLocaleString()}
+                      {notification.link && (
+                        <>
+                          {" · "}
+                          <Link
+                            href={notification.link}
+                            className="text-primary hover:underline"
+                            onClick={() => { if (!notification.read) markNotificationsRead([notification.id]).catch(console.error); }}
+                          >
+                            Open
+                          </Link>
+                        </>
+                      )}
+                    </p>
+                  </div>
+                  {!notification.read && (
+                    <Button variant="ghost" size="sm" onClick={() => markRead([notification.id], notification.id)} disabled={!!busyId}>
+                      {busyId === notification.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />} Mark Read
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+      <div>
+        <NotificationPreferencesCard />
+      </div>
+    </div>
+  );
+}
+
+export default function NotificationsPage() {
+  return (
+    <ProtectedRoute>
+      <NotificationsContent />
+    </ProtectedRoute>
+  );
+}
@@ -5,58 +5,113 @@ import { useEffect, useState } from 'react';
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import ProtectedRoute from '@/components/auth/ProtectedRoute';
 import { useAuth } from '@/hooks/use-auth';
-import type { Paper, PaperStatus } from '@/types';
+import type { AiAnalysisRun, ExtractedDocument, FeeWaiverRequest, Paper, PaperMessage, PaperStatus, PaperVersion, Review, Venue } from '@/types';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import { FileText as FileTextIcon, User, Users, Tag, CalendarDays, MessageSquare, DollarSign, Loader2, AlertTriangle, Sparkles, Clock, Download, Shield } from 'lucide-react'; // Added Shield
+import { FileText as FileTextIcon, User, Users, Tag, CalendarDays, DollarSign, Loader2, AlertTriangle, Sparkles, Clock, Download, Shield, ClipboardEdit, Eye, UploadCloud, Landmark, Award } from 'lucide-react'; // Added Shield
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 import PlagiarismReport from '@/components/papers/PlagiarismReport';
 import AcceptanceProbabilityReport from '@/components/papers/AcceptanceProbabilityReport';
 import PaymentModal from '@/components/payment/PaymentModal';
-import { plagiarismCheck } from '@/ai/flows/plagiarism-check';
-import { acceptanceProbability } from '@/ai/flows/acceptance-probability';
+import PaymentHistory from '@/components/payment/PaymentHistory';
+import RevisionUploadModal from '@/components/papers/RevisionUploadModal';
+import VersionTimeline from '@/components/papers/VersionTimeline';
+import VersionComparison from '@/components/papers/VersionComparison';
+import AnalysisHistory from '@/components/papers/AnalysisHistory';
+import PaperDiscussion from '@/components/papers/PaperDiscussion';
+import { checkPaperPlagiarism } from '@/lib/plagiarism-service';
+import { PLAGIARISM_ENGINE_ID, PLAGIARISM_ENGINE_VERSION } from '@/lib/plagiarism-engine';
+import { runAcceptanceProbability } from '@/ai/flows/acceptance-probability';
+import { getAiAnalysisRuns, hashAnalysisInput, recordAiAnalysisRun, setOfficialAiAnalysisRun, AI_ANALYSIS_FLOW_LABELS } from '@/lib/ai-analysis-service';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { toast } from '@/hooks/use-toast';
 import { Separator } from '@/components/ui/separator';
-import { getPaper, updatePaperStatus, updatePaperData } from '@/lib/paper-service';
+import { extractStoredPaperText, getPaper, getPaperVersions, updatePaperStatus } from '@/lib/paper-service';
 import CountdownTimer from '@/components/shared/CountdownTimer';
+import { getAllowedStatusTransitions, PaperStatusTransitionError } from '@/lib/paper-status';
+import ReviewerAssignmentPanel from '@/components/reviews/ReviewerAssignmentPanel';
+import ReviewSummary from '@/components/reviews/ReviewSummary';
+import { getPaperReviews, getSubmittedReviewsForAuthor, getReviewerAssignmentForPaper, getConfidentialComments, getReviewerPaperCopy } from '@/lib/review-service';
+import type { ReviewerPaperCopy } from '@/lib/reviewer-access';
+import { comparePaperVersions, formatVersionComparison } from '@/lib/paper-diff';
+import { downloadTextFile } from '@/lib/utils';
+import { isAuthorIdentityHidden, getPaperReviewMode, REVIEW_MODE_LABELS, ANONYMIZED_AUTHORS_LABEL } from '@/lib/anonymization';
+import { getVenue } from '@/lib/venue-service';
+import { DEFAULT_CURRENCY, formatFee, formatVenueName } from '@/lib/venue-schedule';
+import { getFeeWaiverRequest } from '@/lib/discount-service';
+import { FEE_WAIVER_STATUS_LABELS } from '@/lib/discounts';
+import { auth } from '@/lib/firebase';
+import { applySubscriptionToPaper, confirmPayment } from '@/lib/payment-actions';
+import { getPaperMessages } from '@/lib/discussion-service';
+import { getDiscussionRole } from '@/lib/paper-discussion';
+import { getRemainingSubmissions } from '@/lib/subscriptions';
 
 function PaperDetailsContent() {
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
-  const { user, isAdmin } = useAuth();
+  const { user, isAdmin, refreshUser } = useAuth();
 
   const [currentPaper, setCurrentPaper] = useState<Paper | null>(null);
   const [loadingPaper, setLoadingPaper] = useState(true);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
-  const [adminFeedbackText, setAdminFeedbackText] = useState("");
-  const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
+  const [isApplyingSubscription, setIsApplyingSubscription] = useState(false);
+  const [statusMessageText, setStatusMessageText] = useState("");
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [messages, setMessages] = useState<PaperMessage[]>([]);
   const [isPaperOverdue, setIsPaperOverdue] = useState(false);
 
   const [isCheckingPlagiarism, setIsCheckingPlagiarism] = useState(false);
   const [isCheckingAcceptance, setIsCheckingAcceptance] = useState(false);
+  const [analysisRuns, setAnalysisRuns] = useState<AiAnalysisRun[]>([]);
+  const [markingRunId, setMarkingRunId] = useState<string | null>(null);
+
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [confidentialComments, setConfidentialComments] = useState<Record<string, string>>({});
+  const [ownReviewAssignment, setOwnReviewAssignment] = useState<Review | null>(null);
+  const [versions, setVersions] = useState<PaperVersion[]>([]);
+  const [venue, setVenue] = useState<Venue | null>(null);
+  const [feeWaiver, setFeeWaiver] = useState<FeeWaiverRequest | null>(null);
+  const [isRevisionModalOpen, setIsRevisionModalOpen] = useState(false);
 
   useEffect(() => {
     const paperId = params.id as string;
     if (paperId && user) {
       setLoadingPaper(true);
+      // Reviewers cannot read the paper document; the server sends them a copy, anonymized where the review mode calls for it.
+      let reviewerCopy: ReviewerPaperCopy | null = null;
       getPaper(paperId)
+        .catch(async (err: any) => {
+          if (err?.code !== 'permission-denied') throw err;
+          reviewerCopy = await getReviewerPaperCopy(paperId);
+          return reviewerCopy?.paper ?? null;
+        })
         .then(paper => {
           if (paper) {
-            if (paper.userId !== user.id && !isAdmin && paper.status !== "Published") {
+            const isAssignedReviewer = !!paper.reviewerIds?.includes(user.id);
+            if (paper.userId !== user.id && !isAdmin && !isAssignedReviewer && paper.status !== "Published") {
                 setCurrentPaper(null);
                 toast({ variant: "destructive", title: "Access Denied", description: "You do not have permission to view this paper." });
                 router.push(isAdmin ? '/admin/dashboard' : '/');
                 return;
             }
             setCurrentPaper(paper);
-            if(paper.adminFeedback) setAdminFeedbackText(paper.adminFeedback);
+            if (reviewerCopy) {
+              setVersions(reviewerCopy.versions);
+            } else {
+              getPaperVersions(paper.id)
+                .then(setVersions)
+                .catch(() => setVersions([]));
+            }
+            if (paper.venueId) {
+              getVenue(paper.venueId).then(setVenue).catch(() => setVenue(null));
+            }
             const paymentDueDateValid = paper.paymentDueDate && !isNaN(new Date(paper.paymentDueDate).getTime());
-            if (paper.status === "Payment Pending" && paymentDueDateValid) {
+            // A pending fee waiver request holds the deadline, as it does for the enforcement job.
+            if (paper.status === "Payment Pending" && paymentDueDateValid && paper.feeWaiverStatus !== "pending") {
               if (new Date() > new Date(paper.paymentDueDate!)) {
                 setIsPaperOverdue(true);
               }
@@ -85,54 +140,153 @@ function PaperDetailsContent() {
 
   useEffect(() => {
     const paymentDueDateValid = currentPaper?.paymentDueDate && !isNaN(new Date(currentPaper.paymentDueDate).getTime());
-    if (searchParams.get('action') === 'pay' && currentPaper?.status === 'Payment Pending' && paymentDueDateValid && !isPaperOverdue && user && currentPaper.userId === user.id && !isAdmin) {
+    const canPay = (currentPaper?.status === 'Payment Pending' && paymentDueDateValid && !isPaperOverdue) || (currentPaper?.status === 'Payment Overdue' && currentPaper.latePaymentAllowed);
+    if (searchParams.get('action') === 'pay' && canPay && user && currentPaper?.userId === user.id && !isAdmin) {
       setIsPaymentModalOpen(true);
     }
   }, [searchParams, currentPaper, isPaperOverdue, user, isAdmin]);
 
-  const handlePaymentSuccess = async (paperIdToUpdate?: string) => {
+  // Hosted checkouts (Stripe) send the author back here with the session to confirm.
+  useEffect(() => {
+    const paymentId = searchParams.get('payment');
+    const sessionId = searchParams.get('session_id');
+    if (!paymentId || !sessionId || !currentPaper || !user || currentPaper.userId !== user.id) return;
+    router.replace(`/papers/${currentPaper.id}`);
+    auth.currentUser?.getIdToken()
+      .then(idToken => confirmPayment(idToken, paymentId, { orderId: sessionId }))
+      .then(payment => {
+        if (payment.status === 'paid') {
+          handlePaymentSuccess(payment.paperId);
+        } else if (payment.status === 'pending') {
+          toast({ title: "Payment Processing", description: "Stripe has not confirmed your payment yet. Your paper will be submitted once it does." });
+        } else {
+          toast({ variant: "destructive", title: "Payment Failed", description: payment.failureReason || "The payment did not go through." });
+        }
+      })
+      .catch((error: any) => toast({ variant: "destructive", title: "Payment Not Verified", description: error.message || "The payment could not be verified." }));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams, currentPaper?.id, user]);
+
+  useEffect(() => {
+    if (!currentPaper || !user) return;
+    const loadReviews = async () => {
+      try {
+        if (isAdmin) {
+          const paperReviews = await getPaperReviews(currentPaper.id);
+          setReviews(paperReviews);
+          const submitted = paperReviews.filter(r => r.status === 'Submitted');
+          const confidential = await Promise.all(submitted.map(r => getConfidentialComments(r.id)));
+          setConfidentialComments(Object.fromEntries(
+            confidential.filter(c => c && c.comments).map(c => [c!.reviewId, c!.comments])
+          ));
+        } else if (currentPaper.userId === user.id) {
+          setReviews(await getSubmittedReviewsForAuthor(currentPaper.id));
+        } else if (currentPaper.reviewerIds?.includes(user.id)) {
+          setOwnReviewAssignment(await getReviewerAssignmentForPaper(currentPaper.id, user.id));
+        }
+      } catch (error: any) {
+        toast({ variant: "destructive", title: "Error Loading Reviews", description: error.message || "Could not load reviews." });
+      }
+    };
+    loadReviews();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPaper?.id, user, isAdmin]);
+
+  const discussionRole = currentPaper && user ? getDiscussionRole(currentPaper, { id: user.id, isAdmin }) : null;
+
+  useEffect(() => {
+    if (!currentPaper || !discussionRole) {
+      setMessages([]);
+      return;
+    }
+    getPaperMessages(currentPaper.id, discussionRole)
+      .then(setMessages)
+      .catch((error: any) => toast({ variant: "destructive", title: "Error Loading Discussion", description: error.message || "Could not load the discussion." }));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPaper?.id, discussionRole]);
+
+  useEffect(() => {
+    if (!currentPaper?.feeWaiverId || !user || (!isAdmin && currentPaper.userId !== user.id)) {
+      setFeeWaiver(null);
+      return;
+    }
+    getFeeWaiverRequest(currentPaper.feeWaiverId)
+      .then(setFeeWaiver)
+      .catch(() => setFeeWaiver(null));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPaper?.feeWaiverId, currentPaper?.feeWaiverStatus, user, isAdmin]);
+
+  useEffect(() => {
+    if (!currentPaper || !isAdmin) return;
+    getAiAnalysisRuns(currentPaper.id)
+      .then(setAnalysisRuns)
+      .catch(() => setAnalysisRuns([]));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentPaper?.id, isAdmin]);
+
+  // The server has already verified the payment and submitted the paper; only the local copy needs refreshing.
+  const refreshPaper = async (paperIdToUpdate?: string) => {
     const targetPaperId = paperIdToUpdate || currentPaper?.id;
     if (!targetPaperId) return;
+    const refreshedPaper = await getPaper(targetPaperId);
+    if (refreshedPaper) {
+      setCurrentPaper(refreshedPaper);
+      if (refreshedPaper.status !== "Payment Pending") {
+        setIsPaperOverdue(false);
+      }
+    }
+  };
 
+  const handlePaymentSuccess = async (paperIdToUpdate?: string) => {
     try {
-      await updatePaperStatus(targetPaperId, 'Submitted', { paidAt: new Date().toISOString() });
-      setCurrentPaper(prev => {
-        if (prev && prev.id === targetPaperId) {
-          return { ...prev, status: 'Submitted', paidAt: new Date().toISOString(), submissionDate: new Date().toISOString(), paymentDueDate: null };
-        }
-        return prev;
-      });
-      setIsPaymentModalOpen(false);
+      await refreshPaper(paperIdToUpdate);
       toast({title: "Payment Successful", description: "Paper status updated to Submitted."});
     } catch (error: any) {
-      toast({variant: "destructive", title: "Payment Update Failed", description: error.message || "Could not update paper status after payment."});
+      toast({variant: "destructive", title: "Could Not Refresh Paper", description: error.message || "Your payment was received; reload the page to see the updated status."});
     }
   };
 
-  const handleAdminFeedbackSubmit = async () => {
-    if (!currentPaper || !isAdmin || !adminFeedbackText.trim()) return;
-    setIsSubmittingFeedback(true);
+  // A discount or waiver request changed the fee details but not necessarily the status.
+  const handleFeeChanged = (paperIdToUpdate?: string) => {
+    refreshPaper(paperIdToUpdate).catch(() => undefined);
+  };
+
+  const handleApplySubscription = async () => {
+    if (!auth?.currentUser || !currentPaper) return;
+    setIsApplyingSubscription(true);
     try {
-      await updatePaperData(currentPaper.id, { adminFeedback: adminFeedbackText });
-      setCurrentPaper(prev => prev ? { ...prev, adminFeedback: adminFeedbackText } : null);
-      toast({
-        title: "Feedback Submitted",
-        description: "Author will be notified (simulated).",
-        duration: 5000
-      });
-      setAdminFeedbackText(""); // Clear feedback box
+      const subscription = await applySubscriptionToPaper(await auth.currentUser.getIdToken(), currentPaper.id);
+      const left = getRemainingSubmissions(subscription);
+      toast({ title: "Paper Submitted", description: `Covered by your subscription. ${left} submission${left === 1 ? "" : "s"} left.` });
+      await Promise.all([refreshPaper(), refreshUser()]);
     } catch (error: any) {
-      toast({variant: "destructive", title: "Feedback Submission Failed", description: error.message || "Could not submit feedback."});
+      toast({ variant: "destructive", title: "Subscription Not Applied", description: error.message || "Your subscription could not be used for this paper." });
     } finally {
-      setIsSubmittingFeedback(false);
+      setIsApplyingSubscription(false);
     }
   };
 
+  const handleRevisionSubmitted = async (updatedPaper: Paper) => {
+    setCurrentPaper(updatedPaper);
+    setVersions(await getPaperVersions(updatedPaper.id));
+  };
+
   const handleStatusChange = async (newStatus: Paper['status']) => {
     if (!currentPaper || !isAdmin) return;
+    const statusMessage = statusMessageText.trim();
+    setIsChangingStatus(true);
     try {
-      await updatePaperStatus(currentPaper.id, newStatus);
-      setCurrentPaper(prev => prev ? { ...prev, status: newStatus } : null);
+      // The server posts the message to the discussion, linked to the change, and notifies the author.
+      const updatedPaper = await updatePaperStatus(currentPaper.id, newStatus, { feedback: statusMessage });
+      setCurrentPaper(updatedPaper);
+      if (statusMessage) {
+        setStatusMessageText("");
+        if (discussionRole) {
+          getPaperMessages(currentPaper.id, discussionRole)
+            .then(setMessages)
+            .catch(error => console.error("PaperPage: Could not reload the discussion:", error));
+        }
+      }
       if (newStatus === "Rejected" && isPaperOverdue) {
         toast({title: "Paper Rejected", description: `Paper marked as rejected due to overdue payment.`});
       } else {
@@ -143,7 +297,54 @@ function PaperDetailsContent() {
         setIsPaperOverdue(false);
       }
     } catch (error: any) {
-      toast({variant: "destructive", title: "Status Update Failed", description: error.message || "Could not update status."});
+      const title = error instanceof PaperStatusTransitionError ? "Status Change Not Allowed" : "Status Update Failed";
+      toast({variant: "destructive", title, description: error.message || "Could not update status."});
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
+
+  // Papers uploaded before server-side extraction existed get their text extracted (and stored) on first use.
+  const ensureExtractedContent = async (paper: Paper): Promise<ExtractedDocument | null> => {
+    if (paper.extractedContent) return paper.extractedContent;
+    if (!paper.fileUrl) return null;
+    const extractedContent = await extractStoredPaperText(paper.id);
+    setCurrentPaper(prev => prev ? { ...prev, extractedContent } : null);
+    return extractedContent;
+  };
+
+  // The first run of each flow becomes the official result; later runs only replace it when marked official.
+  const handleAnalysisRunCompleted = async (run: Omit<AiAnalysisRun, 'id' | 'paperId' | 'paperVersion' | 'triggeredBy' | 'triggeredByName' | 'createdAt'>) => {
+    if (!currentPaper || !user) return;
+    const recordedRun = await recordAiAnalysisRun({
+      ...run,
+      paperId: currentPaper.id,
+      paperVersion: currentPaper.currentVersion || 1,
+      triggeredBy: user.id,
+      triggeredByName: user.displayName || null,
+    });
+    setAnalysisRuns(prev => [...prev, recordedRun]);
+    const label = AI_ANALYSIS_FLOW_LABELS[run.flow];
+    if (currentPaper.officialAnalysisRuns?.[run.flow]) {
+      toast({ title: `${label} Validation Complete`, description: "The run was added to the analysis history. Mark it as official to replace the current result." });
+      return;
+    }
+    const updates = await setOfficialAiAnalysisRun(currentPaper, recordedRun);
+    setCurrentPaper(prev => prev ? { ...prev, ...updates } : null);
+    toast({ title: `${label} Validation Complete` });
+  };
+
+  const handleMarkRunOfficial = async (run: AiAnalysisRun) => {
+    if (!currentPaper) return;
+    setMarkingRunId(run.id);
+    try {
+      const updates = await setOfficialAiAnalysisRun(currentPaper, run);
+      setCurrentPaper(prev => prev ? { ...prev, ...updates } : null);
+      toast({ title: "Official Result Updated", description: `${AI_ANALYSIS_FLOW_LABELS[run.flow]} now shows the run from ${run.createdAt ? new Date(run.createdAt as string).toLocaleString() : 'the selected date'}.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: error.message || "Could not mark the run as official." });
+    } finally {
+      setMarkingRunId(null);
     }
   };
 
@@ -154,20 +355,19 @@ function PaperDetailsContent() {
     }
     setIsCheckingPlagiarism(true);
     try {
-      const result = await plagiarismCheck({ 
-        documentUrl: currentPaper.fileUrl,
-        fileName: currentPaper.fileName 
-      });
-      await updatePaperData(currentPaper.id, {
-        plagiarismScore: result.plagiarismScore,
-        plagiarismReport: { highlightedSections: result.highlightedSections }
+      const extractedContent = await ensureExtractedContent(currentPaper);
+      if (!extractedContent?.text) {
+        throw new Error("No text could be extracted from the paper file.");
+      }
+      const result = await checkPaperPlagiarism(currentPaper.id);
+      await handleAnalysisRunCompleted({
+        flow: "plagiarism",
+        model: PLAGIARISM_ENGINE_ID,
+        promptVersion: PLAGIARISM_ENGINE_VERSION,
+        inputHash: await hashAnalysisInput(extractedContent.text),
+        score: result.plagiarismScore,
+        output: { highlightedSections: result.highlightedSections },
       });
-      setCurrentPaper(prev => prev ? {
-        ...prev,
-        plagiarismScore: result.plagiarismScore,
-        plagiarismReport: { highlightedSections: result.highlightedSections }
-      } : null);
-      toast({ title: "Plagiarism Validation (File) Complete" });
     } catch (error: any) {
       // console.error("Plagiarism validation error:", error);
       toast({ variant: "destructive", title: "Plagiarism Validation (File) Failed", description: error.message || "An error occurred." });
@@ -183,20 +383,21 @@ function PaperDetailsContent() {
     }
     setIsCheckingAcceptance(true);
     try {
-      const result = await acceptanceProbability({ paperText: `${currentPaper.title}\n\n${currentPaper.abstract}` });
-      await updatePaperData(currentPaper.id, {
-        acceptanceProbability: result.probabilityScore,
-        acceptanceReport: { reasoning: result.reasoning }
+      // Falls back to the abstract when the file has no extractable text.
+      const extractedContent = await ensureExtractedContent(currentPaper).catch(() => null);
+      const paperText = `${currentPaper.title}\n\n${extractedContent?.text || currentPaper.abstract}`;
+      const { output, model, promptVersion } = await runAcceptanceProbability({ paperText });
+      await handleAnalysisRunCompleted({
+        flow: "acceptance",
+        model,
+        promptVersion,
+        inputHash: await hashAnalysisInput(paperText),
+        score: output.probabilityScore,
+        output: { reasoning: output.reasoning },
       });
-      setCurrentPaper(prev => prev ? {
-        ...prev,
-        acceptanceProbability: result.probabilityScore,
-        acceptanceReport: { reasoning: result.reasoning }
-      } : null);
-      toast({ title: "Acceptance Validation (Abstract) Complete" });
     } catch (error: any) {
       // console.error("Acceptance validation error:", error);
-      toast({ variant: "destructive", title: "Acceptance Validation (Abstract) Failed", description: error.message || "An error occurred." });
+      toast({ variant: "destructive", title: "Acceptance Validation (Manuscript) Failed", description: error.message || "An error occurred." });
     } finally {
       setIsCheckingAcceptance(false);
     }
@@ -220,13 +421,14 @@ function PaperDetailsContent() {
     if (!currentPaper) return;
     const safeTitle = currentPaper.title.replace(/[^\w\s]/gi, '').replace(/\s+/g, '_');
     const filename = `${safeTitle}_Details.txt`;
+    const identityHidden = isAuthorIdentityHidden(currentPaper, user ? { id: user.id, isAdmin } : null);
     let content = `Paper Title: ${currentPaper.title}\n`;
-    content += `Authors: ${currentPaper.authors.join(', ')}\n`;
+    content += `Authors: ${identityHidden ? ANONYMIZED_AUTHORS_LABEL : currentPaper.authors.join(', ')}\n`;
     content += `Keywords: ${currentPaper.keywords.join(', ')}\n`;
     content += `Status: ${currentPaper.status}\n`;
     content += `Upload Date: ${currentPaper.uploadDate ? new Date(currentPaper.uploadDate).toLocaleDateString() : 'N/A'}\n\n`;
     content += `Abstract:\n${currentPaper.abstract}\n\n`;
-    content += `Original File Name: ${currentPaper.fileName || 'Not available'}\n`;
+    if (!identityHidden) content += `Original File Name: ${currentPaper.fileName || 'Not available'}\n`;
     content += `File URL: ${currentPaper.fileUrl || 'Not available'}\n`;
 
     if (isAdmin) {
@@ -234,18 +436,20 @@ function PaperDetailsContent() {
       if (currentPaper.acceptanceProbability !== null && currentPaper.acceptanceProbability !== undefined) content += `Acceptance Probability: ${(currentPaper.acceptanceProbability * 100).toFixed(1)}%\n`;
     }
 
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadTextFile(filename, content);
     toast({ title: "Details Downloaded", description: `${filename} prepared.` });
   };
 
+  // Latest revision against the one before it; other pairs can be downloaded from the comparison card.
+  const handleDownloadChangeSummary = () => {
+    if (!currentPaper || versions.length < 2) return;
+    const comparison = comparePaperVersions(versions[versions.length - 2], versions[versions.length - 1]);
+    const safeTitle = currentPaper.title.replace(/[^\w\s]/gi, '').replace(/\s+/g, '_');
+    const filename = `${safeTitle}_Changes_v${comparison.fromVersion}_to_v${comparison.toVersion}.txt`;
+    downloadTextFile(filename, formatVersionComparison(currentPaper.title, comparison));
+    toast({ title: "Change Summary Downloaded", description: `${filename} prepared.` });
+  };
+
   if (loadingPaper) {
     return <div className="flex justify-center items-center py-20"><LoadingSpinner size={48} /></div>;
   }
@@ -272,6 +476,8 @@ function PaperDetailsContent() {
   };
 
   const effectiveStatus = isPaperOverdue && currentPaper.status === "Payment Pending" ? "Payment Overdue" : currentPaper.status;
+  const identityHidden = isAuthorIdentityHidden(currentPaper, user ? { id: user.id, isAdmin } : null);
+  const adminStatusTransitions = isAdmin ? getAllowedStatusTransitions(currentPaper.status, 'admin') : [];
 
   return (
     <div className="container py-8 md:py-12 px-4">
@@ -282,11 +488,18 @@ function PaperDetailsContent() {
               <Badge variant={getStatusBadgeVariant(effectiveStatus)} className="mb-2">{effectiveStatus}</Badge>
               <CardTitle className="text-2xl md:text-3xl font-bold">{currentPaper.title}</CardTitle>
               <CardDescription className="mt-1 text-md">
-                {currentPaper.fileName ? (
+                {identityHidden ? (
+                  <span className="flex items-center"><FileTextIcon className="h-4 w-4 mr-2" />Anonymized manuscript</span>
+                ) : currentPaper.fileName ? (
                   <span className="flex items-center"><FileTextIcon className="h-4 w-4 mr-2" />{currentPaper.fileName}</span>
                 ) : "File information not available"}
               </CardDescription>
-              {effectiveStatus === 'Payment Pending' && currentPaper.paymentDueDate && (
+              {effectiveStatus === 'Payment Pending' && currentPaper.feeWaiverStatus === 'pending' ? (
+                <div className="mt-2 text-sm text-muted-foreground flex items-center">
+                  <Clock className="h-4 w-4 mr-1.5" />
+                  Fee waiver requested; the payment deadline is on hold until an editor decides.
+                </div>
+              ) : effectiveStatus === 'Payment Pending' && currentPaper.paymentDueDate && (
                 <div className="mt-2 text-sm text-orange-600 flex items-center">
                   <Clock className="h-4 w-4 mr-1.5" />
                   <CountdownTimer targetDateISO={currentPaper.paymentDueDate} />
@@ -309,11 +522,31 @@ function PaperDetailsContent() {
                  <Button onClick={handleDownloadMetadata} size="lg" variant="outline" className="w-full sm:w-auto">
                     <FileTextIcon className="mr-2 h-4 w-4" /> Download Details
                 </Button>
-                {effectiveStatus === 'Payment Pending' && user && currentPaper.userId === user.id && !isAdmin && !isPaperOverdue && (
+                {versions.length > 1 && (
+                 <Button onClick={handleDownloadChangeSummary} size="lg" variant="outline" className="w-full sm:w-auto">
+                    <FileTextIcon className="mr-2 h-4 w-4" /> Download Change Summary
+                </Button>
+                )}
+                {((effectiveStatus === 'Payment Pending' && !isPaperOverdue) || (effectiveStatus === 'Payment Overdue' && currentPaper.latePaymentAllowed)) && user && currentPaper.userId === user.id && !isAdmin && (
                 <Button onClick={() => setIsPaymentModalOpen(true)} size="lg" className="w-full sm:w-auto">
                     <DollarSign className="mr-2 h-5 w-5" /> Proceed to Payment
                 </Button>
                 )}
+                {((effectiveStatus === 'Payment Pending' && !isPaperOverdue) || (effectiveStatus === 'Payment Overdue' && currentPaper.latePaymentAllowed)) && user && currentPaper.userId === user.id && !isAdmin && getRemainingSubmissions(user.subscription) > 0 && (
+                <Button onClick={handleApplySubscription} size="lg" variant="secondary" className="w-full sm:w-auto" disabled={isApplyingSubscription}>
+                    {isApplyingSubscription ? <Loader2 className="mr-2 h-5 w-5 animate-spin" /> : <Award className="mr-2 h-5 w-5" />} Use Subscription
+                </Button>
+                )}
+                {effectiveStatus === 'Action Required' && user && currentPaper.userId === user.id && (
+                <Button onClick={() => setIsRevisionModalOpen(true)} size="lg" className="w-full sm:w-auto">
+                    <UploadCloud className="mr-2 h-5 w-5" /> Submit Revision
+                </Button>
+                )}
+                {ownReviewAssignment && (
+                    <Button onClick={() => router.push(`/reviews/${ownReviewAssignment.id}`)} size="lg" className="w-full sm:w-auto">
+                        <ClipboardEdit className="mr-2 h-4 w-4" /> {ownReviewAssignment.status === 'Submitted' ? 'View Your Review' : 'Write Review'}
+                    </Button>
+                )}
                 {isAdmin && (
                     <Button onClick={() => router.push('/admin/dashboard')} variant="outline" className="w-full sm:w-auto">
                         <Shield className="mr-2 h-4 w-4" /> Admin Dashboard
@@ -343,7 +576,7 @@ function PaperDetailsContent() {
                   </Button>
                   <Button onClick={handleRunAcceptanceValidation} disabled={isCheckingPlagiarism || isCheckingAcceptance || !currentPaper.abstract} variant="outline">
                     {isCheckingAcceptance ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : <Sparkles className="mr-2 h-4 w-4" />}
-                    {currentPaper.acceptanceProbability !== null && currentPaper.acceptanceProbability !== undefined ? 'Re-run Acceptance Validation (Abstract)' : 'Run Acceptance Validation (Abstract)'}
+                    {currentPaper.acceptanceProbability !== null && currentPaper.acceptanceProbability !== undefined ? 'Re-run Acceptance Validation (Manuscript)' : 'Run Acceptance Validation (Manuscript)'}
                   </Button>
                 </div>
 
@@ -358,70 +591,89 @@ function PaperDetailsContent() {
                       <Sparkles className="h-4 w-4" />
                       <AlertTitle>AI Validation Available</AlertTitle>
                       <AlertDescription>
-                        Run plagiarism validation on the uploaded file and acceptance validation on the paper's abstract using the buttons above.
+                        Run plagiarism and acceptance validation on the text extracted from the uploaded file using the buttons above.
                       </AlertDescription>
                     </Alert>
                 )}
+                <AnalysisHistory
+                  runs={analysisRuns}
+                  officialRuns={currentPaper.officialAnalysisRuns}
+                  onMarkOfficial={handleMarkRunOfficial}
+                  markingRunId={markingRunId}
+                />
                  <Separator className="my-6"/>
               </div>
             )}
 
 
-            {currentPaper.adminFeedback && (user?.id === currentPaper.userId || isAdmin) && (
-              <div>
-                <h3 className="text-lg font-semibold mb-2 flex items-center"><MessageSquare className="h-5 w-5 mr-2 text-primary" />
-                  {isAdmin? "Current Feedback Sent to Author" : "Admin/Reviewer Feedback"}
-                </h3>
-                <Alert variant={currentPaper.status === "Action Required" ? "destructive" : "default"} className="bg-secondary/50">
-                  {currentPaper.status === "Action Required" ? <AlertTriangle className="h-4 w-4" /> : <MessageSquare className="h-4 w-4" />}
-                  <AlertTitle>Feedback</AlertTitle>
-                  <AlertDescription className="whitespace-pre-wrap">{currentPaper.adminFeedback}</AlertDescription>
-                </Alert>
-              </div>
+            <VersionTimeline versions={versions} currentVersion={currentPaper.currentVersion} />
+            <VersionComparison paperTitle={currentPaper.title} versions={versions} />
+
+            {(isAdmin || user?.id === currentPaper.userId) && (
+              <ReviewSummary reviews={reviews} confidentialComments={isAdmin ? confidentialComments : undefined} />
             )}
 
+            {user && (isAdmin || user.id === currentPaper.userId) && (
+              <PaymentHistory paper={currentPaper} userId={user.id} isAdmin={isAdmin} />
+            )}
 
-            {isAdmin && effectiveStatus !== "Payment Overdue" && (
-              <div className="mt-6 p-4 border rounded-md">
-                <h3 className="text-lg font-semibold mb-2">Provide Feedback to Author</h3>
-                <Label htmlFor="adminFeedback">Feedback / Comments (this will be visible to the author)</Label>
-                <Textarea
-                  id="adminFeedback"
-                  value={adminFeedbackText}
-                  onChange={(e) => setAdminFeedbackText(e.target.value)}
-                  rows={4}
-                  placeholder="Enter feedback for the author..."
-                  className="mb-2"
-                  disabled={isSubmittingFeedback}
-                />
-                <Button onClick={handleAdminFeedbackSubmit} disabled={isSubmittingFeedback || !adminFeedbackText.trim()}>
-                  {isSubmittingFeedback ? <Loader2 className="mr-2 h-4 w-4 animate-spin"/> : null}
-                  Submit Feedback
-                </Button>
-              </div>
+            {discussionRole && user && (
+              <PaperDiscussion
+                paper={currentPaper}
+                messages={messages}
+                role={discussionRole}
+                viewer={{ id: user.id, isAdmin, displayName: user.displayName }}
+                onMessagePosted={(message) => setMessages(prev => [...prev, message])}
+                onPaperChange={setCurrentPaper}
+              />
+            )}
+
+            {isAdmin && (
+              <ReviewerAssignmentPanel paper={currentPaper} reviews={reviews} onReviewsChange={setReviews} />
             )}
 
              {isAdmin && (
                 <div className="mt-6 p-4 border rounded-md">
                   <h3 className="text-lg font-semibold mb-2">Change Paper Status</h3>
+                  {adminStatusTransitions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No further status changes are possible from &quot;{currentPaper.status}&quot;.</p>
+                  ) : (
+                    <>
+                      <p className="text-sm text-muted-foreground mb-3">Only transitions allowed from &quot;{currentPaper.status}&quot; are shown.</p>
+                      <Label htmlFor="statusMessage">Message to the author (posted to the discussion with the change)</Label>
+                      <Textarea
+                        id="statusMessage"
+                        value={statusMessageText}
+                        onChange={(e) => setStatusMessageText(e.target.value)}
+                        rows={3}
+                        placeholder="Optional, except where the change asks the author for something..."
+                        className="mb-3"
+                        disabled={isChangingStatus}
+                      />
+                    </>
+                  )}
                   <div className="flex flex-wrap gap-2">
-                    {(["Submitted", "Under Review", "Accepted", "Rejected", "Action Required", "Published", "Payment Pending"] as Paper['status'][]).map(statusOption => (
-                      <Button
-                        key={statusOption}
-                        variant={currentPaper.status === statusOption ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => handleStatusChange(statusOption)}
-                        disabled={isSubmittingFeedback || currentPaper.status === statusOption || (isPaperOverdue && currentPaper.status === "Payment Pending" && statusOption !== "Rejected")}
-                      >
-                        Mark as {statusOption}
-                      </Button>
-                    ))}
+                    {adminStatusTransitions.map(transition => {
+                      const needsFeedback = !!transition.requires?.includes('feedback');
+                      return (
+                        <Button
+                          key={transition.to}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleStatusChange(transition.to)}
+                          disabled={isChangingStatus || (needsFeedback && !statusMessageText.trim()) || (isPaperOverdue && currentPaper.status === "Payment Pending" && transition.to !== "Rejected")}
+                          title={needsFeedback && !statusMessageText.trim() ? "Enter a message for the author above first." : undefined}
+                        >
+                          Mark as {transition.to}
+                        </Button>
+                      );
+                    })}
                      {isPaperOverdue && currentPaper.status === "Payment Pending" && (
                         <Button
                             variant="destructive"
                             size="sm"
                             onClick={() => handleStatusChange("Rejected")}
-                            disabled={isSubmittingFeedback}
+                            disabled={isChangingStatus}
                         >
                             Confirm Rejection (Overdue)
                         </Button>
@@ -441,9 +693,65 @@ function PaperDetailsContent() {
                   <Users className="h-4 w-4 mr-2 mt-1 text-primary flex-shrink-0" />
                   <div>
                     <strong>Authors:</strong>&nbsp;
-                    <span className="text-muted-foreground">{currentPaper.authors.join(', ')}</span>
+                    <span className="text-muted-foreground">{identityHidden ? ANONYMIZED_AUTHORS_LABEL : currentPaper.authors.join(', ')}</span>
                   </div>
                 </div>
+                {venue && (
+                  <div className="flex items-start">
+                    <Landmark className="h-4 w-4 mr-2 mt-1 text-primary flex-shrink-0" />
+                    <div>
+                      <strong>Venue:</strong>&nbsp;
+                      <span className="text-muted-foreground">
+                        {formatVenueName(venue)}
+                        {venue.tracks.find(t => t.id === currentPaper.trackId) && ` · ${venue.tracks.find(t => t.id === currentPaper.trackId)!.name}`}
+                      </span>
+                    </div>
+                  </div>
+                )}
+                {(isAdmin || user?.id === currentPaper.userId) && currentPaper.submissionFee != null && (
+                  <div className="flex items-start">
+                    <DollarSign className="h-4 w-4 mr-2 mt-1 text-primary flex-shrink-0" />
+                    <div>
+                      <strong>Submission Fee:</strong>&nbsp;
+                      <span className="text-muted-foreground">
+                        {currentPaper.institutionId ? "Covered by institutional membership" : currentPaper.coveredBySubscription ? "Covered by subscription" : currentPaper.feeWaiverStatus === "approved" ? "Waived" : formatFee(currentPaper.submissionFee, currentPaper.currency || DEFAULT_CURRENCY)}
+                        {currentPaper.discountCode && ` (${currentPaper.discountCode}, ${formatFee(currentPaper.discountAmount || 0, currentPaper.currency || DEFAULT_CURRENCY)} off)`}
+                      </span>
+                      {feeWaiver && (
+                        <span className="block text-xs text-muted-foreground">
+                          Fee waiver: {FEE_WAIVER_STATUS_LABELS[feeWaiver.status]}
+                          {feeWaiver.decisionNote && ` — ${feeWaiver.decisionNote}`}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {isAdmin && (
+                  <div className="flex items-start">
+                    <Eye className="h-4 w-4 mr-2 mt-1 text-primary flex-shrink-0" />
+                    <div>
+                      <strong>Review Mode:</strong>&nbsp;
+                      <span className="text-muted-foreground">{REVIEW_MODE_LABELS[getPaperReviewMode(currentPaper)]}</span>
+                    </div>
+                  </div>
+                )}
+                {isAdmin && currentPaper.extractedContent && (
+                  <div className="flex items-start">
+                    <FileTextIcon className="h-4 w-4 mr-2 mt-1 text-primary flex-shrink-0" />
+                    <div>
+                      <strong>Extracted Text:</strong>&nbsp;
+                      <span className="text-muted-foreground">
+                        {currentPaper.extractedContent.wordCount.toLocaleString()} words
+                        {currentPaper.extractedContent.pageCount ? `, ${currentPaper.extractedContent.pageCount} pages` : ''}
+                        , {currentPaper.extractedContent.references.length} references
+                        {currentPaper.extractedContent.truncated ? ' (truncated)' : ''}
+                      </span>
+                      {currentPaper.extractedContent.headings.length > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">Sections: {currentPaper.extractedContent.headings.join(' · ')}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
                 <div className="flex items-start">
                   <Tag className="h-4 w-4 mr-2 mt-1 text-primary flex-shrink-0" />
                    <div>
@@ -475,12 +783,21 @@ function PaperDetailsContent() {
           </aside>
         </CardContent>
       </Card>
+      {user && currentPaper.userId === user.id && (
+        <RevisionUploadModal
+          isOpen={isRevisionModalOpen}
+          onOpenChange={setIsRevisionModalOpen}
+          paper={currentPaper}
+          onRevisionSubmitted={handleRevisionSubmitted}
+        />
+      )}
       {user && currentPaper && (
         <PaymentModal
           isOpen={isPaymentModalOpen && currentPaper.userId === user.id && !isAdmin}
           onOpenChange={setIsPaymentModalOpen}
           paper={currentPaper}
           onPaymentSuccess={handlePaymentSuccess}
+          onFeeChanged={handleFeeChanged}
         />
       )}
     </div>
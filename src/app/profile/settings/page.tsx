@@ -3,12 +3,15 @@
 
 import ProtectedRoute from "@/components/auth/ProtectedRoute";
 import ProfileUpdateForm from "@/components/profile/ProfileUpdateForm";
+import ReviewHistoryCard from "@/components/profile/ReviewHistoryCard";
+import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { UserCog } from "lucide-react";
 import { useSearchParams } from "next/navigation"; // To check for completion flag
 
 function ProfileSettingsContent() {
   const searchParams = useSearchParams();
+  const { user } = useAuth();
   const isCompletingProfile = searchParams.get('complete') === 'true';
 
   return (
@@ -29,6 +32,7 @@ function ProfileSettingsContent() {
           <ProfileUpdateForm />
         </CardContent>
       </Card>
+      {user?.role === "Reviewer" && !isCompletingProfile && <ReviewHistoryCard reviewerId={user.id} />}
     </div>
   );
 }
@@ -7,6 +7,10 @@ import { CheckCircle, FileText, Award, ShieldCheck, Building, Users, Landmark, C
 import Link from "next/link";
 import { useAuth } from "@/hooks/use-auth"; // Import useAuth
 import { toast } from "@/hooks/use-toast";
+import { SUBSCRIPTION_BANK_DETAILS, SUBSCRIPTION_PLANS } from "@/lib/subscriptions";
+import { formatFee } from "@/lib/venue-schedule";
+import SubscriptionPaymentForm from "@/components/payment/SubscriptionPaymentForm";
+import SubscriptionQuota from "@/components/payment/SubscriptionQuota";
 
 interface SubmissionOption {
   name: string;
@@ -45,12 +49,12 @@ const submissionOptions: SubmissionOption[] = [
     icon: <FileText className="h-8 w-8 mb-2 text-primary" />
   },
   {
-    name: "Annual Subscription",
-    price: "₹4999",
+    name: SUBSCRIPTION_PLANS.annual.name,
+    price: formatFee(SUBSCRIPTION_PLANS.annual.price, SUBSCRIPTION_PLANS.annual.currency),
     priceFrequency: "per year",
     description: "Best for active researchers with multiple submissions and full platform access.",
     features: [
-      "Up to 15 Paper Submissions Annually",
+      `Up to ${SUBSCRIPTION_PLANS.annual.submissionQuota} Paper Submissions Annually`,
       "All Standard Submission Features",
       "Priority Support Channel",
       "Early Access to New Features",
@@ -60,13 +64,7 @@ const submissionOptions: SubmissionOption[] = [
     href: "#subscription-details", // Link to details section
     icon: <Award className="h-8 w-8 mb-2 text-primary" />,
     isSubscription: true,
-    bankDetails: {
-      accountName: "ResearchSphere Subscriptions",
-      accountNumber: "123456789012",
-      ifscCode: "RSBK0001234",
-      bankName: "Global Scholarly Bank",
-      upiId: "researchsphere@gsbupi"
-    }
+    bankDetails: SUBSCRIPTION_BANK_DETAILS,
   },
   {
     name: "Institutional Membership",
@@ -75,7 +73,9 @@ const submissionOptions: SubmissionOption[] = [
     description: "Best for universities and research institutions seeking bulk submissions and enhanced features.",
     features: [
       "All Standard Submission Features",
-      "Customizable Submission Limits",
+      "Pooled Submission Allowance for Members",
+      "Member Seats by Invite or Verified Email Domain",
+      "Consolidated GST Invoicing",
       "Dedicated Support Channel & Training",
       "Usage Analytics & Reporting",
       "Option for Co-branded Portal",
@@ -177,8 +177,8 @@ export default function RegistrationPricingPage() {
                    {(option.name === "Institutional Membership" || option.isSubscription) && (
                     <p className="text-sm text-muted-foreground mt-4">
                       {option.isSubscription 
-                        ? "To activate your annual subscription, please make a payment to the bank account details provided below. Email your payment confirmation to subscriptions@researchsphere.com."
-                        : "For institutional plans and payment details, please contact our support team."}
+                        ? "To activate your annual subscription, pay by bank transfer or UPI using the details below, then send us the transaction reference."
+                        : "Contact our support team to set up a plan. Members then join from the Institution page, by invite or with a verified institutional email address."}
                     </p>
                   )}
                 </CardContent>
@@ -203,7 +203,7 @@ export default function RegistrationPricingPage() {
                   Annual Subscription Payment Details
                 </CardTitle>
                 <CardDescription>
-                  To activate your annual subscription, please transfer the subscription fee to the following bank account and notify us.
+                  To activate your annual subscription, please transfer the subscription fee to the following bank account and send us the transaction details.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-3">
@@ -222,9 +222,18 @@ export default function RegistrationPricingPage() {
                     </div>
                   );
                 })}
-                <p className="text-sm text-muted-foreground pt-3">
-                  After payment, please email your transaction receipt/confirmation to <strong className="text-primary">subscriptions@researchsphere.com</strong> along with your registered username or email to activate your subscription.
-                </p>
+                <div className="pt-3">
+                  {user ? (
+                    <>
+                      {user.subscription && <SubscriptionQuota subscription={user.subscription} />}
+                      <SubscriptionPaymentForm />
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      After payment, <Link href="/login" className="text-primary underline">log in</Link> and return to this page to send us the transaction reference.
+                    </p>
+                  )}
+                </div>
               </CardContent>
             </Card>
           </section>
@@ -0,0 +1,123 @@
+
+"use client";
+
+import { useEffect, useState } from "react";
+import ProtectedRoute from "@/components/auth/ProtectedRoute";
+import ReviewAssignmentCard from "@/components/reviews/ReviewAssignmentCard";
+import LoadingSpinner from "@/components/shared/LoadingSpinner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Review } from "@/types";
+import { ClipboardCheck, Inbox } from "lucide-react";
+import { getReviewerReviews } from "@/lib/review-service";
+
+type ReviewerTab = "invitations" | "assigned" | "drafts" | "completed";
+
+const TAB_CONFIG: { value: ReviewerTab; label: string; statuses: Review['status'][]; emptyText: string }[] = [
+  { value: "invitations", label: "Invitations", statuses: ["Invited"], emptyText: "You have no pending review invitations." },
+  { value: "assigned", label: "Assigned", statuses: ["Accepted"], emptyText: "No accepted reviews are waiting to be started." },
+  { value: "drafts", label: "Drafts", statuses: ["Draft"], emptyText: "You have no reviews in progress." },
+  { value: "completed", label: "Completed", statuses: ["Submitted", "Declined"], emptyText: "You have not completed any reviews yet." },
+];
+
+// Soonest deadline first; reviews without a due date go last.
+const sortByDueDate = (a: Review, b: Review) => {
+  if (!a.dueDate) return b.dueDate ? 1 : 0;
+  if (!b.dueDate) return -1;
+  return new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+};
+
+function ReviewerDashboardContent() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [isLoadingReviews, setIsLoadingReviews] = useState(true);
+
+  useEffect(() => {
+    if (!user) return;
+    setIsLoadingReviews(true);
+    const fetchReviews = async () => {
+      try {
+        setReviews(await getReviewerReviews(user.id));
+      } catch (error: any) {
+        console.error("ReviewerDashboardContent: Failed to fetch reviews:", error);
+        toast({ variant: "destructive", title: "Error Loading Reviews", description: error.message || "Could not load your review assignments." });
+      } finally {
+        setIsLoadingReviews(false);
+      }
+    };
+    fetchReviews();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user]);
+
+  const handleReviewChange = (updated: Review) => {
+    setReviews(prev => prev.map(r => (r.id === updated.id ? updated : r)));
+  };
+
+  if (isLoadingReviews) {
+    return <div className="flex justify-center items-center py-10"><LoadingSpinner size={32}/> <p className="ml-2">Loading reviews...</p></div>;
+  }
+
+  const pendingInvitations = reviews.filter(r => r.status === "Invited").length;
+
+  return (
+    <div className="container py-8 md:py-12 px-4">
+      <div className="flex flex-col md:flex-row justify-between items-center mb-8 gap-4">
+        <h1 className="text-3xl md:text-4xl font-bold tracking-tight flex items-center">
+          <ClipboardCheck className="h-8 w-8 mr-3 text-primary" /> Reviewer Dashboard
+        </h1>
+      </div>
+
+      {reviews.length === 0 ? (
+        <Alert className="bg-secondary">
+          <Inbox className="h-4 w-4" />
+          <AlertTitle>No Review Assignments</AlertTitle>
+          <AlertDescription>
+            You have not been invited to review any papers yet. Invitations from the editors will appear here.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Tabs defaultValue={pendingInvitations > 0 ? "invitations" : "assigned"}>
+          <TabsList className="mb-6 flex-wrap h-auto">
+            {TAB_CONFIG.map(tab => {
+              const count = reviews.filter(r => tab.statuses.includes(r.status)).length;
+              return (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  {tab.label}
+                  {count > 0 && <Badge variant="secondary" className="ml-2">{count}</Badge>}
+                </TabsTrigger>
+              );
+            })}
+          </TabsList>
+          {TAB_CONFIG.map(tab => {
+            const tabReviews = reviews.filter(r => tab.statuses.includes(r.status)).sort(sortByDueDate);
+            return (
+              <TabsContent key={tab.value} value={tab.value}>
+                {tabReviews.length === 0 ? (
+                  <p className="text-muted-foreground text-center py-8">{tab.emptyText}</p>
+                ) : (
+                  <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+                    {tabReviews.map(review => (
+                      <ReviewAssignmentCard key={review.id} review={review} onReviewChange={handleReviewChange} />
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+            );
+          })}
+        </Tabs>
+      )}
+    </div>
+  );
+}
+
+export default function ReviewerDashboardPage() {
+  return (
+    <ProtectedRoute>
+      <ReviewerDashboardContent />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,132 @@
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import ProtectedRoute from '@/components/auth/ProtectedRoute';
+import { useAuth } from '@/hooks/use-auth';
+import type { Paper, Review } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { ClipboardEdit, AlertTriangle, Download, Tag, XCircle } from 'lucide-react';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import ReviewForm from '@/components/reviews/ReviewForm';
+import ReviewAssignmentCard from '@/components/reviews/ReviewAssignmentCard';
+import { toast } from '@/hooks/use-toast';
+import { getReview, getConfidentialComments, getReviewerPaperCopy } from '@/lib/review-service';
+
+function ReviewPageContent() {
+  const params = useParams();
+  const router = useRouter();
+  const { user } = useAuth();
+  const [review, setReview] = useState<Review | null>(null);
+  const [paper, setPaper] = useState<Paper | null>(null);
+  const [confidentialComments, setConfidentialComments] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const reviewId = params.id as string;
+    if (!reviewId || !user) return;
+    setIsLoading(true);
+    const load = async () => {
+      try {
+        const fetchedReview = await getReview(reviewId);
+        if (!fetchedReview || fetchedReview.reviewerId !== user.id) {
+          toast({ variant: "destructive", title: "Access Denied", description: "This review is not assigned to you." });
+          router.push('/reviewer/dashboard');
+          return;
+        }
+        setReview(fetchedReview);
+        const [paperCopy, confidential] = await Promise.all([
+          getReviewerPaperCopy(fetchedReview.paperId),
+          getConfidentialComments(fetchedReview.id),
+        ]);
+        setPaper(paperCopy?.paper ?? null);
+        setConfidentialComments(confidential?.comments || "");
+      } catch (error: any) {
+        toast({ variant: "destructive", title: "Error", description: error.message || "Could not load the review." });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    load();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [params.id, user]);
+
+  if (isLoading) {
+    return <div className="flex justify-center items-center py-20"><LoadingSpinner size={48} /></div>;
+  }
+
+  if (!review) {
+    return (
+      <div className="container py-12 text-center px-4">
+        <AlertTriangle className="mx-auto h-12 w-12 text-destructive mb-4" />
+        <h2 className="text-2xl font-semibold">Review Not Found</h2>
+        <Button onClick={() => router.push('/reviewer/dashboard')} className="mt-6">Go to Reviewer Dashboard</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container py-8 md:py-12 px-4">
+      <Card className="shadow-xl max-w-4xl mx-auto">
+        <CardHeader className="border-b">
+          <Badge variant="outline" className="mb-2 w-fit">{review.status}</Badge>
+          <CardTitle className="text-2xl md:text-3xl font-bold flex items-center">
+            <ClipboardEdit className="h-7 w-7 mr-3 text-primary" />Reviewer Report
+          </CardTitle>
+          <CardDescription>
+            Manuscript: <Link href={`/papers/${review.paperId}`} className="text-primary hover:underline">{review.paperTitle}</Link>
+            {review.dueDate && <> &middot; Due {new Date(review.dueDate).toLocaleDateString()}</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-6">
+          {paper && (
+            <div className="space-y-3">
+              <h3 className="text-lg font-semibold">Abstract</h3>
+              <p className="text-muted-foreground whitespace-pre-wrap">{paper.abstract}</p>
+              <div className="flex items-start text-sm">
+                <Tag className="h-4 w-4 mr-2 mt-0.5 text-primary flex-shrink-0" />
+                <span className="text-muted-foreground">{paper.keywords.join(', ')}</span>
+              </div>
+              {paper.fileUrl && (
+                <Button variant="outline" size="sm" onClick={() => window.open(paper.fileUrl, '_blank')}>
+                  <Download className="mr-2 h-4 w-4" /> Open Manuscript
+                </Button>
+              )}
+            </div>
+          )}
+          <Separator />
+          {review.status === 'Invited' && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">Please accept the invitation before writing your report.</p>
+              <ReviewAssignmentCard review={review} onReviewChange={setReview} />
+            </div>
+          )}
+          {review.status === 'Declined' && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertTitle>Invitation Declined</AlertTitle>
+              <AlertDescription>You declined to review this paper{review.declineReason ? `: ${review.declineReason}` : '.'}</AlertDescription>
+            </Alert>
+          )}
+          {review.status !== 'Invited' && review.status !== 'Declined' && (
+            <ReviewForm review={review} initialConfidentialComments={confidentialComments} onSaved={setReview} />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default function ReviewPage() {
+  return (
+    <ProtectedRoute>
+      <ReviewPageContent />
+    </ProtectedRoute>
+  );
+}
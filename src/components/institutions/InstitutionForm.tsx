@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import type { Institution } from '@/types';
+import type { InstitutionInput } from '@/lib/institution-membership';
+import { EMAIL_DOMAIN_PATTERN, normalizeEmailDomain } from '@/lib/institutions';
+import { isValidGstin } from '@/lib/gst';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2 } from 'lucide-react';
+
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const institutionSchema = z.object({
+  name: z.string().trim().min(2, "Please give the institution a name."),
+  emailDomains: z.string().refine(value => splitList(value).every(domain => EMAIL_DOMAIN_PATTERN.test(normalizeEmailDomain(domain))), "Use domains like university.edu, separated by commas."),
+  adminEmails: z.string().refine(value => splitList(value).length > 0, "Add at least one admin.")
+    .refine(value => splitList(value).every(email => /^[^@\s]+@[^@\s]+$/.test(email)), "Use email addresses separated by commas."),
+  seatLimit: z.coerce.number().int("Use a whole number.").min(1, "At least one seat is needed."),
+  submissionAllowance: z.coerce.number().int("Use a whole number.").min(0, "Cannot be negative."),
+  submissionRate: z.coerce.number().min(0, "Cannot be negative."),
+  currency: z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, "Use a three-letter currency code, e.g. INR."),
+  periodStart: z.string().min(1, "Required."),
+  periodEnd: z.string().min(1, "Required."),
+  billingEmail: z.string().trim().email("Enter a valid email address.").optional().or(z.literal("")),
+  billingAddress: z.string().optional(),
+  gstin: z.string().optional().or(z.literal("")).refine(value => !value || isValidGstin(value), "Enter a valid 15-character GSTIN."),
+  isActive: z.boolean(),
+}).refine(data => data.periodEnd > data.periodStart, { message: "The period must end after it starts.", path: ["periodEnd"] });
+
+type InstitutionFormValues = z.infer<typeof institutionSchema>;
+
+interface InstitutionFormProps {
+  institution?: Institution | null;
+  adminEmails: string[]; // Current admins' emails, looked up by the page
+  onSubmit: (input: InstitutionInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Periods are whole days: they start at midnight UTC on the first day and end at midnight after the last.
+const toDateInput = (iso?: string | null): string => (iso ? iso.slice(0, 10) : "");
+
+export default function InstitutionForm({ institution, adminEmails, onSubmit, onCancel }: InstitutionFormProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const today = new Date();
+  const nextYear = new Date(today);
+  nextYear.setFullYear(today.getFullYear() + 1);
+
+  const form = useForm<InstitutionFormValues>({
+    resolver: zodResolver(institutionSchema),
+    defaultValues: {
+      name: institution?.name || "",
+      emailDomains: institution?.emailDomains.join(", ") || "",
+      adminEmails: adminEmails.join(", "),
+      seatLimit: institution?.seatLimit ?? 25,
+      submissionAllowance: institution?.submissionAllowance ?? 50,
+      submissionRate: institution?.submissionRate ?? 399,
+      currency: institution?.currency || "INR",
+      periodStart: toDateInput(institution?.periodStart || today.toISOString()),
+      periodEnd: toDateInput(institution?.periodEnd || nextYear.toISOString()),
+      billingEmail: institution?.billingEmail || "",
+      billingAddress: institution?.billingAddress || "",
+      gstin: institution?.gstin || "",
+      isActive: institution?.isActive ?? true,
+    },
+  });
+  const errors = form.formState.errors;
+
+  const handleFormSubmit = async (data: InstitutionFormValues) => {
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        name: data.name,
+        emailDomains: splitList(data.emailDomains),
+        adminEmails: splitList(data.adminEmails),
+        seatLimit: data.seatLimit,
+        submissionAllowance: data.submissionAllowance,
+        submissionRate: data.submissionRate,
+        currency: data.currency,
+        periodStart: new Date(`${data.periodStart}T00:00:00Z`).toISOString(),
+        periodEnd: new Date(`${data.periodEnd}T00:00:00Z`).toISOString(),
+        billingEmail: data.billingEmail || null,
+        billingAddress: data.billingAddress?.trim() || null,
+        gstin: data.gstin || null,
+        isActive: data.isActive,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="institution-name">Name</Label>
+          <Input id="institution-name" {...form.register("name")} disabled={isSaving} className="mt-1" />
+          {errors.name && <p className="text-sm text-destructive mt-1">{errors.name.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="institution-domains">Email domains (optional)</Label>
+          <Input id="institution-domains" placeholder="e.g. university.edu, lab.university.edu" {...form.register("emailDomains")} disabled={isSaving} className="mt-1" />
+          <p className="text-xs text-muted-foreground mt-1">Verified addresses at these domains can take a free seat without an invite.</p>
+          {errors.emailDomains && <p className="text-sm text-destructive mt-1">{errors.emailDomains.message}</p>}
+        </div>
+        <div className="md:col-span-2">
+          <Label htmlFor="institution-admins">Institution admins</Label>
+          <Input id="institution-admins" placeholder="Emails of registered users, separated by commas" {...form.register("adminEmails")} disabled={isSaving} className="mt-1" />
+          {errors.adminEmails && <p className="text-sm text-destructive mt-1">{errors.adminEmails.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="institution-seats">Seats</Label>
+          <Input id="institution-seats" type="number" min="1" step="1" {...form.register("seatLimit")} disabled={isSaving} className="mt-1" />
+          {errors.seatLimit && <p className="text-sm text-destructive mt-1">{errors.seatLimit.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="institution-allowance">Submissions covered per period</Label>
+          <Input id="institution-allowance" type="number" min="0" step="1" {...form.register("submissionAllowance")} disabled={isSaving} className="mt-1" />
+          {errors.submissionAllowance && <p className="text-sm text-destructive mt-1">{errors.submissionAllowance.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="institution-rate">Billed per submission (incl. GST)</Label>
+          <div className="flex gap-2 mt-1">
+            <Input id="institution-rate" type="number" min="0" step="0.01" {...form.register("submissionRate")} disabled={isSaving} />
+            <Input placeholder="INR" {...form.register("currency")} disabled={isSaving} className="w-20 uppercase" />
+          </div>
+          {errors.submissionRate && <p className="text-sm text-destructive mt-1">{errors.submissionRate.message}</p>}
+          {errors.currency && <p className="text-sm text-destructive mt-1">{errors.currency.message}</p>}
+        </div>
+        <div>
+          <Label>Membership period</Label>
+          <div className="flex gap-2 mt-1">
+            <Input type="date" aria-label="Period start" {...form.register("periodStart")} disabled={isSaving} />
+            <Input type="date" aria-label="Period end" {...form.register("periodEnd")} disabled={isSaving} />
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">Changing the start date begins a new period with the full allowance.</p>
+          {errors.periodEnd && <p className="text-sm text-destructive mt-1">{errors.periodEnd.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="institution-billing-email">Billing email (optional)</Label>
+          <Input id="institution-billing-email" type="email" {...form.register("billingEmail")} disabled={isSaving} className="mt-1" />
+          {errors.billingEmail && <p className="text-sm text-destructive mt-1">{errors.billingEmail.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="institution-gstin">GSTIN (optional)</Label>
+          <Input id="institution-gstin" {...form.register("gstin")} disabled={isSaving} className="mt-1 uppercase" />
+          {errors.gstin && <p className="text-sm text-destructive mt-1">{errors.gstin.message}</p>}
+        </div>
+        <div className="md:col-span-2">
+          <Label htmlFor="institution-address">Billing address (optional)</Label>
+          <Textarea id="institution-address" rows={2} {...form.register("billingAddress")} disabled={isSaving} className="mt-1" />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch id="institution-active" checked={form.watch("isActive")} onCheckedChange={(checked) => form.setValue("isActive", checked)} disabled={isSaving} />
+        <Label htmlFor="institution-active" className="font-normal">Members&apos; submissions are covered</Label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {institution ? "Save Institution" : "Create Institution"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { Institution, InstitutionInvite, InstitutionMember } from '@/types';
+import { getInstitutionInvites, getInstitutionMembers } from '@/lib/institution-service';
+import { inviteInstitutionMember, removeInstitutionMember, revokeInstitutionInvite } from '@/lib/institution-actions';
+import { getFreeSeats, INSTITUTION_INVITE_STATUS_LABELS } from '@/lib/institutions';
+import { auth } from '@/lib/firebase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { Users, UserPlus, UserMinus, X, Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface InstitutionMembersPanelProps {
+  institution: Institution;
+  currentUserId: string;
+  onInstitutionChange: (institution: Institution) => void; // Keeps the page's seat count in step
+}
+
+export default function InstitutionMembersPanel({ institution, currentUserId, onInstitutionChange }: InstitutionMembersPanelProps) {
+  const [members, setMembers] = useState<InstitutionMember[]>([]);
+  const [invites, setInvites] = useState<InstitutionInvite[]>([]);
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [isInviting, setIsInviting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchSeats = async () => {
+      setIsLoading(true);
+      try {
+        const [fetchedMembers, fetchedInvites] = await Promise.all([getInstitutionMembers(institution.id), getInstitutionInvites(institution.id)]);
+        setMembers(fetchedMembers);
+        setInvites(fetchedInvites);
+      } catch (err: any) {
+        toast({ variant: "destructive", title: "Error Loading Members", description: err.message || "Could not load members." });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchSeats();
+  }, [institution.id]);
+
+  const pendingInvites = invites.filter(invite => invite.status === "pending");
+  const freeSeats = getFreeSeats(institution, pendingInvites.length);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!auth.currentUser || !inviteEmail.trim()) return;
+    setIsInviting(true);
+    try {
+      const invite = await inviteInstitutionMember(await auth.currentUser.getIdToken(), institution.id, inviteEmail.trim());
+      setInvites(current => [invite, ...current]);
+      setInviteEmail("");
+      toast({ title: "Invite Sent", description: `${invite.email} can accept from their Institution page.` });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Invite Not Sent", description: err.message || "Could not invite this member." });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRevoke = async (invite: InstitutionInvite) => {
+    if (!auth.currentUser) return;
+    setBusyId(invite.id);
+    try {
+      await revokeInstitutionInvite(await auth.currentUser.getIdToken(), institution.id, invite.id);
+      setInvites(current => current.map(i => i.id === invite.id ? { ...i, status: "revoked" } : i));
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Invite Not Revoked", description: err.message || "Could not revoke the invite." });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (member: InstitutionMember) => {
+    if (!auth.currentUser) return;
+    if (!confirm(`Remove ${member.displayName || member.email} from ${institution.name}? Their seat becomes free.`)) return;
+    setBusyId(member.id);
+    try {
+      await removeInstitutionMember(await auth.currentUser.getIdToken(), institution.id, member.id);
+      setMembers(current => current.filter(m => m.id !== member.id));
+      onInstitutionChange({
+        ...institution,
+        memberIds: institution.memberIds.filter(id => id !== member.id),
+        adminIds: institution.adminIds.filter(id => id !== member.id),
+      });
+      toast({ title: "Member Removed", description: `${member.displayName || member.email} no longer holds a seat.` });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Member Not Removed", description: err.message || "Could not remove this member." });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Users className="h-6 w-6 text-primary" />
+          <CardTitle className="text-xl">Members</CardTitle>
+        </div>
+        <CardDescription>
+          {institution.memberIds.length} of {institution.seatLimit} seats taken, {pendingInvites.length} invite{pendingInvites.length === 1 ? "" : "s"} pending.
+          {institution.emailDomains.length > 0 && ` Anyone with a verified ${institution.emailDomains.map(domain => `@${domain}`).join(" or ")} address can also join while seats are free.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleInvite} className="flex gap-2">
+          <Input
+            type="email"
+            placeholder="colleague@university.edu"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            disabled={isInviting || freeSeats === 0}
+          />
+          <Button type="submit" disabled={isInviting || freeSeats === 0 || !inviteEmail.trim()}>
+            {isInviting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />} Invite
+          </Button>
+        </form>
+        {freeSeats === 0 && <p className="text-sm text-muted-foreground -mt-4">All seats are taken or offered. Contact us to add more.</p>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6"><LoadingSpinner size={24} /></div>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Member</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map(member => (
+                  <TableRow key={member.id}>
+                    <TableCell className="text-sm">
+                      {member.displayName || "—"}
+                      <span className="block text-xs text-muted-foreground">{member.email}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={institution.adminIds.includes(member.id) ? "default" : "outline"}>
+                        {institution.adminIds.includes(member.id) ? "Admin" : "Member"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {member.id !== currentUserId && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemove(member)} disabled={busyId === member.id}>
+                          {busyId === member.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserMinus className="mr-2 h-4 w-4" />} Remove
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {invites.length > 0 && (
+              <div>
+                <h3 className="font-semibold mb-2">Invites</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {invites.map(invite => (
+                      <TableRow key={invite.id}>
+                        <TableCell className="text-sm">{invite.email}</TableCell>
+                        <TableCell className="text-xs whitespace-nowrap">{new Date(invite.createdAt).toLocaleDateString()}</TableCell>
+                        <TableCell>
+                          <Badge variant={invite.status === "pending" ? "secondary" : "outline"}>{INSTITUTION_INVITE_STATUS_LABELS[invite.status]}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {invite.status === "pending" && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite)} disabled={busyId === invite.id}>
+                              {busyId === invite.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <X className="mr-2 h-4 w-4" />} Revoke
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Institution, InstitutionUsageRecord } from '@/types';
+import { getInstitutionUsageReport } from '@/lib/institution-actions';
+import { buildInstitutionUsageCsv, summarizeInstitutionUsage } from '@/lib/institutions';
+import { downloadTextFile } from '@/lib/utils';
+import { auth } from '@/lib/firebase';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import LoadingSpinner from '@/components/shared/LoadingSpinner';
+import { BarChart3, Download } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+interface InstitutionUsageReportProps {
+  institution: Institution;
+}
+
+export default function InstitutionUsageReport({ institution }: InstitutionUsageReportProps) {
+  const [records, setRecords] = useState<InstitutionUsageRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const summary = useMemo(() => summarizeInstitutionUsage(records), [records]);
+  const busiestMonth = Math.max(1, ...summary.byMonth.map(month => month.submissions));
+
+  useEffect(() => {
+    const fetchUsage = async () => {
+      if (!auth?.currentUser) return;
+      setIsLoading(true);
+      try {
+        setRecords(await getInstitutionUsageReport(await auth.currentUser.getIdToken(), institution.id));
+      } catch (err: any) {
+        toast({ variant: "destructive", title: "Error Loading Usage", description: err.message || "Could not load the usage report." });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchUsage();
+  }, [institution.id]);
+
+  const handleExport = () => {
+    const slug = institution.name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    downloadTextFile(`${slug}-usage-${new Date().toISOString().slice(0, 10)}.csv`, buildInstitutionUsageCsv(records), 'text/csv');
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="h-6 w-6 text-primary" />
+            <CardTitle className="text-xl">Usage Analytics &amp; Reporting</CardTitle>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isLoading || records.length === 0}>
+            <Download className="mr-2 h-4 w-4" /> Export CSV
+          </Button>
+        </div>
+        <CardDescription>Every submission by your current members, including papers submitted before they joined.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6"><LoadingSpinner size={24} /></div>
+        ) : records.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">No submissions by members yet.</p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Submissions</p>
+                <p className="text-2xl font-semibold">{summary.totalSubmissions}</p>
+              </div>
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Covered by the institution</p>
+                <p className="text-2xl font-semibold">{summary.coveredSubmissions}</p>
+              </div>
+              <div className="rounded-md border p-4">
+                <p className="text-sm text-muted-foreground">Awaiting invoice</p>
+                <p className="text-2xl font-semibold">{summary.uninvoicedSubmissions}</p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(summary.byStatus).map(([status, count]) => (
+                <Badge key={status} variant="secondary">{status}: {count}</Badge>
+              ))}
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <div>
+                <h3 className="font-semibold mb-2">By member</h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Member</TableHead>
+                      <TableHead className="text-right">Submissions</TableHead>
+                      <TableHead className="text-right">Covered</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summary.byMember.map(member => (
+                      <TableRow key={member.authorId}>
+                        <TableCell className="text-sm">{member.authorName}</TableCell>
+                        <TableCell className="text-right">{member.submissions}</TableCell>
+                        <TableCell className="text-right">{member.covered}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div>
+                <h3 className="font-semibold mb-2">By month</h3>
+                <div className="space-y-2">
+                  {summary.byMonth.map(month => (
+                    <div key={month.month} className="flex items-center gap-2 text-sm">
+                      <span className="w-16 text-muted-foreground">{month.month}</span>
+                      <div className="h-3 rounded bg-primary" style={{ width: `${(month.submissions / busiestMonth) * 70}%` }} />
+                      <span>{month.submissions}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <h3 className="font-semibold mb-2">Submissions</h3>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Paper</TableHead>
+                    <TableHead>Author</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Submitted</TableHead>
+                    <TableHead>Billing</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map(record => (
+                    <TableRow key={record.paperId}>
+                      <TableCell className="text-sm">{record.paperTitle}</TableCell>
+                      <TableCell className="text-sm">{record.authorName}</TableCell>
+                      <TableCell><Badge variant="outline">{record.status}</Badge></TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">{record.submittedAt ? new Date(record.submittedAt).toLocaleDateString() : "—"}</TableCell>
+                      <TableCell className="text-xs">
+                        {record.coveredByInstitution ? (record.invoiceId ? "Invoiced" : "Covered, not yet invoiced") : "Not covered"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
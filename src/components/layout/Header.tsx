@@ -21,9 +21,10 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { useAuth } from '@/hooks/use-auth';
-import { BookOpenText, LayoutDashboard, LogOut, UserCircle, UploadCloud, Sparkles, Menu, Settings, Search as SearchIcon, Users as UsersIconLucide, FileText as FileTextIconLucide, Phone, Shield, UserCheck, Eye } from 'lucide-react';
+import { BookOpenText, LayoutDashboard, LogOut, UserCircle, UploadCloud, Sparkles, Menu, Settings, Search as SearchIcon, Users as UsersIconLucide, FileText as FileTextIconLucide, Phone, Shield, UserCheck, Eye, ClipboardCheck, Landmark, Receipt, BadgePercent, Award, Building, Mail, Bell, History } from 'lucide-react';
 import { useRouter, usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
+import NotificationBell from '@/components/notifications/NotificationBell';
 
 // Adjusted NavLinkItem for better style handling, especially for mobile sheet
 const NavLinkItem = ({ href, children, onClick, isActive, isAction, icon, isAdminContext }: {
@@ -115,6 +116,7 @@ export default function Header() {
   };
 
   const isViewingAdminSection = pathname.startsWith('/admin');
+  const isReviewer = !!user && !isAdmin && user.role === "Reviewer";
 
   const baseNavLinks = [
     { href: "/", label: "Home", icon: null },
@@ -136,6 +138,16 @@ export default function Header() {
     { href: "/contact-us", label: "Contact", icon: <Phone className="mr-2 h-4 w-4" /> },
   ];
 
+  const reviewerNavLinks = [
+    { href: "/", label: "Home", icon: null },
+    { href: "/reviewer/dashboard", label: "Reviews", icon: <ClipboardCheck className="mr-2 h-4 w-4" /> },
+    { href: "/dashboard", label: "My Papers", icon: <LayoutDashboard className="mr-2 h-4 w-4" /> },
+    { href: "/key-committee", label: "Committee", icon: <UsersIconLucide className="mr-2 h-4 w-4" /> },
+    { href: "/sample-templates", label: "Templates", icon: <FileTextIconLucide className="mr-2 h-4 w-4" /> },
+    { href: "/search-papers", label: "Search", icon: <SearchIcon className="mr-2 h-4 w-4" /> },
+    { href: "/contact-us", label: "Contact", icon: <Phone className="mr-2 h-4 w-4" /> },
+  ];
+
   const adminNavLinks = [
     { href: "/admin/dashboard", label: "Admin Panel", icon: <Shield className="mr-2 h-4 w-4" /> },
     { href: "/search-papers", label: "Search Papers", icon: <SearchIcon className="mr-2 h-4 w-4" /> },
@@ -147,6 +159,14 @@ export default function Header() {
       { href: "/admin/users", label: "User Management", icon: <UsersIconLucide className="mr-2 h-4 w-4" /> },
       { href: "/admin/registered-admins", label: "Registered Admins", icon: <UserCheck className="mr-2 h-4 w-4" /> },
       { href: "/admin/reviewers", label: "Reviewer Management", icon: <Eye className="mr-2 h-4 w-4" /> },
+      { href: "/admin/venues", label: "Venues", icon: <Landmark className="mr-2 h-4 w-4" /> },
+      { href: "/admin/payments", label: "Payments", icon: <Receipt className="mr-2 h-4 w-4" /> },
+      { href: "/admin/discounts", label: "Discounts & Waivers", icon: <BadgePercent className="mr-2 h-4 w-4" /> },
+      { href: "/admin/subscriptions", label: "Subscriptions", icon: <Award className="mr-2 h-4 w-4" /> },
+      { href: "/admin/institutions", label: "Institutions", icon: <Building className="mr-2 h-4 w-4" /> },
+      { href: "/admin/emails", label: "Email Outbox", icon: <Mail className="mr-2 h-4 w-4" /> },
+      { href: "/admin/audit", label: "Audit Log", icon: <History className="mr-2 h-4 w-4" /> },
+      { href: "/admin/settings", label: "Settings", icon: <Settings className="mr-2 h-4 w-4" /> },
   ];
 
 
@@ -154,6 +174,8 @@ export default function Header() {
   if (isClient) {
     if (user && isAdmin) {
       currentNavLinks = adminNavLinks;
+    } else if (isReviewer) {
+      currentNavLinks = reviewerNavLinks;
     } else if (user && !isAdmin) {
       currentNavLinks = userNavLinks;
     } else {
@@ -213,6 +235,7 @@ export default function Header() {
         </nav>
 
         <div className="hidden md:flex items-center space-x-2 ml-auto">
+          {isClient && user && <NotificationBell />}
           {isClient && user ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -242,16 +265,32 @@ export default function Header() {
                     <span>Dashboard</span>
                   </DropdownMenuItem>
                 )}
+                {isReviewer && (
+                  <DropdownMenuItem onClick={() => router.push('/reviewer/dashboard')}>
+                    <ClipboardCheck className="mr-2 h-4 w-4" />
+                    <span>Reviewer Dashboard</span>
+                  </DropdownMenuItem>
+                )}
                 <DropdownMenuItem onClick={() => router.push('/profile/settings')}>
                   <Settings className="mr-2 h-4 w-4" />
                   <span>Profile Settings</span>
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => router.push('/notifications')}>
+                  <Bell className="mr-2 h-4 w-4" />
+                  <span>Notifications</span>
+                </DropdownMenuItem>
                 {!isAdmin && (
                   <DropdownMenuItem onClick={handleSubmitPaperClick}>
                     <UploadCloud className="mr-2 h-4 w-4" />
                     <span>Submit Paper</span>
                   </DropdownMenuItem>
                 )}
+                {!isAdmin && (
+                  <DropdownMenuItem onClick={() => router.push('/institution')}>
+                    <Building className="mr-2 h-4 w-4" />
+                    <span>Institution</span>
+                  </DropdownMenuItem>
+                )}
                 {!isAdmin && (
                   <DropdownMenuItem onClick={() => router.push('/ai-pre-check')}>
                     <Sparkles className="mr-2 h-4 w-4" />
@@ -278,6 +317,7 @@ export default function Header() {
         </div>
 
         <div className="flex items-center md:hidden">
+          {isClient && user && <NotificationBell />}
           <Sheet open={isMobileMenuOpen} onOpenChange={setIsMobileMenuOpen}>
             <SheetTrigger asChild>
               <Button variant="ghost" size="icon">
@@ -346,6 +386,9 @@ export default function Header() {
                     <NavLinkItem href="/profile/settings" onClick={() => setIsMobileMenuOpen(false)} isActive={pathname === "/profile/settings"} icon={<Settings className="mr-2 h-4 w-4" />} isAdminContext={!!(user && isAdmin)}>
                       Profile Settings
                     </NavLinkItem>
+                    <NavLinkItem href="/notifications" onClick={() => setIsMobileMenuOpen(false)} isActive={pathname === "/notifications"} icon={<Bell className="mr-2 h-4 w-4" />} isAdminContext={!!(user && isAdmin)}>
+                      Notifications
+                    </NavLinkItem>
                     {!isAdmin && (
                       <NavLinkItem onClick={() => { handleSubmitPaperClick(); setIsMobileMenuOpen(false); }} isActive={pathname === "/submit"} isAction={true} icon={<UploadCloud className="mr-2 h-4 w-4" />} >
                         Submit Paper
@@ -0,0 +1,89 @@
+"use client";
+
+import { useRouter } from 'next/navigation';
+import type { UserNotification } from '@/types';
+import { useNotifications } from '@/hooks/use-notifications';
+import { markNotificationsRead } from '@/lib/notification-service';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, CheckCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+
+const MENU_SIZE = 6;
+
+export default function NotificationBell() {
+  const router = useRouter();
+  const { notifications, unreadCount } = useNotifications();
+  const latest = notifications.slice(0, MENU_SIZE);
+
+  const markRead = async (ids: string[]) => {
+    try {
+      await markNotificationsRead(ids);
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error", description: err.message || "Could not update your notifications." });
+    }
+  };
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.read) markRead([notification.id]);
+    router.push(notification.link || '/notifications');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold leading-[1.1rem] text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+          <span className="sr-only">Notifications{unreadCount > 0 ? ` (${unreadCount} unread)` : ""}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs font-normal"
+              onClick={() => markRead(notifications.filter(notification => !notification.read).map(notification => notification.id))}
+            >
+              <CheckCheck className="mr-1 h-3 w-3" /> Mark all read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {latest.length === 0 ? (
+          <p className="px-2 py-4 text-sm text-muted-foreground text-center">You have no notifications.</p>
+        ) : (
+          latest.map(notification => (
+            <DropdownMenuItem key={notification.id} onClick={() => handleOpen(notification)} className="flex flex-col items-start gap-0.5 cursor-pointer">
+              <span className={cn("text-sm", !notification.read && "font-semibold")}>
+                {!notification.read && <span className="inline-block h-2 w-2 mr-1.5 rounded-full bg-primary" />}
+                {notification.title}
+              </span>
+              <span className="text-xs text-muted-foreground line-clamp-2">{notification.message}</span>
+              <span className="text-[11px] text-muted-foreground">{new Date(notification.createdAt).toLocaleString()}</span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => router.push('/notifications')} className="justify-center text-sm text-primary cursor-pointer">
+          View all notifications
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState } from "react";
+import type { NotificationEvent, NotificationPreferences } from "@/types";
+import { useAuth } from "@/hooks/use-auth";
+import { NOTIFICATION_EVENTS, isEmailEnabled } from "@/lib/notifications";
+import { updateNotificationPreferences } from "@/lib/notification-service";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Mail } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+// Events for reviewers only matter to reviewers, so authors are not asked about them.
+const REVIEWER_EVENTS: NotificationEvent[] = ["reviewer-invited"];
+
+export default function NotificationPreferencesCard() {
+  const { user, refreshUser } = useAuth();
+  const [savingEvent, setSavingEvent] = useState<NotificationEvent | null>(null);
+
+  if (!user) return null;
+
+  const events = NOTIFICATION_EVENTS.filter(({ event }) => user.role === "Reviewer" || !REVIEWER_EVENTS.includes(event));
+
+  const handleToggle = async (event: NotificationEvent, enabled: boolean) => {
+    setSavingEvent(event);
+    try {
+      const preferences: NotificationPreferences = { ...(user.notificationPreferences || {}), [event]: enabled };
+      await updateNotificationPreferences(user.id, preferences);
+      await refreshUser();
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Error", description: err.message || "Could not save your preferences." });
+    } finally {
+      setSavingEvent(null);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Mail className="h-5 w-5 text-primary" />
+          <CardTitle className="text-xl">Email Preferences</CardTitle>
+        </div>
+        <CardDescription>Every event appears here in your notifications. Choose which ones are also sent to {user.email || "your email address"}.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {events.map(({ event, label, description }) => (
+          <div key={event} className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor={`email-${event}`} className="font-medium">{label}</Label>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+            <Switch
+              id={`email-${event}`}
+              checked={isEmailEnabled(user.notificationPreferences, event)}
+              onCheckedChange={(checked) => handleToggle(event, checked)}
+              disabled={savingEvent !== null}
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
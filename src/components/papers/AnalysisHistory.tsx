@@ -0,0 +1,106 @@
+
+"use client";
+
+import type { AiAnalysisFlow, AiAnalysisRun, Paper } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { History, Loader2, ArrowUp, ArrowDown, Minus, BadgeCheck } from 'lucide-react';
+import { AI_ANALYSIS_FLOW_LABELS } from '@/lib/ai-analysis-service';
+
+interface AnalysisHistoryProps {
+  runs: AiAnalysisRun[];
+  officialRuns?: Paper['officialAnalysisRuns'];
+  onMarkOfficial: (run: AiAnalysisRun) => void;
+  markingRunId?: string | null;
+}
+
+const FLOWS: AiAnalysisFlow[] = ["plagiarism", "acceptance"];
+
+const ScoreChange = ({ current, previous }: { current: number; previous?: number }) => {
+  if (previous === undefined) return null;
+  const change = (current - previous) * 100;
+  if (Math.abs(change) < 0.05) return <Minus className="inline h-3 w-3 ml-1 text-muted-foreground" />;
+  return (
+    <span className="text-xs text-muted-foreground ml-1">
+      {change > 0 ? <ArrowUp className="inline h-3 w-3" /> : <ArrowDown className="inline h-3 w-3" />}
+      {Math.abs(change).toFixed(1)}
+    </span>
+  );
+};
+
+export default function AnalysisHistory({ runs, officialRuns, onMarkOfficial, markingRunId }: AnalysisHistoryProps) {
+  if (runs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-6 w-6 text-primary" />
+          <CardTitle>Analysis History</CardTitle>
+        </div>
+        <CardDescription>Every validation run across manuscript versions. The official run is the result shown above.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {FLOWS.map(flow => {
+          const flowRuns = runs.filter(run => run.flow === flow);
+          if (flowRuns.length === 0) return null;
+          return (
+            <div key={flow}>
+              <h4 className="font-semibold text-sm mb-2">{AI_ANALYSIS_FLOW_LABELS[flow]}</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Run</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Model / Prompt</TableHead>
+                    <TableHead>Input</TableHead>
+                    <TableHead className="text-right">Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...flowRuns].reverse().map(run => {
+                    const index = flowRuns.indexOf(run);
+                    const isOfficial = officialRuns?.[flow] === run.id;
+                    return (
+                      <TableRow key={run.id}>
+                        <TableCell className="text-xs">
+                          {run.createdAt ? new Date(run.createdAt as string).toLocaleString() : 'Date unavailable'}
+                          <span className="block text-muted-foreground">{run.triggeredByName || run.triggeredBy}</span>
+                        </TableCell>
+                        <TableCell>v{run.paperVersion}</TableCell>
+                        <TableCell className="whitespace-nowrap font-medium">
+                          {(run.score * 100).toFixed(1)}%
+                          <ScoreChange current={run.score} previous={index > 0 ? flowRuns[index - 1].score : undefined} />
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {run.model}
+                          <span className="block text-muted-foreground">{run.promptVersion}</span>
+                        </TableCell>
+                        <TableCell className="text-xs font-mono" title={run.inputHash}>{run.inputHash.slice(0, 10)}</TableCell>
+                        <TableCell className="text-right">
+                          {isOfficial ? (
+                            <Badge><BadgeCheck className="mr-1 h-3 w-3" />Official</Badge>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => onMarkOfficial(run)} disabled={!!markingRunId}>
+                              {markingRunId === run.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                              Mark Official
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
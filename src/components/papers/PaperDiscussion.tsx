@@ -0,0 +1,178 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { Paper, PaperMessage, PaperMessageRole, PaperMessageVisibility } from "@/types";
+import { addPaperMessage, uploadMessageAttachments } from "@/lib/discussion-service";
+import { updatePaperData } from "@/lib/paper-service";
+import { notifyFeedbackPosted } from "@/lib/email-actions";
+import { getMessageSenderLabel, MAX_MESSAGE_ATTACHMENTS, MESSAGE_VISIBILITY_LABELS } from "@/lib/paper-discussion";
+import { auth } from "@/lib/firebase";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight, Loader2, Lock, MessageSquare, Paperclip, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { toast } from "@/hooks/use-toast";
+
+interface PaperDiscussionProps {
+  paper: Paper;
+  messages: PaperMessage[];
+  role: Exclude<PaperMessageRole, "system">;
+  viewer: { id: string; isAdmin: boolean; displayName?: string | null };
+  onMessagePosted: (message: PaperMessage) => void;
+  onPaperChange: (paper: Paper) => void;
+}
+
+// The author–editor thread on a paper. Status changes made with a message show up here with that message.
+export default function PaperDiscussion({ paper, messages, role, viewer, onMessagePosted, onPaperChange }: PaperDiscussionProps) {
+  const [body, setBody] = useState("");
+  const [visibility, setVisibility] = useState<PaperMessageVisibility>(role === "reviewer" ? "editors" : "author");
+  const [files, setFiles] = useState<File[]>([]);
+  const [isPosting, setIsPosting] = useState(false);
+  const [isUpdatingReviewers, setIsUpdatingReviewers] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFilesChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files || []);
+    if (selected.length > MAX_MESSAGE_ATTACHMENTS) {
+      toast({ variant: "destructive", title: "Too Many Files", description: `Attach at most ${MAX_MESSAGE_ATTACHMENTS} files to a message.` });
+      event.target.value = "";
+      setFiles([]);
+      return;
+    }
+    setFiles(selected);
+  };
+
+  const handlePost = async () => {
+    if (!body.trim()) return;
+    setIsPosting(true);
+    try {
+      const attachments = await uploadMessageAttachments(files);
+      const message = await addPaperMessage(paper.id, {
+        authorId: viewer.id,
+        authorName: viewer.displayName || null,
+        authorRole: role,
+        body,
+        visibility: role === "admin" ? visibility : role === "author" ? "author" : "editors",
+        attachments,
+        statusChange: null,
+      });
+      onMessagePosted(message);
+      if (role === "admin" && message.visibility === "author" && auth.currentUser) {
+        notifyFeedbackPosted(await auth.currentUser.getIdToken(), paper.id, message.id)
+          .catch(error => console.error("PaperDiscussion: Could not notify the author:", error));
+      }
+      setBody("");
+      setFiles([]);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+      toast({ title: "Message Posted", description: message.visibility === "author" && role === "admin" ? "The author will be notified." : undefined });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Message Not Posted", description: error.message || "Could not post your message." });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleReviewersToggle = async (include: boolean) => {
+    setIsUpdatingReviewers(true);
+    try {
+      onPaperChange(await updatePaperData(paper.id, { reviewersInDiscussion: include }));
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Update Failed", description: error.message || "Could not change who takes part in the discussion." });
+    } finally {
+      setIsUpdatingReviewers(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold flex items-center"><MessageSquare className="h-5 w-5 mr-2 text-primary" />Discussion</h3>
+        {role === "admin" && (
+          <div className="flex items-center gap-2">
+            <Switch id="reviewers-in-discussion" checked={!!paper.reviewersInDiscussion} onCheckedChange={handleReviewersToggle} disabled={isUpdatingReviewers} />
+            <Label htmlFor="reviewers-in-discussion" className="text-sm font-normal">Include assigned reviewers in editors-only messages</Label>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {paper.adminFeedback && role !== "reviewer" && (
+          <div className="rounded-md border bg-secondary/50 p-3">
+            <p className="text-xs text-muted-foreground mb-1">Earlier feedback, from before the discussion thread</p>
+            <p className="text-sm whitespace-pre-wrap">{paper.adminFeedback}</p>
+          </div>
+        )}
+        {messages.length === 0 && !paper.adminFeedback && (
+          <p className="text-sm text-muted-foreground">
+            {role === "author" ? "No messages yet. Questions for the editors can be posted here." : "No messages yet."}
+          </p>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={cn("rounded-md border p-3", message.visibility === "editors" && "border-dashed bg-muted/40", message.authorId === viewer.id && "bg-secondary/30")}>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground mb-1">
+              <span className="font-medium text-foreground">{getMessageSenderLabel(message, viewer)}</span>
+              <span>{new Date(message.createdAt).toLocaleString()}</span>
+              {message.visibility === "editors" && (
+                <Badge variant="outline" className="text-[11px]"><Lock className="h-3 w-3 mr-1" />{MESSAGE_VISIBILITY_LABELS.editors}</Badge>
+              )}
+              {message.statusChange && (
+                <Badge variant="secondary" className="text-[11px]">
+                  {message.statusChange.from} <ArrowRight className="h-3 w-3 mx-1" /> {message.statusChange.to}
+                </Badge>
+              )}
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{message.body}</p>
+            {message.attachments.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {message.attachments.map(attachment => (
+                  <li key={attachment.url} className="text-xs">
+                    <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-primary hover:underline">
+                      <Paperclip className="h-3 w-3 mr-1" />{attachment.name}
+                    </a>
+                    {attachment.size ? <span className="text-muted-foreground"> ({Math.max(1, Math.round(attachment.size / 1024))} KB)</span> : null}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-4 space-y-2">
+        <Label htmlFor="discussion-message">
+          {role === "author" ? "Message to the editors" : role === "reviewer" ? "Message to the editors (never shown to the author)" : "New message"}
+        </Label>
+        <Textarea
+          id="discussion-message"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={3}
+          placeholder="Write a message..."
+          disabled={isPosting}
+        />
+        <div className="flex flex-wrap items-center gap-2">
+          {role === "admin" && (
+            <Select value={visibility} onValueChange={(value) => setVisibility(value as PaperMessageVisibility)} disabled={isPosting}>
+              <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MESSAGE_VISIBILITY_LABELS) as PaperMessageVisibility[]).map(option => (
+                  <SelectItem key={option} value={option}>{MESSAGE_VISIBILITY_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input ref={fileInputRef} type="file" multiple onChange={handleFilesChange} disabled={isPosting} className="w-auto max-w-xs" />
+          <Button onClick={handlePost} disabled={isPosting || !body.trim()}>
+            {isPosting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />} Post
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Up to {MAX_MESSAGE_ATTACHMENTS} attachments. Messages cannot be edited once posted.</p>
+      </div>
+    </div>
+  );
+}
@@ -25,7 +25,7 @@ const PaperListItem = React.memo(({ paper }: PaperListItemProps) => {
   const [isOverdue, setIsOverdue] = useState(false);
 
   useEffect(() => {
-    if (paper.status === "Payment Pending" && paper.paymentDueDate) {
+    if (paper.status === "Payment Pending" && paper.paymentDueDate && paper.feeWaiverStatus !== "pending") {
         const paymentDueDateValid = !isNaN(new Date(paper.paymentDueDate).getTime());
         if (paymentDueDateValid && new Date() > new Date(paper.paymentDueDate)) {
             setDisplayStatus("Payment Overdue");
@@ -38,7 +38,7 @@ const PaperListItem = React.memo(({ paper }: PaperListItemProps) => {
       setDisplayStatus(paper.status);
       setIsOverdue(false);
     }
-  }, [paper.status, paper.paymentDueDate]);
+  }, [paper.status, paper.paymentDueDate, paper.feeWaiverStatus]);
 
 
   const getStatusBadgeVariant = (status: PaperStatus) => {
@@ -150,7 +150,7 @@ const PaperListItem = React.memo(({ paper }: PaperListItemProps) => {
 
       </CardContent>
       <CardFooter className="bg-secondary/30 p-3 sm:p-4 flex flex-wrap sm:flex-row items-stretch md:items-center justify-end gap-2">
-        {paper.status === 'Payment Pending' && displayStatus !== 'Payment Overdue' && user && user.id === paper.userId && (
+        {((paper.status === 'Payment Pending' && displayStatus !== 'Payment Overdue') || (paper.status === 'Payment Overdue' && paper.latePaymentAllowed)) && user && user.id === paper.userId && (
           <Button size="sm" onClick={() => router.push(`/papers/${paper.id}?action=pay`)} className="w-full sm:w-auto">
             <DollarSign className="mr-2 h-4 w-4" /> Pay Now
           </Button>
@@ -11,16 +11,32 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useAuth } from '@/hooks/use-auth';
 import { useRouter } from 'next/navigation';
 import { toast } from '@/hooks/use-toast';
-import type { Paper as PaperType } from '@/types';
-import { UploadCloud, Loader2, AlertTriangle, DollarSign, Clock } from 'lucide-react';
+import type { AuthorDeclaredConflict, Institution, Paper as PaperType, ReviewerDirectoryEntry, Venue } from '@/types';
+import { UploadCloud, Loader2, AlertTriangle, DollarSign, Clock, Award, Building } from 'lucide-react';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { addPaper } from '@/lib/paper-service';
+import { auth } from '@/lib/firebase';
+import { applySubscriptionToPaper } from '@/lib/payment-actions';
+import { getRemainingSubmissions, SUBSCRIPTION_PLANS } from '@/lib/subscriptions';
+import { applyInstitutionAllowanceToPaper } from '@/lib/institution-actions';
+import { notifyPaperSubmitted } from '@/lib/email-actions';
+import { getInstitution } from '@/lib/institution-service';
+import { getRemainingInstitutionSubmissions } from '@/lib/institutions';
+import { getReviewerDirectory } from '@/lib/user-service';
+import { getOpenVenues } from '@/lib/venue-service';
+import { formatFee, formatVenueName, getOpenTracks, getSubmissionFee, VENUE_TYPE_LABELS } from '@/lib/venue-schedule';
+import { formatGracePeriod, getPaymentPolicy } from '@/lib/payment-policy';
 import PaymentModal from '@/components/payment/PaymentModal';
+import { findSelfIdentifyingTerms, REVIEW_MODE_LABELS } from '@/lib/anonymization';
 
 const paperSchema = z.object({
+  venueId: z.string().min(1, "Please choose a venue."),
+  trackId: z.string().optional(),
   title: z.string().min(5, "Title must be at least 5 characters."),
   abstract: z.string().min(50, "Abstract must be at least 50 characters.").max(2000, "Abstract must be less than 2000 characters."),
   authors: z.string().min(1, "At least one author is required.").transform(val => val.split(',').map(s => s.trim()).filter(Boolean)),
@@ -44,19 +60,26 @@ const paperSchema = z.object({
 type PaperFormValues = z.infer<typeof paperSchema>;
 
 export default function PaperUploadForm() {
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
   const router = useRouter();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [fileNameDisplay, setFileNameDisplay] = useState<string | null>(null);
   const [showPayNowModal, setShowPayNowModal] = useState(false);
   const [newlyCreatedPaperForPayment, setNewlyCreatedPaperForPayment] = useState<PaperType | null>(null);
-  const [pendingSubmissionData, setPendingSubmissionData] = useState<PaperFormValues | null>(null);
+  const [payNowCompleted, setPayNowCompleted] = useState(false);
+  const [reviewers, setReviewers] = useState<ReviewerDirectoryEntry[]>([]);
+  const [declaredConflicts, setDeclaredConflicts] = useState<AuthorDeclaredConflict[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [isLoadingVenues, setIsLoadingVenues] = useState(true);
+  const [institution, setInstitution] = useState<Institution | null>(null);
 
 
   const form = useForm<PaperFormValues>({
     resolver: zodResolver(paperSchema),
     defaultValues: {
+      venueId: "",
+      trackId: "",
       title: "",
       abstract: "",
       authors: "",
@@ -66,6 +89,55 @@ export default function PaperUploadForm() {
     },
   });
 
+  useEffect(() => {
+    getOpenVenues()
+      .then(setVenues)
+      .catch((error: any) => toast({ variant: "destructive", title: "Error Loading Venues", description: error.message || "Could not load open venues." }))
+      .finally(() => setIsLoadingVenues(false));
+  }, []);
+
+  useEffect(() => {
+    // Without the institution the author simply pays as usual, so a failed lookup is not reported.
+    if (!user?.institutionId) return;
+    getInstitution(user.institutionId).then(setInstitution).catch(() => setInstitution(null));
+  }, [user?.institutionId]);
+
+  const selectedVenue = venues.find(venue => venue.id === form.watch("venueId")) || null;
+  const openTracks = selectedVenue ? getOpenTracks(selectedVenue) : [];
+  const submissionFee = selectedVenue ? getSubmissionFee(selectedVenue) : 0;
+  const formattedFee = selectedVenue ? formatFee(submissionFee, selectedVenue.currency) : "";
+  const requiresPayment = !selectedVenue || submissionFee > 0;
+  // While the author's institution or own subscription has submissions left, the fee is covered instead of
+  // charged. The institution's allowance is used first so authors keep their own quota.
+  const institutionSubmissionsLeft = getRemainingInstitutionSubmissions(institution);
+  const subscriptionSubmissionsLeft = getRemainingSubmissions(user?.subscription);
+  const coverage: "institution" | "subscription" | null = !selectedVenue || submissionFee === 0 ? null
+    : institutionSubmissionsLeft > 0 ? "institution"
+    : subscriptionSubmissionsLeft > 0 ? "subscription"
+    : null;
+
+  const handleVenueChange = (venueId: string) => {
+    form.setValue("venueId", venueId, { shouldValidate: true });
+    form.setValue("trackId", "");
+  };
+
+  useEffect(() => {
+    // Declaring conflicts is optional, so a failed lookup just hides the list.
+    getReviewerDirectory()
+      .then(setReviewers)
+      .catch(() => setReviewers([]));
+  }, [user?.id]);
+
+  const toggleDeclaredConflict = (reviewer: ReviewerDirectoryEntry, checked: boolean) => {
+    setDeclaredConflicts(current => checked
+      ? [...current, { reviewerId: reviewer.id, reviewerName: reviewer.displayName || reviewer.id, reason: "" }]
+      : current.filter(conflict => conflict.reviewerId !== reviewer.id));
+  };
+
+  const updateDeclaredConflictReason = (reviewerId: string, reason: string) => {
+    setDeclaredConflicts(current => current.map(conflict => conflict.reviewerId === reviewerId ? { ...conflict, reason } : conflict));
+  };
+
   const watchedFile = form.watch("file");
   useEffect(() => {
     if (watchedFile && typeof window !== 'undefined' && watchedFile instanceof FileList && watchedFile.length > 0) {
@@ -76,41 +148,45 @@ export default function PaperUploadForm() {
     }
   }, [watchedFile, form]);
 
+  // Under double-blind review the abstract and file name must not give the authors away.
+  const watchedAbstract = form.watch("abstract");
+  const watchedAuthors = String(form.watch("authors") ?? "").split(',').map(s => s.trim()).filter(Boolean);
+  const selfIdentifyingTerms = selectedVenue?.reviewMode === "double-blind"
+    ? Array.from(new Set([
+        ...findSelfIdentifyingTerms(watchedAbstract || "", [...watchedAuthors, user?.displayName || ""], user?.institution),
+        ...findSelfIdentifyingTerms(fileNameDisplay || "", [...watchedAuthors, user?.displayName || ""], user?.institution),
+      ]))
+    : [];
+
   // This function now only deals with calling the addPaper service
-  const proceedWithSubmission = async (data: PaperFormValues, existingPaperId?: string): Promise<PaperType | null> => {
+  const proceedWithSubmission = async (data: PaperFormValues): Promise<PaperType | null> => {
     if (!user || !user.id) {
       setFormError("Authentication Error: User session is invalid. Please log in again.");
       return null;
     }
     setFormError(null);
 
-    let fileToUpload: File | null = null;
-    if (!existingPaperId) { // Only need file for new submissions, not for post-payment status updates
-      const fileList = data.file as FileList | undefined;
-      if (typeof window === 'undefined' || !(fileList instanceof FileList) || fileList.length === 0) {
-        setFormError("No file provided or file list is invalid. Please select a file.");
-        form.setError("file", { type: "manual", message: "A paper file is required." });
-        return null;
-      }
-      fileToUpload = fileList[0];
+    const fileList = data.file as FileList | undefined;
+    if (typeof window === 'undefined' || !(fileList instanceof FileList) || fileList.length === 0) {
+      setFormError("No file provided or file list is invalid. Please select a file.");
+      form.setError("file", { type: "manual", message: "A paper file is required." });
+      return null;
     }
+    const fileToUpload = fileList[0];
 
     const paperApiServiceData = {
+      venueId: data.venueId,
+      trackId: data.trackId || null,
       title: data.title,
       abstract: data.abstract,
       authors: data.authors,
       keywords: data.keywords,
+      declaredConflicts: declaredConflicts.map(conflict => ({ ...conflict, reason: conflict.reason?.trim() || null })),
       paymentOption: data.paymentOption, // This will guide status setting in addPaper
     };
 
     try {
-      const createdOrUpdatedPaper = await addPaper(
-        paperApiServiceData,
-        fileToUpload, // Will be null if existingPaperId is provided, handled by addPaper
-        user.id,
-        existingPaperId
-      );
-      return createdOrUpdatedPaper;
+      return await addPaper(paperApiServiceData, fileToUpload, user.id);
     } catch (error: any) {
       const errorMessage = error.message || "An unexpected error occurred during paper submission.";
       // console.error("PaperUploadForm: proceedWithSubmission - Error from addPaper service:", errorMessage, error);
@@ -119,22 +195,29 @@ export default function PaperUploadForm() {
     }
   };
 
+  // Emails the author a receipt, or the payment notice if the paper is still waiting for its fee.
+  const sendSubmissionEmail = async (paperId: string) => {
+    if (!auth?.currentUser) return;
+    notifyPaperSubmitted(await auth.currentUser.getIdToken(), paperId)
+      .catch(error => console.error("PaperUploadForm: Could not queue the submission email:", error));
+  };
+
   const onFormSubmit = async (data: PaperFormValues) => {
+    if (openTracks.length > 0 && !data.trackId) {
+      form.setError("trackId", { type: "manual", message: "Please choose a track." });
+      return;
+    }
     setIsSubmitting(true);
     setFormError(null);
     // console.log("PaperUploadForm: onFormSubmit called with data:", data);
 
-    if (data.paymentOption === "payNow") {
-      // Create paper first (will upload file and set to 'Payment Pending' or 'Submitted' based on addPaper logic)
-      // For "PayNow", addPaper should set initial status that reflects intent to pay immediately.
-      // Let's assume addPaper with 'payNow' option correctly handles initial state.
-      const initialPaperForPayNow = { ...data, paymentOption: "payNow" as "payNow" };
-      const createdPaper = await proceedWithSubmission(initialPaperForPayNow, undefined); // Pass undefined for existingPaperId
+    if (data.paymentOption === "payNow" && requiresPayment && !coverage) {
+      // The paper is saved as 'Payment Pending' first; the server submits it once the gateway confirms the payment.
+      const createdPaper = await proceedWithSubmission(data);
 
       if (createdPaper) {
         // console.log("PaperUploadForm: Initial paper created for PayNow, ID:", createdPaper.id);
         setNewlyCreatedPaperForPayment(createdPaper);
-        setPendingSubmissionData(data); // Store original form data for post-payment update
         setShowPayNowModal(true);
         // isSubmitting will be false by PaymentModal or its close handler
       } else {
@@ -143,11 +226,38 @@ export default function PaperUploadForm() {
       }
     } else { // Pay Later
       // console.log("PaperUploadForm: PayLater option selected.");
-      const createdPaper = await proceedWithSubmission(data, undefined); // Pass undefined for existingPaperId
-      if (createdPaper) {
-        toast({ title: "Paper Submission Initiated!", description: `"${data.title}" processed. Payment is due shortly.` });
+      const createdPaper = await proceedWithSubmission(data);
+      if (createdPaper && coverage) {
+        // The paper is saved as 'Payment Pending' first; the server submits it once it has taken one submission off the allowance.
+        try {
+          if (!auth?.currentUser) throw new Error("Your session has expired.");
+          const idToken = await auth.currentUser.getIdToken();
+          if (coverage === "institution") {
+            const updatedInstitution = await applyInstitutionAllowanceToPaper(idToken, createdPaper.id);
+            setInstitution(updatedInstitution);
+            toast({ title: "Paper Submitted!", description: `"${data.title}" is covered by ${updatedInstitution.name}.` });
+          } else {
+            const subscription = await applySubscriptionToPaper(idToken, createdPaper.id);
+            const left = getRemainingSubmissions(subscription);
+            toast({ title: "Paper Submitted!", description: `"${data.title}" is covered by your subscription. ${left} submission${left === 1 ? "" : "s"} left.` });
+            await refreshUser();
+          }
+        } catch (error: any) {
+          toast({ variant: "destructive", title: "Submission Fee Not Covered", description: `${error.message || "Your allowance could not be used."} The paper is saved; you can pay for it from its page.`, duration: 7000 });
+        }
+        await sendSubmissionEmail(createdPaper.id);
+        form.reset();
+        setFileNameDisplay(null);
+        setDeclaredConflicts([]);
+        router.push(`/papers/${createdPaper.id}`);
+      } else if (createdPaper) {
+        toast(requiresPayment
+          ? { title: "Paper Submission Initiated!", description: `"${data.title}" processed. Payment is due shortly.` }
+          : { title: "Paper Submitted!", description: `"${data.title}" has been submitted to ${selectedVenue?.name}.` });
+        await sendSubmissionEmail(createdPaper.id);
         form.reset();
         setFileNameDisplay(null);
+        setDeclaredConflicts([]);
         router.push(`/papers/${createdPaper.id}`);
       } else {
         toast({variant: "destructive", title: "Submission Failed", description: formError || "Could not submit your paper."});
@@ -156,53 +266,28 @@ export default function PaperUploadForm() {
     }
   };
 
-  const handleSuccessfulPayNowPayment = async () => {
-    // console.log("PaperUploadForm: handleSuccessfulPayNowPayment. newlyCreatedPaperForPayment:", newlyCreatedPaperForPayment);
-    if (!newlyCreatedPaperForPayment || !newlyCreatedPaperForPayment.id || !pendingSubmissionData) {
-      toast({ variant: "destructive", title: "Error", description: "No paper data found to finalize payment." });
-      setShowPayNowModal(false); // Close modal
-      setIsSubmitting(false); // Reset form submission state
-      setNewlyCreatedPaperForPayment(null);
-      setPendingSubmissionData(null);
-      return;
-    }
-    
-    // This call will update the status to 'Submitted', set paidAt, submissionDate
-    const updatedPaper = await proceedWithSubmission(pendingSubmissionData, newlyCreatedPaperForPayment.id);
-
-    if (updatedPaper) {
-      toast({ title: "Paper Submitted & Paid Successfully!", description: `"${updatedPaper.title}" has been processed.` });
-      form.reset();
-      setFileNameDisplay(null);
-      router.push(`/papers/${updatedPaper.id}`);
-    } else {
-      toast({ variant: "destructive", title: "Post-Payment Update Failed", description: formError || "Could not update paper status after payment. Your paper is saved but payment status may be incorrect.", duration: 7000 });
-      router.push(`/papers/${newlyCreatedPaperForPayment.id}`);
+  // The paper is already "Submitted" here: the server verified the payment before reporting success.
+  const handleSuccessfulPayNowPayment = () => {
+    setPayNowCompleted(true);
+    if (newlyCreatedPaperForPayment) {
+      toast({ title: "Paper Submitted & Paid Successfully!", description: `"${newlyCreatedPaperForPayment.title}" has been submitted.` });
     }
-    
-    setShowPayNowModal(false);
-    setIsSubmitting(false);
-    setNewlyCreatedPaperForPayment(null);
-    setPendingSubmissionData(null);
   };
 
   const handlePayNowModalOpenChange = (open: boolean) => {
     setShowPayNowModal(open);
-    if (!open) { // Modal is closing
-      if (isSubmitting && newlyCreatedPaperForPayment && !pendingSubmissionData) { // Check if payment was NOT successful (pendingSubmissionData would be cleared on success)
-        // This means modal was closed before payment was confirmed
-        // console.log("PaperUploadForm: PayNow modal closed by user before payment for paper ID:", newlyCreatedPaperForPayment.id);
+    if (!open && newlyCreatedPaperForPayment) {
+      if (!payNowCompleted) {
         toast({ title: "Payment Incomplete", description: `Submission for "${newlyCreatedPaperForPayment.title}" is saved. You can complete payment from the paper details page.`, duration: 7000});
-        router.push(`/papers/${newlyCreatedPaperForPayment.id}`); // Redirect to the paper where they can try to pay again
       }
-      // Always reset submission state and temp data when modal closes, regardless of success path
+      form.reset();
+      setFileNameDisplay(null);
+      setDeclaredConflicts([]);
+      sendSubmissionEmail(newlyCreatedPaperForPayment.id);
+      router.push(`/papers/${newlyCreatedPaperForPayment.id}`);
       setIsSubmitting(false);
       setNewlyCreatedPaperForPayment(null);
-      setPendingSubmissionData(null);
-    } else if (open && newlyCreatedPaperForPayment) {
-      // Modal is opening, ensure pendingSubmissionData is set if not already
-      if(!pendingSubmissionData) setPendingSubmissionData(form.getValues());
-      // console.log("PaperUploadForm: PayNow modal opened for paper ID:", newlyCreatedPaperForPayment.id);
+      setPayNowCompleted(false);
     }
   };
 
@@ -223,6 +308,52 @@ export default function PaperUploadForm() {
                 </Alert>
             )}
 
+            {!isLoadingVenues && venues.length === 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>No Open Venues</AlertTitle>
+                <AlertDescription>No conference or journal is accepting submissions right now. Please check back later.</AlertDescription>
+              </Alert>
+            )}
+
+            <div>
+              <Label htmlFor="venueId">Venue</Label>
+              <Select value={form.watch("venueId")} onValueChange={handleVenueChange} disabled={isSubmitting || isLoadingVenues || venues.length === 0}>
+                <SelectTrigger id="venueId" className="mt-1">
+                  <SelectValue placeholder={isLoadingVenues ? "Loading venues..." : "Choose a conference or journal"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {venues.map(venue => (
+                    <SelectItem key={venue.id} value={venue.id}>{formatVenueName(venue)} · {VENUE_TYPE_LABELS[venue.type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedVenue && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {REVIEW_MODE_LABELS[selectedVenue.reviewMode]}
+                  {selectedVenue.submissionWindow.closesAt && ` · Submissions close ${new Date(selectedVenue.submissionWindow.closesAt).toLocaleString()}`}
+                </p>
+              )}
+              {form.formState.errors.venueId && <p className="text-sm text-destructive mt-1">{form.formState.errors.venueId.message}</p>}
+            </div>
+
+            {openTracks.length > 0 && (
+              <div>
+                <Label htmlFor="trackId">{selectedVenue?.type === "journal" ? "Special Issue" : "Track"}</Label>
+                <Select value={form.watch("trackId") || ""} onValueChange={(value) => form.setValue("trackId", value, { shouldValidate: true })} disabled={isSubmitting}>
+                  <SelectTrigger id="trackId" className="mt-1">
+                    <SelectValue placeholder={selectedVenue?.type === "journal" ? "Choose a special issue" : "Choose a track"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openTracks.map(track => (
+                      <SelectItem key={track.id} value={track.id}>{track.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {form.formState.errors.trackId && <p className="text-sm text-destructive mt-1">{form.formState.errors.trackId.message}</p>}
+              </div>
+            )}
+
             <div>
               <Label htmlFor="title">Paper Title</Label>
               <Input id="title" {...form.register("title")} disabled={isSubmitting} />
@@ -276,40 +407,107 @@ export default function PaperUploadForm() {
               {form.formState.errors.file && <p className="text-sm text-destructive mt-1">{form.formState.errors.file.message as string}</p>}
             </div>
 
-            <div>
-              <Label>Payment Option</Label>
-              <RadioGroup
-                value={form.watch("paymentOption")}
-                onValueChange={(value) => form.setValue("paymentOption", value as "payNow" | "payLater", {shouldValidate: true})}
-                className="mt-2 space-y-2"
-                disabled={isSubmitting}
-              >
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="payNow" id="payNow" disabled={isSubmitting} />
-                  <Label htmlFor="payNow" className="font-normal flex items-center">
-                    <DollarSign className="mr-2 h-4 w-4 text-green-600" /> Pay Now (₹499.00 Submission Fee)
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="payLater" id="payLater" disabled={isSubmitting} />
-                  <Label htmlFor="payLater" className="font-normal flex items-center">
-                    <Clock className="mr-2 h-4 w-4 text-orange-500" /> Pay Later (Due within 2 hours)
-                  </Label>
+            {selfIdentifyingTerms.length > 0 && (
+              <Alert className="border-orange-500/50 text-orange-700 [&>svg]:text-orange-600">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Possible Identifying Information</AlertTitle>
+                <AlertDescription>
+                  {selectedVenue?.name} uses double-blind review, but your abstract or file name appears to mention {selfIdentifyingTerms.map(t => `"${t}"`).join(', ')}.
+                  Please remove author names and affiliations before submitting.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {reviewers.length > 0 && (
+              <div>
+                <Label>Reviewers with a Conflict of Interest (optional)</Label>
+                <p className="text-xs text-muted-foreground mt-1">Select anyone who should not review this paper, e.g. a recent collaborator or supervisor.</p>
+                <div className="mt-2 max-h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                  {reviewers.map(reviewer => {
+                    const declared = declaredConflicts.find(conflict => conflict.reviewerId === reviewer.id);
+                    return (
+                      <div key={reviewer.id} className="space-y-1">
+                        <div className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`conflict-${reviewer.id}`}
+                            checked={!!declared}
+                            onCheckedChange={(checked) => toggleDeclaredConflict(reviewer, checked === true)}
+                            disabled={isSubmitting}
+                          />
+                          <Label htmlFor={`conflict-${reviewer.id}`} className="font-normal">
+                            {reviewer.displayName || reviewer.id}{reviewer.institution ? ` (${reviewer.institution})` : ''}
+                          </Label>
+                        </div>
+                        {declared && (
+                          <Input
+                            value={declared.reason || ""}
+                            onChange={(e) => updateDeclaredConflictReason(reviewer.id, e.target.value)}
+                            placeholder="Reason (optional)"
+                            className="h-8 ml-6 w-[calc(100%-1.5rem)]"
+                            disabled={isSubmitting}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
                 </div>
-              </RadioGroup>
-              {form.formState.errors.paymentOption && <p className="text-sm text-destructive mt-1">{form.formState.errors.paymentOption.message}</p>}
-            </div>
+              </div>
+            )}
+
+            {coverage === "institution" ? (
+              <Alert>
+                <Building className="h-4 w-4" />
+                <AlertTitle>Covered by {institution!.name}</AlertTitle>
+                <AlertDescription>
+                  This submission uses your institution&apos;s membership instead of the {formattedFee} fee.
+                  {institutionSubmissionsLeft} submission{institutionSubmissionsLeft === 1 ? "" : "s"} left in its allowance.
+                </AlertDescription>
+              </Alert>
+            ) : coverage === "subscription" ? (
+              <Alert>
+                <Award className="h-4 w-4" />
+                <AlertTitle>Covered by Your Subscription</AlertTitle>
+                <AlertDescription>
+                  This submission uses one of your {SUBSCRIPTION_PLANS[user!.subscription!.planId].name} submissions instead of the {formattedFee} fee.
+                  You have {subscriptionSubmissionsLeft} left.
+                </AlertDescription>
+              </Alert>
+            ) : requiresPayment && (
+              <div>
+                <Label>Payment Option</Label>
+                <RadioGroup
+                  value={form.watch("paymentOption")}
+                  onValueChange={(value) => form.setValue("paymentOption", value as "payNow" | "payLater", {shouldValidate: true})}
+                  className="mt-2 space-y-2"
+                  disabled={isSubmitting}
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="payNow" id="payNow" disabled={isSubmitting} />
+                    <Label htmlFor="payNow" className="font-normal flex items-center">
+                      <DollarSign className="mr-2 h-4 w-4 text-green-600" /> Pay Now{formattedFee && ` (${formattedFee} Submission Fee)`}
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="payLater" id="payLater" disabled={isSubmitting} />
+                    <Label htmlFor="payLater" className="font-normal flex items-center">
+                      <Clock className="mr-2 h-4 w-4 text-orange-500" /> Pay Later (Due within {formatGracePeriod(getPaymentPolicy(selectedVenue).gracePeriodHours)})
+                    </Label>
+                  </div>
+                </RadioGroup>
+                {form.formState.errors.paymentOption && <p className="text-sm text-destructive mt-1">{form.formState.errors.paymentOption.message}</p>}
+              </div>
+            )}
 
           </CardContent>
           <CardFooter>
-            <Button type="submit" className="w-full" disabled={isSubmitting}>
+            <Button type="submit" className="w-full" disabled={isSubmitting || venues.length === 0}>
               {isSubmitting ? (
                 <><Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 {form.getValues("paymentOption") === "payNow" && showPayNowModal ? "Awaiting Payment..." : "Submitting..."}
                 </>
               ) : (
                 <><UploadCloud className="mr-2 h-4 w-4" />
-                 {form.getValues("paymentOption") === "payNow" ? "Proceed to Payment & Submit" : "Submit Paper & Pay Later"}
+                 {!requiresPayment || coverage ? "Submit Paper" : form.getValues("paymentOption") === "payNow" ? "Proceed to Payment & Submit" : "Submit Paper & Pay Later"}
                 </>
               )}
             </Button>
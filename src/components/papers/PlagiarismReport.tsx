@@ -1,12 +1,16 @@
 "use client";
 
-import type { PlagiarismCheckOutput } from '@/ai/flows/plagiarism-check';
+import Link from 'next/link';
+import type { PlagiarismMatch } from '@/types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { ShieldCheck, AlertTriangle } from 'lucide-react';
 
 interface PlagiarismReportProps {
-  result: PlagiarismCheckOutput | null;
+  result: {
+    plagiarismScore: number;
+    highlightedSections: Array<PlagiarismMatch | string>;
+  } | null;
 }
 
 export default function PlagiarismReport({ result }: PlagiarismReportProps) {
@@ -24,7 +28,7 @@ export default function PlagiarismReport({ result }: PlagiarismReportProps) {
           {scorePercentage > 15 ? <AlertTriangle className={`h-6 w-6 ${scoreColor}`} /> : <ShieldCheck className={`h-6 w-6 ${scoreColor}`} />}
           <CardTitle>Plagiarism Check Report</CardTitle>
         </div>
-        <CardDescription>AI-powered analysis of potential plagiarism.</CardDescription>
+        <CardDescription>Passages shared with other papers in the ResearchSphere corpus.</CardDescription>
       </CardHeader>
       <CardContent>
         <div className="mb-4">
@@ -39,21 +43,32 @@ export default function PlagiarismReport({ result }: PlagiarismReportProps) {
 
         {result.highlightedSections && result.highlightedSections.length > 0 && (
           <div>
-            <h4 className="font-semibold mb-2 text-foreground">Potentially Plagiarized Sections:</h4>
-            <ul className="space-y-2 list-disc list-inside bg-secondary/50 p-3 rounded-md">
+            <h4 className="font-semibold mb-2 text-foreground">Matching Passages:</h4>
+            <ul className="space-y-3 list-disc list-inside bg-secondary/50 p-3 rounded-md">
               {result.highlightedSections.map((section, index) => (
-                <li key={index} className="text-sm text-muted-foreground italic">
-                  &quot;...{section}...&quot;
+                <li key={index} className="text-sm text-muted-foreground">
+                  {typeof section === 'string' ? (
+                    <span className="italic">&quot;...{section}...&quot;</span>
+                  ) : (
+                    <>
+                      <span className="italic">&quot;{section.passage}&quot;</span>
+                      <span className="block pl-5 mt-1 text-xs">
+                        {section.wordCount} words also in{' '}
+                        <Link href={`/papers/${section.sourcePaperId}`} className="text-primary hover:underline">source paper</Link>
+                        {' '}(overall similarity {(section.sourceSimilarity * 100).toFixed(1)}%)
+                      </span>
+                    </>
+                  )}
                 </li>
               ))}
             </ul>
           </div>
         )}
         {(!result.highlightedSections || result.highlightedSections.length === 0) && scorePercentage <=15 && (
-          <p className="text-sm text-green-600">No significant plagiarism concerns detected.</p>
+          <p className="text-sm text-green-600">No significant overlap with the corpus was found.</p>
         )}
          {(!result.highlightedSections || result.highlightedSections.length === 0) && scorePercentage > 15 && (
-          <p className="text-sm text-yellow-600">General similarity detected but no specific sections were highlighted by the AI. Manual review recommended.</p>
+          <p className="text-sm text-yellow-600">Many short overlapping phrases were found, but none long enough to report as a passage. Manual review recommended.</p>
         )}
       </CardContent>
     </Card>
@@ -7,7 +7,8 @@ import { Button } from '@/components/ui/button';
 import LoadingSpinner from '@/components/shared/LoadingSpinner';
 import PlagiarismReport from '@/components/papers/PlagiarismReport';
 import AcceptanceProbabilityReport from '@/components/papers/AcceptanceProbabilityReport';
-import { plagiarismCheck, PlagiarismCheckOutput } from '@/ai/flows/plagiarism-check';
+import { checkPlagiarism } from '@/lib/plagiarism-service';
+import type { PlagiarismCheckOutput } from '@/lib/plagiarism-engine';
 import { acceptanceProbability, AcceptanceProbabilityOutput } from '@/ai/flows/acceptance-probability';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { AlertTriangle, CheckCircle, Sparkles } from 'lucide-react';
@@ -40,7 +41,7 @@ export default function PreSubmissionCheckModal({ isOpen, onOpenChange, checkDat
           // await new Promise(resolve => setTimeout(resolve, 500)); 
 
           const [plagiarism, acceptance] = await Promise.all([
-            plagiarismCheck({ documentText: documentContentForAI }),
+            checkPlagiarism(documentContentForAI),
             acceptanceProbability({ paperText: documentContentForAI })
           ]);
 
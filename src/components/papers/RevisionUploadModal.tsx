@@ -0,0 +1,176 @@
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, Loader2, UploadCloud } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import type { Paper } from "@/types";
+import { submitPaperRevision } from "@/lib/paper-service";
+
+const revisionSchema = z.object({
+  title: z.string().min(5, "Title must be at least 5 characters."),
+  abstract: z.string().min(50, "Abstract must be at least 50 characters.").max(2000, "Abstract must be less than 2000 characters."),
+  authors: z.string().min(1, "At least one author is required."),
+  keywords: z.string().min(1, "At least one keyword is required."),
+  responseToReviewers: z.string().min(20, "Please describe how you addressed the reviewers' comments (at least 20 characters)."),
+  file: z.any()
+    .refine(files => typeof window === 'undefined' || (files instanceof FileList && files.length > 0), "The revised manuscript is required.")
+    .refine(files => {
+      if (typeof window === 'undefined' || !(files instanceof FileList) || files.length === 0) return true;
+      return files[0].size <= 10 * 1024 * 1024;
+    }, "File size must be less than 10MB.")
+    .refine(files => {
+      if (typeof window === 'undefined' || !(files instanceof FileList) || files.length === 0) return true;
+      return ["application/pdf", "application/vnd.openxmlformats-officedocument.wordprocessingml.document"].includes(files[0].type);
+    }, "Only PDF or DOCX files are allowed."),
+});
+
+type RevisionFormValues = z.infer<typeof revisionSchema>;
+
+interface RevisionUploadModalProps {
+  isOpen: boolean;
+  onOpenChange: (open: boolean) => void;
+  paper: Paper;
+  onRevisionSubmitted: (paper: Paper) => void;
+}
+
+export default function RevisionUploadModal({ isOpen, onOpenChange, paper, onRevisionSubmitted }: RevisionUploadModalProps) {
+  const { user } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const form = useForm<RevisionFormValues>({
+    resolver: zodResolver(revisionSchema),
+    defaultValues: {
+      title: paper.title,
+      abstract: paper.abstract,
+      authors: paper.authors.join(', '),
+      keywords: paper.keywords.join(', '),
+      responseToReviewers: "",
+      file: undefined,
+    },
+  });
+
+  useEffect(() => {
+    if (isOpen) {
+      form.reset({
+        title: paper.title,
+        abstract: paper.abstract,
+        authors: paper.authors.join(', '),
+        keywords: paper.keywords.join(', '),
+        responseToReviewers: "",
+        file: undefined,
+      });
+      setFormError(null);
+    }
+  }, [isOpen, paper, form]);
+
+  const onSubmit = async (data: RevisionFormValues) => {
+    if (!user) return;
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      const updatedPaper = await submitPaperRevision(
+        paper.id,
+        {
+          title: data.title,
+          abstract: data.abstract,
+          authors: data.authors.split(',').map(a => a.trim()).filter(Boolean),
+          keywords: data.keywords.split(',').map(k => k.trim()).filter(Boolean),
+          responseToReviewers: data.responseToReviewers,
+        },
+        (data.file as FileList)[0],
+        user.id
+      );
+      toast({ title: "Revision Submitted", description: `Version ${updatedPaper.currentVersion} has been sent back for review.` });
+      onRevisionSubmitted(updatedPaper);
+      onOpenChange(false);
+    } catch (error: any) {
+      setFormError(error.message || "Could not submit the revision.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !isSubmitting && onOpenChange(open)}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submit Revised Manuscript</DialogTitle>
+          <DialogDescription>
+            Upload the revised file and explain how you addressed the reviewers&apos; comments. Earlier versions remain available in the version history.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+          {formError && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertTitle>Revision Error</AlertTitle>
+              <AlertDescription>{formError}</AlertDescription>
+            </Alert>
+          )}
+          <div>
+            <Label htmlFor="revision-title">Paper Title</Label>
+            <Input id="revision-title" {...form.register("title")} disabled={isSubmitting} />
+            {form.formState.errors.title && <p className="text-sm text-destructive mt-1">{form.formState.errors.title.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="revision-abstract">Abstract</Label>
+            <Textarea id="revision-abstract" rows={6} {...form.register("abstract")} disabled={isSubmitting} />
+            {form.formState.errors.abstract && <p className="text-sm text-destructive mt-1">{form.formState.errors.abstract.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="revision-authors">Authors (comma-separated)</Label>
+            <Input id="revision-authors" {...form.register("authors")} disabled={isSubmitting} />
+            {form.formState.errors.authors && <p className="text-sm text-destructive mt-1">{form.formState.errors.authors.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="revision-keywords">Keywords (comma-separated)</Label>
+            <Input id="revision-keywords" {...form.register("keywords")} disabled={isSubmitting} />
+            {form.formState.errors.keywords && <p className="text-sm text-destructive mt-1">{form.formState.errors.keywords.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="revision-response">Response to Reviewers</Label>
+            <Textarea
+              id="revision-response"
+              rows={6}
+              placeholder="Address each reviewer comment and describe the changes made."
+              {...form.register("responseToReviewers")}
+              disabled={isSubmitting}
+            />
+            {form.formState.errors.responseToReviewers && <p className="text-sm text-destructive mt-1">{form.formState.errors.responseToReviewers.message}</p>}
+          </div>
+          <div>
+            <Label htmlFor="revision-file">Revised Manuscript (PDF or DOCX, max 10MB)</Label>
+            <Input id="revision-file" type="file" accept=".pdf,.docx" {...form.register("file")} disabled={isSubmitting} />
+            {form.formState.errors.file && <p className="text-sm text-destructive mt-1">{form.formState.errors.file.message as string}</p>}
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>Cancel</Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UploadCloud className="mr-2 h-4 w-4" />}
+              Submit Revision
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
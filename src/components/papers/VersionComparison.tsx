@@ -0,0 +1,139 @@
+
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { PaperVersion } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitCompare, Download, FileText } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { comparePaperVersions, formatVersionComparison, type DiffSegment, type ListDiff } from '@/lib/paper-diff';
+import { downloadTextFile } from '@/lib/utils';
+
+interface VersionComparisonProps {
+  paperTitle: string;
+  versions: PaperVersion[];
+}
+
+const DiffText = ({ segments }: { segments: DiffSegment[] }) => (
+  <p className="text-sm whitespace-pre-wrap leading-relaxed">
+    {segments.map((segment, index) => {
+      if (segment.type === 'added') return <ins key={index} className="bg-green-100 text-green-900 no-underline dark:bg-green-900/40 dark:text-green-100">{segment.text}</ins>;
+      if (segment.type === 'removed') return <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100">{segment.text}</del>;
+      return <span key={index} className="text-muted-foreground">{segment.text}</span>;
+    })}
+  </p>
+);
+
+const ListChanges = ({ label, diff }: { label: string; diff: ListDiff }) => (
+  <div>
+    <h4 className="font-semibold text-sm mb-1">{label}</h4>
+    {diff.added.length === 0 && diff.removed.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No changes</p>
+    ) : (
+      <div className="flex flex-wrap gap-2">
+        {diff.added.map(item => <Badge key={`added-${item}`} className="bg-green-600 hover:bg-green-600">+ {item}</Badge>)}
+        {diff.removed.map(item => <Badge key={`removed-${item}`} variant="destructive">- {item}</Badge>)}
+      </div>
+    )}
+  </div>
+);
+
+export default function VersionComparison({ paperTitle, versions }: VersionComparisonProps) {
+  const [fromVersion, setFromVersion] = useState<string>("");
+  const [toVersion, setToVersion] = useState<string>("");
+
+  // Default to the latest revision against the one before it.
+  useEffect(() => {
+    if (versions.length >= 2) {
+      setFromVersion(String(versions[versions.length - 2].versionNumber));
+      setToVersion(String(versions[versions.length - 1].versionNumber));
+    }
+  }, [versions]);
+
+  const comparison = useMemo(() => {
+    const from = versions.find(v => String(v.versionNumber) === fromVersion);
+    const to = versions.find(v => String(v.versionNumber) === toVersion);
+    return from && to && from.versionNumber !== to.versionNumber ? comparePaperVersions(from, to) : null;
+  }, [versions, fromVersion, toVersion]);
+
+  if (versions.length < 2) {
+    return null;
+  }
+
+  const handleDownloadChangeSummary = () => {
+    if (!comparison) return;
+    const safeTitle = paperTitle.replace(/[^\w\s]/gi, '').replace(/\s+/g, '_');
+    const filename = `${safeTitle}_Changes_v${comparison.fromVersion}_to_v${comparison.toVersion}.txt`;
+    downloadTextFile(filename, formatVersionComparison(paperTitle, comparison));
+    toast({ title: "Change Summary Downloaded", description: `${filename} prepared.` });
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <GitCompare className="h-6 w-6 text-primary" />
+          <CardTitle>Compare Versions</CardTitle>
+        </div>
+        <CardDescription>See what changed in the metadata and manuscript file between two versions.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid sm:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+          <div>
+            <Label htmlFor="compare-from">From</Label>
+            <Select value={fromVersion} onValueChange={setFromVersion}>
+              <SelectTrigger id="compare-from"><SelectValue placeholder="Select version" /></SelectTrigger>
+              <SelectContent>
+                {versions.map(v => <SelectItem key={v.id} value={String(v.versionNumber)}>Version {v.versionNumber}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="compare-to">To</Label>
+            <Select value={toVersion} onValueChange={setToVersion}>
+              <SelectTrigger id="compare-to"><SelectValue placeholder="Select version" /></SelectTrigger>
+              <SelectContent>
+                {versions.map(v => <SelectItem key={v.id} value={String(v.versionNumber)}>Version {v.versionNumber}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={handleDownloadChangeSummary} disabled={!comparison}>
+            <Download className="mr-2 h-4 w-4" /> Download Change Summary
+          </Button>
+        </div>
+
+        {!comparison ? (
+          <p className="text-sm text-muted-foreground">Choose two different versions to compare.</p>
+        ) : !comparison.hasChanges ? (
+          <p className="text-sm text-muted-foreground">No metadata or file changes between these versions.</p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <h4 className="font-semibold text-sm mb-1">Title</h4>
+              <DiffText segments={comparison.title} />
+            </div>
+            <div>
+              <h4 className="font-semibold text-sm mb-1">Abstract</h4>
+              <DiffText segments={comparison.abstract} />
+            </div>
+            {comparison.authors && <ListChanges label="Authors" diff={comparison.authors} />}
+            <ListChanges label="Keywords" diff={comparison.keywords} />
+            <div>
+              <h4 className="font-semibold text-sm mb-1">File</h4>
+              <p className="text-sm text-muted-foreground flex items-center">
+                <FileText className="h-4 w-4 mr-2" />
+                {comparison.file.replaced
+                  ? `Replaced: ${comparison.file.from || 'previous file'} → ${comparison.file.to || 'new file'}`
+                  : 'Unchanged'}
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
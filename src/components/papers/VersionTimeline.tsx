@@ -0,0 +1,72 @@
+
+"use client";
+
+import { useState } from 'react';
+import type { PaperVersion } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface VersionTimelineProps {
+  versions: PaperVersion[];
+  currentVersion?: number | null;
+}
+
+export default function VersionTimeline({ versions, currentVersion }: VersionTimelineProps) {
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  if (versions.length === 0) {
+    return null;
+  }
+  const latest = currentVersion || versions[versions.length - 1].versionNumber;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-6 w-6 text-primary" />
+          <CardTitle>Version History</CardTitle>
+        </div>
+        <CardDescription>{versions.length} version{versions.length === 1 ? '' : 's'} of this manuscript</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ol className="relative border-l border-border ml-2 space-y-6">
+          {[...versions].reverse().map(version => {
+            const isExpanded = expandedVersion === version.versionNumber;
+            return (
+              <li key={version.id} className="ml-4">
+                <div className="absolute w-3 h-3 bg-primary rounded-full -left-1.5 mt-1.5 border border-background" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <h4 className="font-semibold text-foreground">Version {version.versionNumber}</h4>
+                  {version.versionNumber === latest && <Badge>Current</Badge>}
+                  {version.versionNumber === 1 && <Badge variant="outline">Original submission</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {version.createdAt ? new Date(version.createdAt).toLocaleString() : 'Date unavailable'}
+                  {version.fileName && <> &middot; {version.fileName}</>}
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {version.fileUrl && (
+                    <Button variant="outline" size="sm" onClick={() => window.open(version.fileUrl!, '_blank')}>
+                      <ExternalLink className="mr-2 h-4 w-4" /> Open File
+                    </Button>
+                  )}
+                  {version.responseToReviewers && (
+                    <Button variant="ghost" size="sm" onClick={() => setExpandedVersion(isExpanded ? null : version.versionNumber)}>
+                      {isExpanded ? <ChevronUp className="mr-2 h-4 w-4" /> : <ChevronDown className="mr-2 h-4 w-4" />}
+                      Response to Reviewers
+                    </Button>
+                  )}
+                </div>
+                {isExpanded && version.responseToReviewers && (
+                  <p className="mt-2 text-sm text-muted-foreground whitespace-pre-wrap bg-secondary/50 p-3 rounded-md">{version.responseToReviewers}</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </CardContent>
+    </Card>
+  );
+}
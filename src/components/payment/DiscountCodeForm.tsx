@@ -0,0 +1,172 @@
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import type { DiscountCode, DiscountType, Venue } from '@/types';
+import type { DiscountCodeInput } from '@/lib/discount-service';
+import { DISCOUNT_CODE_PATTERN, normalizeDiscountCode } from '@/lib/discounts';
+import { formatVenueName } from '@/lib/venue-schedule';
+import { fromDateTimeLocalInput, toDateTimeLocalInput } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+const optionalCount = z.preprocess(
+  value => (value === "" || value === null || value === undefined ? undefined : value),
+  z.coerce.number().int("Use a whole number.").min(1, "Must be at least 1.").optional(),
+);
+
+const discountCodeSchema = z.object({
+  code: z.string().transform(normalizeDiscountCode).refine(code => DISCOUNT_CODE_PATTERN.test(code), "Use 3–32 letters, digits, dashes or underscores."),
+  description: z.string().optional(),
+  type: z.enum(["percentage", "fixed"]),
+  value: z.coerce.number().positive("The discount must be more than 0."),
+  currency: z.string().optional().transform(currency => currency?.trim().toUpperCase()),
+  venueIds: z.array(z.string()),
+  maxRedemptions: optionalCount,
+  maxRedemptionsPerAuthor: optionalCount,
+  expiresAt: z.string().optional(),
+  isActive: z.boolean(),
+}).refine(data => data.type !== "percentage" || data.value <= 100, { message: "A percentage cannot be more than 100.", path: ["value"] })
+  .refine(data => data.type !== "fixed" || /^[A-Z]{3}$/.test(data.currency || ""), { message: "Use a three-letter currency code, e.g. INR.", path: ["currency"] });
+
+type DiscountCodeFormValues = z.infer<typeof discountCodeSchema>;
+
+interface DiscountCodeFormProps {
+  discountCode?: DiscountCode | null;
+  venues: Venue[];
+  onSubmit: (code: string, input: DiscountCodeInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+export default function DiscountCodeForm({ discountCode, venues, onSubmit, onCancel }: DiscountCodeFormProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<DiscountCodeFormValues>({
+    resolver: zodResolver(discountCodeSchema),
+    defaultValues: {
+      code: discountCode?.id || "",
+      description: discountCode?.description || "",
+      type: discountCode?.type || "percentage",
+      value: discountCode?.value ?? 10,
+      currency: discountCode?.currency || "INR",
+      venueIds: discountCode?.venueIds || [],
+      maxRedemptions: discountCode?.maxRedemptions ?? undefined,
+      maxRedemptionsPerAuthor: discountCode?.maxRedemptionsPerAuthor ?? undefined,
+      expiresAt: toDateTimeLocalInput(discountCode?.expiresAt),
+      isActive: discountCode?.isActive ?? true,
+    },
+  });
+
+  const discountType = form.watch("type");
+  const venueIds = form.watch("venueIds");
+  const errors = form.formState.errors;
+
+  const toggleVenue = (venueId: string, checked: boolean) => {
+    form.setValue("venueIds", checked ? [...venueIds, venueId] : venueIds.filter(id => id !== venueId));
+  };
+
+  const handleFormSubmit = async (data: DiscountCodeFormValues) => {
+    setIsSaving(true);
+    try {
+      await onSubmit(data.code, {
+        description: data.description?.trim() || null,
+        type: data.type,
+        value: data.value,
+        currency: data.type === "fixed" ? data.currency! : null,
+        venueIds: data.venueIds,
+        maxRedemptions: data.maxRedemptions ?? null,
+        maxRedemptionsPerAuthor: data.maxRedemptionsPerAuthor ?? null,
+        expiresAt: fromDateTimeLocalInput(data.expiresAt),
+        isActive: data.isActive,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="discount-code">Code</Label>
+          <Input id="discount-code" placeholder="e.g. STUDENT25" {...form.register("code")} disabled={isSaving || !!discountCode} className="mt-1 uppercase" />
+          {errors.code && <p className="text-sm text-destructive mt-1">{errors.code.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="discount-description">Description (optional)</Label>
+          <Input id="discount-description" placeholder="Shown only to admins" {...form.register("description")} disabled={isSaving} className="mt-1" />
+        </div>
+        <div>
+          <Label htmlFor="discount-type">Discount</Label>
+          <div className="flex gap-2 mt-1">
+            <Select value={discountType} onValueChange={(value) => form.setValue("type", value as DiscountType)} disabled={isSaving}>
+              <SelectTrigger id="discount-type" className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percentage">Percentage</SelectItem>
+                <SelectItem value="fixed">Fixed amount</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input type="number" step="0.01" min="0" {...form.register("value")} disabled={isSaving} />
+            {discountType === "fixed" && (
+              <Input placeholder="INR" {...form.register("currency")} disabled={isSaving} className="w-20 uppercase" />
+            )}
+          </div>
+          {errors.value && <p className="text-sm text-destructive mt-1">{errors.value.message}</p>}
+          {errors.currency && <p className="text-sm text-destructive mt-1">{errors.currency.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="discount-expires">Expires (optional)</Label>
+          <Input id="discount-expires" type="datetime-local" {...form.register("expiresAt")} disabled={isSaving} className="mt-1" />
+        </div>
+        <div>
+          <Label htmlFor="discount-max">Total uses (optional)</Label>
+          <Input id="discount-max" type="number" min="1" step="1" placeholder="Unlimited" {...form.register("maxRedemptions")} disabled={isSaving} className="mt-1" />
+          {errors.maxRedemptions && <p className="text-sm text-destructive mt-1">{errors.maxRedemptions.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="discount-max-author">Uses per author (optional)</Label>
+          <Input id="discount-max-author" type="number" min="1" step="1" placeholder="Unlimited" {...form.register("maxRedemptionsPerAuthor")} disabled={isSaving} className="mt-1" />
+          {errors.maxRedemptionsPerAuthor && <p className="text-sm text-destructive mt-1">{errors.maxRedemptionsPerAuthor.message}</p>}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Venues</Label>
+        <p className="text-xs text-muted-foreground">Leave all unticked for the code to apply to every venue.</p>
+        <div className="grid gap-2 md:grid-cols-2">
+          {venues.map(venue => (
+            <div key={venue.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`discount-venue-${venue.id}`}
+                checked={venueIds.includes(venue.id)}
+                onCheckedChange={(checked) => toggleVenue(venue.id, checked === true)}
+                disabled={isSaving}
+              />
+              <Label htmlFor={`discount-venue-${venue.id}`} className="font-normal">{formatVenueName(venue)}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch id="discount-active" checked={form.watch("isActive")} onCheckedChange={(checked) => form.setValue("isActive", checked)} disabled={isSaving} />
+        <Label htmlFor="discount-active" className="font-normal">Authors can redeem this code</Label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {discountCode ? "Save Code" : "Create Code"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,131 @@
+
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { PaymentEnforcementRun } from '@/types';
+import { auth } from '@/lib/firebase';
+import { getRecentPaymentEnforcementRuns } from '@/lib/job-service';
+import { runPaymentEnforcementNow } from '@/lib/job-actions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Loader2, Timer, Play } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+
+const TRIGGER_LABELS: Record<PaymentEnforcementRun['trigger'], string> = {
+  schedule: "Scheduled",
+  script: "Script",
+  admin: "Admin",
+};
+
+export default function PaymentEnforcementRuns() {
+  const [runs, setRuns] = useState<PaymentEnforcementRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    getRecentPaymentEnforcementRuns()
+      .then(setRuns)
+      .catch((err: any) => toast({ variant: "destructive", title: "Error Loading Job History", description: err.message }))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleRunNow = async () => {
+    if (!auth.currentUser) return;
+    setIsRunning(true);
+    try {
+      const run = await runPaymentEnforcementNow(await auth.currentUser.getIdToken());
+      setRuns(current => [run, ...current]);
+      toast({
+        title: "Payment Enforcement Finished",
+        description: `${run.actions.length} overdue paper${run.actions.length === 1 ? "" : "s"} processed${run.errors.length ? `, ${run.errors.length} failed` : ""}.`,
+      });
+    } catch (err: any) {
+      toast({ variant: "destructive", title: "Payment Enforcement Failed", description: err.message || "The job could not be run." });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg w-full">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Timer className="h-6 w-6 text-primary" />
+            <CardTitle className="text-2xl">Overdue Payment Enforcement</CardTitle>
+          </div>
+          <Button onClick={handleRunNow} disabled={isRunning}>
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Play className="mr-2 h-4 w-4" />}
+            Run Now
+          </Button>
+        </div>
+        <CardDescription>
+          A scheduled job marks unpaid papers as &quot;Payment Overdue&quot; once their deadline passes and applies each venue&apos;s overdue action.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : runs.length === 0 ? (
+          <p className="text-muted-foreground text-center py-4">The job has not run yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Run</TableHead>
+                <TableHead>Checked</TableHead>
+                <TableHead>Overdue Papers</TableHead>
+                <TableHead>Errors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => (
+                <TableRow key={run.id}>
+                  <TableCell className="text-xs whitespace-nowrap">
+                    {new Date(run.startedAt).toLocaleString()}
+                    <span className="block text-muted-foreground">{TRIGGER_LABELS[run.trigger]}{run.dryRun ? " (dry run)" : ""}</span>
+                  </TableCell>
+                  <TableCell>
+                    {run.papersChecked}
+                    {!!run.remindersQueued && (
+                      <span className="block text-xs text-muted-foreground">{run.remindersQueued} reminder{run.remindersQueued === 1 ? "" : "s"} sent</span>
+                    )}
+                    {!!run.paymentsPending?.length && (
+                      <span className="block text-xs text-muted-foreground">{run.paymentsPending.length} held: payment processing</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {run.actions.length === 0 ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {run.actions.map(action => (
+                          <li key={action.paperId}>
+                            <Link href={`/papers/${action.paperId}`} className="hover:text-primary">{action.paperTitle || action.paperId}</Link>
+                            {" "}<Badge variant={action.finalStatus === "Rejected" ? "destructive" : "outline"}>{action.finalStatus}</Badge>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {run.errors.length === 0 ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : (
+                      <ul className="space-y-1 text-destructive">
+                        {run.errors.map(error => <li key={error.paperId}>{error.paperId}: {error.message}</li>)}
+                      </ul>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { CreditNote, Invoice, Paper, PaymentRecord, RefundRecord } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Receipt, FileText, Undo2, RefreshCw, Loader2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { getPaperCreditNotes, getPaperInvoices, getPaperPayments, getPaperRefunds } from '@/lib/payment-service';
+import { refreshRefund, refundPayment } from '@/lib/payment-actions';
+import { downloadCreditNotePdf, downloadInvoicePdf } from '@/lib/invoice-pdf';
+import {
+  getRefundableAmount, PAYMENT_METHOD_LABELS, PAYMENT_STATUS_BADGE_VARIANTS, PAYMENT_STATUS_LABELS,
+  REFUND_STATUS_BADGE_VARIANTS, REFUND_STATUS_LABELS,
+} from '@/lib/payment-records';
+import { formatFee } from '@/lib/venue-schedule';
+
+interface PaymentHistoryProps {
+  paper: Paper;
+  userId: string;
+  isAdmin: boolean;
+}
+
+// Attempts that never went through are left out; the author only needs to see money that moved.
+const isSettledPayment = (payment: PaymentRecord) => !!payment.paidAt;
+
+export default function PaymentHistory({ paper, userId, isAdmin }: PaymentHistoryProps) {
+  const [payments, setPayments] = useState<PaymentRecord[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [refunds, setRefunds] = useState<RefundRecord[]>([]);
+  const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
+  const [refundingPaymentId, setRefundingPaymentId] = useState<string | null>(null);
+  const [refundAmount, setRefundAmount] = useState("");
+  const [refundReason, setRefundReason] = useState("");
+  const [isSubmittingRefund, setIsSubmittingRefund] = useState(false);
+  const [checkingRefundId, setCheckingRefundId] = useState<string | null>(null);
+
+  const loadHistory = async () => {
+    // Authors can only query their own records; admins see every record for the paper.
+    const ownerFilter = isAdmin ? undefined : userId;
+    try {
+      const [fetchedPayments, fetchedInvoices, fetchedRefunds, fetchedCreditNotes] = await Promise.all([
+        getPaperPayments(paper.id, ownerFilter),
+        getPaperInvoices(paper.id, ownerFilter),
+        getPaperRefunds(paper.id, ownerFilter),
+        getPaperCreditNotes(paper.id, ownerFilter),
+      ]);
+      setPayments(fetchedPayments.filter(isSettledPayment));
+      setInvoices(fetchedInvoices);
+      setRefunds(fetchedRefunds);
+      setCreditNotes(fetchedCreditNotes);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Error Loading Payments", description: error.message || "Could not load the payment history." });
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paper.id, paper.paidAt, userId, isAdmin]);
+
+  if (payments.length === 0) {
+    return null;
+  }
+
+  const openRefundForm = (payment: PaymentRecord, availableToRefund: number) => {
+    setRefundingPaymentId(payment.id);
+    setRefundAmount(String(availableToRefund));
+    setRefundReason("");
+  };
+
+  const handleRefund = async (payment: PaymentRecord) => {
+    const amount = Number(refundAmount);
+    if (!auth?.currentUser || !(amount > 0) || !refundReason.trim()) return;
+    setIsSubmittingRefund(true);
+    try {
+      const refund = await refundPayment(await auth.currentUser.getIdToken(), payment.id, amount, refundReason);
+      if (refund.status === "failed") {
+        toast({ variant: "destructive", title: "Refund Failed", description: refund.failureReason || "The payment gateway could not process the refund." });
+      } else {
+        toast({
+          title: refund.status === "processed" ? "Refund Processed" : "Refund Requested",
+          description: refund.status === "processed"
+            ? `${formatFee(refund.amount, refund.currency)} has been refunded${refund.creditNoteNumber ? ` (credit note ${refund.creditNoteNumber})` : ''}.`
+            : "The payment gateway is processing the refund. Check its status again shortly.",
+        });
+      }
+      setRefundingPaymentId(null);
+      await loadHistory();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Refund Failed", description: error.message || "Could not refund the payment." });
+    } finally {
+      setIsSubmittingRefund(false);
+    }
+  };
+
+  const handleCheckRefund = async (refund: RefundRecord) => {
+    if (!auth?.currentUser) return;
+    setCheckingRefundId(refund.id);
+    try {
+      const updated = await refreshRefund(await auth.currentUser.getIdToken(), refund.id);
+      toast({ title: "Refund Status", description: `The refund is ${REFUND_STATUS_LABELS[updated.status].toLowerCase()}.` });
+      await loadHistory();
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Status Check Failed", description: error.message || "Could not check the refund." });
+    } finally {
+      setCheckingRefundId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Receipt className="h-6 w-6 text-primary" />
+          <CardTitle>Payment History</CardTitle>
+        </div>
+        <CardDescription>Submission fee payments, refunds and their tax documents.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {payments.map(payment => {
+          const invoice = invoices.find(i => i.paymentId === payment.id);
+          const paymentRefunds = refunds.filter(r => r.paymentId === payment.id);
+          const refundable = getRefundableAmount(payment);
+          // Refunds still with the gateway are not in refundedAmount yet but cannot be refunded twice.
+          const pendingRefunds = paymentRefunds.filter(r => r.status === "requested").reduce((sum, r) => sum + r.amount, 0);
+          const availableToRefund = Math.max(0, Math.round((refundable - pendingRefunds) * 100) / 100);
+          return (
+            <div key={payment.id} className="space-y-3 border-b pb-4 last:border-b-0 last:pb-0">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold">{formatFee(payment.amount, payment.currency)}</span>
+                <Badge variant={PAYMENT_STATUS_BADGE_VARIANTS[payment.status]}>{PAYMENT_STATUS_LABELS[payment.status]}</Badge>
+                {!!payment.refundedAmount && (
+                  <span className="text-sm text-muted-foreground">{formatFee(payment.refundedAmount, payment.currency)} refunded</span>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Paid {new Date(payment.paidAt!).toLocaleString()}
+                {payment.method && <> &middot; {PAYMENT_METHOD_LABELS[payment.method]}</>}
+                &nbsp;&middot; Ref. {payment.gatewayPaymentId || payment.id}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {invoice && (
+                  <Button variant="outline" size="sm" onClick={() => downloadInvoicePdf(invoice)}>
+                    <FileText className="mr-2 h-4 w-4" /> Invoice {invoice.number}
+                  </Button>
+                )}
+                {isAdmin && availableToRefund > 0 && refundingPaymentId !== payment.id && (
+                  <Button variant="outline" size="sm" onClick={() => openRefundForm(payment, availableToRefund)}>
+                    <Undo2 className="mr-2 h-4 w-4" /> Refund
+                  </Button>
+                )}
+              </div>
+
+              {isAdmin && refundingPaymentId === payment.id && (
+                <div className="p-4 border rounded-md space-y-3">
+                  <div className="grid sm:grid-cols-[1fr_auto] gap-2 items-end">
+                    <div>
+                      <Label htmlFor={`refund-amount-${payment.id}`}>Amount ({payment.currency})</Label>
+                      <Input
+                        id={`refund-amount-${payment.id}`}
+                        type="number"
+                        min="0.01"
+                        step="0.01"
+                        max={availableToRefund}
+                        value={refundAmount}
+                        onChange={(e) => setRefundAmount(e.target.value)}
+                        disabled={isSubmittingRefund}
+                      />
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setRefundAmount(String(availableToRefund))} disabled={isSubmittingRefund}>
+                      Full amount
+                    </Button>
+                  </div>
+                  <div>
+                    <Label htmlFor={`refund-reason-${payment.id}`}>Reason (shown on the credit note)</Label>
+                    <Textarea
+                      id={`refund-reason-${payment.id}`}
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                      rows={2}
+                      placeholder="e.g. Paper withdrawn before review"
+                      disabled={isSubmittingRefund}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      onClick={() => handleRefund(payment)}
+                      disabled={isSubmittingRefund || !refundReason.trim() || !(Number(refundAmount) > 0) || Number(refundAmount) > availableToRefund}
+                    >
+                      {isSubmittingRefund && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Refund {Number(refundAmount) > 0 ? formatFee(Number(refundAmount), payment.currency) : ''}
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setRefundingPaymentId(null)} disabled={isSubmittingRefund}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {paymentRefunds.length > 0 && (
+                <ul className="space-y-2 pl-4 border-l">
+                  {paymentRefunds.map(refund => {
+                    const creditNote = creditNotes.find(note => note.refundId === refund.id);
+                    return (
+                      <li key={refund.id} className="text-sm space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span>Refund of {formatFee(refund.amount, refund.currency)}</span>
+                          <Badge variant={REFUND_STATUS_BADGE_VARIANTS[refund.status]}>{REFUND_STATUS_LABELS[refund.status]}</Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(refund.processedAt || refund.requestedAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <p className="text-muted-foreground">{refund.reason}</p>
+                        {refund.failureReason && <p className="text-xs text-destructive">{refund.failureReason}</p>}
+                        <div className="flex flex-wrap gap-2">
+                          {creditNote && (
+                            <Button variant="link" size="sm" className="h-auto p-0" onClick={() => downloadCreditNotePdf(creditNote)}>
+                              <FileText className="mr-1 h-3 w-3" /> Credit note {creditNote.number}
+                            </Button>
+                          )}
+                          {isAdmin && (refund.status === "requested" || (refund.status === "processed" && !creditNote)) && (
+                            <Button variant="ghost" size="sm" onClick={() => handleCheckRefund(refund)} disabled={checkingRefundId === refund.id}>
+                              {checkingRefundId === refund.id ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                              Check Status
+                            </Button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,3 @@
-
 "use client";
 
 import { useState, useEffect } from "react";
@@ -13,24 +12,53 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "@/hooks/use-toast";
-import { CreditCard, Loader2, CheckCircle, QrCode, AtSign } from "lucide-react";
-import type { Paper } from "@/types";
+import { CreditCard, Loader2, CheckCircle, AtSign, XCircle, Clock, ExternalLink, HandCoins } from "lucide-react";
+import type { DiscountRedemption, FeeWaiverReason, Paper, PaymentCheckout, PaymentRecord } from "@/types";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
-import Image from "next/image";
 import LoadingSpinner from "@/components/shared/LoadingSpinner";
+import { auth } from "@/lib/firebase";
+import { applyDiscountCode, confirmPayment, payWithSandbox, refreshPayment, requestFeeWaiver, startPayment } from "@/lib/payment-actions";
+import { DEFAULT_CURRENCY, DEFAULT_SUBMISSION_FEE, formatFee } from "@/lib/venue-schedule";
+import { FEE_WAIVER_REASON_LABELS } from "@/lib/discounts";
 
 interface PaymentModalProps {
   isOpen: boolean;
   onOpenChange: (open: boolean) => void;
   paper: Paper | null;
   onPaymentSuccess: (paperId?: string) => void;
+  onFeeChanged?: (paperId?: string) => void; // A discount was applied or a fee waiver requested
 }
 
-const SUBMISSION_FEE = 499.00; // Updated to INR
 type PaymentMethod = "card" | "upi";
+type PaymentStep = "loading" | "form" | "waiver" | "pending" | "failed" | "success";
+
+const RAZORPAY_CHECKOUT_SCRIPT = "https://checkout.razorpay.com/v1/checkout.js";
+
+// Razorpay's checkout.js is only needed when that gateway is configured, so it is loaded on demand.
+const loadRazorpayCheckout = (): Promise<any> => new Promise((resolve, reject) => {
+  const existing = (window as any).Razorpay;
+  if (existing) {
+    resolve(existing);
+    return;
+  }
+  const script = document.createElement("script");
+  script.src = RAZORPAY_CHECKOUT_SCRIPT;
+  script.onload = () => resolve((window as any).Razorpay);
+  script.onerror = () => reject(new Error("Could not load the Razorpay checkout."));
+  document.body.appendChild(script);
+});
+
+const getIdToken = async (): Promise<string> => {
+  if (!auth.currentUser) {
+    throw new Error("Your session has expired. Please log in again.");
+  }
+  return auth.currentUser.getIdToken();
+};
 
-export default function PaymentModal({ isOpen, onOpenChange, paper, onPaymentSuccess }: PaymentModalProps) {
+export default function PaymentModal({ isOpen, onOpenChange, paper, onPaymentSuccess, onFeeChanged }: PaymentModalProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("card");
 
@@ -38,88 +66,203 @@ export default function PaymentModal({ isOpen, onOpenChange, paper, onPaymentSuc
   const [expiryDate, setExpiryDate] = useState("");
   const [cvc, setCvc] = useState("");
   const [upiId, setUpiId] = useState("");
-  const [paymentStep, setPaymentStep] = useState<"form" | "success">("form");
+  const [paymentStep, setPaymentStep] = useState<PaymentStep>("loading");
+  const [checkout, setCheckout] = useState<PaymentCheckout | null>(null);
+  const [payment, setPayment] = useState<PaymentRecord | null>(null);
+  const [checkoutError, setCheckoutError] = useState<string | null>(null);
+  const [discountCodeInput, setDiscountCodeInput] = useState("");
+  const [redemption, setRedemption] = useState<DiscountRedemption | null>(null);
+  const [waiverReason, setWaiverReason] = useState<FeeWaiverReason>("student");
+  const [waiverCountry, setWaiverCountry] = useState("");
+  const [waiverJustification, setWaiverJustification] = useState("");
+  const [waiverRequested, setWaiverRequested] = useState(false);
+  // The order holds the fee actually charged, which reflects any discount applied since the paper was loaded.
+  const submissionFee = checkout
+    ? formatFee(checkout.amount, checkout.currency)
+    : formatFee(paper?.submissionFee ?? DEFAULT_SUBMISSION_FEE, paper?.currency || DEFAULT_CURRENCY);
+  const appliedDiscountCode = redemption?.discountCode || paper?.discountCode || null;
+  const appliedDiscountAmount = redemption?.discountAmount ?? paper?.discountAmount ?? 0;
+  const isWaiverPending = waiverRequested || paper?.feeWaiverStatus === "pending";
 
-  useEffect(() => {
-    if (isOpen) {
-        if(paymentStep === "form") {
-            setCardNumber("");
-            setExpiryDate("");
-            setCvc("");
-            setUpiId("");
-            setPaymentMethod("card");
-        }
-    } else {
-        setPaymentStep("form");
-        setIsProcessing(false);
-        setCardNumber("");
-        setExpiryDate("");
-        setCvc("");
-        setUpiId("");
-        setPaymentMethod("card");
+  const resetForm = () => {
+    setCardNumber("");
+    setExpiryDate("");
+    setCvc("");
+    setUpiId("");
+    setPaymentMethod("card");
+    setDiscountCodeInput("");
+    setWaiverReason("student");
+    setWaiverCountry("");
+    setWaiverJustification("");
+    setIsProcessing(false);
+  };
+
+  // Every attempt gets a fresh gateway order, created on the server from the fee stored on the paper.
+  const createOrder = async () => {
+    if (!paper) return;
+    setPaymentStep("loading");
+    setCheckoutError(null);
+    setPayment(null);
+    try {
+      setCheckout(await startPayment(await getIdToken(), paper.id));
+      setPaymentStep("form");
+    } catch (error: any) {
+      setCheckout(null);
+      setCheckoutError(error.message || "Could not start the payment.");
+      setPaymentStep("form");
     }
-  }, [isOpen, paymentStep]);
+  };
 
   useEffect(() => {
-    if(isOpen) {
-        setPaymentStep("form");
+    if (isOpen && paper) {
+      resetForm();
+      createOrder();
+    } else if (!isOpen) {
+      resetForm();
+      setCheckout(null);
+      setPayment(null);
+      setCheckoutError(null);
+      setRedemption(null);
+      setWaiverRequested(false);
+      setPaymentStep("loading");
     }
-  }, [paper, isOpen]);
-
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, paper?.id]);
 
   const handleDialogClose = () => {
-    setPaymentStep("form");
-    setIsProcessing(false);
-    setCardNumber("");
-    setExpiryDate("");
-    setCvc("");
-    setUpiId("");
-    setPaymentMethod("card");
     onOpenChange(false);
   };
 
+  const handlePaymentResult = (result: PaymentRecord) => {
+    setPayment(result);
+    if (result.status === "paid") {
+      setPaymentStep("success");
+      onPaymentSuccess(result.paperId);
+    } else if (result.status === "pending") {
+      setPaymentStep("pending");
+    } else {
+      setPaymentStep("failed");
+    }
+  };
+
+  const handleSandboxPayment = async (activeCheckout: PaymentCheckout) => {
+    if (paymentMethod === "card" && (!cardNumber.trim() || !expiryDate.trim() || !cvc.trim())) {
+      toast({ variant: "destructive", title: "Payment Error", description: "Please fill in all card details." });
+      return;
+    }
+    if (paymentMethod === "upi" && !upiId.trim()) {
+      toast({ variant: "destructive", title: "Payment Error", description: "Please enter your UPI ID." });
+      return;
+    }
+    const instrument = paymentMethod === "card"
+      ? { method: "card" as const, cardNumber, expiry: expiryDate.trim(), cvc: cvc.trim() }
+      : { method: "upi" as const, upiId: upiId.trim() };
+    handlePaymentResult(await payWithSandbox(await getIdToken(), activeCheckout.paymentId, instrument));
+  };
+
+  const handleRazorpayPayment = async (activeCheckout: PaymentCheckout) => {
+    const Razorpay = await loadRazorpayCheckout();
+    await new Promise<void>((resolve) => {
+      const razorpay = new Razorpay({
+        key: activeCheckout.publicKey,
+        order_id: activeCheckout.orderId,
+        name: "ResearchSphere",
+        description: paper ? `Submission fee: ${paper.title}` : "Submission fee",
+        handler: async (response: { razorpay_order_id: string; razorpay_payment_id: string; razorpay_signature: string }) => {
+          try {
+            handlePaymentResult(await confirmPayment(await getIdToken(), activeCheckout.paymentId, {
+              orderId: response.razorpay_order_id,
+              gatewayPaymentId: response.razorpay_payment_id,
+              signature: response.razorpay_signature,
+            }));
+          } catch (error: any) {
+            toast({ variant: "destructive", title: "Payment Not Verified", description: error.message || "The payment could not be verified." });
+          }
+          resolve();
+        },
+        modal: { ondismiss: () => resolve() },
+      });
+      razorpay.open();
+    });
+  };
 
   const handlePayment = async () => {
-    if (paymentMethod === "card") {
-      if (!cardNumber.trim() || !expiryDate.trim() || !cvc.trim()) {
-        toast({ variant: "destructive", title: "Payment Error", description: "Please fill in all card details." });
-        return;
-      }
-      if (!/^\d{13,19}$/.test(cardNumber.replace(/\s/g, ''))) {
-         toast({ variant: "destructive", title: "Invalid Card", description: "Please enter a valid card number." });
-        return;
-      }
-      if (!/^(0[1-9]|1[0-2])\/\d{2}$/.test(expiryDate)) {
-         toast({ variant: "destructive", title: "Invalid Expiry", description: "Expiry date must be MM/YY." });
-        return;
-      }
-       if (!/^\d{3,4}$/.test(cvc)) {
-         toast({ variant: "destructive", title: "Invalid CVC", description: "CVC must be 3 or 4 digits." });
-        return;
-      }
-    } else if (paymentMethod === "upi") {
-      if (!upiId.trim() && !confirm("Proceed with mock UPI payment without entering UPI ID (simulating QR scan)?")) {
+    if (!checkout) return;
+    setIsProcessing(true);
+    try {
+      if (checkout.gateway === "sandbox") {
+        await handleSandboxPayment(checkout);
+      } else if (checkout.gateway === "razorpay") {
+        await handleRazorpayPayment(checkout);
+      } else if (checkout.redirectUrl) {
+        // Stripe sends the author back to the paper page, which confirms the session.
+        window.location.assign(checkout.redirectUrl);
         return;
       }
-       if (upiId.trim() && !/^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/.test(upiId)) {
-         toast({ variant: "destructive", title: "Invalid UPI ID", description: "Please enter a valid UPI ID (e.g., yourname@bank)." });
-        return;
+    } catch (error: any) {
+      console.error("Payment processing error:", error);
+      toast({ variant: "destructive", title: "Payment Failed", description: error.message || "An unexpected error occurred during payment processing." });
+    }
+    setIsProcessing(false);
+  };
+
+  const handleApplyDiscount = async () => {
+    if (!paper || !discountCodeInput.trim()) return;
+    setIsProcessing(true);
+    try {
+      const result = await applyDiscountCode(await getIdToken(), paper.id, discountCodeInput);
+      setRedemption(result);
+      setDiscountCodeInput("");
+      if (result.paperStatus === "Submitted") {
+        setPaymentStep("success");
+        onPaymentSuccess(result.paperId);
+      } else {
+        toast({ title: "Discount Applied", description: `${formatFee(result.discountAmount, result.currency)} off with ${result.discountCode}.` });
+        onFeeChanged?.(result.paperId);
+        // The open order was made for the old fee.
+        await createOrder();
       }
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Discount Not Applied", description: error.message || "The discount code could not be applied." });
+    } finally {
+      setIsProcessing(false);
     }
+  };
 
+  const handleRequestWaiver = async () => {
+    if (!paper) return;
     setIsProcessing(true);
     try {
-      await new Promise(resolve => setTimeout(resolve, 2000));
+      await requestFeeWaiver(await getIdToken(), paper.id, {
+        reason: waiverReason,
+        country: waiverReason === "low-income-country" ? waiverCountry : null,
+        justification: waiverJustification,
+      });
+      setWaiverRequested(true);
+      toast({
+        title: "Fee Waiver Requested",
+        description: "An editor will review your request. Your payment deadline is on hold until they decide.",
+      });
+      onFeeChanged?.(paper.id);
+      onOpenChange(false);
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Request Not Sent", description: error.message || "The fee waiver request could not be sent." });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
 
-      if (paper && paper.id) {
-        onPaymentSuccess(paper.id);
-      } else {
-        onPaymentSuccess();
+  const handleCheckStatus = async () => {
+    if (!payment) return;
+    setIsProcessing(true);
+    try {
+      const result = await refreshPayment(await getIdToken(), payment.id);
+      handlePaymentResult(result);
+      if (result.status === "pending") {
+        toast({ title: "Still Processing", description: "The gateway has not confirmed this payment yet. Please check again shortly." });
       }
-      setPaymentStep("success");
-    } catch (error) {
-      console.error("Payment processing error:", error);
-      toast({ variant: "destructive", title: "Payment Failed", description: "An unexpected error occurred during payment processing." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Status Check Failed", description: error.message || "Could not check the payment status." });
     } finally {
       setIsProcessing(false);
     }
@@ -136,97 +279,217 @@ export default function PaymentModal({ isOpen, onOpenChange, paper, onPaymentSuc
               </div>
               <DialogTitle className="text-2xl font-bold text-center">Complete Your Submission</DialogTitle>
               <DialogDescription className="text-center">
-                A submission fee of <strong>₹{SUBMISSION_FEE.toFixed(2)}</strong> is required for
+                A submission fee of <strong>{submissionFee}</strong> is required for
                 {paper ? ` "${paper.title}"` : " your paper"}.
               </DialogDescription>
             </DialogHeader>
 
-            <div className="py-4 space-y-4">
-              <div>
-                <Label className="mb-2 block font-medium">Select Payment Method</Label>
-                <RadioGroup
-                  value={paymentMethod}
-                  onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
-                  className="flex gap-4"
-                  disabled={isProcessing}
-                >
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="card" id="card-method" />
-                    <Label htmlFor="card-method" className="flex items-center gap-2 cursor-pointer text-sm">
-                      <CreditCard className="h-5 w-5" /> Credit/Debit Card
-                    </Label>
-                  </div>
-                  <div className="flex items-center space-x-2">
-                    <RadioGroupItem value="upi" id="upi-method" />
-                    <Label htmlFor="upi-method" className="flex items-center gap-2 cursor-pointer text-sm">
-                      <AtSign className="h-5 w-5" /> UPI
-                    </Label>
-                  </div>
-                </RadioGroup>
+            {checkoutError ? (
+              <div className="py-4 text-center space-y-3">
+                <p className="text-sm text-destructive">{checkoutError}</p>
+                <Button variant="outline" onClick={createOrder}>Try Again</Button>
               </div>
+            ) : checkout?.gateway === "sandbox" ? (
+              <div className="py-4 space-y-4">
+                <div>
+                  <Label className="mb-2 block font-medium">Select Payment Method</Label>
+                  <RadioGroup
+                    value={paymentMethod}
+                    onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}
+                    className="flex gap-4"
+                    disabled={isProcessing}
+                  >
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="card" id="card-method" />
+                      <Label htmlFor="card-method" className="flex items-center gap-2 cursor-pointer text-sm">
+                        <CreditCard className="h-5 w-5" /> Credit/Debit Card
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="upi" id="upi-method" />
+                      <Label htmlFor="upi-method" className="flex items-center gap-2 cursor-pointer text-sm">
+                        <AtSign className="h-5 w-5" /> UPI
+                      </Label>
+                    </div>
+                  </RadioGroup>
+                </div>
 
-              {paymentMethod === "card" && (
-                <div className="space-y-3 animate-in fade-in-50">
-                  <div>
-                    <Label htmlFor="cardNumber">Card Number</Label>
-                    <Input id="cardNumber" placeholder="0000 0000 0000 0000" value={cardNumber} onChange={(e) => setCardNumber(e.target.value)} disabled={isProcessing} />
-                  </div>
-                  <div className="grid grid-cols-2 gap-3">
+                {paymentMethod === "card" && (
+                  <div className="space-y-3 animate-in fade-in-50">
                     <div>
-                      <Label htmlFor="expiryDate">Expiry Date</Label>
-                      <Input id="expiryDate" placeholder="MM/YY" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} disabled={isProcessing} />
+                      <Label htmlFor="cardNumber">Card Number</Label>
+                      <Input id="cardNumber" placeholder="0000 0000 0000 0000" value={cardNumber} onChange={(e) => setCardNumber(e.target.value)} disabled={isProcessing} />
                     </div>
-                    <div>
-                      <Label htmlFor="cvc">CVC</Label>
-                      <Input id="cvc" placeholder="123" value={cvc} onChange={(e) => setCvc(e.target.value)} disabled={isProcessing} />
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <Label htmlFor="expiryDate">Expiry Date</Label>
+                        <Input id="expiryDate" placeholder="MM/YY" value={expiryDate} onChange={(e) => setExpiryDate(e.target.value)} disabled={isProcessing} />
+                      </div>
+                      <div>
+                        <Label htmlFor="cvc">CVC</Label>
+                        <Input id="cvc" placeholder="123" value={cvc} onChange={(e) => setCvc(e.target.value)} disabled={isProcessing} />
+                      </div>
                     </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {paymentMethod === "upi" && (
-                <div className="space-y-3 animate-in fade-in-50">
-                  <div>
-                    <Label htmlFor="upiId">UPI ID (Optional if scanning QR)</Label>
-                    <Input id="upiId" placeholder="yourname@bankupi" value={upiId} onChange={(e) => setUpiId(e.target.value)} disabled={isProcessing} />
-                  </div>
-                  <div className="text-center text-sm text-muted-foreground my-2">OR</div>
-                  <div className="flex flex-col items-center space-y-2">
-                    <Label className="font-medium">Scan QR Code</Label>
-                    <div className="p-2 border rounded-md bg-white inline-block">
-                       <Image
-                        src="https://placehold.co/120x120/e2e8f0/e2e8f0.png?text=_" // Placeholder for QR
-                        alt="Scan QR Code for UPI Payment"
-                        width={120}
-                        height={120}
-                        className="rounded"
-                        data-ai-hint="qr code payment"
-                      />
+                {paymentMethod === "upi" && (
+                  <div className="space-y-3 animate-in fade-in-50">
+                    <div>
+                      <Label htmlFor="upiId">UPI ID</Label>
+                      <Input id="upiId" placeholder="yourname@bankupi" value={upiId} onChange={(e) => setUpiId(e.target.value)} disabled={isProcessing} />
                     </div>
-                     <p className="text-xs text-muted-foreground">Scan using any UPI payment app.</p>
                   </div>
+                )}
+
+                <p className="text-xs text-muted-foreground rounded-md bg-muted p-2">
+                  Sandbox mode: no money is charged. Use card 4000 0000 0000 0002 or UPI failure@sandbox to simulate a decline,
+                  and 4000 0000 0000 3220 or pending@sandbox for a payment that settles after a short delay.
+                </p>
+              </div>
+            ) : (
+              <p className="py-4 text-sm text-muted-foreground text-center">
+                You will complete the payment securely with {checkout?.gateway === "stripe" ? "Stripe" : "Razorpay"}.
+              </p>
+            )}
+
+            <div className="space-y-2 border-t pt-4">
+              {appliedDiscountCode ? (
+                <p className="text-sm text-green-600">
+                  Discount code <strong>{appliedDiscountCode}</strong> applied: {formatFee(appliedDiscountAmount, checkout?.currency || paper?.currency || DEFAULT_CURRENCY)} off.
+                </p>
+              ) : (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Discount code"
+                    value={discountCodeInput}
+                    onChange={(e) => setDiscountCodeInput(e.target.value)}
+                    disabled={isProcessing}
+                    className="uppercase"
+                  />
+                  <Button variant="outline" onClick={handleApplyDiscount} disabled={isProcessing || !discountCodeInput.trim()}>Apply</Button>
                 </div>
               )}
+              {isWaiverPending ? (
+                <p className="text-xs text-muted-foreground">Your fee waiver request is awaiting review. You can still pay in the meantime.</p>
+              ) : (
+                <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setPaymentStep("waiver")} disabled={isProcessing}>
+                  Can&apos;t pay the fee? Request a waiver
+                </Button>
+              )}
             </div>
 
             <DialogFooter className="sm:justify-between gap-2 sm:gap-0">
               <Button variant="outline" onClick={handleDialogClose} disabled={isProcessing}>Cancel</Button>
-              <Button onClick={handlePayment} disabled={isProcessing} className="min-w-[120px]">
-                {isProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : (paymentMethod === 'card' ? <CreditCard className="mr-2 h-4 w-4" /> : <AtSign className="mr-2 h-4 w-4" />)}
-                {isProcessing ? "Processing..." : `Pay ₹${SUBMISSION_FEE.toFixed(2)}`}
+              <Button onClick={handlePayment} disabled={isProcessing || !checkout} className="min-w-[120px]">
+                {isProcessing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : checkout?.gateway === "stripe" ? <ExternalLink className="mr-2 h-4 w-4" /> : (paymentMethod === 'card' ? <CreditCard className="mr-2 h-4 w-4" /> : <AtSign className="mr-2 h-4 w-4" />)}
+                {isProcessing ? "Processing..." : `Pay ${submissionFee}`}
+              </Button>
+            </DialogFooter>
+          </>
+        ) : paymentStep === "waiver" ? (
+          <>
+            <DialogHeader>
+              <div className="mx-auto mb-4 h-12 w-12 text-primary">
+                <HandCoins size={48} strokeWidth={1.5}/>
+              </div>
+              <DialogTitle className="text-2xl font-bold text-center">Request a Fee Waiver</DialogTitle>
+              <DialogDescription className="text-center">
+                Students and authors from low-income countries may have the {submissionFee} fee waived. An editor reviews
+                every request; if it is approved your paper is submitted without payment.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="py-4 space-y-3">
+              <div>
+                <Label htmlFor="waiver-reason">Reason</Label>
+                <Select value={waiverReason} onValueChange={(value) => setWaiverReason(value as FeeWaiverReason)} disabled={isProcessing}>
+                  <SelectTrigger id="waiver-reason"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FEE_WAIVER_REASON_LABELS) as FeeWaiverReason[]).map(reason => (
+                      <SelectItem key={reason} value={reason}>{FEE_WAIVER_REASON_LABELS[reason]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {waiverReason === "low-income-country" && (
+                <div>
+                  <Label htmlFor="waiver-country">Country</Label>
+                  <Input id="waiver-country" value={waiverCountry} onChange={(e) => setWaiverCountry(e.target.value)} disabled={isProcessing} />
+                </div>
+              )}
+              <div>
+                <Label htmlFor="waiver-justification">Details</Label>
+                <Textarea
+                  id="waiver-justification"
+                  rows={4}
+                  placeholder={waiverReason === "student" ? "Your institution, programme and supervisor" : "Why you are unable to pay the fee"}
+                  value={waiverJustification}
+                  onChange={(e) => setWaiverJustification(e.target.value)}
+                  disabled={isProcessing}
+                />
+              </div>
+            </div>
+            <DialogFooter className="sm:justify-between gap-2 sm:gap-0">
+              <Button variant="outline" onClick={() => setPaymentStep("form")} disabled={isProcessing}>Back</Button>
+              <Button
+                onClick={handleRequestWaiver}
+                disabled={isProcessing || !waiverJustification.trim() || (waiverReason === "low-income-country" && !waiverCountry.trim())}
+              >
+                {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Request
               </Button>
             </DialogFooter>
           </>
+        ) : paymentStep === "pending" ? (
+          <>
+            <DialogHeader>
+              <div className="mx-auto mb-4 h-16 w-16 text-yellow-500 flex items-center justify-center">
+                <Clock size={64} strokeWidth={1.5}/>
+              </div>
+              <DialogTitle className="text-2xl font-bold text-center">Payment Processing</DialogTitle>
+              <DialogDescription className="text-center px-4">
+                The payment gateway has not confirmed your payment yet. Your paper will be submitted as soon as it does;
+                you do not need to pay again.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter className="mt-2 sm:justify-between gap-2 sm:gap-0">
+              <Button variant="outline" onClick={handleDialogClose} disabled={isProcessing}>Close</Button>
+              <Button onClick={handleCheckStatus} disabled={isProcessing}>
+                {isProcessing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Check Status
+              </Button>
+            </DialogFooter>
+          </>
+        ) : paymentStep === "failed" ? (
+          <>
+            <DialogHeader>
+              <div className="mx-auto mb-4 h-16 w-16 text-destructive flex items-center justify-center">
+                <XCircle size={64} strokeWidth={1.5}/>
+              </div>
+              <DialogTitle className="text-2xl font-bold text-center">Payment Failed</DialogTitle>
+              <DialogDescription className="text-center px-4">
+                {payment?.failureReason || "The payment did not go through."} You have not been charged.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter className="mt-2 sm:justify-between gap-2 sm:gap-0">
+              <Button variant="outline" onClick={handleDialogClose}>Close</Button>
+              <Button onClick={() => { resetForm(); createOrder(); }}>Try Again</Button>
+            </DialogFooter>
+          </>
         ) : paymentStep === "success" ? (
           <>
             <DialogHeader>
               <div className="mx-auto mb-4 h-16 w-16 text-green-500 flex items-center justify-center">
                 <CheckCircle size={64} strokeWidth={1.5}/>
               </div>
-              <DialogTitle className="text-2xl font-bold text-center">Payment Successful!</DialogTitle>
+              <DialogTitle className="text-2xl font-bold text-center">
+                {redemption?.paperStatus === "Submitted" ? "Paper Submitted!" : "Payment Successful!"}
+              </DialogTitle>
               <DialogDescription className="text-center px-4">
-                Your payment has been successfully processed.
-                {paper ? ` Your paper "${paper.title}" status will be updated.` : " Your paper will now be submitted."}
+                {redemption?.paperStatus === "Submitted"
+                  ? `The discount code ${redemption.discountCode} covers the whole fee, so there is nothing to pay.`
+                  : "Your payment has been verified."}
+                {paper ? ` Your paper "${paper.title}" has been submitted.` : " Your paper has been submitted."}
               </DialogDescription>
             </DialogHeader>
             <DialogFooter className="mt-2">
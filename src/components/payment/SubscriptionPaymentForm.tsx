@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import type { SubscriptionPaymentMethod, SubscriptionRequest } from '@/types';
+import { useAuth } from '@/hooks/use-auth';
+import { toast } from '@/hooks/use-toast';
+import { auth } from '@/lib/firebase';
+import { requestSubscription } from '@/lib/payment-actions';
+import { getUserSubscriptionRequests } from '@/lib/subscription-service';
+import { SUBSCRIPTION_PAYMENT_METHOD_LABELS, SUBSCRIPTION_PLANS, SUBSCRIPTION_REQUEST_STATUS_BADGE_VARIANTS, SUBSCRIPTION_REQUEST_STATUS_LABELS } from '@/lib/subscriptions';
+import { formatFee } from '@/lib/venue-schedule';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Send } from 'lucide-react';
+
+const subscriptionPaymentSchema = z.object({
+  paymentMethod: z.enum(["bank-transfer", "upi"]),
+  transactionReference: z.string().trim().regex(/^[A-Za-z0-9-]{6,40}$/, "Enter the UTR or UPI transaction ID exactly as shown on your receipt."),
+  paidOn: z.string().min(1, "Please enter the date you made the transfer."),
+});
+
+type SubscriptionPaymentFormValues = z.infer<typeof subscriptionPaymentSchema>;
+
+// Lets a signed-in author report their transfer so an admin can confirm it and activate the subscription.
+export default function SubscriptionPaymentForm() {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<SubscriptionRequest[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const plan = SUBSCRIPTION_PLANS.annual;
+
+  const form = useForm<SubscriptionPaymentFormValues>({
+    resolver: zodResolver(subscriptionPaymentSchema),
+    defaultValues: { paymentMethod: "bank-transfer", transactionReference: "", paidOn: new Date().toISOString().slice(0, 10) },
+  });
+  const errors = form.formState.errors;
+
+  useEffect(() => {
+    if (!user) return;
+    getUserSubscriptionRequests(user.id).then(setRequests).catch(() => setRequests([]));
+  }, [user]);
+
+  const hasPendingRequest = requests.some(request => request.status === "pending");
+
+  const handleFormSubmit = async (data: SubscriptionPaymentFormValues) => {
+    if (!auth?.currentUser) return;
+    setIsSaving(true);
+    try {
+      const request = await requestSubscription(await auth.currentUser.getIdToken(), { planId: plan.id, ...data });
+      setRequests(current => [request, ...current]);
+      form.reset();
+      toast({ title: "Payment Details Sent", description: "We will activate your subscription once the transfer is confirmed." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Send Payment Details", description: error.message || "Please try again." });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {requests.length > 0 && (
+        <div className="space-y-2">
+          {requests.map(request => (
+            <div key={request.id} className="text-sm border rounded-md p-3">
+              <div className="flex justify-between items-center gap-2">
+                <span>
+                  {formatFee(request.amount, request.currency)} by {SUBSCRIPTION_PAYMENT_METHOD_LABELS[request.paymentMethod]} · {request.transactionReference}
+                </span>
+                <Badge variant={SUBSCRIPTION_REQUEST_STATUS_BADGE_VARIANTS[request.status]}>{SUBSCRIPTION_REQUEST_STATUS_LABELS[request.status]}</Badge>
+              </div>
+              {request.decisionNote && <p className="text-muted-foreground mt-1">{request.decisionNote}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!hasPendingRequest && (
+        <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            After paying {formatFee(plan.price, plan.currency)}, tell us about the transfer and an admin will activate your subscription.
+          </p>
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <Label htmlFor="subscription-method">Paid by</Label>
+              <Select value={form.watch("paymentMethod")} onValueChange={(value) => form.setValue("paymentMethod", value as SubscriptionPaymentMethod)} disabled={isSaving}>
+                <SelectTrigger id="subscription-method" className="mt-1"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SUBSCRIPTION_PAYMENT_METHOD_LABELS).map(([method, label]) => (
+                    <SelectItem key={method} value={method}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="subscription-reference">UTR / Transaction ID</Label>
+              <Input id="subscription-reference" {...form.register("transactionReference")} disabled={isSaving} className="mt-1 uppercase" />
+            </div>
+            <div>
+              <Label htmlFor="subscription-paid-on">Paid on</Label>
+              <Input id="subscription-paid-on" type="date" max={new Date().toISOString().slice(0, 10)} {...form.register("paidOn")} disabled={isSaving} className="mt-1" />
+            </div>
+          </div>
+          {errors.transactionReference && <p className="text-sm text-destructive">{errors.transactionReference.message}</p>}
+          {errors.paidOn && <p className="text-sm text-destructive">{errors.paidOn.message}</p>}
+          <Button type="submit" disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Send Payment Details
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
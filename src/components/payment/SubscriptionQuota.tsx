@@ -0,0 +1,43 @@
+"use client";
+
+import Link from 'next/link';
+import type { UserSubscription } from '@/types';
+import { getRemainingSubmissions, isSubscriptionActive, SUBSCRIPTION_PLANS } from '@/lib/subscriptions';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Award } from 'lucide-react';
+
+interface SubscriptionQuotaProps {
+  subscription: UserSubscription;
+}
+
+export default function SubscriptionQuota({ subscription }: SubscriptionQuotaProps) {
+  const plan = SUBSCRIPTION_PLANS[subscription.planId];
+  const isActive = isSubscriptionActive(subscription);
+  const remaining = getRemainingSubmissions(subscription);
+  const endDate = new Date(subscription.endDate).toLocaleDateString();
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="text-lg flex items-center"><Award className="mr-2 h-5 w-5 text-primary" />{plan?.name || "Subscription"}</CardTitle>
+          <CardDescription>{isActive ? `Active until ${endDate}` : `Expired on ${endDate}`}</CardDescription>
+        </div>
+        {(!isActive || remaining === 0) && (
+          <Link href="/registration#subscription-details">
+            <Button variant="outline" size="sm">Renew</Button>
+          </Link>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <Progress value={Math.min(subscription.submissionsUsed / subscription.submissionQuota, 1) * 100} />
+        <p className="text-sm text-muted-foreground">
+          {subscription.submissionsUsed} of {subscription.submissionQuota} submissions used
+          {isActive && ` · ${remaining} left; papers you submit are covered instead of paying the fee`}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -16,6 +16,7 @@ import { Loader2, CheckCircle, AlertTriangle, Info } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useSearchParams, useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
+import { isValidGstin } from "@/lib/gst";
 
 const profileUpdateSchema = z.object({
   displayName: z.string().min(3, { message: "Full name must be at least 3 characters." }),
@@ -33,6 +34,11 @@ const profileUpdateSchema = z.object({
   researcherId: z.string().optional().or(z.literal("")).refine(val => !val || /(^(\d{4}-\d{4}-\d{4}-\d{3}[\dX])$)|(^[a-zA-Z0-9]+$)/.test(val), {
     message: "Invalid Researcher ID or ORCID format (e.g., 0000-0001-2345-6789 or alphanumeric).",
   }),
+  expertiseKeywords: z.string().optional().or(z.literal("")),
+  declaredConflicts: z.string().optional().or(z.literal("")),
+  gstin: z.string().optional().or(z.literal("")).refine(val => !val || isValidGstin(val), {
+    message: "Invalid GSTIN (15 characters, e.g. 29ABCDE1234F1Z5).",
+  }),
 });
 
 type ProfileUpdateFormValues = z.infer<typeof profileUpdateSchema>;
@@ -61,6 +67,9 @@ export default function ProfileUpdateForm() {
         phoneNumber: user.phoneNumber || "",
         institution: user.institution || "",
         researcherId: user.researcherId || "",
+        expertiseKeywords: (user.expertiseKeywords || []).join(", "),
+        declaredConflicts: (user.declaredConflicts || []).join(", "),
+        gstin: user.gstin || "",
       });
     }
   }, [user, form]);
@@ -71,7 +80,14 @@ export default function ProfileUpdateForm() {
     setSuccessMessage(null);
 
     try {
-      await updateUserProfile(data); 
+      const { expertiseKeywords, declaredConflicts, gstin, ...profileData } = data;
+      const splitList = (value?: string) => (value || "").split(',').map(item => item.trim()).filter(Boolean);
+      await updateUserProfile({
+        ...profileData,
+        expertiseKeywords: splitList(expertiseKeywords),
+        declaredConflicts: splitList(declaredConflicts),
+        gstin: gstin?.trim().toUpperCase() || null,
+      });
       setSuccessMessage("Profile updated successfully!");
       toast({ title: "Success", description: "Your profile has been updated." });
       
@@ -208,6 +224,49 @@ export default function ProfileUpdateForm() {
       />
       {form.formState.errors.researcherId && <p className="text-sm text-destructive mt-1 px-1">{form.formState.errors.researcherId.message}</p>}
 
+      {form.watch("role") === "Author" && (
+        <div className="pt-2">
+          <Label htmlFor="gstin" className="text-muted-foreground">GSTIN for Invoices (Optional)</Label>
+          <Input
+            id="gstin"
+            placeholder="e.g. 29ABCDE1234F1Z5"
+            {...form.register("gstin")}
+            disabled={currentIsLoading}
+            className="mt-1 h-10"
+          />
+          <p className="text-xs text-muted-foreground mt-1 px-1">Printed on your submission fee invoices so your institution can claim the GST paid.</p>
+          {form.formState.errors.gstin && <p className="text-sm text-destructive mt-1 px-1">{form.formState.errors.gstin.message}</p>}
+        </div>
+      )}
+
+      {form.watch("role") === "Reviewer" && (
+        <div className="pt-2">
+          <Label htmlFor="expertiseKeywords" className="text-muted-foreground">Areas of Expertise (comma-separated)</Label>
+          <Input
+            id="expertiseKeywords"
+            placeholder="e.g. machine learning, graph theory"
+            {...form.register("expertiseKeywords")}
+            disabled={currentIsLoading}
+            className="mt-1 h-10"
+          />
+          <p className="text-xs text-muted-foreground mt-1 px-1">Used to suggest you as a reviewer for papers in these areas.</p>
+        </div>
+      )}
+
+      {form.watch("role") === "Reviewer" && (
+        <div className="pt-2">
+          <Label htmlFor="declaredConflicts" className="text-muted-foreground">Declared Conflicts of Interest (author names, comma-separated)</Label>
+          <Input
+            id="declaredConflicts"
+            placeholder="e.g. Jane Doe, John Smith"
+            {...form.register("declaredConflicts")}
+            disabled={currentIsLoading}
+            className="mt-1 h-10"
+          />
+          <p className="text-xs text-muted-foreground mt-1 px-1">You will not be suggested for papers by these authors, and editors will be warned before inviting you.</p>
+        </div>
+      )}
+
 
       <Button type="submit" className="w-full mt-4" disabled={currentIsLoading}>
         {currentIsLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
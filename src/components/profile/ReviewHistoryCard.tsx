@@ -0,0 +1,55 @@
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import type { Review } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { getReviewerReviews } from "@/lib/review-service";
+
+interface ReviewHistoryCardProps {
+  reviewerId: string;
+}
+
+// Past reviews are part of a reviewer's expertise profile; admins see the same list when assigning reviewers.
+export default function ReviewHistoryCard({ reviewerId }: ReviewHistoryCardProps) {
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    getReviewerReviews(reviewerId)
+      .then(all => setReviews(all.filter(review => review.status === "Submitted")))
+      .catch(() => setReviews([]))
+      .finally(() => setIsLoading(false));
+  }, [reviewerId]);
+
+  return (
+    <Card className="w-full max-w-lg mx-auto shadow-xl mt-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-6 w-6 text-primary" />
+          <CardTitle className="text-xl">Review History</CardTitle>
+        </div>
+        <CardDescription>Papers you have reviewed on ResearchSphere.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-2"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : reviews.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You have not submitted any reviews yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {reviews.map(review => (
+              <li key={review.id} className="flex items-center justify-between gap-2 text-sm">
+                <Link href={`/reviews/${review.id}`} className="hover:underline truncate">{review.paperTitle || "Untitled paper"}</Link>
+                {review.recommendation && <Badge variant="secondary">{review.recommendation}</Badge>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
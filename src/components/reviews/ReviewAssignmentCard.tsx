@@ -0,0 +1,128 @@
+
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import type { Review } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle, XCircle, ClipboardEdit, Eye, Clock, Loader2 } from 'lucide-react';
+import CountdownTimer from '@/components/shared/CountdownTimer';
+import { toast } from '@/hooks/use-toast';
+import { respondToReviewInvitation } from '@/lib/review-service';
+
+interface ReviewAssignmentCardProps {
+  review: Review;
+  onReviewChange: (review: Review) => void;
+}
+
+const ReviewAssignmentCard = React.memo(({ review, onReviewChange }: ReviewAssignmentCardProps) => {
+  const router = useRouter();
+  const [isResponding, setIsResponding] = useState(false);
+  const [isDeclineDialogOpen, setIsDeclineDialogOpen] = useState(false);
+  const [declineReason, setDeclineReason] = useState("");
+
+  const handleRespond = async (accept: boolean) => {
+    setIsResponding(true);
+    try {
+      const updated = await respondToReviewInvitation(review, accept, declineReason);
+      onReviewChange(updated);
+      setIsDeclineDialogOpen(false);
+      toast({ title: accept ? "Invitation Accepted" : "Invitation Declined", description: accept ? "The paper is now in your assigned reviews." : "The editor has been informed." });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Could Not Respond", description: error.message || "Please try again." });
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  const showDueDate = review.dueDate && review.status !== 'Submitted' && review.status !== 'Declined';
+
+  return (
+    <Card className="overflow-hidden transition-shadow hover:shadow-lg flex flex-col h-full">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-lg hover:text-primary transition-colors">
+          {review.status === 'Invited' || review.status === 'Declined'
+            ? review.paperTitle
+            : <Link href={`/papers/${review.paperId}`}>{review.paperTitle}</Link>}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Invited: {review.assignedAt ? new Date(review.assignedAt).toLocaleDateString() : 'N/A'}
+          {review.submittedAt && <> &middot; Submitted: {new Date(review.submittedAt).toLocaleDateString()}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex-grow space-y-2">
+        <Badge variant={review.status === 'Declined' ? 'destructive' : review.status === 'Submitted' ? 'default' : 'outline'}>{review.status}</Badge>
+        {showDueDate && (
+          <div className="text-xs text-orange-600 flex items-center">
+            <Clock className="h-3 w-3 mr-1" />
+            <CountdownTimer targetDateISO={review.dueDate} prefixText="Due in: " overdueText="Review is overdue." />
+          </div>
+        )}
+        {review.status === 'Submitted' && review.recommendation && (
+          <p className="text-sm text-muted-foreground">Your recommendation: <strong>{review.recommendation}</strong></p>
+        )}
+        {review.status === 'Declined' && review.declineReason && (
+          <p className="text-sm text-muted-foreground">Reason: {review.declineReason}</p>
+        )}
+      </CardContent>
+      <CardFooter className="bg-secondary/30 p-3 sm:p-4 flex flex-wrap justify-end gap-2">
+        {review.status === 'Invited' && (
+          <>
+            <Button variant="outline" size="sm" onClick={() => setIsDeclineDialogOpen(true)} disabled={isResponding}>
+              <XCircle className="mr-2 h-4 w-4" /> Decline
+            </Button>
+            <Button size="sm" onClick={() => handleRespond(true)} disabled={isResponding}>
+              {isResponding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CheckCircle className="mr-2 h-4 w-4" />} Accept
+            </Button>
+          </>
+        )}
+        {(review.status === 'Accepted' || review.status === 'Draft') && (
+          <Button size="sm" onClick={() => router.push(`/reviews/${review.id}`)}>
+            <ClipboardEdit className="mr-2 h-4 w-4" /> {review.status === 'Draft' ? 'Continue Review' : 'Start Review'}
+          </Button>
+        )}
+        {review.status === 'Submitted' && (
+          <Button variant="outline" size="sm" onClick={() => router.push(`/reviews/${review.id}`)}>
+            <Eye className="mr-2 h-4 w-4" /> View Review
+          </Button>
+        )}
+      </CardFooter>
+
+      <Dialog open={isDeclineDialogOpen} onOpenChange={setIsDeclineDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Decline Review Invitation</DialogTitle>
+            <DialogDescription>Let the editor know why you cannot review &quot;{review.paperTitle}&quot;.</DialogDescription>
+          </DialogHeader>
+          <div className="py-2">
+            <Label htmlFor={`decline-reason-${review.id}`}>Reason</Label>
+            <Textarea
+              id={`decline-reason-${review.id}`}
+              rows={4}
+              value={declineReason}
+              onChange={(e) => setDeclineReason(e.target.value)}
+              placeholder="e.g., Outside my area of expertise, conflict of interest, unavailable before the due date."
+              disabled={isResponding}
+            />
+          </div>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setIsDeclineDialogOpen(false)} disabled={isResponding}>Cancel</Button>
+            <Button variant="destructive" onClick={() => handleRespond(false)} disabled={isResponding || !declineReason.trim()}>
+              {isResponding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null} Decline Invitation
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+});
+
+ReviewAssignmentCard.displayName = 'ReviewAssignmentCard';
+
+export default ReviewAssignmentCard;
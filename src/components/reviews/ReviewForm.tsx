@@ -0,0 +1,155 @@
+
+"use client";
+
+import { useState } from 'react';
+import type { Review, ReviewRecommendation } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, Save, Send, AlertTriangle, CheckCircle } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  REVIEW_CRITERIA,
+  REVIEW_RECOMMENDATIONS,
+  REVIEW_SCORE_MIN,
+  REVIEW_SCORE_MAX,
+  saveReviewDraft,
+  submitReview,
+  type ReviewFormData,
+} from '@/lib/review-service';
+
+interface ReviewFormProps {
+  review: Review;
+  initialConfidentialComments?: string;
+  onSaved: (review: Review) => void;
+}
+
+const SCORE_OPTIONS = Array.from({ length: REVIEW_SCORE_MAX - REVIEW_SCORE_MIN + 1 }, (_, i) => REVIEW_SCORE_MIN + i);
+
+export default function ReviewForm({ review, initialConfidentialComments = "", onSaved }: ReviewFormProps) {
+  const [formData, setFormData] = useState<ReviewFormData>({
+    scores: review.scores || {},
+    recommendation: review.recommendation || null,
+    commentsToAuthor: review.commentsToAuthor || "",
+    confidentialComments: initialConfidentialComments,
+  });
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const isReadOnly = review.status === "Submitted";
+
+  const handleSave = async (submit: boolean) => {
+    if (submit && !confirm("Submit this review? You will not be able to edit it afterwards.")) return;
+    setIsSaving(true);
+    setFormError(null);
+    try {
+      const saved = submit ? await submitReview(review, formData) : await saveReviewDraft(review, formData);
+      onSaved(saved);
+      toast({ title: submit ? "Review Submitted" : "Draft Saved", description: submit ? "Thank you for your review." : "You can return to finish it later." });
+    } catch (error: any) {
+      setFormError(error.message || "Could not save the review.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {isReadOnly && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertTitle>Review Submitted</AlertTitle>
+          <AlertDescription>
+            This review was submitted{review.submittedAt ? ` on ${new Date(review.submittedAt).toLocaleString()}` : ''} and can no longer be edited.
+          </AlertDescription>
+        </Alert>
+      )}
+      {formError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Could Not Save Review</AlertTitle>
+          <AlertDescription>{formError}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-4">
+        <h3 className="text-lg font-semibold">Scores ({REVIEW_SCORE_MIN} = poor, {REVIEW_SCORE_MAX} = excellent)</h3>
+        {REVIEW_CRITERIA.map(criterion => (
+          <div key={criterion.key} className="space-y-1">
+            <Label className="font-medium">{criterion.label}</Label>
+            <p className="text-xs text-muted-foreground">{criterion.description}</p>
+            <RadioGroup
+              value={formData.scores[criterion.key]?.toString() || ""}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, scores: { ...prev.scores, [criterion.key]: Number(value) } }))}
+              className="flex gap-4"
+              disabled={isReadOnly || isSaving}
+            >
+              {SCORE_OPTIONS.map(score => (
+                <div key={score} className="flex items-center space-x-1">
+                  <RadioGroupItem value={score.toString()} id={`${criterion.key}-${score}`} />
+                  <Label htmlFor={`${criterion.key}-${score}`} className="font-normal cursor-pointer">{score}</Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <Label htmlFor="recommendation">Recommendation</Label>
+        <Select
+          value={formData.recommendation || ""}
+          onValueChange={(value) => setFormData(prev => ({ ...prev, recommendation: value as ReviewRecommendation }))}
+          disabled={isReadOnly || isSaving}
+        >
+          <SelectTrigger id="recommendation">
+            <SelectValue placeholder="Select a recommendation" />
+          </SelectTrigger>
+          <SelectContent>
+            {REVIEW_RECOMMENDATIONS.map(rec => (
+              <SelectItem key={rec} value={rec}>{rec}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="commentsToAuthor">Comments to Author</Label>
+        <Textarea
+          id="commentsToAuthor"
+          rows={8}
+          value={formData.commentsToAuthor}
+          onChange={(e) => setFormData(prev => ({ ...prev, commentsToAuthor: e.target.value }))}
+          placeholder="Summarise the contribution, strengths and weaknesses, and requested changes."
+          disabled={isReadOnly || isSaving}
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="confidentialComments">Confidential Comments to Editor (not shared with the author)</Label>
+        <Textarea
+          id="confidentialComments"
+          rows={4}
+          value={formData.confidentialComments}
+          onChange={(e) => setFormData(prev => ({ ...prev, confidentialComments: e.target.value }))}
+          disabled={isReadOnly || isSaving}
+        />
+      </div>
+
+      {!isReadOnly && (
+        <div className="flex flex-col sm:flex-row gap-2 justify-end">
+          <Button variant="outline" onClick={() => handleSave(false)} disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Save Draft
+          </Button>
+          <Button onClick={() => handleSave(true)} disabled={isSaving}>
+            {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+            Submit Review
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+
+"use client";
+
+import type { Review } from '@/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Separator } from '@/components/ui/separator';
+import { ClipboardCheck, Lock } from 'lucide-react';
+import { aggregateReviews, REVIEW_CRITERIA, REVIEW_RECOMMENDATIONS, REVIEW_SCORE_MAX } from '@/lib/review-service';
+
+interface ReviewSummaryProps {
+  reviews: Review[];
+  confidentialComments?: Record<string, string>; // reviewId -> comments; only passed for admins
+}
+
+export default function ReviewSummary({ reviews, confidentialComments }: ReviewSummaryProps) {
+  const submittedReviews = reviews.filter(r => r.status === 'Submitted');
+  if (submittedReviews.length === 0) {
+    return null;
+  }
+  const aggregate = aggregateReviews(submittedReviews);
+
+  return (
+    <Card className="mt-6 border-primary/50">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <ClipboardCheck className="h-6 w-6 text-primary" />
+          <CardTitle>Peer Review Summary</CardTitle>
+        </div>
+        <CardDescription>
+          {aggregate.submittedCount} review{aggregate.submittedCount === 1 ? '' : 's'} submitted
+          {aggregate.overallAverage !== null && <> &middot; overall average {aggregate.overallAverage.toFixed(1)} / {REVIEW_SCORE_MAX}</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          {REVIEW_CRITERIA.map(criterion => {
+            const average = aggregate.averageScores[criterion.key];
+            if (average === undefined) return null;
+            return (
+              <div key={criterion.key}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-foreground">{criterion.label}</span>
+                  <span className="text-muted-foreground">{average.toFixed(1)} / {REVIEW_SCORE_MAX}</span>
+                </div>
+                <Progress value={(average / REVIEW_SCORE_MAX) * 100} />
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {REVIEW_RECOMMENDATIONS.filter(rec => aggregate.recommendationCounts[rec] > 0).map(rec => (
+            <Badge key={rec} variant={rec === 'Reject' ? 'destructive' : rec === 'Accept' ? 'default' : 'secondary'}>
+              {rec}: {aggregate.recommendationCounts[rec]}
+            </Badge>
+          ))}
+        </div>
+
+        {submittedReviews.map((review, index) => (
+          <div key={review.id} className="space-y-2">
+            <Separator />
+            <div className="flex items-center justify-between pt-2">
+              <h4 className="font-semibold text-foreground">{review.reviewerName || `Reviewer ${index + 1}`}</h4>
+              {review.recommendation && <Badge variant="outline">{review.recommendation}</Badge>}
+            </div>
+            {review.commentsToAuthor && (
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">{review.commentsToAuthor}</p>
+            )}
+            {confidentialComments?.[review.id] && (
+              <div className="bg-secondary/50 p-3 rounded-md">
+                <p className="text-xs font-semibold flex items-center mb-1"><Lock className="h-3 w-3 mr-1" />Confidential comments to editor</p>
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{confidentialComments[review.id]}</p>
+              </div>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
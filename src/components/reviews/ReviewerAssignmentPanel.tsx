@@ -0,0 +1,277 @@
+
+"use client";
+
+import { useEffect, useMemo, useState } from 'react';
+import type { AuthorDeclaredConflict, ConflictOfInterest, ConflictOverride, Paper, Review, User } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, UserPlus, Trash2, Eye, Sparkles, AlertTriangle, ShieldAlert } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/use-auth';
+import { getAllUsers } from '@/lib/user-service';
+import { getAllPapers } from '@/lib/paper-service';
+import { assignReviewer, removeReviewAssignment, getSubmittedReviews, getAuthorDeclaredConflicts, getConflictOverrides } from '@/lib/review-service';
+import { notifyReviewerInvited } from '@/lib/email-actions';
+import { auth } from '@/lib/firebase';
+import { collectReviewedPapers, rankReviewersForPaper } from '@/lib/reviewer-matching';
+import { detectConflicts, CONFLICT_TYPE_LABELS } from '@/lib/conflict-of-interest';
+
+interface ReviewerAssignmentPanelProps {
+  paper: Paper;
+  reviews: Review[];
+  onReviewsChange: (reviews: Review[]) => void;
+}
+
+const getReviewStatusBadgeVariant = (status: Review['status']) => {
+  switch (status) {
+    case 'Submitted': return 'default';
+    case 'Accepted': case 'Draft': return 'secondary';
+    case 'Declined': return 'destructive';
+    default: return 'outline';
+  }
+};
+
+export default function ReviewerAssignmentPanel({ paper, reviews, onReviewsChange }: ReviewerAssignmentPanelProps) {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [papers, setPapers] = useState<Paper[]>([]);
+  const [submittedReviews, setSubmittedReviews] = useState<Review[]>([]);
+  const [declaredConflicts, setDeclaredConflicts] = useState<AuthorDeclaredConflict[]>([]);
+  const [conflictOverrides, setConflictOverrides] = useState<ConflictOverride[]>([]);
+  const [selectedReviewerId, setSelectedReviewerId] = useState<string>("");
+  const [dueDate, setDueDate] = useState<string>("");
+  const [overrideJustification, setOverrideJustification] = useState<string>("");
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  useEffect(() => {
+    getAllUsers()
+      .then(setUsers)
+      .catch((err: any) => toast({ variant: "destructive", title: "Error Loading Reviewers", description: err.message }));
+    // Papers feed co-authorship checks and, with submitted reviews, each reviewer's review history.
+    Promise.all([getSubmittedReviews(), getAllPapers()])
+      .then(([fetchedReviews, fetchedPapers]) => {
+        setSubmittedReviews(fetchedReviews);
+        setPapers(fetchedPapers);
+      })
+      .catch(() => toast({ variant: "destructive", title: "Error Loading Papers", description: "Co-authorship conflicts and review history could not be checked." }));
+  }, []);
+
+  const loadConflictOverrides = () => {
+    getConflictOverrides(paper.id).then(setConflictOverrides).catch(() => setConflictOverrides([]));
+  };
+
+  useEffect(() => {
+    getAuthorDeclaredConflicts(paper.id).then(setDeclaredConflicts).catch(() => setDeclaredConflicts([]));
+    loadConflictOverrides();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paper.id]);
+
+  const reviewers = useMemo(() => users.filter(u => u.role === "Reviewer"), [users]);
+  const reviewedPapers = useMemo(() => collectReviewedPapers(submittedReviews, papers), [submittedReviews, papers]);
+  const conflictsByReviewer = useMemo(() => {
+    const conflicts: Record<string, ConflictOfInterest[]> = {};
+    reviewers.forEach(reviewer => {
+      conflicts[reviewer.id] = detectConflicts(paper, reviewer, { users, papers, declaredConflicts });
+    });
+    return conflicts;
+  }, [paper, reviewers, users, papers, declaredConflicts]);
+
+  const reviewerName = (reviewerId: string) => {
+    const reviewer = reviewers.find(r => r.id === reviewerId);
+    return reviewer ? (reviewer.displayName || reviewer.email || reviewer.id) : reviewerId;
+  };
+
+  const availableReviewers = reviewers.filter(r => r.id !== paper.userId && !reviews.some(rev => rev.reviewerId === r.id));
+
+  const suggestions = useMemo(() => rankReviewersForPaper(
+    paper,
+    reviewers.map(reviewer => ({ reviewer, reviewedPapers: reviewedPapers[reviewer.id] || [] })),
+    { excludeReviewerIds: reviews.map(review => review.reviewerId), conflicts: conflictsByReviewer }
+  ), [paper, reviewers, reviewedPapers, reviews, conflictsByReviewer]);
+
+  const overridesByReview = useMemo(
+    () => Object.fromEntries(conflictOverrides.map(override => [override.reviewId, override])) as Record<string, ConflictOverride>,
+    [conflictOverrides]
+  );
+
+  const selectedConflicts = selectedReviewerId ? conflictsByReviewer[selectedReviewerId] || [] : [];
+
+  const handleSelectReviewer = (reviewerId: string) => {
+    setSelectedReviewerId(reviewerId);
+    setOverrideJustification("");
+  };
+
+  const handleAssign = async () => {
+    const selectedReviewer = reviewers.find(r => r.id === selectedReviewerId);
+    if (!user || !selectedReviewer) return;
+    setIsAssigning(true);
+    try {
+      const review = await assignReviewer(paper, selectedReviewer, dueDate ? new Date(`${dueDate}T23:59:59`) : null, { overrideJustification });
+      onReviewsChange([...reviews, review]);
+      if (overrideJustification.trim()) {
+        loadConflictOverrides();
+      }
+      if (auth.currentUser) {
+        notifyReviewerInvited(await auth.currentUser.getIdToken(), review.id)
+          .catch(error => console.error("ReviewerAssignmentPanel: Could not queue the invitation email:", error));
+      }
+      setSelectedReviewerId("");
+      setDueDate("");
+      setOverrideJustification("");
+      toast({ title: "Reviewer Invited", description: `${reviewerName(review.reviewerId)} has been invited to review this paper.` });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Assignment Failed", description: error.message || "Could not assign reviewer." });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  const handleRemove = async (review: Review) => {
+    if (!confirm(`Remove ${reviewerName(review.reviewerId)} from this paper?`)) return;
+    try {
+      await removeReviewAssignment(review);
+      onReviewsChange(reviews.filter(r => r.id !== review.id));
+      toast({ title: "Assignment Removed" });
+    } catch (error: any) {
+      toast({ variant: "destructive", title: "Removal Failed", description: error.message || "Could not remove assignment." });
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-md space-y-4">
+      <h3 className="text-lg font-semibold flex items-center"><Eye className="h-5 w-5 mr-2 text-primary" />Reviewer Assignments</h3>
+      <div className="grid sm:grid-cols-[1fr_auto_auto] gap-2 items-end">
+        <div>
+          <Label htmlFor="reviewer-select">Reviewer</Label>
+          <Select value={selectedReviewerId} onValueChange={handleSelectReviewer} disabled={isAssigning}>
+            <SelectTrigger id="reviewer-select">
+              <SelectValue placeholder={availableReviewers.length ? "Select a reviewer" : "No reviewers available"} />
+            </SelectTrigger>
+            <SelectContent>
+              {availableReviewers.map(r => (
+                <SelectItem key={r.id} value={r.id}>
+                  {r.displayName || r.email}{r.institution ? ` (${r.institution})` : ''}{conflictsByReviewer[r.id]?.length ? ' — conflict of interest' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="review-due-date">Due Date</Label>
+          <Input id="review-due-date" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} disabled={isAssigning} />
+        </div>
+        <Button
+          onClick={handleAssign}
+          disabled={isAssigning || !selectedReviewerId || (selectedConflicts.length > 0 && !overrideJustification.trim())}
+          variant={selectedConflicts.length > 0 ? "destructive" : "default"}
+        >
+          {isAssigning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+          {selectedConflicts.length > 0 ? "Override & Invite" : "Invite"}
+        </Button>
+      </div>
+
+      {selectedConflicts.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Conflict of Interest</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <ul className="list-disc list-inside">
+              {selectedConflicts.map((conflict, index) => (
+                <li key={index}><span className="font-medium">{CONFLICT_TYPE_LABELS[conflict.type]}:</span> {conflict.description}</li>
+              ))}
+            </ul>
+            <p>Assigning this reviewer requires a justification, which only admins can see.</p>
+            <Textarea
+              value={overrideJustification}
+              onChange={(e) => setOverrideJustification(e.target.value)}
+              placeholder="Why is this reviewer still appropriate?"
+              rows={2}
+              disabled={isAssigning}
+              className="bg-background text-foreground"
+            />
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-semibold text-sm flex items-center"><Sparkles className="h-4 w-4 mr-2 text-primary" />Suggested Reviewers</h4>
+        {suggestions.matches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No reviewer&apos;s expertise or review history matches this paper yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {suggestions.matches.map(match => (
+              <li key={match.reviewer.id} className="flex items-start justify-between gap-3 rounded-md bg-secondary/50 p-2">
+                <div className="text-sm">
+                  <span className="font-medium">{match.reviewer.displayName || match.reviewer.email}</span>
+                  {match.reviewer.institution && <span className="text-muted-foreground"> ({match.reviewer.institution})</span>}
+                  <Badge variant="outline" className="ml-2">{Math.round(match.score * 100)}% match</Badge>
+                  <p className="text-xs text-muted-foreground mt-1">{match.explanation}</p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => handleSelectReviewer(match.reviewer.id)} disabled={isAssigning || selectedReviewerId === match.reviewer.id}>
+                  {selectedReviewerId === match.reviewer.id ? "Selected" : "Select"}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        {suggestions.exclusions.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Excluded for conflicts of interest: {suggestions.exclusions.map(e => `${e.reviewer.displayName || e.reviewer.email} (${e.conflicts.map(c => CONFLICT_TYPE_LABELS[c.type]).join(', ')})`).join('; ')}
+          </p>
+        )}
+      </div>
+
+      {reviews.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No reviewers assigned yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reviewer</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Recommendation</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.map(review => (
+                <TableRow key={review.id}>
+                  <TableCell className="font-medium">
+                    {reviewerName(review.reviewerId)}
+                    {overridesByReview[review.id] && (
+                      <p className="text-xs text-destructive flex items-start mt-1 max-w-xs font-normal" title={overridesByReview[review.id].conflicts.map(c => c.description).join('\n')}>
+                        <ShieldAlert className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                        Conflict overridden: {overridesByReview[review.id].justification}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={getReviewStatusBadgeVariant(review.status)}>{review.status}</Badge>
+                    {review.status === 'Declined' && review.declineReason && (
+                      <p className="text-xs text-muted-foreground mt-1 max-w-xs">{review.declineReason}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>{review.dueDate ? new Date(review.dueDate).toLocaleDateString() : 'N/A'}</TableCell>
+                  <TableCell>{review.status === 'Submitted' ? review.recommendation : '—'}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(review)} disabled={review.status === 'Submitted'}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
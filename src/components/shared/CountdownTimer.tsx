@@ -9,9 +9,10 @@ interface CountdownTimerProps {
   onDeadline?: () => void;
   className?: string;
   prefixText?: string;
+  overdueText?: string;
 }
 
-const CountdownTimer: React.FC<CountdownTimerProps> = ({ targetDateISO, onDeadline, className, prefixText = "Time left: " }) => {
+const CountdownTimer: React.FC<CountdownTimerProps> = ({ targetDateISO, onDeadline, className, prefixText = "Time left: ", overdueText = "Payment deadline has passed." }) => {
   const calculateTimeLeft = (target: string | null | undefined) => {
     if (!target) {
       return { total: 0, days: 0, hours: 0, minutes: 0, seconds: 0, isOverdue: true, hasTarget: false };
@@ -65,7 +66,7 @@ const CountdownTimer: React.FC<CountdownTimerProps> = ({ targetDateISO, onDeadli
   }
 
   if (timeLeft.isOverdue) {
-    return <span className={cn(className, "text-destructive")}>Payment deadline has passed.</span>;
+    return <span className={cn(className, "text-destructive")}>{overdueText}</span>;
   }
   
   const format = (num: number) => num.toString().padStart(2, '0');
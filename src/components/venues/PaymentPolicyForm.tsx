@@ -0,0 +1,94 @@
+
+"use client";
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import type { OverduePaymentAction, PaymentPolicy } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { OVERDUE_PAYMENT_ACTION_LABELS } from '@/lib/payment-policy';
+
+const paymentPolicySchema = z.object({
+  gracePeriodHours: z.coerce.number().int("Use whole hours.").min(1, "The grace period must be at least 1 hour.").max(24 * 90, "The grace period cannot exceed 90 days."),
+  reminderHoursBeforeDue: z.string().refine(
+    val => val.split(',').map(s => s.trim()).filter(Boolean).every(s => /^\d+$/.test(s) && Number(s) > 0),
+    "Enter whole numbers of hours, separated by commas."
+  ),
+  overdueAction: z.enum(["auto-reject", "hold", "notify"]),
+});
+
+type PaymentPolicyFormValues = z.infer<typeof paymentPolicySchema>;
+
+interface PaymentPolicyFormProps {
+  policy: PaymentPolicy;
+  onSubmit: (policy: PaymentPolicy) => Promise<void>;
+}
+
+export default function PaymentPolicyForm({ policy, onSubmit }: PaymentPolicyFormProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<PaymentPolicyFormValues>({
+    resolver: zodResolver(paymentPolicySchema),
+    defaultValues: {
+      gracePeriodHours: policy.gracePeriodHours,
+      reminderHoursBeforeDue: policy.reminderHoursBeforeDue.join(", "),
+      overdueAction: policy.overdueAction,
+    },
+  });
+
+  const handleFormSubmit = async (data: PaymentPolicyFormValues) => {
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        gracePeriodHours: data.gracePeriodHours,
+        reminderHoursBeforeDue: Array.from(new Set(
+          data.reminderHoursBeforeDue.split(',').map(s => s.trim()).filter(Boolean).map(Number)
+        )).sort((a, b) => b - a),
+        overdueAction: data.overdueAction,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const errors = form.formState.errors;
+
+  return (
+    <form onSubmit={form.handleSubmit(handleFormSubmit)} className="grid gap-4 md:grid-cols-[10rem_1fr_1fr_auto] items-start">
+      <div>
+        <Label htmlFor="gracePeriodHours" className="text-xs">Grace Period (hours)</Label>
+        <Input id="gracePeriodHours" type="number" min="1" {...form.register("gracePeriodHours")} disabled={isSaving} className="mt-1" />
+        {errors.gracePeriodHours && <p className="text-sm text-destructive mt-1">{errors.gracePeriodHours.message}</p>}
+      </div>
+      <div>
+        <Label htmlFor="reminderHoursBeforeDue" className="text-xs">Reminders (hours before due, comma-separated)</Label>
+        <Input id="reminderHoursBeforeDue" placeholder="e.g. 24, 1" {...form.register("reminderHoursBeforeDue")} disabled={isSaving} className="mt-1" />
+        {errors.reminderHoursBeforeDue && <p className="text-sm text-destructive mt-1">{errors.reminderHoursBeforeDue.message}</p>}
+      </div>
+      <div>
+        <Label htmlFor="overdueAction" className="text-xs">When Payment Is Overdue</Label>
+        <Select
+          value={form.watch("overdueAction")}
+          onValueChange={(value) => form.setValue("overdueAction", value as OverduePaymentAction)}
+          disabled={isSaving}
+        >
+          <SelectTrigger id="overdueAction" className="mt-1"><SelectValue /></SelectTrigger>
+          <SelectContent>
+            {(Object.keys(OVERDUE_PAYMENT_ACTION_LABELS) as OverduePaymentAction[]).map(action => (
+              <SelectItem key={action} value={action}>{OVERDUE_PAYMENT_ACTION_LABELS[action]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Button type="submit" disabled={isSaving} className="md:mt-6">
+        {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,290 @@
+
+"use client";
+
+import { useState } from 'react';
+import { useForm, useFieldArray } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import type { ReviewMode, User, Venue, VenueCommitteeRole, VenueType } from '@/types';
+import type { VenueInput } from '@/lib/venue-service';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { REVIEW_MODES, REVIEW_MODE_LABELS } from '@/lib/anonymization';
+import { VENUE_COMMITTEE_ROLE_LABELS, VENUE_TYPE_LABELS } from '@/lib/venue-schedule';
+import { fromDateTimeLocalInput, toDateTimeLocalInput } from '@/lib/utils';
+
+const optionalDate = z.string().optional().or(z.literal(""));
+
+const venueSchema = z.object({
+  name: z.string().min(3, "Name must be at least 3 characters."),
+  acronym: z.string().optional(),
+  type: z.enum(["conference", "journal"]),
+  description: z.string().optional(),
+  reviewMode: z.enum(["single-blind", "double-blind", "open"]),
+  isActive: z.boolean(),
+  opensAt: optionalDate,
+  closesAt: optionalDate,
+  currency: z.string().regex(/^[A-Z]{3}$/, "Use a three-letter currency code, e.g. INR."),
+  feeSchedule: z.array(z.object({
+    label: z.string().min(1, "Label is required."),
+    amount: z.coerce.number().min(0, "Fee cannot be negative."),
+    until: optionalDate,
+  })).min(1, "Add at least one fee tier."),
+  tracks: z.array(z.object({
+    id: z.string(),
+    name: z.string().min(2, "Track name is required."),
+    description: z.string().optional(),
+    opensAt: optionalDate,
+    closesAt: optionalDate,
+  })),
+  committee: z.array(z.object({
+    userId: z.string().min(1),
+    name: z.string(),
+    role: z.enum(["chair", "editor", "member"]),
+  })),
+});
+
+type VenueFormValues = z.infer<typeof venueSchema>;
+
+interface VenueFormProps {
+  venue?: Venue | null;
+  users: User[]; // Candidates for the committee
+  onSubmit: (venue: VenueInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const newTrackId = () => Math.random().toString(36).slice(2, 10);
+
+export default function VenueForm({ venue, users, onSubmit, onCancel }: VenueFormProps) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [committeeUserId, setCommitteeUserId] = useState("");
+  const [committeeRole, setCommitteeRole] = useState<VenueCommitteeRole>("member");
+
+  const form = useForm<VenueFormValues>({
+    resolver: zodResolver(venueSchema),
+    defaultValues: {
+      name: venue?.name || "",
+      acronym: venue?.acronym || "",
+      type: venue?.type || "conference",
+      description: venue?.description || "",
+      reviewMode: venue?.reviewMode || "single-blind",
+      isActive: venue?.isActive ?? true,
+      opensAt: toDateTimeLocalInput(venue?.submissionWindow.opensAt),
+      closesAt: toDateTimeLocalInput(venue?.submissionWindow.closesAt),
+      currency: venue?.currency || "INR",
+      feeSchedule: venue?.feeSchedule.length
+        ? venue.feeSchedule.map(tier => ({ label: tier.label, amount: tier.amount, until: toDateTimeLocalInput(tier.until) }))
+        : [{ label: "Regular", amount: 499, until: "" }],
+      tracks: (venue?.tracks || []).map(track => ({
+        id: track.id,
+        name: track.name,
+        description: track.description || "",
+        opensAt: toDateTimeLocalInput(track.submissionWindow?.opensAt),
+        closesAt: toDateTimeLocalInput(track.submissionWindow?.closesAt),
+      })),
+      committee: venue?.committee || [],
+    },
+  });
+
+  const feeTiers = useFieldArray({ control: form.control, name: "feeSchedule" });
+  const tracks = useFieldArray({ control: form.control, name: "tracks" });
+  const committee = useFieldArray({ control: form.control, name: "committee" });
+  const venueType = form.watch("type");
+  const committeeCandidates = users.filter(u => !committee.fields.some(member => member.userId === u.id));
+
+  const handleAddCommitteeMember = () => {
+    const member = users.find(u => u.id === committeeUserId);
+    if (!member) return;
+    committee.append({ userId: member.id, name: member.displayName || member.email || member.id, role: committeeRole });
+    setCommitteeUserId("");
+  };
+
+  const handleFormSubmit = async (data: VenueFormValues) => {
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        name: data.name.trim(),
+        acronym: data.acronym?.trim() || null,
+        type: data.type,
+        description: data.description?.trim() || null,
+        reviewMode: data.reviewMode,
+        isActive: data.isActive,
+        submissionWindow: { opensAt: fromDateTimeLocalInput(data.opensAt), closesAt: fromDateTimeLocalInput(data.closesAt) },
+        currency: data.currency,
+        feeSchedule: data.feeSchedule.map(tier => ({ label: tier.label.trim(), amount: tier.amount, until: fromDateTimeLocalInput(tier.until) })),
+        tracks: data.tracks.map(track => ({
+          id: track.id,
+          name: track.name.trim(),
+          description: track.description?.trim() || null,
+          submissionWindow: track.opensAt || track.closesAt
+            ? { opensAt: fromDateTimeLocalInput(track.opensAt), closesAt: fromDateTimeLocalInput(track.closesAt) }
+            : null,
+        })),
+        committee: data.committee,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const errors = form.formState.errors;
+
+  return (
+    <form onSubmit={form.handleSubmit(handleFormSubmit)} className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="venue-name">Name</Label>
+          <Input id="venue-name" {...form.register("name")} disabled={isSaving} className="mt-1" />
+          {errors.name && <p className="text-sm text-destructive mt-1">{errors.name.message}</p>}
+        </div>
+        <div>
+          <Label htmlFor="venue-acronym">Acronym (optional)</Label>
+          <Input id="venue-acronym" placeholder="e.g. ICAI 2026" {...form.register("acronym")} disabled={isSaving} className="mt-1" />
+        </div>
+        <div>
+          <Label htmlFor="venue-type">Type</Label>
+          <Select value={venueType} onValueChange={(value) => form.setValue("type", value as VenueType)} disabled={isSaving}>
+            <SelectTrigger id="venue-type" className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VENUE_TYPE_LABELS) as VenueType[]).map(type => (
+                <SelectItem key={type} value={type}>{VENUE_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="venue-review-mode">Review Mode</Label>
+          <Select value={form.watch("reviewMode")} onValueChange={(value) => form.setValue("reviewMode", value as ReviewMode)} disabled={isSaving}>
+            <SelectTrigger id="venue-review-mode" className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {REVIEW_MODES.map(mode => <SelectItem key={mode} value={mode}>{REVIEW_MODE_LABELS[mode]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="venue-description">Description (optional)</Label>
+        <Textarea id="venue-description" rows={3} {...form.register("description")} disabled={isSaving} className="mt-1" />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch id="venue-active" checked={form.watch("isActive")} onCheckedChange={(checked) => form.setValue("isActive", checked)} disabled={isSaving} />
+        <Label htmlFor="venue-active" className="font-normal">Accepting submissions while the window is open</Label>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <div>
+          <Label htmlFor="venue-opens">Submissions Open (optional)</Label>
+          <Input id="venue-opens" type="datetime-local" {...form.register("opensAt")} disabled={isSaving} className="mt-1" />
+        </div>
+        <div>
+          <Label htmlFor="venue-closes">Submissions Close (optional)</Label>
+          <Input id="venue-closes" type="datetime-local" {...form.register("closesAt")} disabled={isSaving} className="mt-1" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Fee Schedule</Label>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="venue-currency" className="text-xs text-muted-foreground">Currency</Label>
+            <Input id="venue-currency" {...form.register("currency")} disabled={isSaving} className="h-8 w-20 uppercase" />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">The first tier whose deadline has not passed applies. Leave the last tier without a deadline.</p>
+        {feeTiers.fields.map((field, index) => (
+          <div key={field.id} className="grid grid-cols-[1fr_8rem_1fr_auto] gap-2 items-start">
+            <Input placeholder="Label, e.g. Early" {...form.register(`feeSchedule.${index}.label` as const)} disabled={isSaving} />
+            <Input type="number" step="0.01" min="0" {...form.register(`feeSchedule.${index}.amount` as const)} disabled={isSaving} />
+            <Input type="datetime-local" title="Applies until" {...form.register(`feeSchedule.${index}.until` as const)} disabled={isSaving} />
+            <Button type="button" variant="ghost" size="icon" onClick={() => feeTiers.remove(index)} disabled={isSaving || feeTiers.fields.length === 1}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        {errors.currency && <p className="text-sm text-destructive">{errors.currency.message}</p>}
+        {errors.feeSchedule && <p className="text-sm text-destructive">{errors.feeSchedule.message || "Check the fee tiers."}</p>}
+        <Button type="button" variant="outline" size="sm" onClick={() => feeTiers.append({ label: "", amount: 0, until: "" })} disabled={isSaving}>
+          <Plus className="mr-2 h-4 w-4" /> Add Fee Tier
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>{venueType === "journal" ? "Special Issues" : "Tracks"}</Label>
+        <p className="text-xs text-muted-foreground">
+          Optional. When present, authors must pick one; a track&apos;s own dates narrow the venue&apos;s submission window.
+        </p>
+        {tracks.fields.map((field, index) => (
+          <div key={field.id} className="rounded-md border p-3 space-y-2">
+            <div className="flex gap-2">
+              <Input placeholder="Name" {...form.register(`tracks.${index}.name` as const)} disabled={isSaving} />
+              <Button type="button" variant="ghost" size="icon" onClick={() => tracks.remove(index)} disabled={isSaving}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {errors.tracks?.[index]?.name && <p className="text-sm text-destructive">{errors.tracks[index]?.name?.message}</p>}
+            <Input placeholder="Description (optional)" {...form.register(`tracks.${index}.description` as const)} disabled={isSaving} />
+            <div className="grid gap-2 md:grid-cols-2">
+              <Input type="datetime-local" title="Opens" {...form.register(`tracks.${index}.opensAt` as const)} disabled={isSaving} />
+              <Input type="datetime-local" title="Closes" {...form.register(`tracks.${index}.closesAt` as const)} disabled={isSaving} />
+            </div>
+          </div>
+        ))}
+        <Button type="button" variant="outline" size="sm" onClick={() => tracks.append({ id: newTrackId(), name: "", description: "", opensAt: "", closesAt: "" })} disabled={isSaving}>
+          <Plus className="mr-2 h-4 w-4" /> {venueType === "journal" ? "Add Special Issue" : "Add Track"}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Committee</Label>
+        {committee.fields.length > 0 && (
+          <ul className="space-y-1">
+            {committee.fields.map((member, index) => (
+              <li key={member.id} className="flex items-center justify-between text-sm rounded-md border px-3 py-1">
+                <span>{member.name} <span className="text-muted-foreground">· {VENUE_COMMITTEE_ROLE_LABELS[member.role]}</span></span>
+                <Button type="button" variant="ghost" size="icon" onClick={() => committee.remove(index)} disabled={isSaving}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex flex-col md:flex-row gap-2">
+          <Select value={committeeUserId} onValueChange={setCommitteeUserId} disabled={isSaving}>
+            <SelectTrigger className="md:flex-1"><SelectValue placeholder="Select a user" /></SelectTrigger>
+            <SelectContent>
+              {committeeCandidates.map(u => (
+                <SelectItem key={u.id} value={u.id}>{u.displayName || u.email}{u.role ? ` (${u.role})` : ''}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={committeeRole} onValueChange={(value) => setCommitteeRole(value as VenueCommitteeRole)} disabled={isSaving}>
+            <SelectTrigger className="md:w-48"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(Object.keys(VENUE_COMMITTEE_ROLE_LABELS) as VenueCommitteeRole[]).map(role => (
+                <SelectItem key={role} value={role}>{VENUE_COMMITTEE_ROLE_LABELS[role]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="button" variant="outline" onClick={handleAddCommitteeMember} disabled={isSaving || !committeeUserId}>
+            <Plus className="mr-2 h-4 w-4" /> Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {venue ? "Save Venue" : "Create Venue"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -33,6 +33,7 @@ import {
   Timestamp,
 } from 'firebase/firestore';
 import { toast } from '@/hooks/use-toast';
+import { isPhoneNumberTaken, isUsernameTaken } from '@/lib/user-service';
 import type { SignupFormValues } from '@/components/auth/SignupForm';
 
 const MOCK_ADMIN_EMAIL = 'admin@example.com';
@@ -47,7 +48,8 @@ interface AuthContextType {
   loginWithGoogle: () => Promise<void>;
   loginWithGitHub: () => Promise<void>;
   sendPasswordResetEmail: (email: string) => Promise<void>;
-  updateUserProfile: (updatedData: Partial<Omit<User, 'id' | 'email' | 'isAdmin' | 'photoURL' | 'createdAt' | 'updatedAt'>>) => Promise<User | null >;
+  updateUserProfile: (updatedData: Partial<Omit<User, 'id' | 'email' | 'isAdmin' | 'photoURL' | 'subscription' | 'institutionId' | 'createdAt' | 'updatedAt'>>) => Promise<User | null >;
+  refreshUser: () => Promise<void>; // Reloads the profile after the server changes it, e.g. the subscription quota
   showLoginModal: boolean;
   setShowLoginModal: Dispatch<SetStateAction<boolean>>;
   isAdmin: boolean;
@@ -80,6 +82,12 @@ const fetchUserProfileFromFirestore = async (uid: string): Promise<User | null>
         phoneNumber: docData.phoneNumber || null,
         institution: docData.institution || null,
         researcherId: docData.researcherId || null,
+        expertiseKeywords: docData.expertiseKeywords || [],
+        declaredConflicts: docData.declaredConflicts || [],
+        gstin: docData.gstin || null,
+        subscription: docData.subscription || null,
+        institutionId: docData.institutionId || null,
+        notificationPreferences: docData.notificationPreferences || null,
         isAdmin: determinedIsAdmin,
         createdAt: docData.createdAt instanceof Timestamp ? docData.createdAt.toDate().toISOString() : docData.createdAt,
         updatedAt: docData.updatedAt instanceof Timestamp ? docData.updatedAt.toDate().toISOString() : docData.updatedAt,
@@ -350,11 +358,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     setLoading(true);
     setActiveSocialLoginProvider(null);
 
-    const usersRef = collection(firestoreDb, "users");
     if (data.username) {
-      const qUsername = query(usersRef, where("username", "==", data.username));
-      const usernameSnap = await getDocs(qUsername);
-      if (!usernameSnap.empty) {
+      if (await isUsernameTaken(data.username)) {
         setLoading(false);
         const errorMsg = "Username is already taken. Please choose another one.";
         toast({ variant: "destructive", title: "Signup Failed", description: errorMsg });
@@ -362,9 +367,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       }
     }
     if (data.phoneNumber) {
-        const qPhone = query(usersRef, where("phoneNumber", "==", data.phoneNumber));
-        const phoneSnap = await getDocs(qPhone);
-        if (!phoneSnap.empty) {
+        if (await isPhoneNumberTaken(data.phoneNumber)) {
             setLoading(false);
             const errorMsg = "Phone number already in use. Please use a different one.";
             toast({ variant: "destructive", title: "Signup Failed", description: errorMsg });
@@ -481,7 +484,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     await firebaseSendPasswordResetEmail(firebaseAuth, emailAddress);
   };
 
- const updateUserProfile = async (updatedData: Partial<Omit<User, 'id' | 'email' | 'isAdmin' | 'photoURL' | 'createdAt' | 'updatedAt'>>): Promise<User | null > => {
+ const updateUserProfile = async (updatedData: Partial<Omit<User, 'id' | 'email' | 'isAdmin' | 'photoURL' | 'subscription' | 'institutionId' | 'createdAt' | 'updatedAt'>>): Promise<User | null > => {
     if (!user || !firebaseAuth?.currentUser || !firestoreDb) {
       toast({ variant: "destructive", title: "Error", description: "User not logged in or database service unavailable."});
       throw new Error("User not logged in or database service unavailable. Cannot update profile.");
@@ -490,22 +493,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
     try {
       const userDocRef = doc(firestoreDb, "users", user.id);
-      const usersRef = collection(firestoreDb, "users");
 
       if (updatedData.username && updatedData.username !== user.username) {
-        const qUsername = query(usersRef, where("username", "==", updatedData.username));
-        const usernameSnap = await getDocs(qUsername);
-        const conflictingUser = usernameSnap.docs.find(docSnap => docSnap.id !== user.id);
-        if (conflictingUser) {
+        if (await isUsernameTaken(updatedData.username)) {
           setLoading(false);
           throw new Error("Username already taken. Please choose another one.");
         }
       }
       if (updatedData.phoneNumber && updatedData.phoneNumber.trim() !== "" && updatedData.phoneNumber !== user.phoneNumber) {
-        const qPhone = query(usersRef, where("phoneNumber", "==", updatedData.phoneNumber));
-        const phoneSnap = await getDocs(qPhone);
-        const conflictingUser = phoneSnap.docs.find(docSnap => docSnap.id !== user.id);
-        if (conflictingUser) {
+        if (await isPhoneNumberTaken(updatedData.phoneNumber)) {
             setLoading(false);
             throw new Error("Phone number already in use. Please use a different one.");
         }
@@ -562,12 +558,19 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const refreshUser = async () => {
+    if (!user) return;
+    const refreshedUser = await fetchUserProfileFromFirestore(user.id);
+    if (refreshedUser) {
+      setUser(refreshedUser);
+    }
+  };
 
   return (
     <AuthContext.Provider value={{
         user, loading, login, signup, logout,
         loginWithGoogle, loginWithGitHub,
-        sendPasswordResetEmail, updateUserProfile,
+        sendPasswordResetEmail, updateUserProfile, refreshUser,
         showLoginModal, setShowLoginModal, isAdmin: isAdminUser,
         isSocialLoginInProgress,
     }}>
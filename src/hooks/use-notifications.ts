@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import type { UserNotification } from '@/types';
+import { subscribeToNotifications } from '@/lib/notification-service';
+import { useAuth } from '@/hooks/use-auth';
+
+// The signed-in user's notifications, kept up to date by a Firestore listener.
+export const useNotifications = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    return subscribeToNotifications(
+      userId,
+      current => {
+        setNotifications(current);
+        setIsLoading(false);
+      },
+      err => {
+        setError(err.message || "Failed to load notifications.");
+        setIsLoading(false);
+      },
+    );
+  }, [userId]);
+
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  return { notifications, unreadCount, isLoading, error };
+};
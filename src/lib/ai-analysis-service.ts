@@ -0,0 +1,69 @@
+"use client";
+
+import {
+  collection,
+  addDoc,
+  getDoc,
+  getDocs,
+  doc,
+  query,
+  orderBy,
+  Timestamp,
+  serverTimestamp,
+} from "firebase/firestore";
+import { auth, db as firestoreDb } from "@/lib/firebase";
+import type { AiAnalysisRun, Paper } from '@/types';
+import { setOfficialAnalysisRun } from "@/lib/paper-actions";
+
+export const AI_ANALYSIS_FLOW_LABELS: Record<AiAnalysisRun['flow'], string> = {
+  plagiarism: "Plagiarism",
+  acceptance: "Acceptance Probability",
+};
+
+const convertRunTimestamps = (runData: any): AiAnalysisRun => ({
+  ...runData,
+  createdAt: runData.createdAt instanceof Timestamp ? runData.createdAt.toDate().toISOString() : (runData.createdAt || null),
+});
+
+// Identifies the exact text a run analysed without storing the manuscript again.
+export const hashAnalysisInput = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+export const recordAiAnalysisRun = async (run: Omit<AiAnalysisRun, 'id' | 'createdAt'>): Promise<AiAnalysisRun> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  const docRef = await addDoc(collection(firestoreDb, "papers", run.paperId, "aiRuns"), {
+    ...run,
+    createdAt: serverTimestamp(),
+  });
+  const snap = await getDoc(docRef);
+  return convertRunTimestamps({ id: docRef.id, ...snap.data() });
+};
+
+export const getAiAnalysisRuns = async (paperId: string): Promise<AiAnalysisRun[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const q = query(collection(firestoreDb, "papers", paperId, "aiRuns"), orderBy("createdAt", "asc"));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => convertRunTimestamps({ id: docSnap.id, ...docSnap.data() }));
+  } catch (error) {
+    console.error("AI Analysis Service (getAiAnalysisRuns): Error fetching runs:", error);
+    throw error;
+  }
+};
+
+/**
+ * Makes the run the paper's official result for its flow. The server copies the run's score and report onto
+ * the paper fields that the rest of the app reads (plagiarismScore, acceptanceProbability, ...).
+ */
+export const setOfficialAiAnalysisRun = async (paper: Pick<Paper, 'id'>, run: Pick<AiAnalysisRun, 'id'>): Promise<Partial<Paper>> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot set the official result.");
+  }
+  return setOfficialAnalysisRun(await auth.currentUser.getIdToken(), paper.id, run.id);
+};
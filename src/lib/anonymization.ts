@@ -0,0 +1,87 @@
+
+import type { Paper, PaperVersion, ReviewMode, User } from '@/types';
+
+export const REVIEW_MODES: ReviewMode[] = ["single-blind", "double-blind", "open"];
+
+export const REVIEW_MODE_LABELS: Record<ReviewMode, string> = {
+  "single-blind": "Single-blind (reviewers see authors)",
+  "double-blind": "Double-blind (authors and reviewers anonymous)",
+  "open": "Open (identities visible to both sides)",
+};
+
+// Used for papers submitted before venues existed; new papers take the review mode of their venue.
+export const DEFAULT_REVIEW_MODE: ReviewMode =
+  REVIEW_MODES.find(mode => mode === process.env.NEXT_PUBLIC_DEFAULT_REVIEW_MODE) || "single-blind";
+
+export const ANONYMIZED_AUTHORS_LABEL = "Hidden for double-blind review";
+const REDACTION = "[redacted]";
+
+export const getPaperReviewMode = (paper: Pick<Paper, 'reviewMode'>): ReviewMode =>
+  paper.reviewMode || DEFAULT_REVIEW_MODE;
+
+// Authors, admins and readers of published papers always see the real metadata.
+export const isAuthorIdentityHidden = (paper: Paper, viewer: Pick<User, 'id' | 'isAdmin'> | null): boolean => {
+  if (getPaperReviewMode(paper) !== "double-blind" || paper.status === "Published") return false;
+  if (!viewer) return true;
+  return !viewer.isAdmin && viewer.id !== paper.userId;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termPattern = (term: string) => new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i');
+
+// Full names plus surnames: surnames alone are enough to give an author away in a file name like "smith_final.pdf".
+const identityTerms = (names: string[]): string[] => {
+  const terms = new Set<string>();
+  names.map(name => name.trim()).filter(Boolean).forEach(name => {
+    terms.add(name);
+    const parts = name.split(/\s+/);
+    const surname = parts[parts.length - 1];
+    if (parts.length > 1 && surname.length >= 3) terms.add(surname);
+  });
+  return Array.from(terms);
+};
+
+/**
+ * Returns the author names / institution found in the given text. The file name is matched with
+ * separators ("_", "-", ".") treated as spaces.
+ */
+export const findSelfIdentifyingTerms = (text: string, names: string[], institution?: string | null): string[] => {
+  const normalized = text.replace(/[_\-.]+/g, ' ');
+  const terms = identityTerms(names);
+  if (institution?.trim()) terms.push(institution.trim());
+  return terms.filter(term => termPattern(term).test(normalized));
+};
+
+// Only full names are redacted; surnames alone are too likely to be ordinary words in running text.
+const redactNames = (text: string, names: string[]): string =>
+  names.map(name => name.trim()).filter(Boolean).reduce(
+    (result, name) => result.replace(new RegExp(`\\b${escapeRegExp(name)}\\b`, 'gi'), REDACTION),
+    text
+  );
+
+/**
+ * Copy of the paper that is safe to show to a reviewer under double-blind review: author list,
+ * submitter ID, original file name and extracted full text (which carries the author block) are
+ * stripped, and author names are redacted from the title and abstract. Reviewers cannot read the paper document itself;
+ * they receive this copy from the server (see reviewer-access.ts).
+ */
+export const anonymizePaperForReviewer = (paper: Paper): Paper => ({
+  ...paper,
+  userId: "",
+  authors: [],
+  fileName: undefined,
+  title: redactNames(paper.title, paper.authors),
+  abstract: redactNames(paper.abstract, paper.authors),
+  extractedContent: null,
+});
+
+export const anonymizeVersionForReviewer = (version: PaperVersion, authors: string[]): PaperVersion => ({
+  ...version,
+  fileName: null,
+  authors: [],
+  createdBy: "",
+  title: redactNames(version.title, authors),
+  abstract: redactNames(version.abstract, authors),
+  responseToReviewers: version.responseToReviewers ? redactNames(version.responseToReviewers, authors) : null,
+});
@@ -0,0 +1,53 @@
+
+import { FieldValue, type Transaction, type WriteBatch } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { toAuditValues, type AuditEventInput } from "@/lib/audit";
+
+/**
+ * Writer for the append-only audit log, which only the server writes (see audit-service.ts for reading
+ * it). A change and its entry are committed together: the caller resolves the actor before its
+ * transaction or batch and adds the entry with addAuditEvent, so neither is saved without the other.
+ * writeAuditEvent is for what cannot share a write with its entry, such as a refund the gateway has
+ * already made or a job run that spans many documents; it records after the fact and never throws.
+ */
+
+export interface AuditActor {
+  id: string | null; // Null for scheduled jobs
+  name?: string | null; // Looked up from the user's profile when missing
+}
+
+export interface ResolvedAuditActor {
+  id: string | null;
+  name: string | null;
+  email: string | null;
+}
+
+export const resolveAuditActor = async (actor: AuditActor): Promise<ResolvedAuditActor> => {
+  const profile = actor.id ? (await getAdminDb().collection("users").doc(actor.id).get()).data() : null;
+  return { id: actor.id, name: actor.name || profile?.displayName || null, email: profile?.email || null };
+};
+
+const toAuditEntry = (actor: ResolvedAuditActor, event: AuditEventInput) => ({
+  action: event.action,
+  actorId: actor.id,
+  actorName: actor.name,
+  actorEmail: actor.email,
+  targetType: event.targetType,
+  targetId: event.targetId,
+  targetLabel: event.targetLabel || null,
+  before: toAuditValues(event.before),
+  after: toAuditValues(event.after),
+  createdAt: FieldValue.serverTimestamp(),
+});
+
+export const addAuditEvent = (writer: Transaction | WriteBatch, actor: ResolvedAuditActor, event: AuditEventInput): void => {
+  writer.create(getAdminDb().collection("auditLog").doc(), toAuditEntry(actor, event));
+};
+
+export const writeAuditEvent = async (actor: AuditActor, event: AuditEventInput): Promise<void> => {
+  try {
+    await getAdminDb().collection("auditLog").add(toAuditEntry(await resolveAuditActor(actor), event));
+  } catch (error) {
+    console.error(`Audit Log (writeAuditEvent): Could not record "${event.action}" for ${event.targetType} ${event.targetId}:`, error);
+  }
+};
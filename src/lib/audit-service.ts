@@ -0,0 +1,49 @@
+"use client";
+
+import { collection, getDocs, limit, orderBy, query, startAfter, Timestamp, where, type QueryConstraint, type QueryDocumentSnapshot } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { AuditEntry } from '@/types';
+
+// The audit log is append-only and written only by the server, in the same transaction or batch as the
+// change each entry records (see audit-log.ts). Only admins read it, and nobody edits or deletes entries.
+
+const AUDIT_LOG_PAGE_SIZE = 500;
+
+export interface AuditLogRange {
+  from?: Date | null; // Inclusive
+  to?: Date | null; // Exclusive
+}
+
+export interface AuditLogPage {
+  entries: AuditEntry[];
+  nextCursor: QueryDocumentSnapshot | null; // Null once the oldest entry in the range has been loaded
+}
+
+const convertEntryTimestamps = (entryData: any): AuditEntry => ({
+  ...entryData,
+  createdAt: entryData.createdAt instanceof Timestamp ? entryData.createdAt.toDate().toISOString() : (entryData.createdAt || null),
+});
+
+// Newest first, a page at a time. Only the date range is applied in the query, as it needs no composite
+// index; the admin page filters the loaded entries by action, target and search text.
+export const getAuditLogPage = async (range: AuditLogRange = {}, after?: QueryDocumentSnapshot | null): Promise<AuditLogPage> => {
+  if (!firestoreDb) {
+    return { entries: [], nextCursor: null };
+  }
+  const constraints: QueryConstraint[] = [];
+  if (range.from) constraints.push(where("createdAt", ">=", Timestamp.fromDate(range.from)));
+  if (range.to) constraints.push(where("createdAt", "<", Timestamp.fromDate(range.to)));
+  constraints.push(orderBy("createdAt", "desc"));
+  if (after) constraints.push(startAfter(after));
+  constraints.push(limit(AUDIT_LOG_PAGE_SIZE));
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "auditLog"), ...constraints));
+    return {
+      entries: querySnapshot.docs.map(docSnap => convertEntryTimestamps({ id: docSnap.id, ...docSnap.data() })),
+      nextCursor: querySnapshot.docs.length === AUDIT_LOG_PAGE_SIZE ? querySnapshot.docs[querySnapshot.docs.length - 1] : null,
+    };
+  } catch (error) {
+    console.error("Audit Service (getAuditLogPage): Error fetching the audit log:", error);
+    throw error;
+  }
+};
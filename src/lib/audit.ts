@@ -0,0 +1,120 @@
+
+import type { AuditAction, AuditEntry, AuditTargetType } from '@/types';
+import { toCsv } from '@/lib/utils';
+
+export interface AuditEventInput {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "user.admin-status": "Admin rights changed",
+  "paper.status": "Paper status changed",
+  "paper.update": "Paper edited",
+  "paper.official-analysis": "Official analysis result set",
+  "review.assign": "Reviewer assigned",
+  "review.remove": "Reviewer removed",
+  "venue.create": "Venue created",
+  "venue.update": "Venue updated",
+  "discount-code.create": "Discount code created",
+  "discount-code.update": "Discount code updated",
+  "fee-waiver.decide": "Fee waiver decided",
+  "subscription.decide": "Subscription decided",
+  "payment.refund": "Payment refunded",
+  "institution.save": "Institution saved",
+  "institution.invite": "Institution member invited",
+  "institution.revoke-invite": "Institution invite revoked",
+  "institution.remove-member": "Institution member removed",
+  "institution.invoice": "Institution invoiced",
+  "institution.invoice-paid": "Institution invoice paid",
+  "job.payment-enforcement": "Payment enforcement run",
+  "email.deliver": "Email outbox processed",
+  "email.retry": "Email retried",
+};
+
+export const AUDIT_TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  user: "User",
+  paper: "Paper",
+  review: "Review",
+  venue: "Venue",
+  discountCode: "Discount code",
+  feeWaiver: "Fee waiver",
+  subscriptionRequest: "Subscription request",
+  payment: "Payment",
+  institution: "Institution",
+  institutionInvoice: "Institution invoice",
+  job: "Job",
+  email: "Email",
+};
+
+const MAX_STRING_LENGTH = 500; // Long values, such as extracted paper text, are cut to keep entries small
+
+/**
+ * Turns a value into something Firestore can store and a person can read: dates and timestamps
+ * become ISO strings, undefined becomes null, and long strings are truncated.
+ */
+export const toAuditValue = (value: unknown): unknown => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)` : value;
+  }
+  if (Array.isArray(value)) return value.map(toAuditValue);
+  if (typeof value === "object") {
+    const withToDate = value as { toDate?: () => Date };
+    if (typeof withToDate.toDate === "function") return withToDate.toDate().toISOString();
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, entry]) => [key, toAuditValue(entry)]));
+  }
+  return value;
+};
+
+export const toAuditValues = (values: Record<string, unknown> | null | undefined): Record<string, unknown> | null =>
+  values ? (toAuditValue(values) as Record<string, unknown>) : null;
+
+// The previous values of the fields an update is about to change.
+export const pickAuditFields = (current: Record<string, unknown> | null | undefined, changes: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(Object.keys(changes).map(key => [key, current?.[key] ?? null]));
+
+export const formatAuditValues = (values: Record<string, unknown> | null | undefined): string =>
+  values ? Object.entries(values).map(([key, value]) => `${key}: ${typeof value === "string" ? value : JSON.stringify(value)}`).join("; ") : "";
+
+export const formatAuditActor = (entry: Pick<AuditEntry, 'actorId' | 'actorName' | 'actorEmail'>): string =>
+  entry.actorId ? entry.actorName || entry.actorEmail || entry.actorId : entry.actorName || "System";
+
+// Case-insensitive match on who did it, what it was done to and the recorded values.
+export const matchesAuditSearch = (entry: AuditEntry, search: string): boolean => {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return [
+    formatAuditActor(entry),
+    entry.actorEmail,
+    entry.targetId,
+    entry.targetLabel,
+    AUDIT_ACTION_LABELS[entry.action],
+    formatAuditValues(entry.before),
+    formatAuditValues(entry.after),
+  ].some(field => field?.toLowerCase().includes(needle));
+};
+
+const AUDIT_CSV_HEADER = ["Time", "Actor", "Actor Email", "Actor ID", "Action", "Target Type", "Target ID", "Target", "Before", "After"];
+
+export const buildAuditLogCsv = (entries: AuditEntry[]): string =>
+  toCsv([
+    AUDIT_CSV_HEADER,
+    ...entries.map(entry => [
+      entry.createdAt,
+      formatAuditActor(entry),
+      entry.actorEmail,
+      entry.actorId,
+      AUDIT_ACTION_LABELS[entry.action] || entry.action,
+      AUDIT_TARGET_TYPE_LABELS[entry.targetType] || entry.targetType,
+      entry.targetId,
+      entry.targetLabel,
+      entry.before ? JSON.stringify(entry.before) : "",
+      entry.after ? JSON.stringify(entry.after) : "",
+    ]),
+  ]);
@@ -0,0 +1,88 @@
+
+import type { AuthorDeclaredConflict, ConflictOfInterest, ConflictOfInterestType, Paper, User } from '@/types';
+
+export const CONFLICT_TYPE_LABELS: Record<ConflictOfInterestType, string> = {
+  "listed-author": "Author of the paper",
+  "same-institution": "Same institution",
+  "prior-coauthor": "Prior co-author",
+  "declared-by-author": "Declared by the authors",
+  "declared-by-reviewer": "Declared by the reviewer",
+};
+
+// Platform data the checks look at besides the paper and the reviewer.
+export interface ConflictContext {
+  users: User[]; // Used to find the profiles (and institutions) behind the paper's author names
+  papers: Paper[]; // Earlier papers, for co-authorship
+  declaredConflicts: AuthorDeclaredConflict[]; // The authors' declarations for this paper, from conflictDeclarations
+}
+
+export class ConflictOfInterestError extends Error {
+  readonly conflicts: ConflictOfInterest[];
+
+  constructor(conflicts: ConflictOfInterest[]) {
+    super(`Conflict of interest: ${conflicts.map(c => c.description).join("; ")}. An override justification is required.`);
+    this.name = "ConflictOfInterestError";
+    this.conflicts = conflicts;
+  }
+}
+
+const normalize = (value: string | null | undefined) => (value || "").trim().replace(/\s+/g, " ").toLowerCase();
+
+// Profiles of the submitter and of any registered user whose name matches a listed author.
+const findAuthorProfiles = (paper: Paper, users: User[]): User[] => {
+  const authorNames = new Set(paper.authors.map(normalize));
+  return users.filter(user => user.id === paper.userId || (user.displayName && authorNames.has(normalize(user.displayName))));
+};
+
+export const detectConflicts = (paper: Paper, reviewer: User, context: ConflictContext): ConflictOfInterest[] => {
+  const conflicts: ConflictOfInterest[] = [];
+  const reviewerName = normalize(reviewer.displayName);
+  const paperAuthors = paper.authors.filter(author => normalize(author));
+
+  if (reviewer.id === paper.userId) {
+    conflicts.push({ type: "listed-author", description: "Submitted this paper" });
+  } else if (reviewerName && paperAuthors.some(author => normalize(author) === reviewerName)) {
+    conflicts.push({ type: "listed-author", description: "Listed as an author of this paper" });
+  }
+
+  const reviewerInstitution = normalize(reviewer.institution);
+  if (reviewerInstitution) {
+    findAuthorProfiles(paper, context.users)
+      .filter(author => author.id !== reviewer.id && normalize(author.institution) === reviewerInstitution)
+      .forEach(author => conflicts.push({
+        type: "same-institution",
+        description: `Same institution as ${author.displayName || "the submitting author"} (${reviewer.institution})`,
+      }));
+  }
+
+  if (reviewerName) {
+    const coauthors = new Map<string, string>(); // Author name -> title of a paper shared with the reviewer
+    context.papers
+      .filter(other => other.id !== paper.id)
+      .filter(other => other.userId === reviewer.id || other.authors.some(author => normalize(author) === reviewerName))
+      .forEach(other => {
+        const otherAuthors = new Set(other.authors.map(normalize));
+        paperAuthors
+          .filter(author => normalize(author) !== reviewerName && otherAuthors.has(normalize(author)))
+          .forEach(author => {
+            if (!coauthors.has(author)) coauthors.set(author, other.title);
+          });
+      });
+    coauthors.forEach((title, author) => conflicts.push({ type: "prior-coauthor", description: `Co-authored "${title}" with ${author}` }));
+  }
+
+  const authorDeclared = context.declaredConflicts.find(conflict => conflict.reviewerId === reviewer.id);
+  if (authorDeclared) {
+    conflicts.push({
+      type: "declared-by-author",
+      description: authorDeclared.reason ? `Declared by the authors: ${authorDeclared.reason}` : "Declared by the authors at submission",
+    });
+  }
+
+  const reviewerDeclared = new Set((reviewer.declaredConflicts || []).map(normalize).filter(Boolean));
+  paperAuthors
+    .filter(author => reviewerDeclared.has(normalize(author)))
+    .forEach(author => conflicts.push({ type: "declared-by-reviewer", description: `Reviewer declared a conflict with ${author}` }));
+
+  return conflicts;
+};
@@ -0,0 +1,91 @@
+"use client";
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  Timestamp,
+} from "firebase/firestore";
+import { auth, db as firestoreDb } from "@/lib/firebase";
+import type { DiscountCode, FeeWaiverRequest } from '@/types';
+import type { DiscountCodeInput } from "@/lib/fee-adjustments";
+import { createDiscountCode as createDiscountCodeAction, updateDiscountCode as updateDiscountCodeAction } from "@/lib/payment-actions";
+
+// Admins manage discount codes here; the codes, redemptions and fee waiver decisions are written by the server (see fee-adjustments.ts).
+
+export type { DiscountCodeInput };
+
+const convertDiscountCodeTimestamps = (codeData: any): DiscountCode => {
+  const convert = (timestamp: any) => timestamp instanceof Timestamp ? timestamp.toDate().toISOString() : (timestamp || null);
+  return {
+    ...codeData,
+    redemptionCount: codeData.redemptionCount || 0,
+    createdAt: convert(codeData.createdAt),
+    updatedAt: convert(codeData.updatedAt),
+  } as DiscountCode;
+};
+
+export const getDiscountCodes = async (): Promise<DiscountCode[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "discountCodes"), orderBy("createdAt", "desc")));
+    return querySnapshot.docs.map(docSnap => convertDiscountCodeTimestamps({ id: docSnap.id, ...docSnap.data() }));
+  } catch (error) {
+    console.error("Discount Service (getDiscountCodes): Error fetching discount codes:", error);
+    throw error;
+  }
+};
+
+// Codes are written on the server, together with their audit log entries.
+export const createDiscountCode = async (code: string, input: DiscountCodeInput): Promise<DiscountCode> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot create the discount code.");
+  }
+  const codeId = await createDiscountCodeAction(await auth.currentUser.getIdToken(), code, input);
+  const snap = await getDoc(doc(firestoreDb, "discountCodes", codeId));
+  return convertDiscountCodeTimestamps({ id: codeId, ...snap.data() });
+};
+
+export const updateDiscountCode = async (codeId: string, input: Partial<DiscountCodeInput>): Promise<DiscountCode> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot update the discount code.");
+  }
+  await updateDiscountCodeAction(await auth.currentUser.getIdToken(), codeId, input);
+  const snap = await getDoc(doc(firestoreDb, "discountCodes", codeId));
+  if (!snap.exists()) {
+    throw new Error("Discount code not found.");
+  }
+  return convertDiscountCodeTimestamps({ id: snap.id, ...snap.data() });
+};
+
+export const getFeeWaiverRequests = async (): Promise<FeeWaiverRequest[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "feeWaivers"), orderBy("requestedAt", "desc")));
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as FeeWaiverRequest);
+  } catch (error) {
+    console.error("Discount Service (getFeeWaiverRequests): Error fetching fee waiver requests:", error);
+    throw error;
+  }
+};
+
+export const getFeeWaiverRequest = async (waiverId: string): Promise<FeeWaiverRequest | null> => {
+  if (!firestoreDb) {
+    return null;
+  }
+  const waiverSnap = await getDoc(doc(firestoreDb, "feeWaivers", waiverId));
+  return waiverSnap.exists() ? ({ id: waiverSnap.id, ...waiverSnap.data() } as FeeWaiverRequest) : null;
+};
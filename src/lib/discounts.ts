@@ -0,0 +1,60 @@
+
+import type { DiscountCode, FeeWaiverReason, FeeWaiverStatus } from '@/types';
+import { formatFee } from '@/lib/venue-schedule';
+
+export const DISCOUNT_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+// Codes are matched case-insensitively; they are stored and shown upper-cased.
+export const normalizeDiscountCode = (code: string): string => code.trim().toUpperCase();
+
+export const FEE_WAIVER_REASON_LABELS: Record<FeeWaiverReason, string> = {
+  student: "Student author",
+  "low-income-country": "Author from a low-income country",
+  other: "Other hardship",
+};
+
+export const FEE_WAIVER_STATUS_LABELS: Record<FeeWaiverStatus, string> = {
+  pending: "Awaiting review",
+  approved: "Approved",
+  rejected: "Declined",
+};
+
+export const formatDiscount = (code: Pick<DiscountCode, 'type' | 'value' | 'currency'>): string =>
+  code.type === "percentage" ? `${code.value}% off` : `${formatFee(code.value, code.currency || undefined)} off`;
+
+export interface DiscountContext {
+  venueId?: string | null;
+  currency: string; // Of the fee the code would be applied to
+  authorRedemptions: number; // Papers by the same author already using this code
+  now?: Date;
+}
+
+/** Why the code cannot be used for this fee, or null when it can. */
+export const getDiscountCodeError = (code: DiscountCode, context: DiscountContext): string | null => {
+  const now = context.now || new Date();
+  if (!code.isActive) {
+    return "This discount code is no longer active.";
+  }
+  if (code.expiresAt && new Date(code.expiresAt) <= now) {
+    return "This discount code has expired.";
+  }
+  if (code.maxRedemptions != null && code.redemptionCount >= code.maxRedemptions) {
+    return "This discount code has been fully redeemed.";
+  }
+  if (code.maxRedemptionsPerAuthor != null && context.authorRedemptions >= code.maxRedemptionsPerAuthor) {
+    return "You have already used this discount code the maximum number of times.";
+  }
+  if (code.venueIds?.length && (!context.venueId || !code.venueIds.includes(context.venueId))) {
+    return "This discount code is not valid for this venue.";
+  }
+  if (code.type === "fixed" && code.currency && code.currency !== context.currency) {
+    return `This discount code only applies to fees in ${code.currency}.`;
+  }
+  return null;
+};
+
+// Never more than the fee itself; a code worth the whole fee makes the submission free.
+export const computeDiscountAmount = (code: Pick<DiscountCode, 'type' | 'value'>, fee: number): number => {
+  const discount = code.type === "percentage" ? fee * Math.min(code.value, 100) / 100 : code.value;
+  return Math.round(Math.min(Math.max(discount, 0), fee) * 100) / 100;
+};
@@ -0,0 +1,73 @@
+"use client";
+
+import { addDoc, collection, getDocs, query, serverTimestamp, Timestamp, where } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { PaperMessage, PaperMessageAttachment, PaperMessageRole } from '@/types';
+import { uploadToCloudinary } from "@/lib/paper-service";
+import { getVisibleMessageVisibilities, MAX_MESSAGE_ATTACHMENT_BYTES, MAX_MESSAGE_ATTACHMENTS } from "@/lib/paper-discussion";
+
+// Discussion threads live under papers/{paperId}/messages; who can read which messages is decided
+// by getDiscussionRole (see paper-discussion.ts) and enforced by the Firestore rules.
+
+const convertMessageTimestamps = (messageData: any): PaperMessage => ({
+  ...messageData,
+  attachments: messageData.attachments || [],
+  createdAt: messageData.createdAt instanceof Timestamp ? messageData.createdAt.toDate().toISOString() : (messageData.createdAt || new Date().toISOString()),
+});
+
+// Oldest first. Queried per visibility, so authors and reviewers only ask for what the rules let them read.
+export const getPaperMessages = async (paperId: string, role: Exclude<PaperMessageRole, "system">): Promise<PaperMessage[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const messagesRef = collection(firestoreDb, "papers", paperId, "messages");
+    const visibilities = getVisibleMessageVisibilities(role);
+    const querySnapshot = await getDocs(visibilities.length > 1 ? messagesRef : query(messagesRef, where("visibility", "==", visibilities[0])));
+    return querySnapshot.docs
+      .map(docSnap => convertMessageTimestamps({ id: docSnap.id, ...docSnap.data() }))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  } catch (error) {
+    console.error(`Discussion Service (getPaperMessages): Error fetching messages for paper ${paperId}:`, error);
+    throw error;
+  }
+};
+
+export const uploadMessageAttachments = async (files: File[]): Promise<PaperMessageAttachment[]> => {
+  if (files.length > MAX_MESSAGE_ATTACHMENTS) {
+    throw new Error(`Attach at most ${MAX_MESSAGE_ATTACHMENTS} files to a message.`);
+  }
+  const tooLarge = files.find(file => file.size > MAX_MESSAGE_ATTACHMENT_BYTES);
+  if (tooLarge) {
+    throw new Error(`"${tooLarge.name}" is larger than ${MAX_MESSAGE_ATTACHMENT_BYTES / (1024 * 1024)} MB.`);
+  }
+  const attachments: PaperMessageAttachment[] = [];
+  for (const file of files) {
+    const uploaded = await uploadToCloudinary(file);
+    if (!uploaded?.secure_url) {
+      throw new Error(`"${file.name}" could not be uploaded.`);
+    }
+    attachments.push({ name: file.name || uploaded.original_filename, url: uploaded.secure_url, size: file.size });
+  }
+  return attachments;
+};
+
+export const addPaperMessage = async (
+  paperId: string,
+  message: Omit<PaperMessage, 'id' | 'paperId' | 'createdAt'>,
+): Promise<PaperMessage> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (!message.body.trim()) {
+    throw new Error("A message cannot be empty.");
+  }
+  const messageData = { ...message, body: message.body.trim(), statusChange: message.statusChange || null, paperId };
+  try {
+    const docRef = await addDoc(collection(firestoreDb, "papers", paperId, "messages"), { ...messageData, createdAt: serverTimestamp() });
+    return { ...messageData, id: docRef.id, createdAt: new Date().toISOString() };
+  } catch (error) {
+    console.error(`Discussion Service (addPaperMessage): Error posting to paper ${paperId}:`, error);
+    throw error;
+  }
+};
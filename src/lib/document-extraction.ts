@@ -0,0 +1,99 @@
+
+import { extractText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+import type { ExtractedDocument } from '@/types';
+import { buildExtractedDocument } from "@/lib/document-structure";
+
+/**
+ * Text extraction from PDF and DOCX manuscripts, run only on the server. Stored papers get their text
+ * from the file they point to, downloaded here, so what is saved as a paper's extracted content always
+ * matches its manuscript. The action in text-extraction.ts lets signed-in users extract text from a file
+ * they are checking before submission.
+ */
+
+const PDF_MIME_TYPE = "application/pdf";
+const DOCX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // Same limit as PaperUploadForm
+const ALLOWED_DOWNLOAD_HOSTS = ["res.cloudinary.com"];
+
+const extractPdf = async (data: Uint8Array): Promise<ExtractedDocument> => {
+  const pdf = await getDocumentProxy(data);
+  const { totalPages, text } = await extractText(pdf, { mergePages: true });
+  return buildExtractedDocument(text, { pageCount: totalPages });
+};
+
+const decodeHtmlEntities = (value: string) =>
+  value
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+
+// DOCX keeps real heading styles, so they are read from Mammoth's HTML rather than guessed from the text.
+const extractDocx = async (data: Uint8Array): Promise<ExtractedDocument> => {
+  const buffer = Buffer.from(data);
+  const [{ value: rawText }, { value: html }] = await Promise.all([
+    mammoth.extractRawText({ buffer }),
+    mammoth.convertToHtml({ buffer }),
+  ]);
+  const headings = Array.from(html.matchAll(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/g))
+    .map(match => decodeHtmlEntities(match[1].replace(/<[^>]+>/g, "")).trim())
+    .filter(Boolean);
+  return buildExtractedDocument(rawText, { headings });
+};
+
+const detectFileType = (data: Uint8Array, mimeType: string, fileName: string): "pdf" | "docx" | null => {
+  // PDFs start with "%PDF"; DOCX files are ZIP archives starting with "PK".
+  if (mimeType === PDF_MIME_TYPE || /\.pdf$/i.test(fileName) || (data[0] === 0x25 && data[1] === 0x50 && data[2] === 0x44 && data[3] === 0x46)) return "pdf";
+  if (mimeType === DOCX_MIME_TYPE || /\.docx$/i.test(fileName) || (data[0] === 0x50 && data[1] === 0x4b)) return "docx";
+  return null;
+};
+
+export const extractFromBytes = async (data: Uint8Array, mimeType: string, fileName: string): Promise<ExtractedDocument> => {
+  if (data.byteLength > MAX_FILE_SIZE) {
+    throw new Error("File size must be less than 10MB.");
+  }
+  const fileType = detectFileType(data, mimeType, fileName);
+  if (!fileType) {
+    throw new Error("Only PDF or DOCX files can be processed.");
+  }
+  try {
+    return fileType === "pdf" ? await extractPdf(data) : await extractDocx(data);
+  } catch (error: any) {
+    console.error(`Text Extraction: Failed to read ${fileType.toUpperCase()} "${fileName}":`, error);
+    throw new Error(`Could not read the ${fileType.toUpperCase()} file. It may be corrupted, encrypted or scanned without a text layer.`);
+  }
+};
+
+export const isStoredDocumentUrl = (documentUrl: string): boolean => {
+  try {
+    const url = new URL(documentUrl);
+    return url.protocol === "https:" && ALLOWED_DOWNLOAD_HOSTS.includes(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+// Only stored manuscripts are fetched, so this cannot be used to make the server request arbitrary URLs.
+export const extractStoredDocument = async (documentUrl: string, fileName?: string | null): Promise<ExtractedDocument> => {
+  if (!isStoredDocumentUrl(documentUrl)) {
+    throw new Error("Documents can only be read from the configured file storage.");
+  }
+  const response = await fetch(documentUrl);
+  if (!response.ok) {
+    throw new Error(`Could not download the document (HTTP ${response.status}).`);
+  }
+  const data = new Uint8Array(await response.arrayBuffer());
+  return extractFromBytes(data, response.headers.get("content-type") || "", fileName || new URL(documentUrl).pathname);
+};
+
+// Extraction failures never block a submission; the text can be extracted again later from the stored file.
+export const extractStoredDocumentSafely = async (documentUrl: string, fileName?: string | null): Promise<ExtractedDocument | null> => {
+  try {
+    return await extractStoredDocument(documentUrl, fileName);
+  } catch (error) {
+    console.error(`Document Extraction (extractStoredDocumentSafely): Could not extract text from ${documentUrl}:`, error);
+    return null;
+  }
+};
@@ -0,0 +1,88 @@
+
+import type { ExtractedDocument } from '@/types';
+
+// Keeps the paper document well below Firestore's 1 MiB limit and the prompt within the model's context.
+export const MAX_EXTRACTED_TEXT_LENGTH = 100_000;
+const MAX_REFERENCES = 300;
+const MAX_HEADING_LENGTH = 80;
+
+const KNOWN_SECTION_NAMES = [
+  "abstract", "introduction", "background", "related work", "literature review", "preliminaries",
+  "method", "methods", "methodology", "materials and methods", "approach", "system design", "implementation",
+  "experiments", "experimental setup", "evaluation", "results", "results and discussion", "discussion",
+  "limitations", "future work", "conclusion", "conclusions", "acknowledgement", "acknowledgements",
+  "acknowledgment", "acknowledgments", "references", "bibliography", "appendix",
+];
+
+const REFERENCES_HEADING = /^(?:\d+\.?\s*)?(references|bibliography|works cited|literature cited)$/i;
+// "1 Introduction", "2.3. Results", "IV. EXPERIMENTS"
+const NUMBERED_HEADING = /^(?:\d+(?:\.\d+)*\.?|[IVXLC]+\.)\s+[A-Z][^.!?]*$/;
+const REFERENCE_MARKER = /^(?:\[\d+\]|\d+\.\s)/;
+
+export const normalizeExtractedText = (text: string): string =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const isHeadingLine = (line: string): boolean => {
+  if (!line || line.length > MAX_HEADING_LENGTH || /[.,;:]$/.test(line)) return false;
+  const bare = line.replace(/^(?:\d+(?:\.\d+)*\.?|[IVXLC]+\.)\s+/, "").toLowerCase();
+  return KNOWN_SECTION_NAMES.includes(bare) || NUMBERED_HEADING.test(line);
+};
+
+/** Heading detection for plain text (PDFs have no structural markup): known section names and numbered titles. */
+export const findHeadings = (text: string): string[] => {
+  const headings: string[] = [];
+  text.split("\n").map(line => line.trim()).forEach(line => {
+    if (isHeadingLine(line) && !headings.includes(line)) headings.push(line);
+  });
+  return headings;
+};
+
+/**
+ * Splits the text after the last "References"-style heading into entries. Numbered styles ("[1]", "1.")
+ * start a new entry at each marker; otherwise entries are separated by blank lines, or one per line.
+ */
+export const findReferences = (text: string): string[] => {
+  const lines = text.split("\n").map(line => line.trim());
+  let start = -1;
+  lines.forEach((line, index) => {
+    if (REFERENCES_HEADING.test(line)) start = index + 1;
+  });
+  if (start < 0) return [];
+
+  const referenceLines = lines.slice(start);
+  let entries: string[];
+  if (referenceLines.some(line => REFERENCE_MARKER.test(line))) {
+    entries = [];
+    referenceLines.forEach(line => {
+      if (!line) return;
+      if (REFERENCE_MARKER.test(line) || entries.length === 0) entries.push(line);
+      else entries[entries.length - 1] += ` ${line}`;
+    });
+  } else if (referenceLines.includes("")) {
+    entries = referenceLines.join("\n").split(/\n\s*\n/).map(entry => entry.replace(/\n/g, " "));
+  } else {
+    entries = referenceLines;
+  }
+  return entries.map(entry => entry.trim()).filter(Boolean).slice(0, MAX_REFERENCES);
+};
+
+export const buildExtractedDocument = (
+  rawText: string,
+  options: { headings?: string[]; pageCount?: number | null } = {}
+): ExtractedDocument => {
+  const text = normalizeExtractedText(rawText);
+  const headings = options.headings && options.headings.length > 0 ? options.headings : findHeadings(text);
+  return {
+    text: text.slice(0, MAX_EXTRACTED_TEXT_LENGTH),
+    headings,
+    references: findReferences(text),
+    wordCount: text ? text.split(/\s+/).length : 0,
+    pageCount: options.pageCount ?? null,
+    truncated: text.length > MAX_EXTRACTED_TEXT_LENGTH,
+  };
+};
@@ -0,0 +1,90 @@
+'use server';
+
+import { Timestamp } from 'firebase-admin/firestore';
+import type { EmailMessage } from '@/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import { deliverPendingEmails, retryEmail, type EmailDeliverySummary } from '@/lib/email-outbox';
+import { notifyPaperAuthor, notifyReviewerInvitation, notifySubmissionReceived } from '@/lib/notification-delivery';
+import { writeAuditEvent } from '@/lib/audit-log';
+
+// Changes made from the browser are announced through these actions. They only name the paper or
+// review; the notification and email are rendered on the server from what is stored, so they cannot be forged.
+// Status changes are announced by the server itself, in the transaction that makes them (see paper-status-updates.ts).
+
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  const userSnap = await getAdminDb().collection('users').doc(uid).get();
+  if (userSnap.data()?.isAdmin !== true) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+const loadPaper = async (paperId: string) => {
+  const paper = (await getAdminDb().collection('papers').doc(paperId).get()).data();
+  if (!paper) {
+    throw new Error('Paper not found.');
+  }
+  return paper;
+};
+
+const toIso = (value: unknown): string | null =>
+  value instanceof Timestamp ? value.toDate().toISOString() : (typeof value === 'string' ? value : null);
+
+// Sent by the author's browser after a new paper is saved: a receipt, or the payment notice if the fee is due.
+export async function notifyPaperSubmitted(idToken: string, paperId: string): Promise<void> {
+  const uid = await verifyUser(idToken);
+  const paper = await loadPaper(paperId);
+  if (paper.userId !== uid) {
+    throw new Error('Paper not found.');
+  }
+  const dueDate = toIso(paper.paymentDueDate);
+  if (paper.status === 'Submitted') {
+    await notifySubmissionReceived(paperId);
+  } else if (paper.status === 'Payment Pending' && dueDate) {
+    await notifyPaperAuthor(paperId, 'payment-due', {
+      dueDate,
+      amount: paper.submissionFee ?? null,
+      currency: paper.currency ?? null,
+      isReminder: false,
+    }, { dedupeKey: `payment-due_${paperId}_initial` });
+  }
+}
+
+// Only messages the author may read are quoted to them.
+const loadAuthorVisibleMessage = async (paperId: string, messageId: string): Promise<string | null> => {
+  const message = (await getAdminDb().collection('papers').doc(paperId).collection('messages').doc(messageId).get()).data();
+  return message?.visibility === 'author' ? message.body || null : null;
+};
+
+export async function notifyFeedbackPosted(idToken: string, paperId: string, messageId: string): Promise<void> {
+  await verifyAdmin(idToken);
+  const feedback = await loadAuthorVisibleMessage(paperId, messageId);
+  if (!feedback) return;
+  await notifyPaperAuthor(paperId, 'feedback-posted', { feedback }, { dedupeKey: `feedback-posted_${paperId}_${messageId}` });
+}
+
+export async function notifyReviewerInvited(idToken: string, reviewId: string): Promise<void> {
+  await verifyAdmin(idToken);
+  await notifyReviewerInvitation(reviewId);
+}
+
+// Lets an admin flush the outbox from the admin panel instead of waiting for the schedule.
+export async function deliverDueEmails(idToken: string): Promise<EmailDeliverySummary> {
+  const uid = await verifyAdmin(idToken);
+  const summary = await deliverPendingEmails();
+  await writeAuditEvent({ id: uid }, {
+    action: 'email.deliver',
+    targetType: 'email',
+    targetId: 'outbox',
+    targetLabel: 'Email outbox',
+    after: { ...summary },
+  });
+  return summary;
+}
+
+export async function retryOutboxEmail(idToken: string, messageId: string): Promise<EmailMessage> {
+  return retryEmail(await verifyAdmin(idToken), messageId);
+}
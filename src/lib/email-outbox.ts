@@ -0,0 +1,206 @@
+
+import type { DocumentData, Transaction } from "firebase-admin/firestore";
+import type { EmailMessage, EmailMessageStatus, EmailTemplateId } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getEmailSender, getEmailTransport } from "@/lib/email-transports";
+import { renderEmailTemplate, type EmailTemplateParams } from "@/lib/email-templates";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Transactional email outbox. Emails are rendered and stored in the emailOutbox collection first,
+ * then delivered through the configured transport (see email-transports/index.ts). A delivery that
+ * fails is retried with backoff by the email outbox job (the /api/jobs/email-outbox route or
+ * `npm run jobs:email-outbox`) until MAX_EMAIL_ATTEMPTS, after which an admin can retry it by hand.
+ *
+ * Emails are queued by notification-delivery.ts together with the matching in-app notification.
+ */
+
+export const MAX_EMAIL_ATTEMPTS = 5;
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120]; // After the 1st, 2nd, 3rd and 4th failed attempt
+const SEND_LEASE_MINUTES = 5; // Keeps other workers off a message while it is being sent
+
+export interface EmailRecipient {
+  userId: string;
+  email: string;
+  name?: string | null;
+}
+
+export interface QueueEmailOptions {
+  dedupeKey?: string; // Becomes the document ID, so the same email is only ever queued once
+}
+
+export interface EmailDeliverySummary {
+  checked: number; // Messages that were due
+  sent: number;
+  retrying: number;
+  failed: number; // Gave up after MAX_EMAIL_ATTEMPTS
+}
+
+export const getAppUrl = (): string => (process.env.APP_URL || "http://localhost:9002").replace(/\/+$/, "");
+
+export const getPaperUrl = (paperId: string): string => `${getAppUrl()}/papers/${paperId}`;
+
+// Dedupe keys are built from record IDs and dates; anything else is replaced to make a valid document ID.
+export const dedupeKeyToDocumentId = (dedupeKey: string): string => dedupeKey.replace(/[^A-Za-z0-9_-]/g, "_");
+
+const minutesFrom = (date: Date, minutes: number): string => new Date(date.getTime() + minutes * 60 * 1000).toISOString();
+
+const toOutboxMessage = <T extends EmailTemplateId>(
+  recipient: EmailRecipient,
+  template: T,
+  params: EmailTemplateParams[T],
+  paperId: string | null,
+): Omit<EmailMessage, 'id'> => {
+  const rendered = renderEmailTemplate(template, params, recipient.name);
+  const now = new Date().toISOString();
+  return {
+    template,
+    to: recipient.email,
+    ...rendered,
+    userId: recipient.userId,
+    paperId,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: now,
+    lastError: null,
+    transport: null,
+    transportMessageId: null,
+    createdAt: now,
+    sentAt: null,
+  };
+};
+
+// Sent straight away; the outbox job picks the message up again if this attempt fails.
+export const startEmailDelivery = async (messageId: string): Promise<void> => {
+  await deliverEmail(messageId).catch(error => console.error(`Email Outbox (startEmailDelivery): Delivery of ${messageId} did not start:`, error));
+};
+
+// Returns false when the same dedupe key was queued before. Delivery starts straight away.
+export const queueEmail = async <T extends EmailTemplateId>(
+  recipient: EmailRecipient,
+  template: T,
+  params: EmailTemplateParams[T],
+  paperId: string | null,
+  options: QueueEmailOptions,
+): Promise<boolean> => {
+  const outbox = getAdminDb().collection("emailOutbox");
+  const ref = options.dedupeKey ? outbox.doc(dedupeKeyToDocumentId(options.dedupeKey)) : outbox.doc();
+  try {
+    await ref.create(toOutboxMessage(recipient, template, params, paperId));
+  } catch (error: any) {
+    if (error?.code === 6) return false; // ALREADY_EXISTS: queued before under the same dedupe key
+    throw error;
+  }
+  await startEmailDelivery(ref.id);
+  return true;
+};
+
+/**
+ * Queues the email in the transaction that makes the change it announces, so it is sent exactly when the
+ * change is saved. Returns the message ID; the caller starts delivery with startEmailDelivery after committing.
+ */
+export const addEmailToOutbox = <T extends EmailTemplateId>(
+  transaction: Transaction,
+  recipient: EmailRecipient,
+  template: T,
+  params: EmailTemplateParams[T],
+  paperId: string | null,
+): string => {
+  const ref = getAdminDb().collection("emailOutbox").doc();
+  transaction.create(ref, toOutboxMessage(recipient, template, params, paperId));
+  return ref.id;
+};
+
+/**
+ * Makes one delivery attempt if the message is due. The attempt is claimed in a transaction first,
+ * so a message is never sent twice by workers running side by side. Returns the message's status
+ * afterwards, or null when it was not due.
+ */
+export const deliverEmail = async (messageId: string, now: Date = new Date()): Promise<EmailMessageStatus | null> => {
+  const db = getAdminDb();
+  const ref = db.collection("emailOutbox").doc(messageId);
+
+  const claimed = await db.runTransaction(async transaction => {
+    const message = (await transaction.get(ref)).data() as Omit<EmailMessage, 'id'> | undefined;
+    if (!message || message.status !== "pending" || message.nextAttemptAt > now.toISOString()) {
+      return null;
+    }
+    const attempts = message.attempts + 1;
+    transaction.update(ref, { attempts, nextAttemptAt: minutesFrom(now, SEND_LEASE_MINUTES) });
+    return { ...message, attempts };
+  });
+  if (!claimed) return null;
+
+  try {
+    const transport = getEmailTransport();
+    const sent = await transport.send({
+      from: getEmailSender(),
+      to: claimed.to,
+      subject: claimed.subject,
+      text: claimed.text,
+      html: claimed.html,
+      messageId,
+    });
+    await ref.update({ status: "sent", sentAt: new Date().toISOString(), transport: transport.id, transportMessageId: sent.messageId, lastError: null });
+    return "sent";
+  } catch (error: any) {
+    const gaveUp = claimed.attempts >= MAX_EMAIL_ATTEMPTS;
+    console.error(`Email Outbox (deliverEmail): Attempt ${claimed.attempts} for ${messageId} failed:`, error);
+    await ref.update({
+      status: gaveUp ? "failed" : "pending",
+      nextAttemptAt: gaveUp ? claimed.nextAttemptAt : minutesFrom(new Date(), RETRY_DELAYS_MINUTES[claimed.attempts - 1]),
+      lastError: error?.message || String(error),
+    });
+    return gaveUp ? "failed" : "pending";
+  }
+};
+
+// Delivers every pending message that is due, oldest first. Run by the email outbox job.
+export const deliverPendingEmails = async (options: { now?: Date; limit?: number } = {}): Promise<EmailDeliverySummary> => {
+  const now = options.now || new Date();
+  // Filtered on the due time here rather than in the query, which would need a composite index.
+  const pendingSnap = await getAdminDb().collection("emailOutbox").where("status", "==", "pending").get();
+  const due = pendingSnap.docs
+    .map(docSnap => ({ id: docSnap.id, data: docSnap.data() as DocumentData }))
+    .filter(({ data }) => data.nextAttemptAt <= now.toISOString())
+    .sort((a, b) => a.data.nextAttemptAt.localeCompare(b.data.nextAttemptAt))
+    .slice(0, options.limit || 100);
+
+  const summary: EmailDeliverySummary = { checked: due.length, sent: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const status = await deliverEmail(id, now);
+    if (status === "sent") summary.sent += 1;
+    else if (status === "pending") summary.retrying += 1;
+    else if (status === "failed") summary.failed += 1;
+  }
+  return summary;
+};
+
+// Gives a message that ran out of attempts (or is waiting for its next one) another try now. The admin's
+// retry is audited together with putting the message back in the queue; the attempt's outcome is on the message.
+export const retryEmail = async (adminId: string, messageId: string): Promise<EmailMessage> => {
+  const db = getAdminDb();
+  const ref = db.collection("emailOutbox").doc(messageId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+  await db.runTransaction(async transaction => {
+    const message = (await transaction.get(ref)).data();
+    if (!message) {
+      throw new Error("Email not found.");
+    }
+    if (message.status === "sent") {
+      throw new Error("This email has already been sent.");
+    }
+    transaction.update(ref, { status: "pending", nextAttemptAt: new Date().toISOString() });
+    addAuditEvent(transaction, auditActor, {
+      action: "email.retry",
+      targetType: "email",
+      targetId: messageId,
+      targetLabel: `${message.subject} (${message.to})`,
+      before: { status: message.status, attempts: message.attempts },
+      after: { status: "pending" },
+    });
+  });
+  await deliverEmail(messageId);
+  const updated = await ref.get();
+  return { id: updated.id, ...updated.data() } as EmailMessage;
+};
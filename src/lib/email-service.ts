@@ -0,0 +1,22 @@
+"use client";
+
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { EmailMessage } from '@/types';
+
+// The outbox is written by the server (see email-outbox.ts); admins read it to follow up on failed deliveries.
+
+const OUTBOX_PAGE_SIZE = 200;
+
+export const getEmailOutbox = async (): Promise<EmailMessage[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "emailOutbox"), orderBy("createdAt", "desc"), limit(OUTBOX_PAGE_SIZE)));
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as EmailMessage);
+  } catch (error) {
+    console.error("Email Service (getEmailOutbox): Error fetching the outbox:", error);
+    throw error;
+  }
+};
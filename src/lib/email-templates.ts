@@ -0,0 +1,161 @@
+
+import type { EmailMessageStatus, EmailTemplateId, OverduePaymentAction, PaperStatus } from '@/types';
+import { formatFee } from '@/lib/venue-schedule';
+
+/**
+ * Transactional email templates. Every message is rendered here on the server from stored data,
+ * so callers only choose the template and the records it is about; the plain-text and HTML
+ * bodies always say the same thing.
+ */
+
+interface PaperParams {
+  paperTitle: string;
+  paperUrl: string;
+}
+
+export interface EmailTemplateParams {
+  "submission-received": PaperParams;
+  "payment-due": PaperParams & { dueDate: string; amount?: number | null; currency?: string | null; isReminder: boolean };
+  "payment-overdue": PaperParams & { dueDate: string; overdueAction: OverduePaymentAction };
+  "status-changed": PaperParams & { status: PaperStatus; feedback?: string | null };
+  "feedback-posted": PaperParams & { feedback: string };
+  "reviewer-invited": PaperParams & { reviewDueDate?: string | null };
+  "decision": PaperParams & { status: PaperStatus; feedback?: string | null };
+}
+
+export interface RenderedEmail {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface TemplateContent {
+  subject: string;
+  paragraphs: string[];
+  quote?: string | null; // Shown set apart, e.g. the editor's feedback
+  action: { label: string; url: string };
+}
+
+export const EMAIL_TEMPLATE_LABELS: Record<EmailTemplateId, string> = {
+  "submission-received": "Submission received",
+  "payment-due": "Payment due",
+  "payment-overdue": "Payment overdue",
+  "status-changed": "Status changed",
+  "feedback-posted": "Feedback posted",
+  "reviewer-invited": "Reviewer invited",
+  "decision": "Decision",
+};
+
+export const EMAIL_MESSAGE_STATUS_LABELS: Record<EmailMessageStatus, string> = {
+  pending: "Pending",
+  sent: "Sent",
+  failed: "Failed",
+};
+
+export const EMAIL_MESSAGE_STATUS_BADGE_VARIANTS: Record<EmailMessageStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  sent: "default",
+  failed: "destructive",
+};
+
+// Deadlines are shown in UTC, the same for every reader.
+export const formatDeadline = (iso: string): string =>
+  `${new Date(iso).toLocaleString("en-GB", { timeZone: "UTC", dateStyle: "medium", timeStyle: "short" })} UTC`;
+
+const OVERDUE_CONSEQUENCES: Record<OverduePaymentAction, string> = {
+  "auto-reject": "As the venue's payment policy requires, the paper has been withdrawn from consideration.",
+  "hold": "The paper is on hold until the editorial office decides how to proceed.",
+  "notify": "You can still pay the fee to complete your submission.",
+};
+
+const DECISION_MESSAGES: Partial<Record<PaperStatus, string>> = {
+  "Accepted": "We are pleased to tell you that your paper has been accepted.",
+  "Rejected": "We regret to tell you that your paper has not been accepted.",
+  "Published": "Your paper has been published.",
+};
+
+// Status changes that are announced with the "decision" template rather than "status-changed".
+export const isDecisionStatus = (status: PaperStatus): boolean => status in DECISION_MESSAGES;
+
+const TEMPLATES: { [T in EmailTemplateId]: (params: EmailTemplateParams[T]) => TemplateContent } = {
+  "submission-received": ({ paperTitle, paperUrl }) => ({
+    subject: `Submission received: ${paperTitle}`,
+    paragraphs: [
+      `Thank you for submitting "${paperTitle}". It is now with the editorial office, and we will let you know when its status changes.`,
+    ],
+    action: { label: "View your submission", url: paperUrl },
+  }),
+  "payment-due": ({ paperTitle, paperUrl, dueDate, amount, currency, isReminder }) => ({
+    subject: `${isReminder ? "Reminder: payment" : "Payment"} due for ${paperTitle}`,
+    paragraphs: [
+      `The submission fee${amount ? ` of ${formatFee(amount, currency || undefined)}` : ""} for "${paperTitle}" is due by ${formatDeadline(dueDate)}.`,
+      "Your paper is sent for review once the fee is paid.",
+    ],
+    action: { label: "Pay now", url: paperUrl },
+  }),
+  "payment-overdue": ({ paperTitle, paperUrl, dueDate, overdueAction }) => ({
+    subject: `Payment overdue: ${paperTitle}`,
+    paragraphs: [
+      `The submission fee for "${paperTitle}" was due by ${formatDeadline(dueDate)} and has not been received.`,
+      OVERDUE_CONSEQUENCES[overdueAction],
+    ],
+    action: { label: "View your submission", url: paperUrl },
+  }),
+  "status-changed": ({ paperTitle, paperUrl, status, feedback }) => ({
+    subject: `${paperTitle} is now "${status}"`,
+    paragraphs: [`The status of "${paperTitle}" has changed to "${status}".`],
+    quote: feedback,
+    action: { label: "View your submission", url: paperUrl },
+  }),
+  "feedback-posted": ({ paperTitle, paperUrl, feedback }) => ({
+    subject: `New feedback on ${paperTitle}`,
+    paragraphs: [`The editorial office has left feedback on "${paperTitle}":`],
+    quote: feedback,
+    action: { label: "View your submission", url: paperUrl },
+  }),
+  "reviewer-invited": ({ paperTitle, paperUrl, reviewDueDate }) => ({
+    subject: `Review invitation: ${paperTitle}`,
+    paragraphs: [
+      `You have been asked to review "${paperTitle}".`,
+      reviewDueDate ? `Please submit your review by ${formatDeadline(reviewDueDate)}.` : "Please submit your review as soon as you can.",
+    ],
+    action: { label: "Open the paper", url: paperUrl },
+  }),
+  "decision": ({ paperTitle, paperUrl, status, feedback }) => ({
+    subject: `Decision on ${paperTitle}`,
+    paragraphs: [DECISION_MESSAGES[status] || `The status of "${paperTitle}" has changed to "${status}".`],
+    quote: feedback,
+    action: { label: "View the decision", url: paperUrl },
+  }),
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+export const renderEmailTemplate = <T extends EmailTemplateId>(
+  template: T,
+  params: EmailTemplateParams[T],
+  recipientName?: string | null,
+): RenderedEmail => {
+  const content = (TEMPLATES[template] as (params: EmailTemplateParams[T]) => TemplateContent)(params);
+  const greeting = `Dear ${recipientName || "colleague"},`;
+  const signature = "The ResearchSphere editorial office";
+
+  const text = [
+    greeting,
+    ...content.paragraphs,
+    ...(content.quote ? [content.quote.split("\n").map(line => `> ${line}`).join("\n")] : []),
+    `${content.action.label}: ${content.action.url}`,
+    signature,
+  ].join("\n\n");
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    ...content.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+    ...(content.quote ? [`<blockquote style="border-left:3px solid #ccc;margin:0;padding-left:12px;white-space:pre-wrap">${escapeHtml(content.quote)}</blockquote>`] : []),
+    `<p><a href="${escapeHtml(content.action.url)}">${escapeHtml(content.action.label)}</a></p>`,
+    `<p>${escapeHtml(signature)}</p>`,
+  ].join("\n");
+
+  return { subject: content.subject, text, html };
+};
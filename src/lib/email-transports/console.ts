@@ -0,0 +1,16 @@
+import type { EmailTransport } from '@/lib/email-transports/transport';
+import { buildMimeMessage } from '@/lib/email-transports/transport';
+
+/**
+ * @fileOverview Development transport: prints each email to the server log instead of sending it.
+ */
+
+export const consoleTransport: EmailTransport = {
+  id: "console",
+
+  async send(email) {
+    const { messageId } = buildMimeMessage(email);
+    console.log(`Email (console transport) ${messageId}\n  To: ${email.to}\n  Subject: ${email.subject}\n\n${email.text}\n`);
+    return { messageId };
+  },
+};
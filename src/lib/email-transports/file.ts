@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { EmailTransport } from '@/lib/email-transports/transport';
+import { buildMimeMessage } from '@/lib/email-transports/transport';
+
+/**
+ * @fileOverview Development transport: writes each email as an .eml file that any mail client can
+ * open. Files go to EMAIL_FILE_DIR, relative to the working directory (default .email-outbox).
+ */
+
+const getDirectory = (): string => path.resolve(process.env.EMAIL_FILE_DIR || ".email-outbox");
+
+export const fileTransport: EmailTransport = {
+  id: "file",
+
+  async send(email) {
+    const { messageId, raw } = buildMimeMessage(email);
+    const directory = getDirectory();
+    await mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${(email.messageId || "message").replace(/[^A-Za-z0-9_-]/g, "")}.eml`;
+    await writeFile(path.join(directory, fileName), raw, "utf8");
+    return { messageId };
+  },
+};
@@ -0,0 +1,35 @@
+import type { EmailTransportId } from '@/types';
+import type { EmailTransport } from '@/lib/email-transports/transport';
+import { consoleTransport } from '@/lib/email-transports/console';
+import { fileTransport } from '@/lib/email-transports/file';
+import { smtpTransport } from '@/lib/email-transports/smtp';
+
+/**
+ * @fileOverview Selects how outbox emails are delivered from the EMAIL_TRANSPORT environment variable.
+ *
+ * - console (default) - Prints emails to the server log (see ./console.ts); nothing is sent.
+ * - file - Writes .eml files to EMAIL_FILE_DIR (see ./file.ts); nothing is sent.
+ * - smtp - Sends through an SMTP server; needs SMTP_HOST (see ./smtp.ts).
+ *
+ * Emails are sent from EMAIL_FROM, e.g. "ResearchSphere <no-reply@example.org>".
+ */
+
+export const EMAIL_TRANSPORTS = ['console', 'file', 'smtp'] as const;
+
+const TRANSPORTS: Record<EmailTransportId, EmailTransport> = {
+  console: consoleTransport,
+  file: fileTransport,
+  smtp: smtpTransport,
+};
+
+export const getEmailTransportId = (): EmailTransportId => {
+  const configured = (process.env.EMAIL_TRANSPORT || 'console').trim().toLowerCase();
+  if (!(EMAIL_TRANSPORTS as readonly string[]).includes(configured)) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${configured}". Expected one of: ${EMAIL_TRANSPORTS.join(', ')}.`);
+  }
+  return configured as EmailTransportId;
+};
+
+export const getEmailTransport = (id: EmailTransportId = getEmailTransportId()): EmailTransport => TRANSPORTS[id];
+
+export const getEmailSender = (): string => process.env.EMAIL_FROM || 'ResearchSphere <no-reply@researchsphere.local>';
@@ -0,0 +1,173 @@
+import net, { type Socket } from "net";
+import tls from "tls";
+import os from "os";
+import type { EmailTransport } from '@/lib/email-transports/transport';
+import { buildMimeMessage, extractAddress } from '@/lib/email-transports/transport';
+
+/**
+ * @fileOverview SMTP transport, speaking the protocol directly over a socket. Needs SMTP_HOST;
+ * SMTP_PORT defaults to 587 (upgraded with STARTTLS when the server offers it), or 465 with
+ * SMTP_SECURE=true for implicit TLS. SMTP_USER and SMTP_PASS are sent with AUTH PLAIN when set,
+ * and only over TLS: a server on 587 that does not offer STARTTLS is refused rather than sent them in the clear.
+ *
+ * One connection is opened per message; the outbox sends messages one at a time.
+ */
+
+const CONNECT_TIMEOUT_MS = 15 * 1000;
+const TIMEOUT_MS = 30 * 1000;
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const getConfig = (): SmtpConfig => {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error("SMTP is not configured. Set SMTP_HOST (and SMTP_USER and SMTP_PASS if the server needs them).");
+  }
+  const secure = process.env.SMTP_SECURE === "true";
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT || (secure ? 465 : 587)),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    pass: process.env.SMTP_PASS || undefined,
+  };
+};
+
+// Collects the server's replies, joining multi-line replies ("250-...", then "250 ...") into one.
+const readReplies = (socket: Socket) => {
+  let buffer = "";
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: Array<{ resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString("utf8");
+    let end = buffer.indexOf("\r\n");
+    while (end >= 0) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line.charAt(3) !== "-") {
+        const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.join("\n") };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+      end = buffer.indexOf("\r\n");
+    }
+  };
+  const onFailure = (error?: Error) => {
+    failure = error || new Error("SMTP: the server closed the connection.");
+    waiting.splice(0).forEach(waiter => waiter.reject(failure!));
+  };
+  const onClose = () => onFailure();
+
+  socket.on("data", onData);
+  socket.on("error", onFailure);
+  socket.on("close", onClose);
+
+  return {
+    next: (): Promise<SmtpReply> => {
+      const reply = replies.shift();
+      if (reply) return Promise.resolve(reply);
+      if (failure) return Promise.reject(failure);
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    // Hands the socket over, e.g. to TLS after STARTTLS.
+    detach: () => {
+      socket.off("data", onData);
+      socket.off("error", onFailure);
+      socket.off("close", onClose);
+    },
+  };
+};
+
+const connect = (config: SmtpConfig): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const onTimeout = () => socket.destroy(new Error("SMTP: could not connect to the server in time."));
+    const onConnect = () => {
+      socket.setTimeout(0);
+      socket.off("timeout", onTimeout);
+      resolve(socket);
+    };
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, onConnect)
+      : net.connect({ host: config.host, port: config.port }, onConnect);
+    socket.setTimeout(CONNECT_TIMEOUT_MS, onTimeout);
+    socket.once("error", reject);
+  });
+
+const upgradeToTls = (socket: Socket, host: string): Promise<Socket> =>
+  new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host }, () => resolve(secureSocket));
+    secureSocket.once("error", reject);
+  });
+
+// Lines starting with "." are doubled so they cannot end the DATA section early.
+const dotStuff = (raw: string): string => raw.replace(/^\./gm, "..");
+
+export const smtpTransport: EmailTransport = {
+  id: "smtp",
+
+  async send(email) {
+    const config = getConfig();
+    const { messageId, raw } = buildMimeMessage(email);
+    let socket = await connect(config);
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP: the server did not respond in time.")));
+    let replies = readReplies(socket);
+
+    const expect = async (step: string, codes: number[]): Promise<SmtpReply> => {
+      const reply = await replies.next();
+      if (!codes.includes(reply.code)) {
+        throw new Error(`SMTP: ${step} was refused (${reply.code} ${reply.text}).`);
+      }
+      return reply;
+    };
+    const command = (line: string, step: string, codes: number[]): Promise<SmtpReply> => {
+      socket.write(`${line}\r\n`);
+      return expect(step, codes);
+    };
+
+    try {
+      await expect("the connection", [220]);
+      const hello = await command(`EHLO ${os.hostname()}`, "EHLO", [250]);
+      const offersStartTls = /^STARTTLS\b/im.test(hello.text);
+      if (!config.secure && !offersStartTls && config.user && config.pass) {
+        throw new Error("SMTP: the server does not offer STARTTLS, so the credentials would be sent unencrypted. Use SMTP_SECURE=true or a server that supports TLS.");
+      }
+      if (!config.secure && offersStartTls) {
+        await command("STARTTLS", "STARTTLS", [220]);
+        replies.detach();
+        socket = await upgradeToTls(socket, config.host);
+        socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("SMTP: the server did not respond in time.")));
+        replies = readReplies(socket);
+        await command(`EHLO ${os.hostname()}`, "EHLO", [250]);
+      }
+      if (config.user && config.pass) {
+        const credentials = Buffer.from(`\u0000${config.user}\u0000${config.pass}`, "utf8").toString("base64");
+        await command(`AUTH PLAIN ${credentials}`, "Authentication", [235]);
+      }
+      await command(`MAIL FROM:<${extractAddress(email.from)}>`, "The sender", [250]);
+      await command(`RCPT TO:<${extractAddress(email.to)}>`, "The recipient", [250, 251]);
+      await command("DATA", "DATA", [354]);
+      await command(`${dotStuff(raw)}.`, "The message", [250]); // raw already ends with CRLF
+      socket.write("QUIT\r\n");
+      return { messageId };
+    } finally {
+      socket.end();
+    }
+  },
+};
@@ -0,0 +1,80 @@
+import { randomUUID } from "crypto";
+import type { EmailTransportId } from '@/types';
+
+export interface OutgoingEmail {
+  from: string; // "Name <address>" or a bare address
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  messageId?: string; // Outbox ID; reused in the Message-ID header so retries can be matched up
+}
+
+export interface SentEmail {
+  messageId: string;
+}
+
+/**
+ * What every email transport implements. Transports only deliver: rendering, retries and
+ * bookkeeping live in the outbox (see ../email-outbox.ts). A transport throws when delivery fails.
+ */
+export interface EmailTransport {
+  readonly id: EmailTransportId;
+  send(email: OutgoingEmail): Promise<SentEmail>;
+}
+
+// Addresses are written into SMTP commands and headers as they are, so anything that could end a line
+// or add a second address is refused rather than escaped.
+const EMAIL_ADDRESS_PATTERN = /^[^\s@<>()\[\]\\,;:"]+@[^\s@<>()\[\]\\,;:"]+$/;
+
+export const extractAddress = (mailbox: string): string => {
+  const match = mailbox.match(/<([^>]+)>/);
+  const address = (match ? match[1] : mailbox).trim();
+  if (!EMAIL_ADDRESS_PATTERN.test(address)) {
+    throw new Error(`${JSON.stringify(address)} is not a valid email address.`);
+  }
+  return address;
+};
+
+const assertSingleLine = (header: string, value: string): string => {
+  if (/[\r\n]/.test(value)) {
+    throw new Error(`The ${header} header cannot contain line breaks.`);
+  }
+  return value;
+};
+
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+
+const encodeBody = (value: string): string =>
+  (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) || []).join("\r\n");
+
+// A multipart/alternative RFC 5322 message with CRLF line endings, as SMTP and .eml files expect.
+export const buildMimeMessage = (email: OutgoingEmail): { messageId: string; raw: string } => {
+  const domain = extractAddress(email.from).split("@")[1] || "localhost";
+  const messageId = `<${email.messageId || randomUUID()}@${domain}>`;
+  const boundary = `=_${randomUUID()}`;
+  const raw = [
+    `From: ${assertSingleLine("From", email.from)}`,
+    `To: ${extractAddress(email.to)}`,
+    `Subject: ${encodeHeader(email.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(email.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    encodeBody(email.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+  return { messageId, raw };
+};
@@ -0,0 +1,275 @@
+
+import { FieldValue, Timestamp, type DocumentData } from "firebase-admin/firestore";
+import type { DiscountCode, DiscountRedemption, DiscountRedemptionRecord, FeeWaiverReason, FeeWaiverRequest, PaperStatus } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { assertPaperStatusTransition, type PaperStatusActor } from "@/lib/paper-status";
+import { assertUploadedWithinWindow, getPaperFee, isPayable } from "@/lib/payment-processing";
+import { computeDiscountAmount, getDiscountCodeError, normalizeDiscountCode } from "@/lib/discounts";
+import { notifySubmissionReceived } from "@/lib/notification-delivery";
+import { pickAuditFields } from "@/lib/audit";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Reductions to a paper's submission fee before it is paid: discount codes redeemed by the author,
+ * and fee waivers requested by the author and decided by an admin. Both run here on the server so
+ * redemption limits hold and an author cannot lower their own fee. Admins create and edit the codes
+ * here too, so each change is saved with its audit log entry.
+ */
+
+const MIN_WAIVER_JUSTIFICATION_LENGTH = 20;
+
+// Fields that move an unpaid paper on to "Submitted" without a payment.
+export const submittedWithoutPayment = (paper: DocumentData, actor: PaperStatusActor) => {
+  assertPaperStatusTransition(paper.status as PaperStatus, "Submitted", actor);
+  return { status: "Submitted", submissionDate: Timestamp.now(), paymentDueDate: null };
+};
+
+/**
+ * Papers are always created as "Payment Pending" (see paper-submission.ts). One whose venue charges
+ * nothing is submitted here, going by the fee worked out from the venue.
+ */
+export const submitFeeFreePaper = async (userId: string, paperId: string): Promise<void> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const submitted = await db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper || paper.userId !== userId) {
+      throw new Error("Paper not found.");
+    }
+    if (paper.status !== "Payment Pending") {
+      return false;
+    }
+    await assertUploadedWithinWindow(paper);
+    const { amount, currency } = await getPaperFee(paper, paperId);
+    if (amount > 0) {
+      throw new Error("This paper has a submission fee to pay.");
+    }
+    transaction.update(paperRef, {
+      submissionFee: 0,
+      currency,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+      ...submittedWithoutPayment(paper, "system"),
+    });
+    return true;
+  });
+  if (submitted) {
+    await notifySubmissionReceived(paperId);
+  }
+};
+
+export const redeemDiscountCode = async (userId: string, paperId: string, rawCode: string): Promise<DiscountRedemption> => {
+  const db = getAdminDb();
+  const code = normalizeDiscountCode(rawCode);
+  if (!code) {
+    throw new Error("Please enter a discount code.");
+  }
+  const paperRef = db.collection("papers").doc(paperId);
+  const codeRef = db.collection("discountCodes").doc(code);
+  const redemptionRef = db.collection("discountRedemptions").doc(paperId);
+
+  // The author's other redemptions are read outside the transaction; filtered in memory to avoid a composite index.
+  const ownRedemptionsSnap = await db.collection("discountRedemptions").where("userId", "==", userId).get();
+  const authorRedemptions = ownRedemptionsSnap.docs.filter(docSnap => docSnap.id !== paperId && docSnap.data().discountCode === code).length;
+
+  // A payment already with the gateway was made at the old fee, so the fee must not change under it.
+  const paymentsSnap = await db.collection("payments").where("paperId", "==", paperId).get();
+  if (paymentsSnap.docs.some(docSnap => docSnap.data().status === "pending")) {
+    throw new Error("A payment for this paper is still being processed, so a discount can no longer be applied.");
+  }
+
+  const redemption = await db.runTransaction(async transaction => {
+    const [paperSnap, codeSnap, redemptionSnap] = await Promise.all([transaction.get(paperRef), transaction.get(codeRef), transaction.get(redemptionRef)]);
+    const paper = paperSnap.data();
+    if (!paper || paper.userId !== userId) {
+      throw new Error("Paper not found.");
+    }
+    if (!isPayable(paper)) {
+      throw new Error(`A discount cannot be applied while the paper is "${paper.status}".`);
+    }
+    await assertUploadedWithinWindow(paper);
+    if (redemptionSnap.exists) {
+      throw new Error(`The discount code ${redemptionSnap.data()?.discountCode} has already been applied to this paper.`);
+    }
+    if (!codeSnap.exists) {
+      throw new Error("This discount code is not valid.");
+    }
+    const discountCode = { id: codeSnap.id, ...codeSnap.data() } as DiscountCode;
+    const { amount: fee, currency } = await getPaperFee(paper, paperId);
+    const error = getDiscountCodeError(discountCode, { venueId: paper.venueId, currency, authorRedemptions });
+    if (error) {
+      throw new Error(error);
+    }
+
+    const discountAmount = computeDiscountAmount(discountCode, fee);
+    const submissionFee = Math.round((fee - discountAmount) * 100) / 100;
+    const coversFee = submissionFee === 0;
+    transaction.update(paperRef, {
+      submissionFee,
+      currency,
+      discountCode: code,
+      discountAmount,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+      ...(coversFee ? submittedWithoutPayment(paper, "system") : {}),
+    });
+    const record: DiscountRedemptionRecord = { paperId, userId, discountCode: code, discountAmount, redeemedAt: new Date().toISOString() };
+    transaction.create(redemptionRef, record);
+    transaction.update(codeRef, { redemptionCount: FieldValue.increment(1), updatedAt: FieldValue.serverTimestamp() });
+    const paperStatus: PaperStatus = coversFee ? "Submitted" : paper.status;
+    return { paperId, discountCode: code, discountAmount, submissionFee, currency, paperStatus };
+  });
+  if (redemption.paperStatus === "Submitted") {
+    await notifySubmissionReceived(paperId);
+  }
+  return redemption;
+};
+
+export interface FeeWaiverRequestInput {
+  reason: FeeWaiverReason;
+  country?: string | null;
+  justification: string;
+}
+
+export const requestFeeWaiver = async (userId: string, paperId: string, input: FeeWaiverRequestInput): Promise<FeeWaiverRequest> => {
+  const db = getAdminDb();
+  const justification = input.justification.trim();
+  const country = input.country?.trim() || null;
+  if (justification.length < MIN_WAIVER_JUSTIFICATION_LENGTH) {
+    throw new Error(`Please explain your request in at least ${MIN_WAIVER_JUSTIFICATION_LENGTH} characters.`);
+  }
+  if (input.reason === "low-income-country" && !country) {
+    throw new Error("Please give the country you are based in.");
+  }
+
+  const paperRef = db.collection("papers").doc(paperId);
+  const waiverRef = db.collection("feeWaivers").doc();
+  const profile = (await db.collection("users").doc(userId).get()).data();
+
+  return db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper || paper.userId !== userId) {
+      throw new Error("Paper not found.");
+    }
+    if (!isPayable(paper)) {
+      throw new Error(`A fee waiver cannot be requested while the paper is "${paper.status}".`);
+    }
+    const fee = await getPaperFee(paper, paperId);
+    if (paper.feeWaiverStatus === "pending") {
+      throw new Error("A fee waiver request for this paper is already awaiting review.");
+    }
+    const waiver: Omit<FeeWaiverRequest, 'id'> = {
+      paperId,
+      paperTitle: paper.title || "",
+      userId,
+      authorName: profile?.displayName || profile?.email || "",
+      reason: input.reason,
+      country,
+      justification,
+      submissionFee: fee.amount,
+      currency: fee.currency,
+      status: "pending",
+      requestedAt: new Date().toISOString(),
+      decidedAt: null,
+      decidedBy: null,
+      decisionNote: null,
+    };
+    transaction.set(waiverRef, waiver);
+    transaction.update(paperRef, { feeWaiverId: waiverRef.id, feeWaiverStatus: "pending", lastUpdatedAt: FieldValue.serverTimestamp() });
+    return { id: waiverRef.id, ...waiver };
+  });
+};
+
+/** Approving a waiver submits the paper without payment; declining it leaves the fee due as before. */
+export const decideFeeWaiver = async (waiverId: string, approve: boolean, adminId: string, note?: string | null): Promise<FeeWaiverRequest> => {
+  const db = getAdminDb();
+  const waiverRef = db.collection("feeWaivers").doc(waiverId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  const decided = await db.runTransaction(async transaction => {
+    const waiverSnap = await transaction.get(waiverRef);
+    if (!waiverSnap.exists) {
+      throw new Error("Fee waiver request not found.");
+    }
+    const waiver = { id: waiverSnap.id, ...waiverSnap.data() } as FeeWaiverRequest;
+    if (waiver.status !== "pending") {
+      throw new Error("This fee waiver request has already been decided.");
+    }
+    const paperRef = db.collection("papers").doc(waiver.paperId);
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper) {
+      throw new Error("Paper not found.");
+    }
+
+    const decision: Partial<FeeWaiverRequest> = {
+      status: approve ? "approved" : "rejected",
+      decidedAt: new Date().toISOString(),
+      decidedBy: adminId,
+      decisionNote: note?.trim() || null,
+    };
+    if (approve && !isPayable(paper)) {
+      throw new Error(`The paper is now "${paper.status}", so its fee can no longer be waived.`);
+    }
+    transaction.update(waiverRef, decision);
+    transaction.update(paperRef, {
+      feeWaiverStatus: decision.status,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+      ...(approve ? submittedWithoutPayment(paper, "admin") : {}),
+    });
+    addAuditEvent(transaction, auditActor, {
+      action: "fee-waiver.decide",
+      targetType: "feeWaiver",
+      targetId: waiverId,
+      targetLabel: waiver.paperTitle,
+      before: { status: "pending" },
+      after: { status: decision.status, decisionNote: decision.decisionNote },
+    });
+    return { ...waiver, ...decision };
+  });
+  if (decided.status === "approved") {
+    await notifySubmissionReceived(decided.paperId);
+  }
+  return decided;
+};
+
+export type DiscountCodeInput = Omit<DiscountCode, 'id' | 'redemptionCount' | 'createdAt' | 'updatedAt'>;
+
+// The code is the document ID, so creating one that already exists is refused rather than overwriting its redemptions.
+export const createDiscountCode = async (adminId: string, rawCode: string, input: DiscountCodeInput): Promise<string> => {
+  const db = getAdminDb();
+  const code = normalizeDiscountCode(rawCode);
+  if (!code) {
+    throw new Error("Please enter a discount code.");
+  }
+  const codeRef = db.collection("discountCodes").doc(code);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  await db.runTransaction(async transaction => {
+    if ((await transaction.get(codeRef)).exists) {
+      throw new Error(`The discount code ${code} already exists.`);
+    }
+    transaction.create(codeRef, { ...input, redemptionCount: 0, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, { action: "discount-code.create", targetType: "discountCode", targetId: code, targetLabel: code, after: { ...input } });
+  });
+  return code;
+};
+
+export const updateDiscountCode = async (adminId: string, codeId: string, input: Partial<DiscountCodeInput>): Promise<void> => {
+  const db = getAdminDb();
+  const codeRef = db.collection("discountCodes").doc(codeId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  await db.runTransaction(async transaction => {
+    const previous = (await transaction.get(codeRef)).data();
+    if (!previous) {
+      throw new Error("Discount code not found.");
+    }
+    transaction.update(codeRef, { ...input, updatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, {
+      action: "discount-code.update",
+      targetType: "discountCode",
+      targetId: codeId,
+      targetLabel: codeId,
+      before: pickAuditFields(previous, input),
+      after: { ...input },
+    });
+  });
+};
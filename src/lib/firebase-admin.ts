@@ -0,0 +1,23 @@
+
+import { initializeApp, getApps, cert, applicationDefault, type App } from "firebase-admin/app";
+import { getAuth, type Auth } from "firebase-admin/auth";
+import { getFirestore, type Firestore } from "firebase-admin/firestore";
+
+// Privileged Firebase access for server-side jobs. It bypasses the Firestore security rules,
+// so it must never be imported from client components.
+//
+// Credentials come from FIREBASE_SERVICE_ACCOUNT (the service account key JSON) or, when that
+// is not set, from the runtime's application default credentials.
+const getAdminApp = (): App => {
+  const existing = getApps()[0];
+  if (existing) return existing;
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  return initializeApp({
+    credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+    projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+  });
+};
+
+export const getAdminDb = (): Firestore => getFirestore(getAdminApp());
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
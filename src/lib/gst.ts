@@ -0,0 +1,45 @@
+
+import type { GstBreakdown } from '@/types';
+
+export const DEFAULT_GST_RATE = 18;
+
+// 2-digit state code, 10-character PAN, entity number, "Z", checksum character.
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+export const isValidGstin = (gstin: string): boolean => GSTIN_PATTERN.test(gstin.trim().toUpperCase());
+
+export const getGstinStateCode = (gstin: string | null | undefined): string | null =>
+  gstin && isValidGstin(gstin) ? gstin.trim().slice(0, 2) : null;
+
+export const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Splits a GST-inclusive amount into its taxable value and tax. Fees are listed inclusive of GST,
+ * so the author pays exactly the venue's fee and the tax is carved out of it.
+ */
+export const computeGstBreakdown = (total: number, rate: number, interState: boolean): GstBreakdown => {
+  const taxableAmount = roundMoney(total / (1 + rate / 100));
+  const tax = roundMoney(total - taxableAmount);
+  const cgst = interState ? 0 : roundMoney(tax / 2);
+  return {
+    rate,
+    taxableAmount,
+    cgst,
+    sgst: interState ? 0 : roundMoney(tax - cgst),
+    igst: interState ? tax : 0,
+    total: roundMoney(total),
+  };
+};
+
+// Indian financial year (April to March, in IST), e.g. "2026-27".
+export const getFinancialYear = (date: Date): string => {
+  const ist = new Date(date.getTime() + 330 * 60 * 1000);
+  const startYear = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+};
+
+// GST invoice numbers must be unique and consecutive within a financial year.
+export const formatDocumentNumber = (prefix: string, financialYear: string, sequence: number): string =>
+  `${prefix}/${financialYear}/${String(sequence).padStart(5, "0")}`;
+
+export const formatMoney = (amount: number, currency: string): string => `${currency} ${amount.toFixed(2)}`;
@@ -0,0 +1,105 @@
+'use server';
+
+import type { Institution, InstitutionInvite, InstitutionInvoice, InstitutionMember, InstitutionUsageRecord } from '@/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import {
+  acceptInvite,
+  coverPaperWithInstitution,
+  getInstitutionMembers,
+  getInstitutionUsage,
+  inviteMember,
+  joinByEmailDomain,
+  removeMember,
+  revokeInvite,
+  saveInstitution as saveInstitutionRecord,
+  type InstitutionInput,
+} from '@/lib/institution-membership';
+import { issueInstitutionInvoice, markInstitutionInvoicePaid } from '@/lib/invoicing';
+import { getEmailDomain } from '@/lib/institutions';
+
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const isPlatformAdmin = async (uid: string): Promise<boolean> =>
+  (await getAdminDb().collection('users').doc(uid).get()).data()?.isAdmin === true;
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  if (!(await isPlatformAdmin(uid))) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+// The institution's own admins manage its seats and see its usage; platform admins can do the same.
+const verifyInstitutionAdmin = async (idToken: string, institutionId: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  const institution = (await getAdminDb().collection('institutions').doc(institutionId).get()).data();
+  if (!institution?.adminIds?.includes(uid) && !(await isPlatformAdmin(uid))) {
+    throw new Error('Only the institution\'s admins can do this.');
+  }
+  return uid;
+};
+
+export async function saveInstitution(idToken: string, institutionId: string | null, input: InstitutionInput): Promise<Institution> {
+  return saveInstitutionRecord(await verifyAdmin(idToken), institutionId, input);
+}
+
+export async function inviteInstitutionMember(idToken: string, institutionId: string, email: string): Promise<InstitutionInvite> {
+  return inviteMember(institutionId, email, await verifyInstitutionAdmin(idToken, institutionId));
+}
+
+export async function revokeInstitutionInvite(idToken: string, institutionId: string, inviteId: string): Promise<void> {
+  return revokeInvite(institutionId, inviteId, await verifyInstitutionAdmin(idToken, institutionId));
+}
+
+export async function removeInstitutionMember(idToken: string, institutionId: string, memberId: string): Promise<void> {
+  return removeMember(institutionId, memberId, await verifyInstitutionAdmin(idToken, institutionId));
+}
+
+export async function leaveInstitution(idToken: string, institutionId: string): Promise<void> {
+  return removeMember(institutionId, await verifyUser(idToken));
+}
+
+export async function acceptInstitutionInvite(idToken: string, inviteId: string): Promise<Institution> {
+  return acceptInvite(inviteId, await verifyUser(idToken));
+}
+
+export async function joinInstitution(idToken: string, institutionId: string): Promise<Institution> {
+  return joinByEmailDomain(institutionId, await verifyUser(idToken));
+}
+
+export async function applyInstitutionAllowanceToPaper(idToken: string, paperId: string): Promise<Institution> {
+  return coverPaperWithInstitution(await verifyUser(idToken), paperId);
+}
+
+export async function listInstitutionMembers(idToken: string, institutionId: string): Promise<InstitutionMember[]> {
+  await verifyInstitutionAdmin(idToken, institutionId);
+  return getInstitutionMembers(institutionId);
+}
+
+export async function getInstitutionUsageReport(idToken: string, institutionId: string): Promise<InstitutionUsageRecord[]> {
+  await verifyInstitutionAdmin(idToken, institutionId);
+  return getInstitutionUsage(institutionId);
+}
+
+export async function invoiceInstitution(idToken: string, institutionId: string): Promise<InstitutionInvoice> {
+  return issueInstitutionInvoice(await verifyAdmin(idToken), institutionId);
+}
+
+export async function recordInstitutionInvoicePayment(idToken: string, invoiceId: string, paymentReference: string): Promise<InstitutionInvoice> {
+  return markInstitutionInvoicePaid(await verifyAdmin(idToken), invoiceId, paymentReference);
+}
+
+// Institutions the signed-in user could join with their verified email address.
+export async function getJoinableInstitutions(idToken: string): Promise<Array<Pick<Institution, 'id' | 'name'>>> {
+  const uid = await verifyUser(idToken);
+  const authUser = await getAdminAuth().getUser(uid);
+  const domain = getEmailDomain(authUser.email);
+  if (!authUser.emailVerified || !domain) {
+    return [];
+  }
+  const snap = await getAdminDb().collection('institutions').where('emailDomains', 'array-contains', domain).get();
+  return snap.docs
+    .filter(docSnap => docSnap.data().isActive && !docSnap.data().memberIds?.includes(uid))
+    .map(docSnap => ({ id: docSnap.id, name: docSnap.data().name }));
+}
@@ -0,0 +1,397 @@
+
+import { FieldValue, Timestamp, type DocumentData, type DocumentReference, type Transaction } from "firebase-admin/firestore";
+import type { Institution, InstitutionInvite, InstitutionMember, InstitutionUsageRecord, PaperStatus } from '@/types';
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import { isPayable } from "@/lib/payment-processing";
+import { submittedWithoutPayment } from "@/lib/fee-adjustments";
+import { isValidGstin } from "@/lib/gst";
+import { EMAIL_DOMAIN_PATTERN, getFreeSeats, getRemainingInstitutionSubmissions, matchesInstitutionDomain, normalizeEmailDomain } from "@/lib/institutions";
+import { notifySubmissionReceived } from "@/lib/notification-delivery";
+import { pickAuditFields } from "@/lib/audit";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Institutional memberships: platform admins set up an institution and its admins, institution
+ * admins hand out seats by invitation, and anyone with a verified email at one of the institution's
+ * domains can take a free seat. Members' submissions are covered by the institution's pooled
+ * allowance and billed later on a consolidated invoice (see invoicing.ts). Callers check who may
+ * manage an institution (see institution-actions.ts); this module keeps memberships consistent and
+ * commits each admin's change together with its audit log entry.
+ */
+
+const MAX_PAPER_QUERY_IDS = 30; // Firestore's limit for "in" queries
+
+export interface InstitutionInput {
+  name: string;
+  emailDomains: string[];
+  adminEmails: string[]; // Must belong to existing accounts; they become members too
+  seatLimit: number;
+  submissionAllowance: number;
+  submissionRate: number;
+  currency: string;
+  periodStart: string; // ISO date string
+  periodEnd: string; // ISO date string
+  billingEmail?: string | null;
+  billingAddress?: string | null;
+  gstin?: string | null;
+  isActive: boolean;
+}
+
+const loadInstitution = async (transaction: Transaction, institutionRef: DocumentReference): Promise<Institution> => {
+  const snap = await transaction.get(institutionRef);
+  if (!snap.exists) {
+    throw new Error("Institution not found.");
+  }
+  return { id: snap.id, ...snap.data() } as Institution;
+};
+
+const assertNotInOtherInstitution = (profile: DocumentData | undefined, institutionId: string, who = "You are") => {
+  if (profile?.institutionId && profile.institutionId !== institutionId) {
+    throw new Error(`${who} already a member of another institution.`);
+  }
+};
+
+const findUserIdByEmail = async (email: string): Promise<string> => {
+  try {
+    return (await getAdminAuth().getUserByEmail(email)).uid;
+  } catch {
+    throw new Error(`No account uses ${email}.`);
+  }
+};
+
+export const saveInstitution = async (adminId: string, institutionId: string | null, input: InstitutionInput): Promise<Institution> => {
+  const db = getAdminDb();
+  const name = input.name.trim();
+  const emailDomains = Array.from(new Set(input.emailDomains.map(normalizeEmailDomain).filter(Boolean)));
+  const invalidDomain = emailDomains.find(domain => !EMAIL_DOMAIN_PATTERN.test(domain));
+  if (!name) {
+    throw new Error("Please give the institution a name.");
+  }
+  if (invalidDomain) {
+    throw new Error(`"${invalidDomain}" is not an email domain.`);
+  }
+  if (!(new Date(input.periodEnd) > new Date(input.periodStart))) {
+    throw new Error("The membership period must end after it starts.");
+  }
+  if (input.gstin?.trim() && !isValidGstin(input.gstin)) {
+    throw new Error("The GSTIN is not valid.");
+  }
+  if (input.seatLimit < 1 || input.submissionAllowance < 0 || input.submissionRate < 0) {
+    throw new Error("Seats, allowance and rate cannot be negative, and at least one seat is needed.");
+  }
+  const adminIds = Array.from(new Set(await Promise.all(input.adminEmails.map(email => findUserIdByEmail(email.trim().toLowerCase())))));
+  if (adminIds.length === 0) {
+    throw new Error("Every institution needs at least one admin.");
+  }
+  const institutionRef = institutionId ? db.collection("institutions").doc(institutionId) : db.collection("institutions").doc();
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  return db.runTransaction(async transaction => {
+    const existing = institutionId ? await loadInstitution(transaction, institutionRef) : null;
+    const adminRefs = adminIds.map(uid => db.collection("users").doc(uid));
+    const adminSnaps = await Promise.all(adminRefs.map(ref => transaction.get(ref)));
+    adminSnaps.forEach(snap => assertNotInOtherInstitution(snap.data(), institutionRef.id, `${snap.data()?.email || snap.id} is`));
+
+    const memberIds = Array.from(new Set([...(existing?.memberIds || []), ...adminIds]));
+    if (memberIds.length > input.seatLimit) {
+      throw new Error(`The institution already has ${memberIds.length} members, more than ${input.seatLimit} seats.`);
+    }
+    const now = new Date().toISOString();
+    // A new period starts with the whole allowance available again.
+    const newPeriod = !existing || existing.periodStart !== input.periodStart;
+    const institution: Omit<Institution, 'id'> = {
+      name,
+      emailDomains,
+      adminIds,
+      memberIds,
+      seatLimit: input.seatLimit,
+      submissionAllowance: input.submissionAllowance,
+      submissionsUsed: newPeriod ? 0 : existing!.submissionsUsed,
+      submissionRate: input.submissionRate,
+      currency: input.currency.trim().toUpperCase(),
+      periodStart: input.periodStart,
+      periodEnd: input.periodEnd,
+      billingEmail: input.billingEmail?.trim() || null,
+      billingAddress: input.billingAddress?.trim() || null,
+      gstin: input.gstin?.trim().toUpperCase() || null,
+      isActive: input.isActive,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now,
+    };
+    transaction.set(institutionRef, institution);
+    adminRefs.forEach(ref => transaction.update(ref, { institutionId: institutionRef.id, updatedAt: FieldValue.serverTimestamp() }));
+    addAuditEvent(transaction, auditActor, {
+      action: "institution.save",
+      targetType: "institution",
+      targetId: institutionRef.id,
+      targetLabel: name,
+      before: existing ? pickAuditFields({ ...existing }, { ...input }) : null,
+      after: { ...input },
+    });
+    return { id: institutionRef.id, ...institution };
+  });
+};
+
+export const inviteMember = async (institutionId: string, rawEmail: string, invitedBy: string): Promise<InstitutionInvite> => {
+  const db = getAdminDb();
+  const email = rawEmail.trim().toLowerCase();
+  if (!/^[^@\s]+@[^@\s]+$/.test(email)) {
+    throw new Error("Please enter a valid email address.");
+  }
+  const institutionRef = db.collection("institutions").doc(institutionId);
+  const invitesSnap = await db.collection("institutionInvites").where("institutionId", "==", institutionId).get();
+  const pendingInvites = invitesSnap.docs.map(docSnap => docSnap.data()).filter(invite => invite.status === "pending");
+  if (pendingInvites.some(invite => invite.email === email)) {
+    throw new Error(`${email} has already been invited.`);
+  }
+  const inviteRef = db.collection("institutionInvites").doc();
+  const auditActor = await resolveAuditActor({ id: invitedBy });
+
+  return db.runTransaction(async transaction => {
+    const institution = await loadInstitution(transaction, institutionRef);
+    const members = await Promise.all(institution.memberIds.map(uid => transaction.get(db.collection("users").doc(uid))));
+    if (members.some(member => member.data()?.email?.toLowerCase() === email)) {
+      throw new Error(`${email} is already a member.`);
+    }
+    if (getFreeSeats(institution, pendingInvites.length) === 0) {
+      throw new Error("Every seat is taken or already offered. Revoke an invite or ask for more seats.");
+    }
+    const invite: Omit<InstitutionInvite, 'id'> = {
+      institutionId,
+      institutionName: institution.name,
+      email,
+      invitedBy,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      respondedAt: null,
+      userId: null,
+    };
+    transaction.set(inviteRef, invite);
+    addAuditEvent(transaction, auditActor, {
+      action: "institution.invite",
+      targetType: "institution",
+      targetId: institutionId,
+      targetLabel: institution.name,
+      after: { inviteId: inviteRef.id, email },
+    });
+    return { id: inviteRef.id, ...invite };
+  });
+};
+
+export const revokeInvite = async (institutionId: string, inviteId: string, revokedBy: string): Promise<void> => {
+  const db = getAdminDb();
+  const inviteRef = db.collection("institutionInvites").doc(inviteId);
+  const auditActor = await resolveAuditActor({ id: revokedBy });
+
+  await db.runTransaction(async transaction => {
+    const invite = (await transaction.get(inviteRef)).data();
+    if (invite?.institutionId !== institutionId) {
+      throw new Error("Invitation not found.");
+    }
+    if (invite.status !== "pending") {
+      throw new Error("This invitation is no longer pending.");
+    }
+    transaction.update(inviteRef, { status: "revoked", respondedAt: new Date().toISOString() });
+    addAuditEvent(transaction, auditActor, {
+      action: "institution.revoke-invite",
+      targetType: "institution",
+      targetId: institutionId,
+      targetLabel: invite.institutionName || null,
+      before: { inviteId, email: invite.email, status: "pending" },
+      after: { inviteId, status: "revoked" },
+    });
+  });
+};
+
+// Checks for a free seat and adds the member in the same transaction; the caller does its own reads first.
+const addMember = async (transaction: Transaction, institution: Institution, userId: string, pendingInvites: number): Promise<void> => {
+  const db = getAdminDb();
+  const userRef = db.collection("users").doc(userId);
+  const profile = (await transaction.get(userRef)).data();
+  assertNotInOtherInstitution(profile, institution.id);
+  if (institution.memberIds.includes(userId)) {
+    throw new Error(`You are already a member of ${institution.name}.`);
+  }
+  if (getFreeSeats(institution, pendingInvites) === 0) {
+    throw new Error(`${institution.name} has no free seats.`);
+  }
+  transaction.update(db.collection("institutions").doc(institution.id), { memberIds: FieldValue.arrayUnion(userId), updatedAt: new Date().toISOString() });
+  transaction.update(userRef, { institutionId: institution.id, updatedAt: FieldValue.serverTimestamp() });
+};
+
+export const acceptInvite = async (inviteId: string, userId: string): Promise<Institution> => {
+  const db = getAdminDb();
+  const { email, emailVerified } = await getAdminAuth().getUser(userId);
+  // The invite is matched by email address, so the address must be shown to belong to the user first.
+  if (!emailVerified) {
+    throw new Error("Please verify your email address before accepting the invitation.");
+  }
+  const inviteRef = db.collection("institutionInvites").doc(inviteId);
+
+  return db.runTransaction(async transaction => {
+    const inviteSnap = await transaction.get(inviteRef);
+    const invite = inviteSnap.data() as Omit<InstitutionInvite, 'id'> | undefined;
+    if (!invite || invite.email !== email?.toLowerCase()) {
+      throw new Error("Invitation not found.");
+    }
+    if (invite.status !== "pending") {
+      throw new Error("This invitation is no longer valid.");
+    }
+    const institution = await loadInstitution(transaction, db.collection("institutions").doc(invite.institutionId));
+    // The invite being accepted already holds one of the offered seats.
+    await addMember(transaction, institution, userId, 0);
+    transaction.update(inviteRef, { status: "accepted", respondedAt: new Date().toISOString(), userId });
+    return { ...institution, memberIds: [...institution.memberIds, userId] };
+  });
+};
+
+// Verified addresses at one of the institution's domains can join without an invite while seats remain.
+export const joinByEmailDomain = async (institutionId: string, userId: string): Promise<Institution> => {
+  const db = getAdminDb();
+  const authUser = await getAdminAuth().getUser(userId);
+  const invitesSnap = await db.collection("institutionInvites").where("institutionId", "==", institutionId).get();
+  const pendingInvites = invitesSnap.docs.filter(docSnap => docSnap.data().status === "pending").length;
+
+  return db.runTransaction(async transaction => {
+    const institution = await loadInstitution(transaction, db.collection("institutions").doc(institutionId));
+    if (!authUser.emailVerified || !matchesInstitutionDomain(authUser.email, institution)) {
+      throw new Error(`Only verified email addresses at ${institution.emailDomains.join(", ")} can join ${institution.name} without an invitation.`);
+    }
+    await addMember(transaction, institution, userId, pendingInvites);
+    return { ...institution, memberIds: [...institution.memberIds, userId] };
+  });
+};
+
+// Removes a member, or lets one leave. Papers they already submitted stay on the institution's bill.
+// Removals by an admin (removedBy) are audited; a member leaving is not.
+export const removeMember = async (institutionId: string, memberId: string, removedBy?: string): Promise<void> => {
+  const db = getAdminDb();
+  const institutionRef = db.collection("institutions").doc(institutionId);
+  const auditActor = removedBy ? await resolveAuditActor({ id: removedBy }) : null;
+
+  await db.runTransaction(async transaction => {
+    const institution = await loadInstitution(transaction, institutionRef);
+    if (!institution.memberIds.includes(memberId)) {
+      throw new Error("Not a member of this institution.");
+    }
+    if (institution.adminIds.length === 1 && institution.adminIds[0] === memberId) {
+      throw new Error("The institution's only admin cannot leave. Ask the ResearchSphere team to appoint another admin first.");
+    }
+    transaction.update(institutionRef, {
+      memberIds: FieldValue.arrayRemove(memberId),
+      adminIds: FieldValue.arrayRemove(memberId),
+      updatedAt: new Date().toISOString(),
+    });
+    transaction.update(db.collection("users").doc(memberId), { institutionId: null, updatedAt: FieldValue.serverTimestamp() });
+    if (auditActor) {
+      addAuditEvent(transaction, auditActor, {
+        action: "institution.remove-member",
+        targetType: "institution",
+        targetId: institutionId,
+        targetLabel: institution.name,
+        before: { memberId },
+      });
+    }
+  });
+};
+
+// Submits an unpaid paper against the author's institution, using up one submission from its allowance.
+export const coverPaperWithInstitution = async (userId: string, paperId: string): Promise<Institution> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const userRef = db.collection("users").doc(userId);
+
+  const paymentsSnap = await db.collection("payments").where("paperId", "==", paperId).get();
+  if (paymentsSnap.docs.some(docSnap => docSnap.data().status === "pending")) {
+    throw new Error("A payment for this paper is still being processed, so it cannot be covered by your institution.");
+  }
+
+  const covered = await db.runTransaction(async transaction => {
+    const [paperSnap, userSnap] = await Promise.all([transaction.get(paperRef), transaction.get(userRef)]);
+    const paper = paperSnap.data();
+    if (!paper || paper.userId !== userId) {
+      throw new Error("Paper not found.");
+    }
+    if (!isPayable(paper)) {
+      throw new Error(`An institution allowance cannot be used while the paper is "${paper.status}".`);
+    }
+    if (paper.feeWaiverStatus === "pending") {
+      throw new Error("A fee waiver request for this paper is awaiting review.");
+    }
+    const institutionId: string | undefined = userSnap.data()?.institutionId;
+    if (!institutionId) {
+      throw new Error("You are not a member of an institution.");
+    }
+    const institutionRef = db.collection("institutions").doc(institutionId);
+    const institution = await loadInstitution(transaction, institutionRef);
+    if (!institution.memberIds.includes(userId)) {
+      throw new Error("You are not a member of an institution.");
+    }
+    if (getRemainingInstitutionSubmissions(institution) === 0) {
+      throw new Error(`${institution.name} has no submissions left in its allowance.`);
+    }
+
+    transaction.update(paperRef, {
+      institutionId,
+      institutionInvoiceId: null,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+      ...submittedWithoutPayment(paper, "system"),
+    });
+    transaction.update(institutionRef, { submissionsUsed: FieldValue.increment(1), updatedAt: new Date().toISOString() });
+    return { ...institution, submissionsUsed: institution.submissionsUsed + 1 };
+  });
+  await notifySubmissionReceived(paperId);
+  return covered;
+};
+
+/** The institution's members, sorted by name, with only what its admins need to manage seats. */
+export const getInstitutionMembers = async (institutionId: string): Promise<InstitutionMember[]> => {
+  const db = getAdminDb();
+  const memberIds: string[] = (await db.collection("institutions").doc(institutionId).get()).data()?.memberIds || [];
+  const memberSnaps = memberIds.length > 0 ? await db.getAll(...memberIds.map(uid => db.collection("users").doc(uid))) : [];
+  return memberSnaps
+    .filter(snap => snap.exists)
+    .map(snap => ({ id: snap.id, displayName: snap.data()?.displayName || null, email: snap.data()?.email || null }))
+    .sort((a, b) => (a.displayName || a.email || "").localeCompare(b.displayName || b.email || ""));
+};
+
+const toIsoDate = (value: unknown): string | null =>
+  value instanceof Timestamp ? value.toDate().toISOString() : (typeof value === "string" ? value : null);
+
+/** Every submission by current members, plus covered submissions by people who have since left. */
+export const getInstitutionUsage = async (institutionId: string): Promise<InstitutionUsageRecord[]> => {
+  const db = getAdminDb();
+  const institutionSnap = await db.collection("institutions").doc(institutionId).get();
+  if (!institutionSnap.exists) {
+    throw new Error("Institution not found.");
+  }
+  const memberIds: string[] = institutionSnap.data()?.memberIds || [];
+  const chunks: string[][] = [];
+  for (let i = 0; i < memberIds.length; i += MAX_PAPER_QUERY_IDS) {
+    chunks.push(memberIds.slice(i, i + MAX_PAPER_QUERY_IDS));
+  }
+  const snapshots = await Promise.all([
+    db.collection("papers").where("institutionId", "==", institutionId).get(),
+    ...chunks.map(chunk => db.collection("papers").where("userId", "in", chunk).get()),
+  ]);
+  const papers = new Map(snapshots.flatMap(snap => snap.docs).map(docSnap => [docSnap.id, docSnap.data()]));
+
+  const authorIds = Array.from(new Set(Array.from(papers.values()).map(paper => paper.userId as string)));
+  const authorSnaps = authorIds.length > 0 ? await db.getAll(...authorIds.map(uid => db.collection("users").doc(uid))) : [];
+  const authorNames = new Map(authorSnaps.map(snap => [snap.id, snap.data()?.displayName || snap.data()?.email || snap.id]));
+
+  return Array.from(papers.entries())
+    .filter(([, paper]) => paper.status !== "Draft")
+    .map(([paperId, paper]) => ({
+      paperId,
+      paperTitle: paper.title || "",
+      authorId: paper.userId,
+      authorName: authorNames.get(paper.userId) || paper.userId,
+      venueId: paper.venueId || null,
+      status: paper.status as PaperStatus,
+      submittedAt: toIsoDate(paper.submissionDate) || toIsoDate(paper.uploadDate),
+      coveredByInstitution: paper.institutionId === institutionId,
+      invoiceId: paper.institutionInvoiceId || null,
+    }))
+    .sort((a, b) => (b.submittedAt || "").localeCompare(a.submittedAt || ""));
+};
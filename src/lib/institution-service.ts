@@ -0,0 +1,85 @@
+"use client";
+
+import { collection, doc, getDoc, getDocs, query, where } from "firebase/firestore";
+import { auth, db as firestoreDb } from "@/lib/firebase";
+import type { Institution, InstitutionInvite, InstitutionInvoice, InstitutionMember } from '@/types';
+import { listInstitutionMembers } from "@/lib/institution-actions";
+
+// Institutions, invites and consolidated invoices are written by the server (see institution-membership.ts and invoicing.ts).
+
+export const getInstitutions = async (): Promise<Institution[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(collection(firestoreDb, "institutions"));
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as Institution)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error("Institution Service (getInstitutions): Error fetching institutions:", error);
+    throw error;
+  }
+};
+
+export const getInstitution = async (institutionId: string): Promise<Institution | null> => {
+  if (!firestoreDb) {
+    return null;
+  }
+  const institutionSnap = await getDoc(doc(firestoreDb, "institutions", institutionId));
+  return institutionSnap.exists() ? ({ id: institutionSnap.id, ...institutionSnap.data() } as Institution) : null;
+};
+
+// Members' profiles are not readable by institution admins, so the server returns what the seat list shows.
+export const getInstitutionMembers = async (institutionId: string): Promise<InstitutionMember[]> => {
+  if (!auth.currentUser) {
+    return [];
+  }
+  return listInstitutionMembers(await auth.currentUser.getIdToken(), institutionId);
+};
+
+// Newest first; sorted in memory to avoid a composite index.
+const getInvites = async (field: "institutionId" | "email", value: string): Promise<InstitutionInvite[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const querySnapshot = await getDocs(query(collection(firestoreDb, "institutionInvites"), where(field, "==", value)));
+  return querySnapshot.docs
+    .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as InstitutionInvite)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const getInstitutionInvites = async (institutionId: string): Promise<InstitutionInvite[]> => {
+  try {
+    return await getInvites("institutionId", institutionId);
+  } catch (error) {
+    console.error("Institution Service (getInstitutionInvites): Error fetching invites:", error);
+    throw error;
+  }
+};
+
+export const getPendingInvitesForEmail = async (email: string): Promise<InstitutionInvite[]> => {
+  try {
+    return (await getInvites("email", email.toLowerCase())).filter(invite => invite.status === "pending");
+  } catch (error) {
+    console.error("Institution Service (getPendingInvitesForEmail): Error fetching invites:", error);
+    throw error;
+  }
+};
+
+// All institutions' invoices for admins, or one institution's for its own admins.
+export const getInstitutionInvoices = async (institutionId?: string): Promise<InstitutionInvoice[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const invoicesRef = collection(firestoreDb, "institutionInvoices");
+    const querySnapshot = await getDocs(institutionId ? query(invoicesRef, where("institutionId", "==", institutionId)) : invoicesRef);
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as InstitutionInvoice)
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  } catch (error) {
+    console.error("Institution Service (getInstitutionInvoices): Error fetching invoices:", error);
+    throw error;
+  }
+};
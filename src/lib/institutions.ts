@@ -0,0 +1,82 @@
+
+import type { Institution, InstitutionInviteStatus, InstitutionUsageRecord, PaperStatus } from '@/types';
+import { toCsv } from '@/lib/utils';
+
+export const EMAIL_DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+export const INSTITUTION_INVITE_STATUS_LABELS: Record<InstitutionInviteStatus, string> = {
+  pending: "Invited",
+  accepted: "Accepted",
+  revoked: "Revoked",
+};
+
+// Domains are compared lower-cased and without a leading "@".
+export const normalizeEmailDomain = (domain: string): string => domain.trim().toLowerCase().replace(/^@/, "");
+
+export const getEmailDomain = (email: string | null | undefined): string | null => {
+  const at = email?.lastIndexOf("@") ?? -1;
+  return email && at > 0 ? normalizeEmailDomain(email.slice(at + 1)) : null;
+};
+
+export const matchesInstitutionDomain = (email: string | null | undefined, institution: Pick<Institution, 'emailDomains'>): boolean => {
+  const domain = getEmailDomain(email);
+  return !!domain && institution.emailDomains.includes(domain);
+};
+
+export const isInstitutionPeriodActive = (institution: Institution, now: Date = new Date()): boolean =>
+  institution.isActive && new Date(institution.periodStart) <= now && now < new Date(institution.periodEnd);
+
+export const getRemainingInstitutionSubmissions = (institution: Institution | null | undefined, now: Date = new Date()): number =>
+  institution && isInstitutionPeriodActive(institution, now) ? Math.max(institution.submissionAllowance - institution.submissionsUsed, 0) : 0;
+
+export const getFreeSeats = (institution: Pick<Institution, 'seatLimit' | 'memberIds'>, pendingInvites = 0): number =>
+  Math.max(institution.seatLimit - institution.memberIds.length - pendingInvites, 0);
+
+export interface InstitutionUsageSummary {
+  totalSubmissions: number;
+  coveredSubmissions: number;
+  uninvoicedSubmissions: number; // Covered but not yet on a consolidated invoice
+  byStatus: Partial<Record<PaperStatus, number>>;
+  byMember: Array<{ authorId: string; authorName: string; submissions: number; covered: number }>;
+  byMonth: Array<{ month: string; submissions: number }>; // YYYY-MM, oldest first
+}
+
+export const summarizeInstitutionUsage = (records: InstitutionUsageRecord[]): InstitutionUsageSummary => {
+  const byStatus: Partial<Record<PaperStatus, number>> = {};
+  const byMember = new Map<string, InstitutionUsageSummary['byMember'][number]>();
+  const byMonth = new Map<string, number>();
+  records.forEach(record => {
+    byStatus[record.status] = (byStatus[record.status] || 0) + 1;
+    const member = byMember.get(record.authorId) || { authorId: record.authorId, authorName: record.authorName, submissions: 0, covered: 0 };
+    member.submissions += 1;
+    member.covered += record.coveredByInstitution ? 1 : 0;
+    byMember.set(record.authorId, member);
+    if (record.submittedAt) {
+      const month = record.submittedAt.slice(0, 7);
+      byMonth.set(month, (byMonth.get(month) || 0) + 1);
+    }
+  });
+  return {
+    totalSubmissions: records.length,
+    coveredSubmissions: records.filter(record => record.coveredByInstitution).length,
+    uninvoicedSubmissions: records.filter(record => record.coveredByInstitution && !record.invoiceId).length,
+    byStatus,
+    byMember: Array.from(byMember.values()).sort((a, b) => b.submissions - a.submissions),
+    byMonth: Array.from(byMonth.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([month, submissions]) => ({ month, submissions })),
+  };
+};
+
+const USAGE_CSV_HEADER = ["Paper ID", "Title", "Author", "Status", "Submitted At", "Covered By Institution", "Invoiced"];
+
+export const buildInstitutionUsageCsv = (records: InstitutionUsageRecord[]): string => toCsv([
+  USAGE_CSV_HEADER,
+  ...records.map(record => [
+    record.paperId,
+    record.paperTitle,
+    record.authorName,
+    record.status,
+    record.submittedAt,
+    record.coveredByInstitution ? "Yes" : "No",
+    record.invoiceId ? "Yes" : "No",
+  ]),
+]);
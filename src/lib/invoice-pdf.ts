@@ -0,0 +1,192 @@
+"use client";
+
+import { jsPDF } from "jspdf";
+import type { CreditNote, GstBreakdown, InstitutionInvoice, Invoice, InvoiceLineItem, InvoiceParty } from '@/types';
+import { formatMoney } from "@/lib/gst";
+
+// Invoices and credit notes are rendered from the stored records, so a download always shows what was issued.
+// Amounts are printed with the currency code because the built-in PDF fonts have no rupee sign.
+
+const PAGE_MARGIN = 20;
+
+interface TaxDocumentLayout {
+  title: string;
+  numberLabel: string;
+  number: string;
+  issuedAt: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply?: string | null;
+  lineItems: InvoiceLineItem[];
+  currency: string;
+  gst: GstBreakdown;
+  footerHeading: string;
+  footerLines: Array<string | null>;
+  footnote: string;
+  fileName: string;
+}
+
+const partyLines = (party: InvoiceParty): string[] => [
+  party.name,
+  party.institution,
+  party.address,
+  party.email,
+  party.gstin ? `GSTIN: ${party.gstin}` : null,
+  party.stateCode ? `State code: ${party.stateCode}` : null,
+].filter((line): line is string => !!line);
+
+const renderTaxDocument = (doc: TaxDocumentLayout): void => {
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageBottom = pdf.internal.pageSize.getHeight() - PAGE_MARGIN - 10;
+  const right = pageWidth - PAGE_MARGIN;
+  let y = PAGE_MARGIN + 5;
+
+  pdf.setFont("helvetica", "bold").setFontSize(18);
+  pdf.text(doc.title, PAGE_MARGIN, y);
+  pdf.setFontSize(10).setFont("helvetica", "normal");
+  pdf.text(`${doc.numberLabel}: ${doc.number}`, right, y - 5, { align: "right" });
+  pdf.text(`Date: ${new Date(doc.issuedAt).toLocaleDateString("en-IN")}`, right, y, { align: "right" });
+  y += 12;
+
+  pdf.setFont("helvetica", "bold").text("From", PAGE_MARGIN, y);
+  pdf.text("Billed To", pageWidth / 2, y);
+  pdf.setFont("helvetica", "normal");
+  const sellerLines = partyLines(doc.seller);
+  const buyerLines = partyLines(doc.buyer);
+  sellerLines.forEach((line, index) => pdf.text(line, PAGE_MARGIN, y + 5 + index * 5));
+  buyerLines.forEach((line, index) => pdf.text(line, pageWidth / 2, y + 5 + index * 5));
+  y += 10 + Math.max(sellerLines.length, buyerLines.length) * 5;
+
+  if (doc.placeOfSupply) {
+    pdf.text(`Place of supply (state code): ${doc.placeOfSupply}`, PAGE_MARGIN, y);
+    y += 8;
+  }
+
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Description", PAGE_MARGIN, y);
+  pdf.text("SAC", 130, y);
+  pdf.text("Taxable Value", right, y, { align: "right" });
+  pdf.line(PAGE_MARGIN, y + 2, right, y + 2);
+  pdf.setFont("helvetica", "normal");
+  y += 8;
+  doc.lineItems.forEach(item => {
+    const description = pdf.splitTextToSize(item.description, 100) as string[];
+    // Consolidated invoices can list many submissions, so line items continue on a new page.
+    if (y + description.length * 5 > pageBottom) {
+      pdf.addPage();
+      y = PAGE_MARGIN + 5;
+    }
+    pdf.text(description, PAGE_MARGIN, y);
+    pdf.text(item.sacCode, 130, y);
+    pdf.text(formatMoney(item.amount, doc.currency), right, y, { align: "right" });
+    y += description.length * 5 + 3;
+  });
+  pdf.line(PAGE_MARGIN, y - 2, right, y - 2);
+  y += 4;
+  if (y + 60 > pageBottom) {
+    pdf.addPage();
+    y = PAGE_MARGIN + 5;
+  }
+
+  const totals: Array<[string, number]> = [["Taxable value", doc.gst.taxableAmount]];
+  if (doc.gst.igst > 0) {
+    totals.push([`IGST @ ${doc.gst.rate}%`, doc.gst.igst]);
+  } else if (doc.gst.rate > 0) {
+    totals.push([`CGST @ ${doc.gst.rate / 2}%`, doc.gst.cgst], [`SGST @ ${doc.gst.rate / 2}%`, doc.gst.sgst]);
+  }
+  totals.forEach(([label, amount]) => {
+    pdf.text(label, 130, y);
+    pdf.text(formatMoney(amount, doc.currency), right, y, { align: "right" });
+    y += 6;
+  });
+  pdf.setFont("helvetica", "bold");
+  pdf.text("Total", 130, y);
+  pdf.text(formatMoney(doc.gst.total, doc.currency), right, y, { align: "right" });
+  pdf.setFont("helvetica", "normal");
+  y += 12;
+
+  if (doc.gst.rate === 0) {
+    pdf.text("No GST charged: fee collected in foreign currency (export of services).", PAGE_MARGIN, y);
+    y += 8;
+  }
+
+  pdf.setFont("helvetica", "bold").text(doc.footerHeading, PAGE_MARGIN, y);
+  pdf.setFont("helvetica", "normal");
+  y += 5;
+  doc.footerLines.filter((line): line is string => !!line).forEach(line => {
+    const wrapped = pdf.splitTextToSize(line, right - PAGE_MARGIN) as string[];
+    pdf.text(wrapped, PAGE_MARGIN, y);
+    y += wrapped.length * 5;
+  });
+
+  pdf.setFontSize(8).text(doc.footnote, PAGE_MARGIN, pdf.internal.pageSize.getHeight() - PAGE_MARGIN);
+  pdf.save(doc.fileName);
+};
+
+const toFileName = (documentNumber: string): string => `${documentNumber.replace(/\//g, "-")}.pdf`;
+
+export const getInvoiceFileName = (invoice: Invoice): string => toFileName(invoice.number);
+
+export const downloadInvoicePdf = (invoice: Invoice): void => renderTaxDocument({
+  title: "Tax Invoice / Receipt",
+  numberLabel: "Invoice No",
+  number: invoice.number,
+  issuedAt: invoice.issuedAt,
+  seller: invoice.seller,
+  buyer: invoice.buyer,
+  placeOfSupply: invoice.placeOfSupply,
+  lineItems: invoice.lineItems,
+  currency: invoice.currency,
+  gst: invoice.gst,
+  footerHeading: "Payment Received",
+  footerLines: [
+    `Paid on: ${new Date(invoice.paidAt).toLocaleString("en-IN")}`,
+    invoice.paymentMethod ? `Method: ${invoice.paymentMethod.toUpperCase()}` : null,
+    `Reference: ${invoice.gatewayPaymentId || invoice.paymentId} (${invoice.gateway})`,
+    `Paper ID: ${invoice.paperId}`,
+  ],
+  footnote: "This is a computer-generated invoice and does not require a signature.",
+  fileName: getInvoiceFileName(invoice),
+});
+
+export const downloadCreditNotePdf = (creditNote: CreditNote): void => renderTaxDocument({
+  title: "Credit Note",
+  numberLabel: "Credit Note No",
+  number: creditNote.number,
+  issuedAt: creditNote.issuedAt,
+  seller: creditNote.seller,
+  buyer: creditNote.buyer,
+  placeOfSupply: creditNote.placeOfSupply,
+  lineItems: creditNote.lineItems,
+  currency: creditNote.currency,
+  gst: creditNote.gst,
+  footerHeading: "Refund Details",
+  footerLines: [
+    `Against invoice: ${creditNote.invoiceNumber}`,
+    `Reason: ${creditNote.reason}`,
+    `Refund reference: ${creditNote.refundId}`,
+    `Paper ID: ${creditNote.paperId}`,
+  ],
+  footnote: "This is a computer-generated credit note and does not require a signature.",
+  fileName: toFileName(creditNote.number),
+});
+
+export const downloadInstitutionInvoicePdf = (invoice: InstitutionInvoice): void => renderTaxDocument({
+  title: "Tax Invoice",
+  numberLabel: "Invoice No",
+  number: invoice.number,
+  issuedAt: invoice.issuedAt,
+  seller: invoice.seller,
+  buyer: invoice.buyer,
+  placeOfSupply: invoice.placeOfSupply,
+  lineItems: invoice.lineItems,
+  currency: invoice.currency,
+  gst: invoice.gst,
+  footerHeading: invoice.status === "paid" ? "Payment Received" : "Payment Due",
+  footerLines: invoice.status === "paid"
+    ? [`Paid on: ${new Date(invoice.paidAt!).toLocaleString("en-IN")}`, invoice.paymentReference ? `Reference: ${invoice.paymentReference}` : null]
+    : [`Please pay by bank transfer and quote invoice number ${invoice.number} as the reference.`],
+  footnote: "This is a computer-generated invoice and does not require a signature.",
+  fileName: toFileName(invoice.number),
+});
@@ -0,0 +1,279 @@
+
+import type { Transaction } from "firebase-admin/firestore";
+import type { CreditNote, Institution, InstitutionInvoice, Invoice, InvoiceParty, PaymentRecord, RefundRecord } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { computeGstBreakdown, DEFAULT_GST_RATE, formatDocumentNumber, getFinancialYear, getGstinStateCode, roundMoney } from "@/lib/gst";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Issues the tax invoice (which doubles as the receipt) for a paid submission fee, the credit
+ * note for each processed refund, and consolidated invoices for submissions covered by an
+ * institution's allowance. Numbers come from a per-financial-year counter in the counters
+ * collection, taken in the same transaction that writes the document, so they stay consecutive
+ * without gaps or duplicates.
+ *
+ * The seller's details come from the environment: INVOICE_SELLER_NAME, INVOICE_SELLER_ADDRESS,
+ * INVOICE_SELLER_EMAIL, INVOICE_SELLER_GSTIN, INVOICE_SELLER_STATE_CODE (defaults to the GSTIN's),
+ * INVOICE_SAC_CODE and GST_RATE.
+ */
+
+export const INVOICE_NUMBER_PREFIX = "INV";
+export const CREDIT_NOTE_NUMBER_PREFIX = "CN";
+
+const DEFAULT_SAC_CODE = "998912"; // Publishing services, on a fee or contract basis
+
+export const getInvoiceSeller = (): InvoiceParty => {
+  const gstin = process.env.INVOICE_SELLER_GSTIN || null;
+  return {
+    name: process.env.INVOICE_SELLER_NAME || "ResearchSphere",
+    address: process.env.INVOICE_SELLER_ADDRESS || null,
+    email: process.env.INVOICE_SELLER_EMAIL || null,
+    gstin,
+    stateCode: process.env.INVOICE_SELLER_STATE_CODE || getGstinStateCode(gstin),
+  };
+};
+
+export const getSacCode = (): string => process.env.INVOICE_SAC_CODE || DEFAULT_SAC_CODE;
+
+// GST is only charged on fees collected in rupees; fees in other currencies are treated as exports of services.
+export const getGstRate = (currency: string): number =>
+  currency === "INR" ? Number(process.env.GST_RATE || DEFAULT_GST_RATE) : 0;
+
+// Reads the next number in a series; the caller writes the counter back in the same transaction.
+const reserveDocumentNumber = async (transaction: Transaction, series: string, prefix: string, date: Date) => {
+  const financialYear = getFinancialYear(date);
+  const counterRef = getAdminDb().collection("counters").doc(`${series}-${financialYear}`);
+  const sequence: number = (await transaction.get(counterRef)).data()?.next || 1;
+  return { number: formatDocumentNumber(prefix, financialYear, sequence), counterRef, next: sequence + 1 };
+};
+
+export const issueInvoiceForPayment = async (paymentId: string): Promise<Invoice> => {
+  const db = getAdminDb();
+  const paymentRef = db.collection("payments").doc(paymentId);
+  const invoiceRef = db.collection("invoices").doc(paymentId);
+
+  return db.runTransaction(async transaction => {
+    const existing = await transaction.get(invoiceRef);
+    if (existing.exists) {
+      return { id: existing.id, ...existing.data() } as Invoice;
+    }
+    const paymentSnap = await transaction.get(paymentRef);
+    if (!paymentSnap.exists) {
+      throw new Error("Payment not found.");
+    }
+    const payment = { id: paymentSnap.id, ...paymentSnap.data() } as PaymentRecord;
+    if (!payment.paidAt) {
+      throw new Error("Invoices are only issued for paid payments.");
+    }
+    const paperSnap = await transaction.get(db.collection("papers").doc(payment.paperId));
+    const paperTitle: string = paperSnap.data()?.title || "";
+    const discountCode: string | null = paperSnap.data()?.discountCode || null;
+
+    const issuedAt = new Date();
+    const reserved = await reserveDocumentNumber(transaction, "invoices", INVOICE_NUMBER_PREFIX, new Date(payment.paidAt));
+
+    const seller = getInvoiceSeller();
+    const buyer: InvoiceParty = {
+      name: payment.payer?.name || "",
+      email: payment.payer?.email || null,
+      institution: payment.payer?.institution || null,
+      gstin: payment.payer?.gstin || null,
+      stateCode: getGstinStateCode(payment.payer?.gstin),
+    };
+    // Place of supply is the buyer's state when known (from their GSTIN), otherwise the seller's.
+    const placeOfSupply = buyer.stateCode || seller.stateCode || null;
+    const interState = !!placeOfSupply && !!seller.stateCode && placeOfSupply !== seller.stateCode;
+    const gst = computeGstBreakdown(payment.amount, getGstRate(payment.currency), interState);
+
+    const invoice: Omit<Invoice, 'id'> = {
+      number: reserved.number,
+      paymentId: payment.id,
+      paperId: payment.paperId,
+      paperTitle,
+      userId: payment.userId,
+      issuedAt: issuedAt.toISOString(),
+      seller,
+      buyer,
+      placeOfSupply,
+      lineItems: [{
+        description: `Article submission fee: ${paperTitle || payment.paperId}${discountCode ? ` (discount code ${discountCode})` : ""}`,
+        sacCode: getSacCode(),
+        amount: gst.taxableAmount,
+      }],
+      currency: payment.currency,
+      gst,
+      paymentMethod: payment.method || null,
+      gateway: payment.gateway,
+      gatewayPaymentId: payment.gatewayPaymentId || null,
+      paidAt: payment.paidAt,
+    };
+    transaction.set(invoiceRef, invoice);
+    transaction.set(reserved.counterRef, { next: reserved.next });
+    transaction.update(paymentRef, { invoiceId: invoiceRef.id, invoiceNumber: invoice.number });
+    return { id: invoiceRef.id, ...invoice };
+  });
+};
+
+// Credits the refunded amount against the payment's invoice, split into the same taxes at the same rate.
+export const issueCreditNoteForRefund = async (refundId: string): Promise<CreditNote> => {
+  const db = getAdminDb();
+  const refundRef = db.collection("refunds").doc(refundId);
+  const creditNoteRef = db.collection("creditNotes").doc(refundId);
+
+  return db.runTransaction(async transaction => {
+    const existing = await transaction.get(creditNoteRef);
+    if (existing.exists) {
+      return { id: existing.id, ...existing.data() } as CreditNote;
+    }
+    const refundSnap = await transaction.get(refundRef);
+    if (!refundSnap.exists) {
+      throw new Error("Refund not found.");
+    }
+    const refund = { id: refundSnap.id, ...refundSnap.data() } as RefundRecord;
+    if (refund.status !== "processed" || !refund.processedAt) {
+      throw new Error("Credit notes are only issued for processed refunds.");
+    }
+    const invoiceSnap = await transaction.get(db.collection("invoices").doc(refund.paymentId));
+    if (!invoiceSnap.exists) {
+      throw new Error("The payment has no invoice to credit.");
+    }
+    const invoice = { id: invoiceSnap.id, ...invoiceSnap.data() } as Invoice;
+    const reserved = await reserveDocumentNumber(transaction, "creditNotes", CREDIT_NOTE_NUMBER_PREFIX, new Date(refund.processedAt));
+    const gst = computeGstBreakdown(refund.amount, invoice.gst.rate, invoice.gst.igst > 0);
+
+    const creditNote: Omit<CreditNote, 'id'> = {
+      number: reserved.number,
+      refundId: refund.id,
+      paymentId: refund.paymentId,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.number,
+      paperId: refund.paperId,
+      paperTitle: invoice.paperTitle,
+      userId: refund.userId,
+      issuedAt: new Date().toISOString(),
+      seller: invoice.seller,
+      buyer: invoice.buyer,
+      placeOfSupply: invoice.placeOfSupply,
+      lineItems: [{
+        description: `Refund of article submission fee: ${invoice.paperTitle || refund.paperId}`,
+        sacCode: invoice.lineItems[0]?.sacCode || getSacCode(),
+        amount: gst.taxableAmount,
+      }],
+      currency: refund.currency,
+      gst,
+      reason: refund.reason,
+    };
+    transaction.set(creditNoteRef, creditNote);
+    transaction.set(reserved.counterRef, { next: reserved.next });
+    transaction.update(refundRef, { creditNoteId: creditNoteRef.id, creditNoteNumber: creditNote.number });
+    return { id: creditNoteRef.id, ...creditNote };
+  });
+};
+
+/**
+ * Bills every covered submission not yet invoiced at the institution's current rate, one line per
+ * paper. The invoice shares the numbering series of per-payment invoices and is paid by transfer.
+ */
+export const issueInstitutionInvoice = async (adminId: string, institutionId: string): Promise<InstitutionInvoice> => {
+  const db = getAdminDb();
+  const institutionRef = db.collection("institutions").doc(institutionId);
+  const invoiceRef = db.collection("institutionInvoices").doc();
+  // Filtered in memory to avoid a composite index; re-read in the transaction so no paper is billed twice.
+  const coveredSnap = await db.collection("papers").where("institutionId", "==", institutionId).get();
+  const paperRefs = coveredSnap.docs.filter(docSnap => !docSnap.data().institutionInvoiceId).map(docSnap => docSnap.ref);
+  if (paperRefs.length === 0) {
+    throw new Error("There are no covered submissions left to invoice.");
+  }
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  return db.runTransaction(async transaction => {
+    const institutionSnap = await transaction.get(institutionRef);
+    if (!institutionSnap.exists) {
+      throw new Error("Institution not found.");
+    }
+    const institution = { id: institutionSnap.id, ...institutionSnap.data() } as Institution;
+    const paperSnaps = (await Promise.all(paperRefs.map(ref => transaction.get(ref))))
+      .filter(snap => !snap.data()?.institutionInvoiceId);
+    if (paperSnaps.length === 0) {
+      throw new Error("There are no covered submissions left to invoice.");
+    }
+    const issuedAt = new Date();
+    const reserved = await reserveDocumentNumber(transaction, "invoices", INVOICE_NUMBER_PREFIX, issuedAt);
+
+    const seller = getInvoiceSeller();
+    const buyer: InvoiceParty = {
+      name: institution.name,
+      address: institution.billingAddress || null,
+      email: institution.billingEmail || null,
+      gstin: institution.gstin || null,
+      stateCode: getGstinStateCode(institution.gstin),
+    };
+    const placeOfSupply = buyer.stateCode || seller.stateCode || null;
+    const interState = !!placeOfSupply && !!seller.stateCode && placeOfSupply !== seller.stateCode;
+    const gstRate = getGstRate(institution.currency);
+    const gst = computeGstBreakdown(institution.submissionRate * paperSnaps.length, gstRate, interState);
+    const lineAmount = computeGstBreakdown(institution.submissionRate, gstRate, interState).taxableAmount;
+    const lineItems = paperSnaps.map((snap, index) => ({
+      description: `Article submission: ${snap.data()?.title || snap.id}`,
+      sacCode: getSacCode(),
+      // The last line absorbs rounding so the lines add up to the taxable value.
+      amount: index === paperSnaps.length - 1 ? roundMoney(gst.taxableAmount - lineAmount * index) : lineAmount,
+    }));
+
+    const invoice: Omit<InstitutionInvoice, 'id'> = {
+      number: reserved.number,
+      institutionId,
+      institutionName: institution.name,
+      issuedAt: issuedAt.toISOString(),
+      seller,
+      buyer,
+      placeOfSupply,
+      lineItems,
+      paperIds: paperSnaps.map(snap => snap.id),
+      currency: institution.currency,
+      gst,
+      status: "unpaid",
+      paidAt: null,
+      paymentReference: null,
+    };
+    transaction.set(invoiceRef, invoice);
+    transaction.set(reserved.counterRef, { next: reserved.next });
+    paperSnaps.forEach(snap => transaction.update(snap.ref, { institutionInvoiceId: invoiceRef.id }));
+    addAuditEvent(transaction, auditActor, {
+      action: "institution.invoice",
+      targetType: "institutionInvoice",
+      targetId: invoiceRef.id,
+      targetLabel: `${invoice.number} (${invoice.institutionName})`,
+      after: { institutionId, submissions: invoice.paperIds.length, total: gst.total, currency: invoice.currency },
+    });
+    return { id: invoiceRef.id, ...invoice };
+  });
+};
+
+export const markInstitutionInvoicePaid = async (adminId: string, invoiceId: string, paymentReference: string): Promise<InstitutionInvoice> => {
+  const db = getAdminDb();
+  const invoiceRef = db.collection("institutionInvoices").doc(invoiceId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  return db.runTransaction(async transaction => {
+    const snap = await transaction.get(invoiceRef);
+    if (!snap.exists) {
+      throw new Error("Invoice not found.");
+    }
+    const invoice = { id: snap.id, ...snap.data() } as InstitutionInvoice;
+    if (invoice.status === "paid") {
+      throw new Error(`Invoice ${invoice.number} is already marked as paid.`);
+    }
+    const payment = { status: "paid" as const, paidAt: new Date().toISOString(), paymentReference: paymentReference.trim() || null };
+    transaction.update(invoiceRef, payment);
+    addAuditEvent(transaction, auditActor, {
+      action: "institution.invoice-paid",
+      targetType: "institutionInvoice",
+      targetId: invoiceId,
+      targetLabel: `${invoice.number} (${invoice.institutionName})`,
+      before: { status: invoice.status },
+      after: { status: payment.status, paymentReference: payment.paymentReference },
+    });
+    return { ...invoice, ...payment };
+  });
+};
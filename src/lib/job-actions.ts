@@ -0,0 +1,24 @@
+'use server';
+
+import type { PaymentEnforcementRun } from '@/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import { enforceOverduePayments } from '@/lib/payment-enforcement';
+import { writeAuditEvent } from '@/lib/audit-log';
+
+// Lets an admin run the payment enforcement job from the admin panel instead of waiting for the schedule.
+export async function runPaymentEnforcementNow(idToken: string): Promise<PaymentEnforcementRun> {
+  const { uid } = await getAdminAuth().verifyIdToken(idToken);
+  const userSnap = await getAdminDb().collection("users").doc(uid).get();
+  if (userSnap.data()?.isAdmin !== true) {
+    throw new Error("Only admins can run scheduled jobs.");
+  }
+  const run = await enforceOverduePayments({ trigger: "admin", triggeredBy: uid });
+  await writeAuditEvent({ id: uid }, {
+    action: "job.payment-enforcement",
+    targetType: "job",
+    targetId: run.id,
+    targetLabel: "Payment enforcement",
+    after: { dryRun: run.dryRun, papersChecked: run.papersChecked, actions: run.actions.length, errors: run.errors.length },
+  });
+  return run;
+}
@@ -0,0 +1,22 @@
+"use client";
+
+import { collection, getDocs, limit, orderBy, query } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { PaymentEnforcementRun } from '@/types';
+
+export const getRecentPaymentEnforcementRuns = async (count = 10): Promise<PaymentEnforcementRun[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    // Filtered on the job name here rather than in the query, which would need a composite index.
+    const q = query(collection(firestoreDb, "jobRuns"), orderBy("startedAt", "desc"), limit(count));
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as PaymentEnforcementRun)
+      .filter(run => run.job === "payment-enforcement");
+  } catch (error) {
+    console.error("Job Service (getRecentPaymentEnforcementRuns): Error fetching job runs:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,152 @@
+
+import type { DocumentData, Transaction } from "firebase-admin/firestore";
+import type { NotificationEvent, NotificationPreferences, UserNotification } from '@/types';
+import { getAdminAuth, getAdminDb } from "@/lib/firebase-admin";
+import { addEmailToOutbox, dedupeKeyToDocumentId, getAppUrl, getPaperUrl, queueEmail, type QueueEmailOptions } from "@/lib/email-outbox";
+import { describeNotification, isEmailEnabled } from "@/lib/notifications";
+import type { EmailTemplateParams } from "@/lib/email-templates";
+
+/**
+ * Tells users about events on their papers and review assignments. Each event creates an in-app
+ * notification (the bell in the header listens to the notifications collection) and, unless the
+ * user switched that event off in their notification preferences, queues an email (see email-outbox.ts).
+ *
+ * Notifying never throws: a notification that cannot be created is logged, and the action that
+ * triggered it still succeeds. Changes made in a transaction can instead add the notification to it
+ * (see addPaperAuthorNotification), so it is saved exactly when the change is.
+ */
+
+type PaperEvent = Exclude<NotificationEvent, "reviewer-invited">;
+type PaperEventParams<E extends NotificationEvent> = Omit<EmailTemplateParams[E], "paperTitle" | "paperUrl">;
+
+interface NotificationTarget {
+  userId: string;
+  paperId: string | null;
+  link: string | null;
+}
+
+/**
+ * Who a notification goes to. Emails are sent to the address on the user's sign-in account rather than
+ * the one on their profile, which they can set to anything.
+ */
+export interface NotificationRecipient {
+  userId: string;
+  email: string | null;
+  name: string | null;
+  notificationPreferences: NotificationPreferences | null;
+}
+
+// Null when the user has no profile.
+export const loadNotificationRecipient = async (userId: string): Promise<NotificationRecipient | null> => {
+  const profile = (await getAdminDb().collection("users").doc(userId).get()).data();
+  if (!profile) return null;
+  const account = await getAdminAuth().getUser(userId).catch(() => null);
+  return {
+    userId,
+    email: account?.email || null,
+    name: profile.displayName || null,
+    notificationPreferences: profile.notificationPreferences || null,
+  };
+};
+
+const toNotification = <E extends NotificationEvent>(target: NotificationTarget, event: E, params: EmailTemplateParams[E]): Omit<UserNotification, 'id'> => ({
+  userId: target.userId,
+  event,
+  ...describeNotification(event, params),
+  paperId: target.paperId,
+  link: target.link,
+  read: false,
+  createdAt: new Date().toISOString(),
+  readAt: null,
+});
+
+// Returns false when the user does not exist or the same dedupe key was used before.
+const notifyUser = async <E extends NotificationEvent>(
+  target: NotificationTarget,
+  event: E,
+  params: EmailTemplateParams[E],
+  options: QueueEmailOptions,
+): Promise<boolean> => {
+  const db = getAdminDb();
+  const recipient = await loadNotificationRecipient(target.userId);
+  if (!recipient) return false;
+
+  const notifications = db.collection("notifications");
+  const ref = options.dedupeKey ? notifications.doc(dedupeKeyToDocumentId(options.dedupeKey)) : notifications.doc();
+  try {
+    await ref.create(toNotification(target, event, params));
+  } catch (error: any) {
+    if (error?.code === 6) return false; // ALREADY_EXISTS: notified before under the same dedupe key
+    throw error;
+  }
+
+  if (recipient.email && isEmailEnabled(recipient.notificationPreferences, event)) {
+    await queueEmail({ userId: target.userId, email: recipient.email, name: recipient.name }, event, params, target.paperId, options);
+  }
+  return true;
+};
+
+/**
+ * Notifies a paper's author. Returns whether a new notification was created: false when the paper
+ * or author is missing, the same dedupe key was used before, or creating it failed.
+ */
+export const notifyPaperAuthor = async <E extends PaperEvent>(
+  paperId: string,
+  event: E,
+  params: PaperEventParams<E>,
+  options: QueueEmailOptions = {},
+): Promise<boolean> => {
+  try {
+    const paper = (await getAdminDb().collection("papers").doc(paperId).get()).data();
+    if (!paper) return false;
+    const paperParams = { ...params, paperTitle: paper.title || "Untitled paper", paperUrl: getPaperUrl(paperId) } as EmailTemplateParams[E];
+    return await notifyUser({ userId: paper.userId, paperId, link: `/papers/${paperId}` }, event, paperParams, options);
+  } catch (error) {
+    console.error(`Notification Delivery (notifyPaperAuthor): Could not notify "${event}" for paper ${paperId}:`, error);
+    return false;
+  }
+};
+
+/**
+ * Adds the notification for a paper's author, and its email unless they switched it off, to the transaction
+ * changing the paper. The author is loaded with loadNotificationRecipient before the transaction. Returns the ID
+ * of the queued email, whose delivery the caller starts with startEmailDelivery once the transaction has committed.
+ */
+export const addPaperAuthorNotification = <E extends PaperEvent>(
+  transaction: Transaction,
+  paperId: string,
+  paper: DocumentData,
+  author: NotificationRecipient | null,
+  event: E,
+  params: PaperEventParams<E>,
+): string | null => {
+  if (!author || author.userId !== paper.userId) return null;
+  const target: NotificationTarget = { userId: paper.userId, paperId, link: `/papers/${paperId}` };
+  const paperParams = { ...params, paperTitle: paper.title || "Untitled paper", paperUrl: getPaperUrl(paperId) } as EmailTemplateParams[E];
+  transaction.create(getAdminDb().collection("notifications").doc(), toNotification(target, event, paperParams));
+  if (author.email && isEmailEnabled(author.notificationPreferences, event)) {
+    return addEmailToOutbox(transaction, { userId: paper.userId, email: author.email, name: author.name }, event, paperParams, paperId);
+  }
+  return null;
+};
+
+// Sent once per paper, whichever way it reached "Submitted": paid, waived, discounted to zero or covered.
+export const notifySubmissionReceived = (paperId: string): Promise<boolean> =>
+  notifyPaperAuthor(paperId, "submission-received", {}, { dedupeKey: `submission-received_${paperId}` });
+
+// Invites a reviewer to an assignment, using the review's copy of the title (redacted for double-blind review).
+export const notifyReviewerInvitation = async (reviewId: string): Promise<boolean> => {
+  try {
+    const review = (await getAdminDb().collection("reviews").doc(reviewId).get()).data();
+    if (!review) return false;
+    const link = `/reviews/${reviewId}`;
+    return await notifyUser({ userId: review.reviewerId, paperId: review.paperId, link }, "reviewer-invited", {
+      paperTitle: review.paperTitle || "Untitled paper",
+      paperUrl: `${getAppUrl()}${link}`,
+      reviewDueDate: review.dueDate ? review.dueDate.toDate().toISOString() : null,
+    }, { dedupeKey: `reviewer-invited_${reviewId}` });
+  } catch (error) {
+    console.error(`Notification Delivery (notifyReviewerInvitation): Could not notify the invitation for review ${reviewId}:`, error);
+    return false;
+  }
+};
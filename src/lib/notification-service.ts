@@ -0,0 +1,64 @@
+"use client";
+
+import { collection, doc, onSnapshot, query, serverTimestamp, updateDoc, where, writeBatch, type Unsubscribe } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { NotificationPreferences, UserNotification } from '@/types';
+
+// Notifications are created by the server (see notification-delivery.ts); users only mark their own as read
+// and choose which of them are also emailed.
+
+// Calls onChange with the user's notifications, newest first, now and after every change.
+export const subscribeToNotifications = (
+  userId: string,
+  onChange: (notifications: UserNotification[]) => void,
+  onError: (error: Error) => void,
+): Unsubscribe => {
+  if (!firestoreDb) {
+    onChange([]);
+    return () => {};
+  }
+  // Sorted here rather than in the query, which would need a composite index.
+  return onSnapshot(
+    query(collection(firestoreDb, "notifications"), where("userId", "==", userId)),
+    snapshot => onChange(
+      snapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as UserNotification)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    ),
+    error => {
+      console.error("Notification Service (subscribeToNotifications): Listener failed:", error);
+      onError(error);
+    },
+  );
+};
+
+export const markNotificationsRead = async (notificationIds: string[]): Promise<void> => {
+  if (!firestoreDb || notificationIds.length === 0) {
+    return;
+  }
+  try {
+    const readAt = new Date().toISOString();
+    // A batch holds at most 500 writes.
+    for (let start = 0; start < notificationIds.length; start += 500) {
+      const batch = writeBatch(firestoreDb);
+      notificationIds.slice(start, start + 500).forEach(id => batch.update(doc(firestoreDb!, "notifications", id), { read: true, readAt }));
+      await batch.commit();
+    }
+  } catch (error) {
+    console.error("Notification Service (markNotificationsRead): Error marking notifications as read:", error);
+    throw error;
+  }
+};
+
+// Stored on the user's profile; the server reads it before emailing them.
+export const updateNotificationPreferences = async (userId: string, preferences: NotificationPreferences): Promise<void> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  try {
+    await updateDoc(doc(firestoreDb, "users", userId), { notificationPreferences: preferences, updatedAt: serverTimestamp() });
+  } catch (error) {
+    console.error("Notification Service (updateNotificationPreferences): Error saving preferences:", error);
+    throw error;
+  }
+};
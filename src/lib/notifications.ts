@@ -0,0 +1,60 @@
+
+import type { NotificationEvent, NotificationPreferences } from '@/types';
+import { EMAIL_TEMPLATE_LABELS, formatDeadline, type EmailTemplateParams } from '@/lib/email-templates';
+
+export interface NotificationContent {
+  title: string;
+  message: string;
+}
+
+// Shown on the preferences form, in this order.
+export const NOTIFICATION_EVENTS: Array<{ event: NotificationEvent; label: string; description: string }> = [
+  { event: "submission-received", label: EMAIL_TEMPLATE_LABELS["submission-received"], description: "Your paper is in the review queue." },
+  { event: "payment-due", label: EMAIL_TEMPLATE_LABELS["payment-due"], description: "A submission fee is due, and reminders before the deadline." },
+  { event: "payment-overdue", label: EMAIL_TEMPLATE_LABELS["payment-overdue"], description: "A payment deadline passed without payment." },
+  { event: "status-changed", label: EMAIL_TEMPLATE_LABELS["status-changed"], description: "Your paper moved to another stage." },
+  { event: "feedback-posted", label: EMAIL_TEMPLATE_LABELS["feedback-posted"], description: "The editorial office left feedback on your paper." },
+  { event: "decision", label: EMAIL_TEMPLATE_LABELS["decision"], description: "Your paper was accepted, rejected or published." },
+  { event: "reviewer-invited", label: EMAIL_TEMPLATE_LABELS["reviewer-invited"], description: "You were asked to review a paper." },
+];
+
+export const getNotificationEventLabel = (event: NotificationEvent): string => EMAIL_TEMPLATE_LABELS[event];
+
+// Everything is emailed unless the user switched it off.
+export const isEmailEnabled = (preferences: NotificationPreferences | null | undefined, event: NotificationEvent): boolean =>
+  preferences?.[event] !== false;
+
+const DESCRIPTIONS: { [E in NotificationEvent]: (params: EmailTemplateParams[E]) => NotificationContent } = {
+  "submission-received": ({ paperTitle }) => ({
+    title: "Submission received",
+    message: `"${paperTitle}" has been submitted and is waiting for review.`,
+  }),
+  "payment-due": ({ paperTitle, dueDate, isReminder }) => ({
+    title: isReminder ? "Payment reminder" : "Payment due",
+    message: `The submission fee for "${paperTitle}" is due by ${formatDeadline(dueDate)}.`,
+  }),
+  "payment-overdue": ({ paperTitle, dueDate }) => ({
+    title: "Payment overdue",
+    message: `The submission fee for "${paperTitle}" was due by ${formatDeadline(dueDate)}.`,
+  }),
+  "status-changed": ({ paperTitle, status }) => ({
+    title: "Status updated",
+    message: `"${paperTitle}" is now ${status}.`,
+  }),
+  "feedback-posted": ({ paperTitle }) => ({
+    title: "New feedback",
+    message: `The editorial office left feedback on "${paperTitle}".`,
+  }),
+  "reviewer-invited": ({ paperTitle, reviewDueDate }) => ({
+    title: "Review invitation",
+    message: `You have been asked to review "${paperTitle}"${reviewDueDate ? `, due by ${formatDeadline(reviewDueDate)}` : ""}.`,
+  }),
+  "decision": ({ paperTitle, status }) => ({
+    title: `Decision: ${status}`,
+    message: `A decision has been made on "${paperTitle}": ${status}.`,
+  }),
+};
+
+// The short, plain-text version of an event for the notification center; the email says more.
+export const describeNotification = <E extends NotificationEvent>(event: E, params: EmailTemplateParams[E]): NotificationContent =>
+  (DESCRIPTIONS[event] as (params: EmailTemplateParams[E]) => NotificationContent)(params);
@@ -0,0 +1,49 @@
+'use server';
+
+import type { ExtractedDocument, Paper, PaperStatus } from '@/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import {
+  applyPaperRevision,
+  applyPaperStatusChange,
+  type PaperRevisionData,
+  type PaperRevisionFile,
+  type PaperStatusChangeOptions,
+} from '@/lib/paper-status-updates';
+import { applyOfficialAnalysisRun, applyPaperEdit, applyStoredTextExtraction, type PaperEdit } from '@/lib/paper-edits';
+import { createSubmission, type NewPaperInput } from '@/lib/paper-submission';
+
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  if ((await getAdminDb().collection('users').doc(uid).get()).data()?.isAdmin !== true) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+// Returns the new paper's ID.
+export async function submitPaper(idToken: string, paper: NewPaperInput): Promise<string> {
+  return createSubmission(await verifyUser(idToken), paper);
+}
+
+// The caller's role on the paper comes from the verified ID token, never from the browser.
+export async function changePaperStatus(idToken: string, paperId: string, status: PaperStatus, options: PaperStatusChangeOptions = {}): Promise<void> {
+  return applyPaperStatusChange(await verifyUser(idToken), paperId, status, options);
+}
+
+export async function submitRevision(idToken: string, paperId: string, revision: PaperRevisionData, file: PaperRevisionFile): Promise<void> {
+  return applyPaperRevision(await verifyUser(idToken), paperId, revision, file);
+}
+
+export async function editPaper(idToken: string, paperId: string, edit: PaperEdit): Promise<void> {
+  return applyPaperEdit(await verifyAdmin(idToken), paperId, edit);
+}
+
+export async function extractPaperText(idToken: string, paperId: string): Promise<ExtractedDocument> {
+  return applyStoredTextExtraction(await verifyAdmin(idToken), paperId);
+}
+
+export async function setOfficialAnalysisRun(idToken: string, paperId: string, runId: string): Promise<Partial<Paper>> {
+  return applyOfficialAnalysisRun(await verifyAdmin(idToken), paperId, runId);
+}
@@ -0,0 +1,134 @@
+
+import type { PaperVersion } from '@/types';
+
+export type DiffSegment = { type: "equal" | "added" | "removed"; text: string };
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface PaperVersionComparison {
+  fromVersion: number;
+  toVersion: number;
+  title: DiffSegment[];
+  abstract: DiffSegment[];
+  authors: ListDiff | null; // null when either version predates author snapshots (or authors are hidden)
+  keywords: ListDiff;
+  file: { from: string | null; to: string | null; replaced: boolean };
+  hasChanges: boolean;
+}
+
+// Whitespace is kept as its own token so the diff can be joined back into the original text.
+const tokenize = (text: string): string[] => text.split(/(\s+)/).filter(token => token.length > 0);
+
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], text: string) => {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+};
+
+/** Word-level diff based on the longest common subsequence of the two token lists. */
+export const diffWords = (before: string, after: string): DiffSegment[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "removed", a[i++]);
+    } else {
+      pushSegment(segments, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "removed", a[i++]);
+  while (j < b.length) pushSegment(segments, "added", b[j++]);
+  return segments;
+};
+
+// Case-insensitive so "Machine learning" -> "machine learning" is not reported as a change.
+export const diffLists = (before: string[], after: string[]): ListDiff => {
+  const normalize = (value: string) => value.trim().toLowerCase();
+  const beforeSet = new Set(before.map(normalize));
+  const afterSet = new Set(after.map(normalize));
+  return {
+    added: after.filter(item => !beforeSet.has(normalize(item))),
+    removed: before.filter(item => !afterSet.has(normalize(item))),
+  };
+};
+
+const hasTextChanges = (segments: DiffSegment[]) => segments.some(segment => segment.type !== "equal");
+
+export const comparePaperVersions = (from: PaperVersion, to: PaperVersion): PaperVersionComparison => {
+  const title = diffWords(from.title, to.title);
+  const abstract = diffWords(from.abstract, to.abstract);
+  const authors = from.authors && to.authors && (from.authors.length > 0 || to.authors.length > 0)
+    ? diffLists(from.authors, to.authors)
+    : null;
+  const keywords = diffLists(from.keywords || [], to.keywords || []);
+  const file = {
+    from: from.fileName || null,
+    to: to.fileName || null,
+    replaced: (from.fileUrl || null) !== (to.fileUrl || null),
+  };
+
+  return {
+    fromVersion: from.versionNumber,
+    toVersion: to.versionNumber,
+    title,
+    abstract,
+    authors,
+    keywords,
+    file,
+    hasChanges: hasTextChanges(title) || hasTextChanges(abstract) ||
+      !!(authors && (authors.added.length || authors.removed.length)) ||
+      keywords.added.length > 0 || keywords.removed.length > 0 || file.replaced,
+  };
+};
+
+// Plain-text rendering uses the wdiff convention: [-removed-] and {+added+}.
+const formatSegments = (segments: DiffSegment[]): string =>
+  segments.map(segment => {
+    if (segment.type === "removed") return `[-${segment.text}-]`;
+    if (segment.type === "added") return `{+${segment.text}+}`;
+    return segment.text;
+  }).join('');
+
+const formatListDiff = (label: string, diff: ListDiff): string => {
+  if (diff.added.length === 0 && diff.removed.length === 0) return `${label}: no changes\n`;
+  let content = `${label}:\n`;
+  diff.added.forEach(item => { content += `  + ${item}\n`; });
+  diff.removed.forEach(item => { content += `  - ${item}\n`; });
+  return content;
+};
+
+export const formatVersionComparison = (paperTitle: string, comparison: PaperVersionComparison): string => {
+  let content = `Change Summary: ${paperTitle}\n`;
+  content += `Comparing version ${comparison.fromVersion} to version ${comparison.toVersion}\n\n`;
+  if (!comparison.hasChanges) {
+    return content + "No metadata or file changes between these versions.\n";
+  }
+  content += `Title:\n${hasTextChanges(comparison.title) ? formatSegments(comparison.title) : 'no changes'}\n\n`;
+  content += `Abstract:\n${hasTextChanges(comparison.abstract) ? formatSegments(comparison.abstract) : 'no changes'}\n\n`;
+  if (comparison.authors) content += formatListDiff("Authors", comparison.authors);
+  content += formatListDiff("Keywords", comparison.keywords);
+  content += comparison.file.replaced
+    ? `File: replaced (${comparison.file.from || 'unnamed file'} -> ${comparison.file.to || 'unnamed file'})\n`
+    : "File: unchanged\n";
+  return content;
+};
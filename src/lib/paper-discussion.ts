@@ -0,0 +1,43 @@
+
+import type { Paper, PaperMessage, PaperMessageRole, PaperMessageVisibility } from '@/types';
+
+export const MAX_MESSAGE_ATTACHMENTS = 3;
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const MESSAGE_VISIBILITY_LABELS: Record<PaperMessageVisibility, string> = {
+  author: "Visible to the author",
+  editors: "Editors only",
+};
+
+export const MESSAGE_ROLE_LABELS: Record<PaperMessageRole, string> = {
+  admin: "Editor",
+  author: "Author",
+  reviewer: "Reviewer",
+  system: "ResearchSphere",
+};
+
+/**
+ * The role a user takes in a paper's discussion, or null when they cannot see it. Authors only
+ * ever see and post author-visible messages; reviewers only editors-only ones, and only once an
+ * admin includes them, so neither side learns anything the review mode keeps from them.
+ */
+export const getDiscussionRole = (
+  paper: Pick<Paper, 'userId' | 'reviewerIds' | 'reviewersInDiscussion'>,
+  viewer: { id: string; isAdmin: boolean },
+): Exclude<PaperMessageRole, "system"> | null => {
+  if (viewer.isAdmin) return "admin";
+  if (paper.userId === viewer.id) return "author";
+  if (paper.reviewersInDiscussion && paper.reviewerIds?.includes(viewer.id)) return "reviewer";
+  return null;
+};
+
+export const getVisibleMessageVisibilities = (role: Exclude<PaperMessageRole, "system">): PaperMessageVisibility[] =>
+  role === "admin" ? ["author", "editors"] : role === "author" ? ["author"] : ["editors"];
+
+// Reviewers are shown to each other and to nobody else by role only; editors see every name.
+export const getMessageSenderLabel = (message: PaperMessage, viewer: { id: string; isAdmin: boolean }): string => {
+  if (message.authorRole === "system") return MESSAGE_ROLE_LABELS.system;
+  if (message.authorId === viewer.id) return "You";
+  if (message.authorRole === "reviewer" && !viewer.isAdmin) return MESSAGE_ROLE_LABELS.reviewer;
+  return message.authorName ? `${message.authorName} (${MESSAGE_ROLE_LABELS[message.authorRole]})` : MESSAGE_ROLE_LABELS[message.authorRole];
+};
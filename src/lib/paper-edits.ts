@@ -0,0 +1,119 @@
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { AiAnalysisRun, ExtractedDocument, Paper } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { pickAuditFields } from "@/lib/audit";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+import { extractStoredDocument } from "@/lib/document-extraction";
+import { refreshPaperFingerprint } from "@/lib/plagiarism-corpus";
+
+/**
+ * Edits admins make from the paper page other than status changes (see paper-status-updates.ts).
+ * Each is saved in one transaction with its audit log entry.
+ */
+
+// Whether reviewers join the discussion.
+export type PaperEdit = Partial<Pick<Paper, 'reviewersInDiscussion'>>;
+
+const EDITABLE_PAPER_FIELDS: Array<keyof PaperEdit> = ["reviewersInDiscussion"];
+
+export const applyPaperEdit = async (adminId: string, paperId: string, edit: PaperEdit): Promise<void> => {
+  const changes: Record<string, unknown> = Object.fromEntries(
+    Object.entries(edit).filter(([key, value]) => EDITABLE_PAPER_FIELDS.includes(key as keyof PaperEdit) && value !== undefined)
+  );
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  await db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper) {
+      throw new Error("Paper not found.");
+    }
+    transaction.update(paperRef, { ...changes, lastUpdatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, {
+      action: "paper.update",
+      targetType: "paper",
+      targetId: paperId,
+      targetLabel: paper.title || null,
+      before: pickAuditFields(paper, changes),
+      after: changes,
+    });
+  });
+};
+
+/**
+ * Stores the text of the paper's current manuscript for papers uploaded before extraction existed, or whose
+ * extraction failed at upload. The text comes from the stored file, never from the browser.
+ */
+export const applyStoredTextExtraction = async (adminId: string, paperId: string): Promise<ExtractedDocument> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const stored = (await paperRef.get()).data();
+  if (!stored?.fileUrl) {
+    throw new Error("The paper has no manuscript file to extract text from.");
+  }
+  const extractedContent = await extractStoredDocument(stored.fileUrl, stored.fileName);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  await db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper || paper.fileUrl !== stored.fileUrl) {
+      throw new Error("The paper's manuscript changed while its text was being extracted. Please try again.");
+    }
+    transaction.update(paperRef, { extractedContent, lastUpdatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, {
+      action: "paper.update",
+      targetType: "paper",
+      targetId: paperId,
+      targetLabel: paper.title || null,
+      before: pickAuditFields(paper, { extractedContent }),
+      after: { extractedContent },
+    });
+  });
+  await refreshPaperFingerprint(paperId);
+  return extractedContent;
+};
+
+/**
+ * Makes the run the paper's official result for its flow: the run's score and report are copied onto the
+ * paper fields that the rest of the app reads (plagiarismScore, acceptanceProbability, ...).
+ */
+export const applyOfficialAnalysisRun = async (adminId: string, paperId: string, runId: string): Promise<Partial<Paper>> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const runRef = paperRef.collection("aiRuns").doc(runId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  return db.runTransaction(async transaction => {
+    const [paperSnap, runSnap] = await Promise.all([transaction.get(paperRef), transaction.get(runRef)]);
+    const paper = paperSnap.data();
+    const run = runSnap.data() as Omit<AiAnalysisRun, 'id'> | undefined;
+    if (!paper) {
+      throw new Error("Paper not found.");
+    }
+    if (!run) {
+      throw new Error("Analysis run not found.");
+    }
+    const officialAnalysisRuns: Paper['officialAnalysisRuns'] = paper.officialAnalysisRuns || {};
+    const updates: Partial<Paper> = {
+      officialAnalysisRuns: { ...officialAnalysisRuns, [run.flow]: runId },
+      ...(run.flow === "plagiarism"
+        ? { plagiarismScore: run.score, plagiarismReport: { highlightedSections: run.output?.highlightedSections || [] } }
+        : { acceptanceProbability: run.score, acceptanceReport: { reasoning: run.output?.reasoning || "" } }),
+    };
+    transaction.update(paperRef, { ...updates, lastUpdatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, {
+      action: "paper.official-analysis",
+      targetType: "paper",
+      targetId: paperId,
+      targetLabel: paper.title || null,
+      before: { flow: run.flow, runId: officialAnalysisRuns?.[run.flow] || null },
+      after: { flow: run.flow, runId, score: run.score },
+    });
+    return updates;
+  });
+};
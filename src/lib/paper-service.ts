@@ -3,19 +3,22 @@
 
 import {
   collection,
-  addDoc,
   getDoc,
   doc,
   query,
   where,
   getDocs,
-  updateDoc,
   orderBy,
   Timestamp,
-  serverTimestamp,
 } from "firebase/firestore";
 import { auth, db as firestoreDb } from "@/lib/firebase";
-import type { Paper, PaperStatus } from '@/types';
+import type { AuthorDeclaredConflict, ExtractedDocument, Paper, PaperStatus, PaperVersion, Venue } from '@/types';
+import { getVenue } from "@/lib/venue-service";
+import { getSubmissionBlocker } from "@/lib/venue-schedule";
+import { assertPaperStatusTransition } from "@/lib/paper-status";
+import { changePaperStatus, editPaper, extractPaperText, submitPaper, submitRevision } from "@/lib/paper-actions";
+import type { PaperRevisionData, PaperStatusChangeOptions } from "@/lib/paper-status-updates";
+import type { PaperEdit } from "@/lib/paper-edits";
 
 const convertPaperTimestamps = (paperData: any): Paper => {
   const convert = (timestamp: any) =>
@@ -27,11 +30,17 @@ const convertPaperTimestamps = (paperData: any): Paper => {
     submissionDate: convert(paperData.submissionDate),
     paymentDueDate: convert(paperData.paymentDueDate),
     paidAt: convert(paperData.paidAt),
+    paymentOverdueAt: convert(paperData.paymentOverdueAt),
     lastUpdatedAt: convert(paperData.lastUpdatedAt),
   } as Paper;
 };
 
-const uploadToCloudinary = async (file: File): Promise<{ secure_url: string; original_filename: string; public_id: string, format: string, resource_type: string } | null> => {
+const convertVersionTimestamps = (versionData: any): PaperVersion => ({
+  ...versionData,
+  createdAt: versionData.createdAt instanceof Timestamp ? versionData.createdAt.toDate().toISOString() : (versionData.createdAt || null),
+});
+
+export const uploadToCloudinary = async (file: File): Promise<{ secure_url: string; original_filename: string; public_id: string, format: string, resource_type: string } | null> => {
   const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
   const uploadPreset = process.env.NEXT_PUBLIC_CLOUDINARY_UPLOAD_PRESET;
 
@@ -73,10 +82,12 @@ const uploadToCloudinary = async (file: File): Promise<{ secure_url: string; ori
 
 
 export const addPaper = async (
-  paperData: Omit<Paper, 'id' | 'uploadDate' | 'status' | 'userId' | 'fileUrl' | 'fileName' | 'lastUpdatedAt'> & { paymentOption: "payNow" | "payLater" },
+  paperData: Omit<Paper, 'id' | 'uploadDate' | 'status' | 'userId' | 'fileUrl' | 'fileName' | 'lastUpdatedAt'> & {
+    paymentOption: "payNow" | "payLater";
+    declaredConflicts?: AuthorDeclaredConflict[];
+  },
   fileToUpload: File | null,
-  userIdClient: string,
-  existingPaperId?: string
+  userIdClient: string
 ): Promise<Paper> => {
   if (!auth.currentUser) {
     throw new Error("User not authenticated. Cannot submit paper.");
@@ -89,115 +100,47 @@ export const addPaper = async (
     throw new Error("Database service not available. Please try again later.");
   }
   const now = new Date();
-  let status: PaperStatus = 'Submitted';
-  let paymentDueDate: Date | null = null;
-  let paidAt: Date | null = null;
-  let submissionDate: Date | Timestamp | null = null;
-
-  let cloudinaryFileUrl: string | undefined = undefined;
-  let originalFileName: string | undefined = undefined;
-
-  if (existingPaperId) {
-    const paperDocRef = doc(firestoreDb, "papers", existingPaperId);
-    const paperSnap = await getDoc(paperDocRef);
-    if (!paperSnap.exists()) {
-      throw new Error("Original paper not found for update.");
-    }
-    const existingPaperData = paperSnap.data();
-    cloudinaryFileUrl = existingPaperData.fileUrl; 
-    originalFileName = existingPaperData.fileName;
-
-    if (paperData.paymentOption === 'payNow') { 
-      status = 'Submitted';
-      paidAt = now;
-      submissionDate = Timestamp.fromDate(now);
-      paymentDueDate = null;
-    } else {
-      status = existingPaperData.status;
-    }
-  } else {
-    if (!fileToUpload) {
-      throw new Error("File is required for new paper submission.");
-    }
-
-    const cloudinaryResult = await uploadToCloudinary(fileToUpload);
-    if (!cloudinaryResult || !cloudinaryResult.secure_url) {
-      throw new Error("File upload to Cloudinary failed or did not return a URL.");
-    }
-    cloudinaryFileUrl = cloudinaryResult.secure_url;
-    originalFileName = cloudinaryResult.original_filename || fileToUpload.name || 'uploaded_paper_file';
 
+  if (!fileToUpload) {
+    throw new Error("File is required for new paper submission.");
+  }
+  const venue: Venue | null = paperData.venueId ? await getVenue(paperData.venueId) : null;
+  if (!venue) {
+    throw new Error("Please choose a venue to submit your paper to.");
+  }
+  const submissionBlocker = getSubmissionBlocker(venue, paperData.trackId, now);
+  if (submissionBlocker) {
+    throw new Error(submissionBlocker);
+  }
 
-    if (paperData.paymentOption === 'payLater') {
-      status = 'Payment Pending';
-      const dueDate = new Date(now.getTime() + 2 * 60 * 60 * 1000); 
-      paymentDueDate = dueDate;
-      submissionDate = null;
-      paidAt = null;
-    } else { 
-      status = 'Submitted';
-      paidAt = now;
-      submissionDate = Timestamp.fromDate(now);
-      paymentDueDate = null;
-    }
+  const cloudinaryResult = await uploadToCloudinary(fileToUpload);
+  if (!cloudinaryResult || !cloudinaryResult.secure_url) {
+    throw new Error("File upload to Cloudinary failed or did not return a URL.");
   }
+  const cloudinaryFileUrl = cloudinaryResult.secure_url;
+  const originalFileName = cloudinaryResult.original_filename || fileToUpload.name || 'uploaded_paper_file';
 
-  const paperDocData: Omit<Paper, 'id' | 'lastUpdatedAt'> = {
-    userId: userIdClient,
+  // The server creates the paper, unpaid, with the fee and payment deadline it works out from the venue
+  // (see paper-submission.ts). "Pay Now" papers wait there until the gateway payment is verified on the server,
+  // and papers without a fee are submitted by the server straight away.
+  const paperId = await submitPaper(await auth.currentUser.getIdToken(), {
     title: paperData.title,
     abstract: paperData.abstract,
     authors: paperData.authors,
     keywords: paperData.keywords,
-    fileName: originalFileName || null,
-    fileUrl: cloudinaryFileUrl || null,
-    uploadDate: existingPaperId && (await getDoc(doc(firestoreDb, "papers", existingPaperId))).data()?.uploadDate instanceof Timestamp ? 
-                ((await getDoc(doc(firestoreDb, "papers", existingPaperId))).data()?.uploadDate as Timestamp).toDate().toISOString() : 
-                Timestamp.fromDate(now).toDate().toISOString(),
-    status: status,
+    venueId: venue.id,
+    trackId: paperData.trackId || null,
     paymentOption: paperData.paymentOption,
-    paymentDueDate: paymentDueDate ? paymentDueDate.toISOString() : null,
-    paidAt: paidAt ? paidAt.toISOString() : null,
-    submissionDate: submissionDate instanceof Timestamp ? submissionDate.toDate().toISOString() : (submissionDate instanceof Date ? submissionDate.toISOString() : null),
-    plagiarismScore: null, 
-    acceptanceProbability: null, 
-    ...(existingPaperId && {
-      plagiarismReport: (await getDoc(doc(firestoreDb, "papers", existingPaperId))).data()?.plagiarismReport || null,
-      acceptanceReport: (await getDoc(doc(firestoreDb, "papers", existingPaperId))).data()?.acceptanceReport || null,
-      adminFeedback: (await getDoc(doc(firestoreDb, "papers", existingPaperId))).data()?.adminFeedback || null,
-    })
-  };
-
-  if (existingPaperId) {
-    const updatePayload: any = {
-      status,
-      paidAt: paidAt ? Timestamp.fromDate(paidAt) : null,
-      submissionDate: submissionDate ? (submissionDate instanceof Date ? Timestamp.fromDate(submissionDate) : submissionDate) : null,
-      paymentDueDate: paymentDueDate ? Timestamp.fromDate(paymentDueDate) : null, 
-      lastUpdatedAt: serverTimestamp(),
-    };
-    const paperDocRef = doc(firestoreDb, "papers", existingPaperId);
-    await updateDoc(paperDocRef, updatePayload);
-    const updatedSnap = await getDoc(paperDocRef);
-    if (!updatedSnap.exists()) {
-      throw new Error("Failed to fetch paper after status update.");
-    }
-    return { ...convertPaperTimestamps(updatedSnap.data()), id: existingPaperId };
-  } else {
-    const paperDocForFirestore = {
-      ...paperDocData,
-      uploadDate: Timestamp.fromDate(new Date(paperDocData.uploadDate as string)),
-      submissionDate: paperDocData.submissionDate ? Timestamp.fromDate(new Date(paperDocData.submissionDate)) : null,
-      paidAt: paperDocData.paidAt ? Timestamp.fromDate(new Date(paperDocData.paidAt)) : null,
-      paymentDueDate: paperDocData.paymentDueDate ? Timestamp.fromDate(new Date(paperDocData.paymentDueDate)) : null,
-      lastUpdatedAt: serverTimestamp(),
-    };
-    const docRef = await addDoc(collection(firestoreDb, "papers"), paperDocForFirestore);
-    const newDocSnap = await getDoc(docRef);
-     if (!newDocSnap.exists()) {
-        throw new Error("Failed to fetch newly created paper.");
-    }
-    return { ...convertPaperTimestamps(newDocSnap.data()), id: docRef.id };
+    fileName: originalFileName,
+    fileUrl: cloudinaryFileUrl,
+    declaredConflicts: paperData.declaredConflicts,
+  });
+  const docRef = doc(firestoreDb, "papers", paperId);
+  const newDocSnap = await getDoc(docRef);
+  if (!newDocSnap.exists()) {
+    throw new Error("Failed to fetch newly created paper.");
   }
+  return { ...convertPaperTimestamps(newDocSnap.data()), id: docRef.id };
 };
 
 
@@ -242,50 +185,90 @@ export const getAllPapers = async (): Promise<Paper[]> => {
   return papers;
 };
 
-export const updatePaperStatus = async (paperId: string, status: PaperStatus, paymentDetails?: { paidAt: string }): Promise<Paper> => {
+export type UpdatePaperStatusOptions = PaperStatusChangeOptions;
+
+// Applied on the server, which checks the change against the caller's role on the paper (see paper-status-updates.ts).
+export const updatePaperStatus = async (paperId: string, status: PaperStatus, options: UpdatePaperStatusOptions = {}): Promise<Paper> => {
   if (!firestoreDb) {
     throw new Error("Database service unavailable.");
   }
-  const paperDocRef = doc(firestoreDb, "papers", paperId);
-
-  const updateData: Partial<Paper & { lastUpdatedAt: any, paymentDueDate: any | null, submissionDate: any | null, paidAt: any | null }> = { status, lastUpdatedAt: serverTimestamp() };
-
-  if (paymentDetails?.paidAt) {
-    updateData.paidAt = Timestamp.fromDate(new Date(paymentDetails.paidAt));
-  }
-
-  if (status === 'Submitted') {
-    updateData.submissionDate = serverTimestamp(); 
-    updateData.paymentDueDate = null; 
-    if (!updateData.paidAt) { 
-      updateData.paidAt = serverTimestamp();
-    }
-  } else if (status === 'Payment Pending') {
-    const paperSnap = await getDoc(paperDocRef);
-    if (paperSnap.exists() && !paperSnap.data().paymentDueDate) { 
-        const dueDate = new Date();
-        dueDate.setHours(dueDate.getHours() + 2); 
-        updateData.paymentDueDate = Timestamp.fromDate(dueDate);
-    }
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot change the paper's status.");
   }
-
-  await updateDoc(paperDocRef, updateData);
-  const updatedPaperSnap = await getDoc(paperDocRef);
+  await changePaperStatus(await auth.currentUser.getIdToken(), paperId, status, options);
+  const updatedPaperSnap = await getDoc(doc(firestoreDb, "papers", paperId));
   if (!updatedPaperSnap.exists()) throw new Error("Failed to fetch paper after status update.");
   return convertPaperTimestamps({ id: updatedPaperSnap.id, ...updatedPaperSnap.data() });
 };
 
-export const updatePaperData = async (paperId: string, data: Partial<Omit<Paper, 'id' | 'lastUpdatedAt'>>): Promise<Paper> => {
+// Admin edits other than status changes; saved on the server together with their audit log entry.
+export const updatePaperData = async (paperId: string, data: PaperEdit): Promise<Paper> => {
   if (!firestoreDb) {
     throw new Error("Database service unavailable.");
   }
-  const paperDocRef = doc(firestoreDb, "papers", paperId);
-  await updateDoc(paperDocRef, { ...data, lastUpdatedAt: serverTimestamp() });
-  const updatedPaperSnap = await getDoc(paperDocRef);
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot update the paper.");
+  }
+  await editPaper(await auth.currentUser.getIdToken(), paperId, data);
+  const updatedPaperSnap = await getDoc(doc(firestoreDb, "papers", paperId));
   if (!updatedPaperSnap.exists()) throw new Error("Failed to fetch paper after data update.");
   return convertPaperTimestamps({ id: updatedPaperSnap.id, ...updatedPaperSnap.data() });
 };
 
+// Extracted on the server from the paper's stored manuscript, which also saves the text on the paper.
+export const extractStoredPaperText = async (paperId: string): Promise<ExtractedDocument> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot extract the paper's text.");
+  }
+  return extractPaperText(await auth.currentUser.getIdToken(), paperId);
+};
+
+export const getPaperVersions = async (paperId: string): Promise<PaperVersion[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const q = query(collection(firestoreDb, "papers", paperId, "versions"), orderBy("versionNumber", "asc"));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => convertVersionTimestamps({ id: docSnap.id, ...docSnap.data() }));
+};
+
+export const submitPaperRevision = async (paperId: string, revision: PaperRevisionData, file: File, userIdClient: string): Promise<Paper> => {
+  if (!auth.currentUser || auth.currentUser.uid !== userIdClient) {
+    throw new Error("User not authenticated. Cannot submit a revision.");
+  }
+  if (!firestoreDb) {
+    throw new Error("Database service not available. Please try again later.");
+  }
+  if (!revision.responseToReviewers.trim()) {
+    throw new Error("A response to the reviewers is required with every revision.");
+  }
+  const paperDocRef = doc(firestoreDb, "papers", paperId);
+  const paperSnap = await getDoc(paperDocRef);
+  if (!paperSnap.exists()) {
+    throw new Error("Paper not found.");
+  }
+  const currentData = paperSnap.data();
+  if (currentData.userId !== userIdClient) {
+    throw new Error("Only the submitting author can revise this paper.");
+  }
+  assertPaperStatusTransition(currentData.status as PaperStatus, 'Under Review', 'author');
+
+  const cloudinaryResult = await uploadToCloudinary(file);
+  if (!cloudinaryResult || !cloudinaryResult.secure_url) {
+    throw new Error("File upload to Cloudinary failed or did not return a URL.");
+  }
+  const fileName = cloudinaryResult.original_filename || file.name;
+
+  // The server extracts the new manuscript's text and writes the version, the paper and its audit log entry together.
+  await submitRevision(await auth.currentUser.getIdToken(), paperId, revision, {
+    fileName,
+    fileUrl: cloudinaryResult.secure_url,
+  });
+  const updatedSnap = await getDoc(paperDocRef);
+  if (!updatedSnap.exists()) throw new Error("Failed to fetch paper after revision.");
+  return convertPaperTimestamps({ id: updatedSnap.id, ...updatedSnap.data() });
+};
+
 export const getPublishedPapers = async (): Promise<Paper[]> => {
   if (!firestoreDb) {
     return [];
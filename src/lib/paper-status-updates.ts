@@ -0,0 +1,222 @@
+
+import { FieldValue, Timestamp, type DocumentData } from "firebase-admin/firestore";
+import type { PaperStatus, PaperVersion, Venue } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { assertPaperStatusTransition, canTransitionPaperStatus, type PaperStatusActor } from "@/lib/paper-status";
+import { computePaymentDueDate, getPaymentPolicy } from "@/lib/payment-policy";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+import { extractStoredDocumentSafely, isStoredDocumentUrl } from "@/lib/document-extraction";
+import { refreshPaperFingerprint } from "@/lib/plagiarism-corpus";
+import { addPaperAuthorNotification, loadNotificationRecipient } from "@/lib/notification-delivery";
+import { startEmailDelivery } from "@/lib/email-outbox";
+import { isDecisionStatus } from "@/lib/email-templates";
+
+/**
+ * Status changes asked for from the browser. The caller's role on the paper is worked out here from
+ * their verified user ID, so the transition table in paper-status.ts cannot be sidestepped by claiming
+ * another role. The Firestore rules keep browsers from writing a paper's status themselves. Each change
+ * is committed together with its audit log entry, the editor's message to the author and the author's
+ * notification.
+ */
+
+export interface PaperStatusChangeOptions {
+  feedback?: string | null; // Required by transitions such as "Action Required"; posted to the discussion thread with the change
+  paidAt?: string | null; // ISO date string; an admin confirming a payment made outside the gateway
+}
+
+export interface PaperRevisionData {
+  title: string;
+  abstract: string;
+  authors: string[];
+  keywords: string[];
+  responseToReviewers: string;
+}
+
+// The revised manuscript, already uploaded by the browser. Its text is extracted here from the stored file.
+export interface PaperRevisionFile {
+  fileName: string;
+  fileUrl: string;
+}
+
+// The roles the user holds on the paper, most privileged first. Reviewers count once they have accepted the invitation.
+const getPaperRoles = async (userId: string, paperId: string, paper: DocumentData): Promise<PaperStatusActor[]> => {
+  const db = getAdminDb();
+  const roles: PaperStatusActor[] = [];
+  if ((await db.collection("users").doc(userId).get()).data()?.isAdmin === true) {
+    roles.push("admin");
+  }
+  if ((paper.reviewerIds || []).includes(userId)) {
+    const reviewsSnap = await db.collection("reviews").where("paperId", "==", paperId).where("reviewerId", "==", userId).get();
+    if (reviewsSnap.docs.some(docSnap => !["Invited", "Declined"].includes(docSnap.data().status))) {
+      roles.push("reviewer");
+    }
+  }
+  if (paper.userId === userId) {
+    roles.push("author");
+  }
+  return roles;
+};
+
+export const applyPaperStatusChange = async (
+  userId: string,
+  paperId: string,
+  status: PaperStatus,
+  options: PaperStatusChangeOptions = {}
+): Promise<void> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const current = (await paperRef.get()).data();
+  const roles = current ? await getPaperRoles(userId, paperId, current) : [];
+  if (!current || roles.length === 0) {
+    throw new Error("Paper not found.");
+  }
+  const from = current.status as PaperStatus;
+  const actor = roles.find(role => canTransitionPaperStatus(from, status, role)) || roles[0];
+  assertPaperStatusTransition(from, status, actor, { feedback: options.feedback });
+  if (options.paidAt && actor !== "admin") {
+    throw new Error("Only admins can record a payment.");
+  }
+  const feedback = options.feedback?.trim() || null;
+  if (feedback && actor !== "admin") {
+    throw new Error("Only admins can send a message with a status change.");
+  }
+
+  let paymentDueDate: Timestamp | null = null;
+  if (status === "Payment Pending" && !current.paymentDueDate) {
+    const venueSnap = current.venueId ? await db.collection("venues").doc(current.venueId).get() : null;
+    const venue = venueSnap?.exists ? (venueSnap.data() as Venue) : null;
+    paymentDueDate = Timestamp.fromDate(computePaymentDueDate(new Date(), getPaymentPolicy(venue)));
+  }
+
+  const auditActor = await resolveAuditActor({ id: userId });
+  const author = await loadNotificationRecipient(current.userId);
+  const emailId = await db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper || paper.status !== from) {
+      throw new Error(`The paper is now "${paper?.status}". Please reload it and try again.`);
+    }
+    const update: Record<string, FieldValue | Timestamp | string | null> = { status, lastUpdatedAt: FieldValue.serverTimestamp() };
+    // paidAt only records an actual payment; moving a paper on without one leaves it empty.
+    if (options.paidAt) {
+      update.paidAt = Timestamp.fromDate(new Date(options.paidAt));
+    }
+    if (status === "Submitted") {
+      update.submissionDate = FieldValue.serverTimestamp();
+      update.paymentDueDate = null;
+    } else if (paymentDueDate) {
+      update.paymentDueDate = paymentDueDate;
+    }
+    transaction.update(paperRef, update);
+    // The message is posted to the discussion, linked to the change it came with.
+    if (feedback) {
+      transaction.create(paperRef.collection("messages").doc(), {
+        paperId,
+        authorId: userId,
+        authorName: auditActor.name,
+        authorRole: "admin",
+        body: feedback,
+        visibility: "author",
+        attachments: [],
+        statusChange: { from, to: status },
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+    addAuditEvent(transaction, auditActor, {
+      action: "paper.status",
+      targetType: "paper",
+      targetId: paperId,
+      targetLabel: paper.title || null,
+      before: { status: from },
+      after: { status, actor, paidAt: options.paidAt || null },
+    });
+    return addPaperAuthorNotification(transaction, paperId, paper, author, isDecisionStatus(status) ? "decision" : "status-changed", { status, feedback });
+  });
+  if (emailId) {
+    await startEmailDelivery(emailId);
+  }
+};
+
+// An author sending a revised manuscript: the new version, the paper's update and the audit entry are written together.
+export const applyPaperRevision = async (
+  userId: string,
+  paperId: string,
+  revision: PaperRevisionData,
+  file: PaperRevisionFile
+): Promise<void> => {
+  if (!revision.responseToReviewers.trim()) {
+    throw new Error("A response to the reviewers is required with every revision.");
+  }
+  if (!isStoredDocumentUrl(file.fileUrl)) {
+    throw new Error("The manuscript must be uploaded to the configured file storage.");
+  }
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const versionsRef = paperRef.collection("versions");
+  const auditActor = await resolveAuditActor({ id: userId });
+  const extractedContent = await extractStoredDocumentSafely(file.fileUrl, file.fileName);
+
+  await db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper) {
+      throw new Error("Paper not found.");
+    }
+    if (paper.userId !== userId) {
+      throw new Error("Only the submitting author can revise this paper.");
+    }
+    assertPaperStatusTransition(paper.status as PaperStatus, "Under Review", "author");
+
+    let currentVersion: number = paper.currentVersion || 0;
+    if (!currentVersion) {
+      // Papers submitted before version history existed: record the original manuscript as version 1.
+      const original: Omit<PaperVersion, 'id' | 'createdAt'> = {
+        paperId,
+        versionNumber: 1,
+        title: paper.title,
+        abstract: paper.abstract,
+        authors: paper.authors || [],
+        keywords: paper.keywords || [],
+        fileName: paper.fileName || null,
+        fileUrl: paper.fileUrl || null,
+        responseToReviewers: null,
+        createdBy: paper.userId,
+      };
+      transaction.create(versionsRef.doc("1"), { ...original, createdAt: paper.uploadDate || FieldValue.serverTimestamp() });
+      currentVersion = 1;
+    }
+    const versionNumber = currentVersion + 1;
+    const version: Omit<PaperVersion, 'id' | 'createdAt'> = {
+      paperId,
+      versionNumber,
+      title: revision.title,
+      abstract: revision.abstract,
+      authors: revision.authors,
+      keywords: revision.keywords,
+      fileName: file.fileName,
+      fileUrl: file.fileUrl,
+      responseToReviewers: revision.responseToReviewers.trim(),
+      createdBy: userId,
+    };
+    transaction.create(versionsRef.doc(String(versionNumber)), { ...version, createdAt: FieldValue.serverTimestamp() });
+    transaction.update(paperRef, {
+      title: revision.title,
+      abstract: revision.abstract,
+      authors: revision.authors,
+      keywords: revision.keywords,
+      fileName: file.fileName,
+      fileUrl: file.fileUrl,
+      extractedContent,
+      currentVersion: versionNumber,
+      status: "Under Review",
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+    });
+    addAuditEvent(transaction, auditActor, {
+      action: "paper.status",
+      targetType: "paper",
+      targetId: paperId,
+      targetLabel: revision.title,
+      before: { status: paper.status, currentVersion },
+      after: { status: "Under Review", actor: "author", currentVersion: versionNumber },
+    });
+  });
+  await refreshPaperFingerprint(paperId);
+};
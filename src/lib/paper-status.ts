@@ -0,0 +1,96 @@
+
+import type { PaperStatus } from '@/types';
+
+// Who is asking for a status change. "system" covers server-side processes such as payment verification and deadline enforcement.
+export type PaperStatusActor = "author" | "admin" | "reviewer" | "system";
+
+// Extra data a transition needs before it can be applied.
+export type PaperStatusRequirement = "feedback";
+
+export interface PaperStatusTransition {
+  to: PaperStatus;
+  actors: PaperStatusActor[];
+  requires?: PaperStatusRequirement[];
+}
+
+export interface PaperStatusTransitionContext {
+  feedback?: string | null;
+}
+
+// Central table of every legal status change. Anything not listed here is rejected by assertPaperStatusTransition.
+export const PAPER_STATUS_TRANSITIONS: Record<PaperStatus, PaperStatusTransition[]> = {
+  "Draft": [
+    { to: "Submitted", actors: ["author"] },
+    { to: "Payment Pending", actors: ["author"] },
+  ],
+  "Payment Pending": [
+    { to: "Submitted", actors: ["system", "admin"] }, // Payment verified with the gateway, or confirmed by an admin
+    { to: "Payment Overdue", actors: ["system", "admin"] },
+    { to: "Rejected", actors: ["admin", "system"] },
+  ],
+  "Payment Overdue": [
+    { to: "Submitted", actors: ["system", "admin"] }, // Late payment: verified with the gateway where the venue allows it, otherwise confirmed by an admin
+    { to: "Rejected", actors: ["admin", "system"] },
+  ],
+  "Submitted": [
+    { to: "Under Review", actors: ["admin", "reviewer"] },
+    { to: "Action Required", actors: ["admin"], requires: ["feedback"] },
+    { to: "Rejected", actors: ["admin"] }, // Desk rejection
+  ],
+  "Under Review": [
+    { to: "Action Required", actors: ["admin"], requires: ["feedback"] },
+    { to: "Accepted", actors: ["admin"] },
+    { to: "Rejected", actors: ["admin"] },
+  ],
+  "Action Required": [
+    { to: "Under Review", actors: ["author", "admin"] }, // Revised manuscript received
+    { to: "Rejected", actors: ["admin"] },
+  ],
+  "Accepted": [
+    { to: "Published", actors: ["admin"] },
+    { to: "Action Required", actors: ["admin"], requires: ["feedback"] }, // Camera-ready corrections
+  ],
+  "Rejected": [],
+  "Published": [],
+};
+
+export class PaperStatusTransitionError extends Error {
+  readonly from: PaperStatus;
+  readonly to: PaperStatus;
+  readonly actor: PaperStatusActor;
+
+  constructor(from: PaperStatus, to: PaperStatus, actor: PaperStatusActor, message: string) {
+    super(message);
+    this.name = "PaperStatusTransitionError";
+    this.from = from;
+    this.to = to;
+    this.actor = actor;
+  }
+}
+
+export const getAllowedStatusTransitions = (from: PaperStatus, actor: PaperStatusActor): PaperStatusTransition[] =>
+  (PAPER_STATUS_TRANSITIONS[from] || []).filter(transition => transition.actors.includes(actor));
+
+export const canTransitionPaperStatus = (from: PaperStatus, to: PaperStatus, actor: PaperStatusActor): boolean =>
+  getAllowedStatusTransitions(from, actor).some(transition => transition.to === to);
+
+// Throws a PaperStatusTransitionError when the change is not in the table, the actor may not trigger it,
+// or required side data is missing. Returns the matching transition otherwise.
+export const assertPaperStatusTransition = (
+  from: PaperStatus,
+  to: PaperStatus,
+  actor: PaperStatusActor,
+  context: PaperStatusTransitionContext = {}
+): PaperStatusTransition => {
+  const transition = (PAPER_STATUS_TRANSITIONS[from] || []).find(t => t.to === to);
+  if (!transition) {
+    throw new PaperStatusTransitionError(from, to, actor, `A paper cannot move from "${from}" to "${to}".`);
+  }
+  if (!transition.actors.includes(actor)) {
+    throw new PaperStatusTransitionError(from, to, actor, `The ${actor} role is not allowed to move a paper from "${from}" to "${to}".`);
+  }
+  if (transition.requires?.includes("feedback") && !context.feedback?.trim()) {
+    throw new PaperStatusTransitionError(from, to, actor, `Feedback for the author is required when moving a paper to "${to}".`);
+  }
+  return transition;
+};
@@ -0,0 +1,107 @@
+
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import type { AuthorDeclaredConflict, Paper, PaperVersion, Venue } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { DEFAULT_REVIEW_MODE } from "@/lib/anonymization";
+import { getSubmissionBlocker, getSubmissionFee } from "@/lib/venue-schedule";
+import { computePaymentDueDate, getPaymentPolicy } from "@/lib/payment-policy";
+import { submitFeeFreePaper } from "@/lib/fee-adjustments";
+import { extractStoredDocumentSafely, isStoredDocumentUrl } from "@/lib/document-extraction";
+import { refreshPaperFingerprint } from "@/lib/plagiarism-corpus";
+
+/**
+ * New submissions. Papers are created here rather than by the author's browser, so the upload time,
+ * fee and payment deadline are the server's, worked out from the venue as it stands when the paper
+ * arrives. Its text is extracted here from the stored manuscript. Every paper starts as "Payment Pending";
+ * one whose venue charges nothing is submitted here.
+ */
+
+export type NewPaperInput = Pick<Paper, 'title' | 'abstract' | 'authors' | 'keywords' | 'paymentOption'> & {
+  venueId: string;
+  trackId?: string | null;
+  fileName: string;
+  fileUrl: string; // Already uploaded to Cloudinary by the browser
+  declaredConflicts?: AuthorDeclaredConflict[];
+};
+
+// Returns the new paper's ID.
+export const createSubmission = async (userId: string, input: NewPaperInput): Promise<string> => {
+  const db = getAdminDb();
+  if (!input.title?.trim() || !input.fileUrl) {
+    throw new Error("A title and a manuscript file are required.");
+  }
+  if (!isStoredDocumentUrl(input.fileUrl)) {
+    throw new Error("The manuscript must be uploaded to the configured file storage.");
+  }
+  const venueSnap = input.venueId ? await db.collection("venues").doc(input.venueId).get() : null;
+  if (!venueSnap?.exists) {
+    throw new Error("Please choose a venue to submit your paper to.");
+  }
+  const venue = { id: venueSnap.id, ...venueSnap.data() } as Venue;
+  const now = new Date();
+  const submissionBlocker = getSubmissionBlocker(venue, input.trackId, now);
+  if (submissionBlocker) {
+    throw new Error(submissionBlocker);
+  }
+  const submissionFee = getSubmissionFee({ feeSchedule: venue.feeSchedule || [] }, now);
+  const paymentDueDate = submissionFee > 0 ? computePaymentDueDate(now, getPaymentPolicy(venue)) : null;
+  const extractedContent = await extractStoredDocumentSafely(input.fileUrl, input.fileName);
+
+  // Version 1 and the authors' declared conflicts are written with the paper. The conflicts are kept off it,
+  // since any user can read a published paper; only admins read the declarations.
+  const paperRef = db.collection("papers").doc();
+  const batch = db.batch();
+  batch.create(paperRef, {
+    userId,
+    title: input.title,
+    abstract: input.abstract,
+    authors: input.authors,
+    keywords: input.keywords,
+    fileName: input.fileName || null,
+    fileUrl: input.fileUrl,
+    reviewMode: venue.reviewMode || DEFAULT_REVIEW_MODE,
+    venueId: venue.id,
+    trackId: venue.tracks.length > 0 ? input.trackId || null : null,
+    submissionFee,
+    currency: venue.currency || null,
+    currentVersion: 1,
+    extractedContent,
+    uploadDate: Timestamp.fromDate(now),
+    status: "Payment Pending",
+    paymentOption: input.paymentOption || null,
+    paymentDueDate: paymentDueDate ? Timestamp.fromDate(paymentDueDate) : null,
+    paidAt: null,
+    submissionDate: null,
+    plagiarismScore: null,
+    acceptanceProbability: null,
+    lastUpdatedAt: FieldValue.serverTimestamp(),
+  });
+  const firstVersion: Omit<PaperVersion, 'id' | 'createdAt'> = {
+    paperId: paperRef.id,
+    versionNumber: 1,
+    title: input.title,
+    abstract: input.abstract,
+    authors: input.authors,
+    keywords: input.keywords,
+    fileName: input.fileName || null,
+    fileUrl: input.fileUrl,
+    responseToReviewers: null,
+    createdBy: userId,
+  };
+  batch.create(paperRef.collection("versions").doc("1"), { ...firstVersion, createdAt: Timestamp.fromDate(now) });
+  if (input.declaredConflicts?.length) {
+    batch.create(db.collection("conflictDeclarations").doc(paperRef.id), {
+      paperId: paperRef.id,
+      userId,
+      conflicts: input.declaredConflicts.map(({ reviewerId, reviewerName, reason }) => ({ reviewerId, reviewerName, reason: reason || null })),
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+  await refreshPaperFingerprint(paperRef.id);
+
+  if (submissionFee === 0) {
+    await submitFeeFreePaper(userId, paperRef.id);
+  }
+  return paperRef.id;
+};
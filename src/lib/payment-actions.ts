@@ -0,0 +1,105 @@
+'use server';
+
+import { headers } from 'next/headers';
+import type { DiscountRedemption, FeeWaiverRequest, PaymentCheckout, PaymentConfirmation, PaymentRecord, RefundRecord, SubscriptionRequest, UserSubscription } from '@/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import type { SandboxInstrument } from '@/lib/payment-gateways/sandbox';
+import { confirmPaymentForUser, createPaymentOrder, paySandboxOrderForUser, refreshPaymentForUser } from '@/lib/payment-processing';
+import { refreshRefund as refreshRefundWithGateway, refundPayment as refundPaymentWithGateway } from '@/lib/refunds';
+import {
+  createDiscountCode as createDiscountCodeRecord,
+  decideFeeWaiver as decideFeeWaiverRequest,
+  redeemDiscountCode,
+  requestFeeWaiver as createFeeWaiverRequest,
+  updateDiscountCode as updateDiscountCodeRecord,
+  type DiscountCodeInput,
+  type FeeWaiverRequestInput,
+} from '@/lib/fee-adjustments';
+import {
+  coverPaperWithSubscription,
+  decideSubscriptionRequest,
+  requestSubscription as createSubscriptionRequest,
+  type SubscriptionRequestInput,
+} from '@/lib/subscription-billing';
+import { writeAuditEvent } from '@/lib/audit-log';
+
+// Every call is made as the signed-in author; the ID token is verified before anything touches the gateway.
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  const userSnap = await getAdminDb().collection('users').doc(uid).get();
+  if (userSnap.data()?.isAdmin !== true) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+export async function startPayment(idToken: string, paperId: string): Promise<PaymentCheckout> {
+  const uid = await verifyUser(idToken);
+  const origin = (await headers()).get('origin') || '';
+  return createPaymentOrder(uid, paperId, `${origin}/papers/${paperId}`);
+}
+
+export async function payWithSandbox(idToken: string, paymentId: string, instrument: SandboxInstrument): Promise<PaymentRecord> {
+  return paySandboxOrderForUser(await verifyUser(idToken), paymentId, instrument);
+}
+
+export async function confirmPayment(idToken: string, paymentId: string, confirmation: PaymentConfirmation): Promise<PaymentRecord> {
+  return confirmPaymentForUser(await verifyUser(idToken), paymentId, confirmation);
+}
+
+export async function refreshPayment(idToken: string, paymentId: string): Promise<PaymentRecord> {
+  return refreshPaymentForUser(await verifyUser(idToken), paymentId);
+}
+
+export async function refundPayment(idToken: string, paymentId: string, amount: number, reason: string): Promise<RefundRecord> {
+  const uid = await verifyAdmin(idToken);
+  const refund = await refundPaymentWithGateway({ paymentId, amount, reason, requestedBy: uid });
+  await writeAuditEvent({ id: uid }, {
+    action: 'payment.refund',
+    targetType: 'payment',
+    targetId: paymentId,
+    targetLabel: refund.paperId,
+    after: { refundId: refund.id, amount: refund.amount, currency: refund.currency, reason: refund.reason, status: refund.status },
+  });
+  return refund;
+}
+
+export async function refreshRefund(idToken: string, refundId: string): Promise<RefundRecord> {
+  await verifyAdmin(idToken);
+  return refreshRefundWithGateway(refundId);
+}
+
+export async function applyDiscountCode(idToken: string, paperId: string, code: string): Promise<DiscountRedemption> {
+  return redeemDiscountCode(await verifyUser(idToken), paperId, code);
+}
+
+// Returns the code as stored, upper-cased.
+export async function createDiscountCode(idToken: string, code: string, input: DiscountCodeInput): Promise<string> {
+  return createDiscountCodeRecord(await verifyAdmin(idToken), code, input);
+}
+
+export async function updateDiscountCode(idToken: string, codeId: string, input: Partial<DiscountCodeInput>): Promise<void> {
+  return updateDiscountCodeRecord(await verifyAdmin(idToken), codeId, input);
+}
+
+export async function requestFeeWaiver(idToken: string, paperId: string, input: FeeWaiverRequestInput): Promise<FeeWaiverRequest> {
+  return createFeeWaiverRequest(await verifyUser(idToken), paperId, input);
+}
+
+export async function decideFeeWaiver(idToken: string, waiverId: string, approve: boolean, note?: string): Promise<FeeWaiverRequest> {
+  return decideFeeWaiverRequest(waiverId, approve, await verifyAdmin(idToken), note);
+}
+
+export async function requestSubscription(idToken: string, input: SubscriptionRequestInput): Promise<SubscriptionRequest> {
+  return createSubscriptionRequest(await verifyUser(idToken), input);
+}
+
+export async function decideSubscription(idToken: string, requestId: string, approve: boolean, note?: string): Promise<SubscriptionRequest> {
+  return decideSubscriptionRequest(requestId, approve, await verifyAdmin(idToken), note);
+}
+
+export async function applySubscriptionToPaper(idToken: string, paperId: string): Promise<UserSubscription> {
+  return coverPaperWithSubscription(await verifyUser(idToken), paperId);
+}
@@ -0,0 +1,208 @@
+
+import { FieldValue, Timestamp, type DocumentData, type QueryDocumentSnapshot } from "firebase-admin/firestore";
+import type { JobTrigger, PaperStatus, PaymentEnforcementAction, PaymentEnforcementRun, Venue } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { computePaymentDueDate, getPaymentPolicy, getPaymentReminderTimes } from "@/lib/payment-policy";
+import { assertPaperStatusTransition } from "@/lib/paper-status";
+import { notifyPaperAuthor } from "@/lib/notification-delivery";
+import { settlePendingPayments } from "@/lib/payment-processing";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Server-side job that moves papers whose payment deadline has passed from "Payment Pending" to
+ * "Payment Overdue", applies their venue's overdue action and notifies the author. Papers with a
+ * payment the gateway is still processing are left for a later run. Papers that are
+ * not yet due get the reminders their venue's payment policy asks for. Every run is stored
+ * in the jobRuns collection. Started by the /api/jobs/payment-enforcement route (for a scheduler), by
+ * `npm run jobs:payment-enforcement`, or by an admin from the settings page.
+ */
+
+export const PAYMENT_ENFORCEMENT_JOB = "payment-enforcement";
+
+export interface EnforceOverduePaymentsOptions {
+  trigger: JobTrigger;
+  triggeredBy?: string | null;
+  now?: Date;
+  dryRun?: boolean; // Report what would change without writing anything
+}
+
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Timestamp) return value.toDate();
+  if (typeof value === "string" || value instanceof Date) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+export const enforceOverduePayments = async (options: EnforceOverduePaymentsOptions): Promise<PaymentEnforcementRun> => {
+  const db = getAdminDb();
+  const now = options.now || new Date();
+  const dryRun = !!options.dryRun;
+  const startedAt = new Date();
+
+  const venues = new Map<string, Venue | null>();
+  const loadVenue = async (venueId: string | null | undefined): Promise<Venue | null> => {
+    if (!venueId) return null;
+    if (!venues.has(venueId)) {
+      const venueSnap = await db.collection("venues").doc(venueId).get();
+      venues.set(venueId, venueSnap.exists ? ({ id: venueSnap.id, ...venueSnap.data() } as Venue) : null);
+    }
+    return venues.get(venueId) || null;
+  };
+
+  // Papers created before the server set every deadline may have none; theirs is worked out from the upload
+  // time and the venue's policy, unless they have no fee to pay.
+  const getDueDate = async (paper: DocumentData): Promise<Date | null> => {
+    const uploadDate = toDate(paper.uploadDate);
+    if (toDate(paper.paymentDueDate) || !uploadDate || paper.submissionFee === 0) {
+      return toDate(paper.paymentDueDate);
+    }
+    return computePaymentDueDate(uploadDate, getPaymentPolicy(await loadVenue(paper.venueId)));
+  };
+
+  // Filtered on the due date here rather than in the query, which would need a composite index.
+  // Papers with a fee waiver request awaiting an admin keep their deadline on hold until it is decided.
+  const pendingSnap = await db.collection("papers").where("status", "==", "Payment Pending").get();
+  const awaiting: Array<{ docSnap: QueryDocumentSnapshot; dueDate: Date }> = [];
+  for (const docSnap of pendingSnap.docs.filter(d => d.data().feeWaiverStatus !== "pending")) {
+    const dueDate = await getDueDate(docSnap.data());
+    if (dueDate) awaiting.push({ docSnap, dueDate });
+  }
+  const overdue = awaiting.filter(entry => entry.dueDate < now);
+
+  // A payment the gateway is still processing may yet go through; such papers wait for the next run.
+  // A dry run only looks for one, since asking the gateway can submit the paper.
+  const hasPendingPayment = async (paperId: string): Promise<boolean> => {
+    if (!dryRun) {
+      return (await settlePendingPayments(paperId)).includes("pending");
+    }
+    const paymentsSnap = await db.collection("payments").where("paperId", "==", paperId).get();
+    return paymentsSnap.docs.some(docSnap => docSnap.data().status === "pending");
+  };
+
+  const auditActor = await resolveAuditActor({ id: null, name: "Payment enforcement job" });
+  const actions: PaymentEnforcementAction[] = [];
+  const paymentsPending: string[] = [];
+  const errors: PaymentEnforcementRun['errors'] = [];
+
+  for (const { docSnap, dueDate } of overdue) {
+    const paper = docSnap.data();
+    try {
+      const { overdueAction } = getPaymentPolicy(await loadVenue(paper.venueId));
+      let finalStatus: PaperStatus = "Payment Overdue";
+      assertPaperStatusTransition("Payment Pending", "Payment Overdue", "system");
+      if (overdueAction === "auto-reject") {
+        assertPaperStatusTransition("Payment Overdue", "Rejected", "system");
+        finalStatus = "Rejected";
+      }
+
+      if (await hasPendingPayment(docSnap.id)) {
+        paymentsPending.push(docSnap.id);
+        continue;
+      }
+
+      if (!dryRun) {
+        // The paper may have been paid, waived or given more time since the query above; only an unpaid
+        // paper whose deadline is still past is changed, together with its rejection notice and audit entry.
+        const applied = await db.runTransaction(async transaction => {
+          const current = (await transaction.get(docSnap.ref)).data();
+          const currentDueDate = current && await getDueDate(current);
+          if (!current || current.status !== "Payment Pending" || current.paymentId || current.feeWaiverStatus === "pending" ||
+              !currentDueDate || currentDueDate >= now) {
+            return false;
+          }
+          transaction.update(docSnap.ref, {
+            status: finalStatus,
+            paymentDueDate: Timestamp.fromDate(currentDueDate),
+            paymentOverdueAt: Timestamp.fromDate(now),
+            latePaymentAllowed: overdueAction === "notify",
+            lastUpdatedAt: FieldValue.serverTimestamp(),
+          });
+          if (finalStatus === "Rejected") {
+            transaction.create(docSnap.ref.collection("messages").doc(), {
+              paperId: docSnap.id,
+              authorId: null,
+              authorName: null,
+              authorRole: "system",
+              body: `Rejected automatically: the submission fee was not paid by ${currentDueDate.toUTCString()}.`,
+              visibility: "author",
+              attachments: [],
+              statusChange: { from: "Payment Overdue", to: "Rejected" },
+              createdAt: FieldValue.serverTimestamp(),
+            });
+          }
+          addAuditEvent(transaction, auditActor, {
+            action: "paper.status",
+            targetType: "paper",
+            targetId: docSnap.id,
+            targetLabel: current.title || null,
+            before: { status: "Payment Pending", paymentDueDate: currentDueDate },
+            after: { status: finalStatus, overdueAction },
+          });
+          return true;
+        });
+        if (!applied) continue;
+        await notifyPaperAuthor(docSnap.id, "payment-overdue", { dueDate: dueDate.toISOString(), overdueAction }, { dedupeKey: `payment-overdue_${docSnap.id}` });
+      }
+
+      actions.push({
+        paperId: docSnap.id,
+        paperTitle: paper.title || "",
+        userId: paper.userId,
+        venueId: paper.venueId || null,
+        paymentDueDate: dueDate.toISOString(),
+        overdueAction,
+        finalStatus,
+      });
+    } catch (error: any) {
+      console.error(`Payment Enforcement (enforceOverduePayments): Failed for paper ${docSnap.id}:`, error);
+      errors.push({ paperId: docSnap.id, message: error.message || String(error) });
+    }
+  }
+
+  // Only the latest reminder that has come due is sent, so a late run does not send several at once.
+  let remindersQueued = 0;
+  for (const { docSnap, dueDate } of awaiting.filter(entry => entry.dueDate >= now)) {
+    const paper = docSnap.data();
+    try {
+      const reminderTime = getPaymentReminderTimes(dueDate, getPaymentPolicy(await loadVenue(paper.venueId)))
+        .filter(time => time <= now)
+        .pop();
+      if (!reminderTime) continue;
+      if (dryRun) {
+        remindersQueued += 1;
+        continue;
+      }
+      const queued = await notifyPaperAuthor(docSnap.id, "payment-due", {
+        dueDate: dueDate.toISOString(),
+        amount: paper.submissionFee ?? null,
+        currency: paper.currency ?? null,
+        isReminder: true,
+      }, { dedupeKey: `payment-due_${docSnap.id}_${reminderTime.getTime()}` });
+      if (queued) remindersQueued += 1;
+    } catch (error: any) {
+      console.error(`Payment Enforcement (enforceOverduePayments): Reminder failed for paper ${docSnap.id}:`, error);
+      errors.push({ paperId: docSnap.id, message: error.message || String(error) });
+    }
+  }
+
+  const run: Omit<PaymentEnforcementRun, 'id'> = {
+    job: PAYMENT_ENFORCEMENT_JOB,
+    trigger: options.trigger,
+    triggeredBy: options.triggeredBy || null,
+    dryRun,
+    startedAt: startedAt.toISOString(),
+    finishedAt: new Date().toISOString(),
+    papersChecked: pendingSnap.size,
+    actions,
+    paymentsPending,
+    remindersQueued,
+    errors,
+  };
+  if (dryRun) {
+    return { id: "dry-run", ...run };
+  }
+  const runRef = await db.collection("jobRuns").add(run);
+  return { id: runRef.id, ...run };
+};
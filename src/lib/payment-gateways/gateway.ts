@@ -0,0 +1,58 @@
+
+import type { PaymentConfirmation, PaymentGatewayId, PaymentMethod } from '@/types';
+
+export interface CreateOrderInput {
+  amount: number; // In major currency units
+  currency: string;
+  receipt: string; // Our payment record ID, echoed back by the gateway for reconciliation
+  description: string;
+  returnUrl: string; // Where hosted checkout pages send the author afterwards
+}
+
+export interface GatewayOrder {
+  orderId: string;
+  publicKey?: string | null;
+  redirectUrl?: string | null;
+}
+
+export interface GatewayPaymentResult {
+  status: "paid" | "pending" | "failed";
+  gatewayPaymentId: string | null;
+  method?: PaymentMethod | null;
+  failureReason?: string | null;
+}
+
+export interface RefundInput {
+  gatewayPaymentId: string;
+  amount: number; // In major currency units; may be less than the amount paid
+  currency: string;
+  reason?: string | null;
+}
+
+export interface GatewayRefund {
+  refundId: string;
+  status: "processed" | "pending" | "failed";
+}
+
+/**
+ * What every payment gateway adapter implements. Adapters only ever run on the server: they hold
+ * the gateway's secret keys, and a payment counts only once confirmPayment has checked it with
+ * the gateway.
+ */
+export interface PaymentGateway {
+  readonly id: PaymentGatewayId;
+  createOrder(input: CreateOrderInput): Promise<GatewayOrder>;
+  /** Checks that a confirmation handed back by the browser was issued by the gateway for that order. */
+  verifySignature(confirmation: PaymentConfirmation): boolean;
+  /** Asks the gateway where a verified payment stands. */
+  confirmPayment(confirmation: PaymentConfirmation): Promise<GatewayPaymentResult>;
+  refund(input: RefundInput): Promise<GatewayRefund>;
+  /** Checks on a refund the gateway accepted but had not finished when it was requested. */
+  getRefundStatus(gatewayRefundId: string, gatewayPaymentId: string): Promise<GatewayRefund>;
+}
+
+// Gateways take amounts in the currency's smallest unit (paise, cents).
+const ZERO_DECIMAL_CURRENCIES = ["JPY", "KRW", "VND", "CLP"];
+
+export const toMinorUnits = (amount: number, currency: string): number =>
+  ZERO_DECIMAL_CURRENCIES.includes(currency.toUpperCase()) ? Math.round(amount) : Math.round(amount * 100);
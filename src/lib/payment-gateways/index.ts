@@ -0,0 +1,46 @@
+
+import type { PaymentGatewayId } from '@/types';
+import type { PaymentGateway } from '@/lib/payment-gateways/gateway';
+import { assertSandboxAllowed, sandboxGateway } from '@/lib/payment-gateways/sandbox';
+import { razorpayGateway } from '@/lib/payment-gateways/razorpay';
+import { stripeGateway } from '@/lib/payment-gateways/stripe';
+
+/**
+ * @fileOverview Selects the gateway that takes submission fees from the PAYMENT_GATEWAY environment variable,
+ * which must be set; there is no default.
+ *
+ * - sandbox - Local simulated gateway (see ./sandbox.ts); no money moves. Needs SANDBOX_PAYMENT_SECRET, and
+ *   is refused in production unless ALLOW_SANDBOX_PAYMENTS=true.
+ * - razorpay - Razorpay Orders + checkout.js; needs RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET.
+ * - stripe - Stripe Checkout; needs STRIPE_SECRET_KEY.
+ *
+ * Existing payments are always handled by the gateway that created them, so switching gateways
+ * does not strand payments that are still pending.
+ */
+
+export const PAYMENT_GATEWAYS = ['sandbox', 'razorpay', 'stripe'] as const;
+
+const GATEWAYS: Record<PaymentGatewayId, PaymentGateway> = {
+  sandbox: sandboxGateway,
+  razorpay: razorpayGateway,
+  stripe: stripeGateway,
+};
+
+export const getPaymentGatewayId = (): PaymentGatewayId => {
+  const configured = (process.env.PAYMENT_GATEWAY || '').trim().toLowerCase();
+  if (!configured) {
+    throw new Error(`PAYMENT_GATEWAY is not set. Expected one of: ${PAYMENT_GATEWAYS.join(', ')}.`);
+  }
+  if (!(PAYMENT_GATEWAYS as readonly string[]).includes(configured)) {
+    throw new Error(`Unknown PAYMENT_GATEWAY "${configured}". Expected one of: ${PAYMENT_GATEWAYS.join(', ')}.`);
+  }
+  return configured as PaymentGatewayId;
+};
+
+// Also guards payments the sandbox created earlier, so a production deployment cannot settle them either.
+export const getPaymentGateway = (id: PaymentGatewayId = getPaymentGatewayId()): PaymentGateway => {
+  if (id === 'sandbox') {
+    assertSandboxAllowed();
+  }
+  return GATEWAYS[id];
+};
@@ -0,0 +1,105 @@
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type { PaymentMethod } from '@/types';
+import type { GatewayRefund, PaymentGateway } from '@/lib/payment-gateways/gateway';
+import { toMinorUnits } from '@/lib/payment-gateways/gateway';
+
+/**
+ * @fileOverview Razorpay adapter, using the REST API directly. Needs RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET.
+ *
+ * The browser opens Razorpay's checkout.js with the order ID and key ID; on success checkout.js
+ * returns razorpay_payment_id and razorpay_signature, where the signature is
+ * HMAC-SHA256("<order_id>|<payment_id>", key secret).
+ */
+
+const API_BASE = "https://api.razorpay.com/v1";
+
+const getCredentials = (): { keyId: string; keySecret: string } => {
+  const keyId = process.env.RAZORPAY_KEY_ID;
+  const keySecret = process.env.RAZORPAY_KEY_SECRET;
+  if (!keyId || !keySecret) {
+    throw new Error("Razorpay is not configured. Set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET.");
+  }
+  return { keyId, keySecret };
+};
+
+const razorpayRequest = async <T>(path: string, init: { method?: string; body?: unknown } = {}): Promise<T> => {
+  const { keyId, keySecret } = getCredentials();
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Basic ${Buffer.from(`${keyId}:${keySecret}`).toString("base64")}`,
+      "Content-Type": "application/json",
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Razorpay: ${data?.error?.description || response.statusText}`);
+  }
+  return data as T;
+};
+
+const toPaymentMethod = (method: string | undefined): PaymentMethod =>
+  method === "card" || method === "upi" || method === "netbanking" || method === "wallet" ? method : "other";
+
+const toRefundStatus = (status: string): GatewayRefund['status'] =>
+  status === "processed" ? "processed" : status === "failed" ? "failed" : "pending";
+
+export const razorpayGateway: PaymentGateway = {
+  id: "razorpay",
+
+  async createOrder({ amount, currency, receipt, description }) {
+    const order = await razorpayRequest<{ id: string }>("/orders", {
+      method: "POST",
+      body: { amount: toMinorUnits(amount, currency), currency, receipt, notes: { description } },
+    });
+    return { orderId: order.id, publicKey: getCredentials().keyId };
+  },
+
+  verifySignature({ orderId, gatewayPaymentId, signature }) {
+    if (!gatewayPaymentId || !signature) return false;
+    const expected = Buffer.from(
+      createHmac("sha256", getCredentials().keySecret).update(`${orderId}|${gatewayPaymentId}`).digest("hex"),
+      "hex",
+    );
+    const actual = Buffer.from(signature, "hex");
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  },
+
+  async confirmPayment({ orderId, gatewayPaymentId }) {
+    if (!gatewayPaymentId) {
+      return { status: "failed", gatewayPaymentId: null, failureReason: "No Razorpay payment was made for this order." };
+    }
+    const payment = await razorpayRequest<{ id: string; order_id: string; status: string; method?: string; error_description?: string | null }>(
+      `/payments/${encodeURIComponent(gatewayPaymentId)}`,
+    );
+    if (payment.order_id !== orderId) {
+      return { status: "failed", gatewayPaymentId: payment.id, failureReason: "The Razorpay payment belongs to a different order." };
+    }
+    const method = toPaymentMethod(payment.method);
+    if (payment.status === "captured") {
+      return { status: "paid", gatewayPaymentId: payment.id, method };
+    }
+    if (payment.status === "failed") {
+      return { status: "failed", gatewayPaymentId: payment.id, method, failureReason: payment.error_description || "The payment failed at Razorpay." };
+    }
+    // "created" or "authorized": the order is set to auto-capture, so this settles without further action.
+    return { status: "pending", gatewayPaymentId: payment.id, method };
+  },
+
+  async refund({ gatewayPaymentId, amount, currency, reason }) {
+    const refund = await razorpayRequest<{ id: string; status: string }>(`/payments/${encodeURIComponent(gatewayPaymentId)}/refund`, {
+      method: "POST",
+      body: { amount: toMinorUnits(amount, currency), notes: reason ? { reason } : undefined },
+    });
+    return { refundId: refund.id, status: toRefundStatus(refund.status) };
+  },
+
+  async getRefundStatus(gatewayRefundId, gatewayPaymentId) {
+    const refund = await razorpayRequest<{ id: string; status: string }>(
+      `/payments/${encodeURIComponent(gatewayPaymentId)}/refunds/${encodeURIComponent(gatewayRefundId)}`,
+    );
+    return { refundId: refund.id, status: toRefundStatus(refund.status) };
+  },
+};
@@ -0,0 +1,135 @@
+
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { PaymentConfirmation } from '@/types';
+import type { GatewayPaymentResult, PaymentGateway } from '@/lib/payment-gateways/gateway';
+
+/**
+ * @fileOverview Local gateway for development and demos. No money moves, but payments go through
+ * the same create order → checkout → signature check → confirm steps as a real gateway.
+ *
+ * The outcome is picked by the test instrument, like a real gateway's test mode:
+ * - Card 4000 0000 0000 0002 or UPI failure@sandbox - declined.
+ * - Card 4000 0000 0000 3220 or UPI pending@sandbox - pending, settles as paid after SANDBOX_PENDING_SETTLE_SECONDS.
+ * - Any other valid card or UPI ID - paid.
+ *
+ * Nothing is kept in memory: the outcome and time are encoded in the payment ID, which is signed
+ * with SANDBOX_PAYMENT_SECRET so the browser cannot forge a successful payment.
+ *
+ * Any test card pays, so the sandbox is refused in production unless ALLOW_SANDBOX_PAYMENTS=true.
+ */
+
+export type SandboxOutcome = "paid" | "failed" | "pending";
+
+export type SandboxInstrument =
+  | { method: "card"; cardNumber: string; expiry: string; cvc: string }
+  | { method: "upi"; upiId: string };
+
+export const SANDBOX_TEST_CARDS: Record<string, SandboxOutcome> = {
+  "4242424242424242": "paid",
+  "4000000000000002": "failed",
+  "4000000000003220": "pending",
+};
+
+export const SANDBOX_TEST_UPI_IDS: Record<string, SandboxOutcome> = {
+  "success@sandbox": "paid",
+  "failure@sandbox": "failed",
+  "pending@sandbox": "pending",
+};
+
+const DECLINE_REASONS: Record<SandboxInstrument['method'], string> = {
+  card: "The card was declined by the issuing bank.",
+  upi: "The UPI payment was declined by the payer's bank.",
+};
+
+export const assertSandboxAllowed = (): void => {
+  if (process.env.NODE_ENV === "production" && process.env.ALLOW_SANDBOX_PAYMENTS !== "true") {
+    throw new Error("The sandbox payment gateway is disabled in production. Set PAYMENT_GATEWAY to a real gateway, or ALLOW_SANDBOX_PAYMENTS=true for a demo deployment.");
+  }
+};
+
+const getSecret = (): string => {
+  const secret = process.env.SANDBOX_PAYMENT_SECRET;
+  if (!secret) {
+    throw new Error("SANDBOX_PAYMENT_SECRET is not set.");
+  }
+  return secret;
+};
+
+const getSettleMs = (): number => Number(process.env.SANDBOX_PENDING_SETTLE_SECONDS || 30) * 1000;
+
+const sign = (orderId: string, paymentId: string): string =>
+  createHmac("sha256", getSecret()).update(`${orderId}|${paymentId}`).digest("hex");
+
+const validateInstrument = (instrument: SandboxInstrument): string | null => {
+  if (instrument.method === "card") {
+    if (!/^\d{13,19}$/.test(instrument.cardNumber.replace(/\s/g, ""))) return "Please enter a valid card number.";
+    if (!/^(0[1-9]|1[0-2])\/\d{2}$/.test(instrument.expiry)) return "Expiry date must be MM/YY.";
+    if (!/^\d{3,4}$/.test(instrument.cvc)) return "CVC must be 3 or 4 digits.";
+    return null;
+  }
+  if (!/^[a-zA-Z0-9.\-_]{2,256}@[a-zA-Z]{2,64}$/.test(instrument.upiId)) return "Please enter a valid UPI ID (e.g., yourname@bank).";
+  return null;
+};
+
+const getOutcome = (instrument: SandboxInstrument): SandboxOutcome =>
+  instrument.method === "card"
+    ? SANDBOX_TEST_CARDS[instrument.cardNumber.replace(/\s/g, "")] || "paid"
+    : SANDBOX_TEST_UPI_IDS[instrument.upiId.trim().toLowerCase()] || "paid";
+
+/**
+ * Stands in for the gateway's hosted checkout: takes the author's test instrument and returns the
+ * signed confirmation a real checkout would hand back to the browser.
+ */
+export const simulateSandboxCheckout = (orderId: string, instrument: SandboxInstrument): PaymentConfirmation => {
+  assertSandboxAllowed();
+  const invalid = validateInstrument(instrument);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  const outcome = getOutcome(instrument);
+  const gatewayPaymentId = `sbxpay_${outcome}_${instrument.method}_${Date.now().toString(36)}_${randomBytes(6).toString("hex")}`;
+  return { orderId, gatewayPaymentId, signature: sign(orderId, gatewayPaymentId) };
+};
+
+const parsePaymentId = (gatewayPaymentId: string): { outcome: SandboxOutcome; method: SandboxInstrument['method']; createdAt: number } | null => {
+  const match = /^sbxpay_(paid|failed|pending)_(card|upi)_([0-9a-z]+)_[0-9a-f]+$/.exec(gatewayPaymentId);
+  if (!match) return null;
+  return { outcome: match[1] as SandboxOutcome, method: match[2] as SandboxInstrument['method'], createdAt: parseInt(match[3], 36) };
+};
+
+export const sandboxGateway: PaymentGateway = {
+  id: "sandbox",
+
+  async createOrder() {
+    return { orderId: `sbxorder_${randomBytes(12).toString("hex")}` };
+  },
+
+  verifySignature({ orderId, gatewayPaymentId, signature }) {
+    if (!gatewayPaymentId || !signature) return false;
+    const expected = Buffer.from(sign(orderId, gatewayPaymentId), "hex");
+    const actual = Buffer.from(signature, "hex");
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  },
+
+  async confirmPayment({ gatewayPaymentId }): Promise<GatewayPaymentResult> {
+    const parsed = gatewayPaymentId ? parsePaymentId(gatewayPaymentId) : null;
+    if (!parsed) {
+      return { status: "failed", gatewayPaymentId: gatewayPaymentId || null, failureReason: "Unknown sandbox payment." };
+    }
+    if (parsed.outcome === "failed") {
+      return { status: "failed", gatewayPaymentId: gatewayPaymentId!, method: parsed.method, failureReason: DECLINE_REASONS[parsed.method] };
+    }
+    if (parsed.outcome === "pending" && Date.now() - parsed.createdAt < getSettleMs()) {
+      return { status: "pending", gatewayPaymentId: gatewayPaymentId!, method: parsed.method };
+    }
+    return { status: "paid", gatewayPaymentId: gatewayPaymentId!, method: parsed.method };
+  },
+
+  async refund() {
+    return { refundId: `sbxrfnd_${randomBytes(12).toString("hex")}`, status: "processed" };
+  },
+
+  async getRefundStatus(gatewayRefundId) {
+    return { refundId: gatewayRefundId, status: "processed" };
+  },
+};
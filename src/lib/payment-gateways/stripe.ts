@@ -0,0 +1,108 @@
+
+import type { PaymentMethod } from '@/types';
+import type { GatewayRefund, PaymentGateway } from '@/lib/payment-gateways/gateway';
+import { toMinorUnits } from '@/lib/payment-gateways/gateway';
+
+/**
+ * @fileOverview Stripe adapter using hosted Checkout Sessions. Needs STRIPE_SECRET_KEY.
+ *
+ * The browser is redirected to the session's checkout page and comes back to the return URL with
+ * the session ID. Stripe does not sign that redirect, so the session is always fetched with the
+ * secret key and its payment_status is what counts.
+ */
+
+const API_BASE = "https://api.stripe.com/v1";
+
+// Stripe takes form-encoded bodies with bracketed keys for nested fields.
+const toFormBody = (fields: Record<string, string | number | undefined>): string =>
+  Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join("&");
+
+const stripeRequest = async <T>(path: string, fields?: Record<string, string | number | undefined>): Promise<T> => {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error("Stripe is not configured. Set STRIPE_SECRET_KEY.");
+  }
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: fields ? "POST" : "GET",
+    headers: {
+      Authorization: `Bearer ${secretKey}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: fields ? toFormBody(fields) : undefined,
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(`Stripe: ${data?.error?.message || response.statusText}`);
+  }
+  return data as T;
+};
+
+type StripeSession = {
+  status: string;
+  payment_status: string;
+  payment_intent: { id: string; latest_charge: { payment_method_details?: { type?: string } } | null } | null;
+};
+
+const toPaymentMethod = (type: string | undefined): PaymentMethod | null =>
+  !type ? null : type === "card" || type === "upi" ? type : "other";
+
+const toRefundStatus = (status: string): GatewayRefund['status'] =>
+  status === "succeeded" ? "processed" : status === "failed" || status === "canceled" ? "failed" : "pending";
+
+const withQuery = (url: string, query: string): string => `${url}${url.includes("?") ? "&" : "?"}${query}`;
+
+export const stripeGateway: PaymentGateway = {
+  id: "stripe",
+
+  async createOrder({ amount, currency, receipt, description, returnUrl }) {
+    const session = await stripeRequest<{ id: string; url: string }>("/checkout/sessions", {
+      mode: "payment",
+      client_reference_id: receipt,
+      "line_items[0][quantity]": 1,
+      "line_items[0][price_data][currency]": currency.toLowerCase(),
+      "line_items[0][price_data][unit_amount]": toMinorUnits(amount, currency),
+      "line_items[0][price_data][product_data][name]": description,
+      // Stripe substitutes {CHECKOUT_SESSION_ID} when it redirects back.
+      success_url: withQuery(returnUrl, "session_id={CHECKOUT_SESSION_ID}"),
+      cancel_url: returnUrl,
+    });
+    return { orderId: session.id, redirectUrl: session.url };
+  },
+
+  verifySignature({ orderId }) {
+    // Nothing to check locally; confirmPayment retrieves the session from Stripe with the secret key.
+    return orderId.startsWith("cs_");
+  },
+
+  async confirmPayment({ orderId }) {
+    const session = await stripeRequest<StripeSession>(
+      `/checkout/sessions/${encodeURIComponent(orderId)}?expand[]=payment_intent.latest_charge`,
+    );
+    const gatewayPaymentId = session.payment_intent?.id || null;
+    const method = toPaymentMethod(session.payment_intent?.latest_charge?.payment_method_details?.type);
+    if (session.payment_status === "paid") {
+      return { status: "paid", gatewayPaymentId, method };
+    }
+    if (session.status === "expired") {
+      return { status: "failed", gatewayPaymentId, method, failureReason: "The Stripe checkout session expired before payment." };
+    }
+    return { status: "pending", gatewayPaymentId, method };
+  },
+
+  async refund({ gatewayPaymentId, amount, currency, reason }) {
+    const refund = await stripeRequest<{ id: string; status: string }>("/refunds", {
+      payment_intent: gatewayPaymentId,
+      amount: toMinorUnits(amount, currency),
+      "metadata[reason]": reason || undefined,
+    });
+    return { refundId: refund.id, status: toRefundStatus(refund.status) };
+  },
+
+  async getRefundStatus(gatewayRefundId) {
+    const refund = await stripeRequest<{ id: string; status: string }>(`/refunds/${encodeURIComponent(gatewayRefundId)}`);
+    return { refundId: refund.id, status: toRefundStatus(refund.status) };
+  },
+};
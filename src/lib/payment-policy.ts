@@ -0,0 +1,37 @@
+
+import type { OverduePaymentAction, PaymentPolicy, Venue } from '@/types';
+
+export const OVERDUE_PAYMENT_ACTION_LABELS: Record<OverduePaymentAction, string> = {
+  "auto-reject": "Reject the paper automatically",
+  "hold": "Hold the paper until an admin decides",
+  "notify": "Notify only (the author can still pay late)",
+};
+
+// Matches the behaviour before payment settings existed: two hours to pay, admins reject overdue papers by hand.
+export const DEFAULT_PAYMENT_POLICY: PaymentPolicy = {
+  gracePeriodHours: 2,
+  reminderHoursBeforeDue: [1],
+  overdueAction: "hold",
+};
+
+export const getPaymentPolicy = (venue: Pick<Venue, 'paymentPolicy'> | null | undefined): PaymentPolicy =>
+  venue?.paymentPolicy || DEFAULT_PAYMENT_POLICY;
+
+/** The single place payment deadlines are computed from. */
+export const computePaymentDueDate = (from: Date, policy: PaymentPolicy): Date =>
+  new Date(from.getTime() + policy.gracePeriodHours * 60 * 60 * 1000);
+
+// Reminder times that fall inside the grace period, earliest first.
+export const getPaymentReminderTimes = (dueDate: Date, policy: PaymentPolicy): Date[] =>
+  Array.from(new Set(policy.reminderHoursBeforeDue))
+    .filter(hours => hours > 0 && hours < policy.gracePeriodHours)
+    .sort((a, b) => b - a)
+    .map(hours => new Date(dueDate.getTime() - hours * 60 * 60 * 1000));
+
+export const formatGracePeriod = (hours: number): string => {
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
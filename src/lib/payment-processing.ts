@@ -0,0 +1,267 @@
+
+import { FieldValue, Timestamp, type DocumentData, type DocumentReference } from "firebase-admin/firestore";
+import type { PaperStatus, PaymentCheckout, PaymentConfirmation, PaymentPayer, PaymentRecord, PaymentStatus, Venue } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getPaymentGateway } from "@/lib/payment-gateways";
+import { simulateSandboxCheckout, type SandboxInstrument } from "@/lib/payment-gateways/sandbox";
+import { assertPaperStatusTransition } from "@/lib/paper-status";
+import { issueInvoiceForPayment } from "@/lib/invoicing";
+import { notifySubmissionReceived } from "@/lib/notification-delivery";
+import { DEFAULT_CURRENCY, DEFAULT_SUBMISSION_FEE, getSubmissionFee, getSubmissionWindowBlocker } from "@/lib/venue-schedule";
+
+/**
+ * Server side of submission fee payments. Orders are created from the fee worked out here, and
+ * a paper only moves to "Submitted" once the gateway has confirmed the payment here; the browser
+ * never marks a paper as paid. Payment records live in the payments collection.
+ */
+
+export const isPayable = (paper: DocumentData): boolean =>
+  paper.status === "Payment Pending" || (paper.status === "Payment Overdue" && paper.latePaymentAllowed === true);
+
+export interface PaperFee {
+  baseFee: number; // From the venue's fee schedule at the time of submission
+  discountAmount: number; // From the paper's redemption record, written by redeemDiscountCode
+  amount: number; // What is due
+  currency: string;
+}
+
+/**
+ * The fee due for a paper, from its venue's fee schedule and the discount redeemed on the server.
+ * The submissionFee, currency and discount fields on the paper are only shown to the author; nothing
+ * is charged from them. Papers from before venues existed pay the default fee.
+ */
+export const getPaperFee = async (paper: DocumentData, paperId: string): Promise<PaperFee> => {
+  const db = getAdminDb();
+  const [venueSnap, redemptionSnap] = await Promise.all([
+    paper.venueId ? db.collection("venues").doc(paper.venueId).get() : Promise.resolve(null),
+    db.collection("discountRedemptions").doc(paperId).get(),
+  ]);
+  const venue = venueSnap?.data();
+  const submittedAt: Date = paper.uploadDate instanceof Timestamp ? paper.uploadDate.toDate() : new Date();
+  const baseFee = venue ? getSubmissionFee({ feeSchedule: venue.feeSchedule || [] }, submittedAt) : DEFAULT_SUBMISSION_FEE;
+  const discountAmount = Math.min(Number(redemptionSnap.data()?.discountAmount) || 0, baseFee);
+  return {
+    baseFee,
+    discountAmount,
+    amount: Math.round((baseFee - discountAmount) * 100) / 100,
+    currency: venue?.currency || DEFAULT_CURRENCY,
+  };
+};
+
+/**
+ * Papers can only be paid for or submitted if they arrived while their venue (and track) was open, judged by
+ * the upload time the server stamped. Papers from before venues existed have no window.
+ */
+export const assertUploadedWithinWindow = async (paper: DocumentData): Promise<void> => {
+  const venueSnap = paper.venueId ? await getAdminDb().collection("venues").doc(paper.venueId).get() : null;
+  if (!venueSnap?.exists || !(paper.uploadDate instanceof Timestamp)) return;
+  const blocker = getSubmissionWindowBlocker({ id: venueSnap.id, ...venueSnap.data() } as Venue, paper.trackId, paper.uploadDate.toDate());
+  if (blocker) {
+    throw new Error(`This paper was not submitted while the venue was open. ${blocker}`);
+  }
+};
+
+const loadOwnPayment = async (paymentId: string, userId: string): Promise<{ ref: DocumentReference; payment: PaymentRecord }> => {
+  const ref = getAdminDb().collection("payments").doc(paymentId);
+  const snap = await ref.get();
+  if (!snap.exists || snap.data()?.userId !== userId) {
+    throw new Error("Payment not found.");
+  }
+  return { ref, payment: { id: snap.id, ...snap.data() } as PaymentRecord };
+};
+
+// Moves the paper to "Submitted" in a transaction, so a payment confirmed twice is applied once.
+const markPaperPaid = async (payment: PaymentRecord, paidAt: Date): Promise<void> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(payment.paperId);
+  await db.runTransaction(async transaction => {
+    const paper = (await transaction.get(paperRef)).data();
+    if (!paper) {
+      throw new Error("Paper not found.");
+    }
+    if (paper.paymentId === payment.id) return;
+    if (!isPayable(paper)) {
+      // Left for an admin to refund; the payment record still shows it was paid.
+      throw new Error(`Your payment was received, but the paper is now "${paper.status}". Please contact the editorial office.`);
+    }
+    await assertUploadedWithinWindow(paper);
+    assertPaperStatusTransition(paper.status as PaperStatus, "Submitted", "system");
+    transaction.update(paperRef, {
+      status: "Submitted",
+      paidAt: Timestamp.fromDate(paidAt),
+      submissionDate: Timestamp.fromDate(paidAt),
+      paymentDueDate: null,
+      paymentId: payment.id,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+    });
+  });
+};
+
+// Invoicing problems must not hold up the submission; a missing invoice is issued the next time the payment is checked.
+const issueInvoiceSafely = async (payment: PaymentRecord): Promise<PaymentRecord> => {
+  try {
+    const invoice = await issueInvoiceForPayment(payment.id);
+    return { ...payment, invoiceId: invoice.id, invoiceNumber: invoice.number };
+  } catch (error) {
+    console.error(`Payment Processing (issueInvoiceSafely): Could not issue an invoice for payment ${payment.id}:`, error);
+    return payment;
+  }
+};
+
+const applyGatewayResult = async (ref: DocumentReference, payment: PaymentRecord, confirmation: PaymentConfirmation): Promise<PaymentRecord> => {
+  const result = await getPaymentGateway(payment.gateway).confirmPayment(confirmation);
+  const now = new Date();
+  const updated: PaymentRecord = {
+    ...payment,
+    status: result.status,
+    gatewayPaymentId: result.gatewayPaymentId || payment.gatewayPaymentId || null,
+    method: result.method || payment.method || null,
+    failureReason: result.failureReason || null,
+    updatedAt: now.toISOString(),
+    paidAt: result.status === "paid" ? now.toISOString() : null,
+  };
+  const { id, ...data } = updated;
+  await ref.update(data);
+  if (updated.status === "paid") {
+    await markPaperPaid(updated, now);
+    await notifySubmissionReceived(updated.paperId);
+    return issueInvoiceSafely(updated);
+  }
+  return updated;
+};
+
+/**
+ * Asks the gateway about the paper's payments that are still pending; any that have gone through
+ * submit the paper as usual. Returns the status of each of those payments after the check.
+ */
+export const settlePendingPayments = async (paperId: string): Promise<PaymentStatus[]> => {
+  // Filtered in memory to avoid a composite index on paperId + status.
+  const paymentsSnap = await getAdminDb().collection("payments").where("paperId", "==", paperId).get();
+  const statuses: PaymentStatus[] = [];
+  for (const docSnap of paymentsSnap.docs.filter(d => d.data().status === "pending")) {
+    const settled = await applyGatewayResult(docSnap.ref, { id: docSnap.id, ...docSnap.data() } as PaymentRecord, {
+      orderId: docSnap.data().gatewayOrderId,
+      gatewayPaymentId: docSnap.data().gatewayPaymentId,
+    });
+    statuses.push(settled.status);
+  }
+  return statuses;
+};
+
+export const createPaymentOrder = async (userId: string, paperId: string, returnUrl: string): Promise<PaymentCheckout> => {
+  const db = getAdminDb();
+  const paperSnap = await db.collection("papers").doc(paperId).get();
+  const paper = paperSnap.data();
+  if (!paper || paper.userId !== userId) {
+    throw new Error("Paper not found.");
+  }
+  if (!isPayable(paper)) {
+    throw new Error(`The submission fee cannot be paid while the paper is "${paper.status}".`);
+  }
+  await assertUploadedWithinWindow(paper);
+
+  // An earlier payment may have settled since the author last looked; never take the fee twice.
+  const settled = await settlePendingPayments(paperId);
+  if (settled.includes("paid")) {
+    throw new Error("Your earlier payment for this paper has just been confirmed; there is nothing more to pay.");
+  }
+  if (settled.includes("pending")) {
+    throw new Error("An earlier payment for this paper is still being processed. Please try again in a few minutes.");
+  }
+
+  const profile = (await db.collection("users").doc(userId).get()).data();
+  const payer: PaymentPayer = {
+    name: profile?.displayName || "",
+    email: profile?.email || null,
+    institution: profile?.institution || null,
+    gstin: profile?.gstin || null,
+  };
+
+  const { amount, currency } = await getPaperFee(paper, paperId);
+  if (amount <= 0) {
+    throw new Error("There is no fee to pay for this paper.");
+  }
+  if (paper.submissionFee !== amount || paper.currency !== currency) {
+    await paperSnap.ref.update({ submissionFee: amount, currency, lastUpdatedAt: FieldValue.serverTimestamp() });
+  }
+
+  const gateway = getPaymentGateway();
+  const ref = db.collection("payments").doc();
+  const order = await gateway.createOrder({
+    amount,
+    currency,
+    receipt: ref.id,
+    description: `Submission fee: ${paper.title || paperId}`.slice(0, 250),
+    returnUrl: `${returnUrl}?payment=${ref.id}`,
+  });
+
+  const now = new Date().toISOString();
+  const record: Omit<PaymentRecord, 'id'> = {
+    paperId,
+    userId,
+    gateway: gateway.id,
+    gatewayOrderId: order.orderId,
+    gatewayPaymentId: null,
+    method: null,
+    payer,
+    amount,
+    currency,
+    status: "created",
+    failureReason: null,
+    createdAt: now,
+    updatedAt: now,
+    paidAt: null,
+    invoiceId: null,
+    invoiceNumber: null,
+  };
+  await ref.set(record);
+
+  return {
+    paymentId: ref.id,
+    gateway: gateway.id,
+    orderId: order.orderId,
+    amount,
+    currency,
+    publicKey: order.publicKey || null,
+    redirectUrl: order.redirectUrl || null,
+  };
+};
+
+/** Verifies what the gateway's checkout handed back to the browser and settles the payment. */
+export const confirmPaymentForUser = async (userId: string, paymentId: string, confirmation: PaymentConfirmation): Promise<PaymentRecord> => {
+  const { ref, payment } = await loadOwnPayment(paymentId, userId);
+  if (payment.status === "paid" && !payment.invoiceId) {
+    return issueInvoiceSafely(payment);
+  }
+  if (payment.status === "paid" || payment.status === "refunded") {
+    return payment;
+  }
+  if (confirmation.orderId !== payment.gatewayOrderId) {
+    throw new Error("This payment confirmation belongs to a different order.");
+  }
+  if (!getPaymentGateway(payment.gateway).verifySignature(confirmation)) {
+    await ref.update({ status: "failed", failureReason: "The payment signature could not be verified.", updatedAt: new Date().toISOString() });
+    throw new Error("The payment could not be verified. You have not been marked as paid.");
+  }
+  return applyGatewayResult(ref, payment, confirmation);
+};
+
+export const paySandboxOrderForUser = async (userId: string, paymentId: string, instrument: SandboxInstrument): Promise<PaymentRecord> => {
+  const { payment } = await loadOwnPayment(paymentId, userId);
+  if (payment.gateway !== "sandbox") {
+    throw new Error("This payment is not handled by the sandbox gateway.");
+  }
+  return confirmPaymentForUser(userId, paymentId, simulateSandboxCheckout(payment.gatewayOrderId, instrument));
+};
+
+/** Checks a pending payment with the gateway again; its signature was verified when it was first confirmed. */
+export const refreshPaymentForUser = async (userId: string, paymentId: string): Promise<PaymentRecord> => {
+  const { ref, payment } = await loadOwnPayment(paymentId, userId);
+  if (payment.status === "paid" && !payment.invoiceId) {
+    return issueInvoiceSafely(payment);
+  }
+  if (payment.status !== "pending") {
+    return payment;
+  }
+  return applyGatewayResult(ref, payment, { orderId: payment.gatewayOrderId, gatewayPaymentId: payment.gatewayPaymentId });
+};
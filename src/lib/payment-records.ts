@@ -0,0 +1,87 @@
+
+import type { Invoice, PaymentMethod, PaymentRecord, PaymentStatus, RefundStatus } from '@/types';
+import { toCsv } from '@/lib/utils';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  created: "Awaiting payment",
+  pending: "Processing",
+  paid: "Paid",
+  failed: "Failed",
+  "partially-refunded": "Partially refunded",
+  refunded: "Refunded",
+};
+
+export const PAYMENT_STATUS_BADGE_VARIANTS: Record<PaymentStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  created: "outline",
+  pending: "secondary",
+  paid: "default",
+  failed: "destructive",
+  "partially-refunded": "secondary",
+  refunded: "outline",
+};
+
+export const REFUND_STATUS_LABELS: Record<RefundStatus, string> = {
+  requested: "Requested",
+  processed: "Processed",
+  failed: "Failed",
+};
+
+export const REFUND_STATUS_BADGE_VARIANTS: Record<RefundStatus, "default" | "secondary" | "destructive"> = {
+  requested: "secondary",
+  processed: "default",
+  failed: "destructive",
+};
+
+export const getRefundableAmount = (payment: Pick<PaymentRecord, 'amount' | 'refundedAmount'>): number =>
+  Math.max(0, Math.round((payment.amount - (payment.refundedAmount || 0)) * 100) / 100);
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  card: "Card",
+  upi: "UPI",
+  netbanking: "Net banking",
+  wallet: "Wallet",
+  other: "Other",
+};
+
+const PAYMENT_CSV_HEADER = [
+  "Payment ID", "Created", "Status", "Paper ID", "Payer", "Payer Email", "Payer GSTIN", "Method", "Gateway", "Gateway Order",
+  "Gateway Payment", "Currency", "Amount", "Refunded", "Paid At", "Invoice No", "Invoice Date", "Place of Supply", "SAC", "Taxable Value",
+  "GST Rate", "CGST", "SGST", "IGST",
+];
+
+// One row per payment, with its invoice's GST columns filled in when it has one; suitable for a GST sales register.
+export const buildPaymentsCsv = (payments: PaymentRecord[], invoices: Invoice[]): string => {
+  const invoicesByPayment = new Map(invoices.map(invoice => [invoice.paymentId, invoice]));
+  return toCsv([
+    PAYMENT_CSV_HEADER,
+    ...payments.map(payment => {
+      const invoice = invoicesByPayment.get(payment.id);
+      return [
+        payment.id,
+        payment.createdAt,
+        PAYMENT_STATUS_LABELS[payment.status],
+        payment.paperId,
+        payment.payer?.name,
+        payment.payer?.email,
+        payment.payer?.gstin,
+        payment.method ? PAYMENT_METHOD_LABELS[payment.method] : "",
+        payment.gateway,
+        payment.gatewayOrderId,
+        payment.gatewayPaymentId,
+        payment.currency,
+        payment.amount,
+        payment.refundedAmount || 0,
+        payment.paidAt,
+        invoice?.number,
+        invoice?.issuedAt,
+        invoice?.placeOfSupply,
+        invoice?.lineItems.map(item => item.sacCode).join(" "),
+        invoice?.gst.taxableAmount,
+        invoice?.gst.rate,
+        invoice?.gst.cgst,
+        invoice?.gst.sgst,
+        invoice?.gst.igst,
+      ];
+    }),
+  ]);
+};
@@ -0,0 +1,84 @@
+"use client";
+
+import { collection, getDocs, orderBy, query, where } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { CreditNote, Invoice, PaymentRecord, RefundRecord } from '@/types';
+
+// Payments, invoices, refunds and credit notes are written only by the server (see payment-processing.ts,
+// invoicing.ts and refunds.ts); the client just reads them.
+
+export const getAllPayments = async (): Promise<PaymentRecord[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "payments"), orderBy("createdAt", "desc")));
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as PaymentRecord);
+  } catch (error) {
+    console.error("Payment Service (getAllPayments): Error fetching payments:", error);
+    throw error;
+  }
+};
+
+export const getAllInvoices = async (): Promise<Invoice[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "invoices"), orderBy("issuedAt", "desc")));
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as Invoice);
+  } catch (error) {
+    console.error("Payment Service (getAllInvoices): Error fetching invoices:", error);
+    throw error;
+  }
+};
+
+// Authors must pass their own UID so the query matches the security rules; admins may leave it out.
+const getPaperRecords = async <T extends { id: string }>(collectionName: string, paperId: string, userId?: string): Promise<T[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const constraints = [where("paperId", "==", paperId), ...(userId ? [where("userId", "==", userId)] : [])];
+  const querySnapshot = await getDocs(query(collection(firestoreDb, collectionName), ...constraints));
+  return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as T);
+};
+
+export const getPaperPayments = async (paperId: string, userId?: string): Promise<PaymentRecord[]> => {
+  try {
+    const payments = await getPaperRecords<PaymentRecord>("payments", paperId, userId);
+    return payments.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    console.error("Payment Service (getPaperPayments): Error fetching payments:", error);
+    throw error;
+  }
+};
+
+export const getPaperInvoices = async (paperId: string, userId?: string): Promise<Invoice[]> => {
+  try {
+    const invoices = await getPaperRecords<Invoice>("invoices", paperId, userId);
+    return invoices.sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  } catch (error) {
+    console.error("Payment Service (getPaperInvoices): Error fetching invoices:", error);
+    throw error;
+  }
+};
+
+export const getPaperRefunds = async (paperId: string, userId?: string): Promise<RefundRecord[]> => {
+  try {
+    const refunds = await getPaperRecords<RefundRecord>("refunds", paperId, userId);
+    return refunds.sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  } catch (error) {
+    console.error("Payment Service (getPaperRefunds): Error fetching refunds:", error);
+    throw error;
+  }
+};
+
+export const getPaperCreditNotes = async (paperId: string, userId?: string): Promise<CreditNote[]> => {
+  try {
+    const creditNotes = await getPaperRecords<CreditNote>("creditNotes", paperId, userId);
+    return creditNotes.sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  } catch (error) {
+    console.error("Payment Service (getPaperCreditNotes): Error fetching credit notes:", error);
+    throw error;
+  }
+};
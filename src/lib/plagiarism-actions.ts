@@ -0,0 +1,22 @@
+'use server';
+
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import type { PlagiarismCheckOutput } from '@/lib/plagiarism-engine';
+import { checkPaperAgainstCorpus, checkTextAgainstCorpus } from '@/lib/plagiarism-corpus';
+
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const isAdminUser = async (uid: string): Promise<boolean> =>
+  (await getAdminDb().collection('users').doc(uid).get()).data()?.isAdmin === true;
+
+// Pre-submission check of the signed-in author's own text; their existing papers are not counted as sources.
+export async function checkTextForPlagiarism(idToken: string, text: string): Promise<PlagiarismCheckOutput> {
+  return checkTextAgainstCorpus(text, await verifyUser(idToken));
+}
+
+export async function checkPaperForPlagiarism(idToken: string, paperId: string): Promise<PlagiarismCheckOutput> {
+  if (!(await isAdminUser(await verifyUser(idToken)))) {
+    throw new Error('Only admins can do this.');
+  }
+  return checkPaperAgainstCorpus(paperId);
+}
@@ -0,0 +1,66 @@
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { PaperFingerprint } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { comparePlagiarism, fingerprintDocument, type CorpusFingerprint, type PlagiarismCheckOutput } from "@/lib/plagiarism-engine";
+
+/**
+ * The plagiarism corpus: one fingerprint per paper, always for the text the server extracted from its
+ * latest manuscript version (see document-extraction.ts). Papers are fingerprinted here whenever that
+ * text changes. Only the server reads or writes fingerprints, and texts are compared here, so the
+ * corpus never reaches the browser.
+ */
+
+// Fingerprints the text stored on the paper; papers without extracted text are left out of the corpus.
+export const savePaperFingerprint = async (paperId: string): Promise<boolean> => {
+  const db = getAdminDb();
+  const text = (await db.collection("papers").doc(paperId).get()).data()?.extractedContent?.text;
+  if (!text) {
+    return false;
+  }
+  const fingerprint: Omit<PaperFingerprint, 'updatedAt'> = { paperId, ...fingerprintDocument(text) };
+  await db.collection("paperFingerprints").doc(paperId).set({ ...fingerprint, updatedAt: FieldValue.serverTimestamp() });
+  return true;
+};
+
+// Fingerprinting only feeds later plagiarism checks, so a failure must not hold up the change that called for it.
+export const refreshPaperFingerprint = async (paperId: string): Promise<void> => {
+  try {
+    await savePaperFingerprint(paperId);
+  } catch (error) {
+    console.error(`Plagiarism Corpus (refreshPaperFingerprint): Could not fingerprint paper ${paperId}:`, error);
+  }
+};
+
+/**
+ * Compares the text against every fingerprinted paper except the author's own: earlier versions of
+ * the same work, or a paper being resubmitted, are not plagiarism.
+ */
+export const checkTextAgainstCorpus = async (text: string, authorId: string): Promise<PlagiarismCheckOutput> => {
+  const db = getAdminDb();
+  const [fingerprintsSnap, ownPapersSnap] = await Promise.all([
+    db.collection("paperFingerprints").get(),
+    db.collection("papers").where("userId", "==", authorId).select().get(),
+  ]);
+  const ownPaperIds = new Set(ownPapersSnap.docs.map(docSnap => docSnap.id));
+  const corpus: CorpusFingerprint[] = fingerprintsSnap.docs
+    .filter(docSnap => !ownPaperIds.has(docSnap.id))
+    .map(docSnap => {
+      const data = docSnap.data() as PaperFingerprint;
+      return { paperId: data.paperId || docSnap.id, signature: data.signature || [], shingleHashes: data.shingleHashes || [] };
+    });
+  return comparePlagiarism(text, corpus);
+};
+
+// Re-checks a stored submission, refreshing its own fingerprint first for papers submitted before fingerprinting existed.
+export const checkPaperAgainstCorpus = async (paperId: string): Promise<PlagiarismCheckOutput> => {
+  const paper = (await getAdminDb().collection("papers").doc(paperId).get()).data();
+  if (!paper) {
+    throw new Error("Paper not found.");
+  }
+  if (!paper.extractedContent?.text) {
+    throw new Error("No text could be extracted from the paper file.");
+  }
+  await savePaperFingerprint(paperId);
+  return checkTextAgainstCorpus(paper.extractedContent.text, paper.userId);
+};
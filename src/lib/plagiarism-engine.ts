@@ -0,0 +1,146 @@
+
+import type { PlagiarismMatch } from '@/types';
+
+/**
+ * Deterministic text similarity based on word shingles.
+ *
+ * Every manuscript is reduced to the hashes of its overlapping 5-word shingles plus a MinHash
+ * signature of that set. A new document is compared against each fingerprint in the corpus:
+ * the MinHash signatures give a document-level resemblance estimate, and the exact shingle
+ * overlap locates the copied passages in the new document. Only hashes are stored for the
+ * corpus, so the passages quoted in a report always come from the document being checked.
+ */
+
+export const SHINGLE_SIZE = 5;
+export const MINHASH_PERMUTATIONS = 128;
+// Bounds the fingerprint to roughly 200 KB in Firestore; enough for ~20,000 words of manuscript.
+export const MAX_FINGERPRINT_SHINGLES = 20_000;
+// Recorded with every analysis run in place of a model name and prompt version.
+export const PLAGIARISM_ENGINE_ID = "corpus-minhash";
+export const PLAGIARISM_ENGINE_VERSION = `shingle-${SHINGLE_SIZE}/minhash-${MINHASH_PERMUTATIONS}`;
+const MIN_PASSAGE_WORDS = 8;
+const MAX_REPORTED_PASSAGES = 10;
+const MAX_PASSAGE_LENGTH = 300;
+
+export interface DocumentFingerprint {
+  signature: number[];
+  shingleHashes: number[]; // Sorted, unique
+}
+
+export interface CorpusFingerprint extends DocumentFingerprint {
+  paperId: string;
+}
+
+export interface PlagiarismCheckOutput {
+  plagiarismScore: number; // Share of the document's shingles found in at least one corpus paper (0-1)
+  highlightedSections: PlagiarismMatch[];
+}
+
+interface Token {
+  original: string;
+  normalized: string;
+}
+
+const tokenize = (text: string): Token[] =>
+  text
+    .split(/\s+/)
+    .map(word => ({ original: word, normalized: word.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff]+/g, "") }))
+    .filter(token => token.normalized.length > 0);
+
+// 32-bit FNV-1a.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const shingleHashesOf = (tokens: Token[]): number[] => {
+  const hashes: number[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+    hashes.push(hashString(tokens.slice(i, i + SHINGLE_SIZE).map(t => t.normalized).join(" ")));
+  }
+  return hashes;
+};
+
+// Fixed seeds keep signatures comparable across runs and machines.
+const PERMUTATIONS: Array<[number, number]> = Array.from({ length: MINHASH_PERMUTATIONS }, (_, i) => [
+  (hashString(`minhash-a-${i}`) | 1) >>> 0,
+  hashString(`minhash-b-${i}`),
+]);
+
+const minHashSignature = (hashes: number[]): number[] =>
+  PERMUTATIONS.map(([a, b]) => {
+    let min = 0xffffffff;
+    for (const hash of hashes) {
+      const permuted = (Math.imul(a, hash) + b) >>> 0;
+      if (permuted < min) min = permuted;
+    }
+    return min;
+  });
+
+export const fingerprintDocument = (text: string): DocumentFingerprint => {
+  const unique = Array.from(new Set(shingleHashesOf(tokenize(text)))).slice(0, MAX_FINGERPRINT_SHINGLES);
+  return {
+    signature: minHashSignature(unique),
+    shingleHashes: unique.sort((x, y) => x - y),
+  };
+};
+
+export const estimateJaccard = (a: number[], b: number[]): number => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+};
+
+const truncatePassage = (passage: string) =>
+  passage.length > MAX_PASSAGE_LENGTH ? `${passage.slice(0, MAX_PASSAGE_LENGTH).trimEnd()}…` : passage;
+
+export const comparePlagiarism = (text: string, corpus: CorpusFingerprint[]): PlagiarismCheckOutput => {
+  const tokens = tokenize(text);
+  const hashes = shingleHashesOf(tokens);
+  if (hashes.length === 0) {
+    return { plagiarismScore: 0, highlightedSections: [] };
+  }
+  const signature = minHashSignature(Array.from(new Set(hashes)));
+
+  const matchedAnywhere = new Array<boolean>(hashes.length).fill(false);
+  const passages: PlagiarismMatch[] = [];
+
+  corpus.forEach(source => {
+    const sourceHashes = new Set(source.shingleHashes);
+    const matched = hashes.map(hash => sourceHashes.has(hash));
+    if (!matched.some(Boolean)) return;
+    const sourceSimilarity = estimateJaccard(signature, source.signature);
+
+    // Consecutive matching shingles form one copied passage covering their combined words.
+    let runStart = -1;
+    for (let i = 0; i <= matched.length; i++) {
+      if (i < matched.length && matched[i]) {
+        matchedAnywhere[i] = true;
+        if (runStart < 0) runStart = i;
+      } else if (runStart >= 0) {
+        const wordCount = i - runStart + SHINGLE_SIZE - 1;
+        if (wordCount >= MIN_PASSAGE_WORDS) {
+          passages.push({
+            passage: truncatePassage(tokens.slice(runStart, runStart + wordCount).map(t => t.original).join(" ")),
+            sourcePaperId: source.paperId,
+            sourceSimilarity,
+            wordCount,
+          });
+        }
+        runStart = -1;
+      }
+    }
+  });
+
+  return {
+    plagiarismScore: matchedAnywhere.filter(Boolean).length / hashes.length,
+    highlightedSections: passages.sort((a, b) => b.wordCount - a.wordCount).slice(0, MAX_REPORTED_PASSAGES),
+  };
+};
@@ -0,0 +1,29 @@
+"use client";
+
+import { auth } from "@/lib/firebase";
+import type { PlagiarismCheckOutput } from "@/lib/plagiarism-engine";
+import { checkPaperForPlagiarism, checkTextForPlagiarism } from "@/lib/plagiarism-actions";
+
+// Fingerprints and comparisons stay on the server (see plagiarism-corpus.ts), which fingerprints each paper
+// whenever its stored text changes.
+
+// Compares the text against every fingerprinted paper except the signed-in user's own.
+export const checkPlagiarism = async (text: string): Promise<PlagiarismCheckOutput> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot check the document.");
+  }
+  try {
+    return await checkTextForPlagiarism(await auth.currentUser.getIdToken(), text);
+  } catch (error: any) {
+    console.error("Plagiarism Service (checkPlagiarism): Error comparing against corpus:", error);
+    throw new Error(error.message || "Could not check the document against the corpus.");
+  }
+};
+
+// Admin re-check of a stored submission, excluding the submitting author's own papers.
+export const checkPaperPlagiarism = async (paperId: string): Promise<PlagiarismCheckOutput> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot check the paper.");
+  }
+  return checkPaperForPlagiarism(await auth.currentUser.getIdToken(), paperId);
+};
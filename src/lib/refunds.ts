@@ -0,0 +1,151 @@
+
+import type { DocumentReference } from "firebase-admin/firestore";
+import type { PaymentRecord, PaymentStatus, RefundRecord } from '@/types';
+import type { GatewayRefund } from "@/lib/payment-gateways/gateway";
+import { getAdminDb } from "@/lib/firebase-admin";
+import { getPaymentGateway } from "@/lib/payment-gateways";
+import { issueCreditNoteForRefund, issueInvoiceForPayment } from "@/lib/invoicing";
+
+/**
+ * Admin refunds of submission fees, full or partial. A refund is recorded as "requested" before
+ * the gateway is called, then moves to "processed" or "failed" as the gateway reports back; only
+ * processed refunds count against the payment and get a credit note.
+ */
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ["paid", "partially-refunded"];
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export interface RefundPaymentOptions {
+  paymentId: string;
+  amount: number;
+  reason: string;
+  requestedBy: string; // Admin UID
+}
+
+// Like invoices, credit notes must not block the refund itself; a missing one is issued when the refund is next checked.
+const issueCreditNoteSafely = async (refund: RefundRecord): Promise<RefundRecord> => {
+  try {
+    await issueInvoiceForPayment(refund.paymentId); // Credit notes need an invoice to credit; a no-op when it exists
+    const creditNote = await issueCreditNoteForRefund(refund.id);
+    return { ...refund, creditNoteId: creditNote.id, creditNoteNumber: creditNote.number };
+  } catch (error) {
+    console.error(`Refunds (issueCreditNoteSafely): Could not issue a credit note for refund ${refund.id}:`, error);
+    return refund;
+  }
+};
+
+const applyRefundResult = async (ref: DocumentReference, refund: RefundRecord, result: GatewayRefund): Promise<RefundRecord> => {
+  const db = getAdminDb();
+  if (result.status === "pending") {
+    await ref.update({ gatewayRefundId: result.refundId });
+    return { ...refund, gatewayRefundId: result.refundId };
+  }
+  if (result.status === "failed") {
+    const failureReason = "The payment gateway could not process the refund.";
+    await ref.update({ status: "failed", gatewayRefundId: result.refundId, failureReason });
+    return { ...refund, status: "failed", gatewayRefundId: result.refundId, failureReason };
+  }
+
+  const processedAt = new Date().toISOString();
+  const paymentRef = db.collection("payments").doc(refund.paymentId);
+  // Counted against the payment in a transaction so a refund checked twice is only subtracted once.
+  await db.runTransaction(async transaction => {
+    const [refundSnap, paymentSnap] = await Promise.all([transaction.get(ref), transaction.get(paymentRef)]);
+    if (refundSnap.data()?.status === "processed") return;
+    const payment = paymentSnap.data() as PaymentRecord;
+    const refundedAmount = roundMoney((payment.refundedAmount || 0) + refund.amount);
+    transaction.update(ref, { status: "processed", gatewayRefundId: result.refundId, processedAt, failureReason: null });
+    transaction.update(paymentRef, {
+      refundedAmount,
+      status: refundedAmount >= payment.amount ? "refunded" : "partially-refunded",
+      updatedAt: processedAt,
+    });
+  });
+  return issueCreditNoteSafely({ ...refund, status: "processed", gatewayRefundId: result.refundId, processedAt, failureReason: null });
+};
+
+export const refundPayment = async ({ paymentId, amount, reason, requestedBy }: RefundPaymentOptions): Promise<RefundRecord> => {
+  const db = getAdminDb();
+  const paymentSnap = await db.collection("payments").doc(paymentId).get();
+  if (!paymentSnap.exists) {
+    throw new Error("Payment not found.");
+  }
+  const payment = { id: paymentSnap.id, ...paymentSnap.data() } as PaymentRecord;
+  if (!REFUNDABLE_STATUSES.includes(payment.status) || !payment.gatewayPaymentId) {
+    throw new Error("Only paid payments can be refunded.");
+  }
+  if (!reason.trim()) {
+    throw new Error("Please give a reason for the refund.");
+  }
+
+  // Refunds still waiting on the gateway are reserved too, so two admins cannot refund the same money.
+  const refundsSnap = await db.collection("refunds").where("paymentId", "==", paymentId).get();
+  const committed = refundsSnap.docs
+    .map(docSnap => docSnap.data() as RefundRecord)
+    .filter(existing => existing.status !== "failed")
+    .reduce((sum, existing) => sum + existing.amount, 0);
+  const refundable = roundMoney(payment.amount - committed);
+  const refundAmount = roundMoney(amount);
+  if (!(refundAmount > 0) || refundAmount > refundable) {
+    throw new Error(`The refund must be more than 0 and at most ${refundable} ${payment.currency}.`);
+  }
+
+  const ref = db.collection("refunds").doc();
+  const refund: RefundRecord = {
+    id: ref.id,
+    paymentId,
+    paperId: payment.paperId,
+    userId: payment.userId,
+    amount: refundAmount,
+    currency: payment.currency,
+    reason: reason.trim(),
+    status: "requested",
+    gateway: payment.gateway,
+    gatewayRefundId: null,
+    failureReason: null,
+    requestedBy,
+    requestedAt: new Date().toISOString(),
+    processedAt: null,
+    creditNoteId: null,
+    creditNoteNumber: null,
+  };
+  const { id, ...data } = refund;
+  await ref.set(data);
+
+  let result: GatewayRefund;
+  try {
+    result = await getPaymentGateway(payment.gateway).refund({
+      gatewayPaymentId: payment.gatewayPaymentId,
+      amount: refundAmount,
+      currency: payment.currency,
+      reason: refund.reason,
+    });
+  } catch (error: any) {
+    console.error(`Refunds (refundPayment): Gateway refund failed for payment ${paymentId}:`, error);
+    const failureReason = error.message || "The payment gateway rejected the refund.";
+    await ref.update({ status: "failed", failureReason });
+    return { ...refund, status: "failed", failureReason };
+  }
+  return applyRefundResult(ref, refund, result);
+};
+
+/** Checks a requested refund with the gateway again, and issues its credit note if that failed earlier. */
+export const refreshRefund = async (refundId: string): Promise<RefundRecord> => {
+  const ref = getAdminDb().collection("refunds").doc(refundId);
+  const snap = await ref.get();
+  if (!snap.exists) {
+    throw new Error("Refund not found.");
+  }
+  const refund = { id: snap.id, ...snap.data() } as RefundRecord;
+  if (refund.status === "processed" && !refund.creditNoteId) {
+    return issueCreditNoteSafely(refund);
+  }
+  if (refund.status !== "requested" || !refund.gatewayRefundId) {
+    return refund;
+  }
+  const paymentSnap = await getAdminDb().collection("payments").doc(refund.paymentId).get();
+  const gatewayPaymentId: string = paymentSnap.data()?.gatewayPaymentId || "";
+  const result = await getPaymentGateway(refund.gateway).getRefundStatus(refund.gatewayRefundId, gatewayPaymentId);
+  return applyRefundResult(ref, refund, result);
+};
@@ -0,0 +1,43 @@
+'use server';
+
+import type { Review } from '@/types';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import {
+  getPaperCopyForReviewer,
+  getSubmittedReviewsForAuthor as loadSubmittedReviewsForAuthor,
+  type ReviewerPaperCopy,
+} from '@/lib/reviewer-access';
+import { assignReviewerToPaper, removeReviewerFromPaper } from '@/lib/review-assignment';
+
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  if ((await getAdminDb().collection('users').doc(uid).get()).data()?.isAdmin !== true) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+export async function getPaperForReviewer(idToken: string, paperId: string): Promise<ReviewerPaperCopy | null> {
+  return getPaperCopyForReviewer(await verifyUser(idToken), paperId);
+}
+
+export async function getSubmittedReviewsForAuthor(idToken: string, paperId: string): Promise<Review[]> {
+  return loadSubmittedReviewsForAuthor(await verifyUser(idToken), paperId);
+}
+
+// Conflicts of interest are checked on the server; a conflicted reviewer is only assigned with a justification.
+export async function assignReviewer(
+  idToken: string,
+  paperId: string,
+  reviewerId: string,
+  dueDate: string | null,
+  overrideJustification?: string | null
+): Promise<Review> {
+  return assignReviewerToPaper(await verifyAdmin(idToken), paperId, reviewerId, dueDate, overrideJustification);
+}
+
+export async function removeReviewer(idToken: string, reviewId: string): Promise<void> {
+  return removeReviewerFromPaper(await verifyAdmin(idToken), reviewId);
+}
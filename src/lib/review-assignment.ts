@@ -0,0 +1,225 @@
+
+import { FieldValue, Timestamp, type Transaction } from "firebase-admin/firestore";
+import type { Paper, Review, User } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { ConflictOfInterestError, detectConflicts, type ConflictContext } from "@/lib/conflict-of-interest";
+import { anonymizePaperForReviewer, getPaperReviewMode } from "@/lib/anonymization";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Reviewer assignment. Conflicts of interest are checked here against the platform's own data, so an
+ * assignment cannot skip the check. The authors' declarations (conflictDeclarations) and an admin's
+ * reasons for assigning a conflicted reviewer anyway (conflictOverrides) are only readable by admins;
+ * the review document the reviewer and, later, the authors read carries neither. Assignments and their
+ * removal are committed together with their audit log entries.
+ */
+
+const toIsoDate = (value: unknown): string | null =>
+  value instanceof Timestamp ? value.toDate().toISOString() : (typeof value === "string" ? value : null);
+
+// Firestore allows at most 30 values in an "in" or "array-contains-any" filter.
+const QUERY_VALUES_LIMIT = 30;
+
+const toQueryValues = (values: (string | null | undefined)[]): string[][] => {
+  const distinct = Array.from(new Set(values.filter((value): value is string => !!value)));
+  const chunks: string[][] = [];
+  for (let i = 0; i < distinct.length; i += QUERY_VALUES_LIMIT) {
+    chunks.push(distinct.slice(i, i + QUERY_VALUES_LIMIT));
+  }
+  return chunks;
+};
+
+// Loads only what the checks can match: the profiles of the submitter and of users named as the paper's
+// authors, the papers the reviewer submitted or is listed on, and the authors' declarations. Papers are
+// loaded with just the fields the checks compare, since they would otherwise bring their full text.
+const loadConflictContext = async (transaction: Transaction, paper: Paper, reviewer: User): Promise<ConflictContext> => {
+  const db = getAdminDb();
+  const paperFields = ["userId", "title", "authors"];
+  const [submitterSnap, authorSnaps, submittedSnap, listedSnaps, declarationsSnap] = await Promise.all([
+    transaction.get(db.collection("users").doc(paper.userId)),
+    Promise.all(toQueryValues(paper.authors.flatMap(author => [author, author.trim()])).map(names =>
+      transaction.get(db.collection("users").where("displayName", "in", names).select("displayName", "institution")))),
+    transaction.get(db.collection("papers").where("userId", "==", reviewer.id).select(...paperFields)),
+    Promise.all(toQueryValues([reviewer.displayName, reviewer.displayName?.trim()]).map(names =>
+      transaction.get(db.collection("papers").where("authors", "array-contains-any", names).select(...paperFields)))),
+    transaction.get(db.collection("conflictDeclarations").doc(paper.id)),
+  ]);
+
+  const users = new Map<string, User>();
+  if (submitterSnap.exists) {
+    users.set(submitterSnap.id, { id: submitterSnap.id, ...submitterSnap.data() } as User);
+  }
+  authorSnaps.flatMap(snap => snap.docs).forEach(docSnap => users.set(docSnap.id, { id: docSnap.id, ...docSnap.data() } as User));
+  const papers = new Map<string, Paper>();
+  [submittedSnap, ...listedSnaps].flatMap(snap => snap.docs).forEach(docSnap =>
+    papers.set(docSnap.id, { id: docSnap.id, ...docSnap.data(), authors: docSnap.data().authors || [] } as Paper));
+  return {
+    users: Array.from(users.values()),
+    papers: Array.from(papers.values()),
+    declaredConflicts: declarationsSnap.data()?.conflicts || [],
+  };
+};
+
+// The checks and the duplicate check read in the same transaction as the assignment's writes, so two
+// admins assigning the same reviewer at once cannot both succeed.
+export const assignReviewerToPaper = async (
+  adminId: string,
+  paperId: string,
+  reviewerId: string,
+  dueDate: string | null, // ISO date string
+  overrideJustification?: string | null
+): Promise<Review> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const reviewRef = db.collection("reviews").doc();
+  const justification = overrideJustification?.trim() || "";
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  await db.runTransaction(async transaction => {
+    const [paperSnap, reviewerSnap, existing] = await Promise.all([
+      transaction.get(paperRef),
+      transaction.get(db.collection("users").doc(reviewerId)),
+      transaction.get(db.collection("reviews").where("paperId", "==", paperId).where("reviewerId", "==", reviewerId)),
+    ]);
+    if (!paperSnap.exists) {
+      throw new Error("Paper not found.");
+    }
+    if (!reviewerSnap.exists || reviewerSnap.data()?.role !== "Reviewer") {
+      throw new Error("Reviewer not found.");
+    }
+    const paper = { id: paperSnap.id, ...paperSnap.data(), authors: paperSnap.data()?.authors || [] } as Paper;
+    const reviewer = { id: reviewerSnap.id, ...reviewerSnap.data() } as User;
+    if (reviewerId === paper.userId) {
+      throw new Error("The submitting author cannot review their own paper.");
+    }
+    const conflicts = detectConflicts(paper, reviewer, await loadConflictContext(transaction, paper, reviewer));
+    if (conflicts.length > 0 && !justification) {
+      throw new ConflictOfInterestError(conflicts);
+    }
+    if (!existing.empty) {
+      throw new Error(existing.docs[0].data().status === "Declined"
+        ? "This reviewer has already declined an invitation for this paper."
+        : "This reviewer is already assigned to the paper.");
+    }
+
+    const reviewMode = getPaperReviewMode(paper);
+    transaction.create(reviewRef, {
+      paperId,
+      // The reviewer reads this copy of the title, so it gets the same redaction as the paper itself.
+      paperTitle: reviewMode === "double-blind" ? anonymizePaperForReviewer(paper).title : paper.title,
+      reviewerId,
+      reviewerName: reviewMode === "open" ? reviewer.displayName || null : null,
+      assignedBy: adminId,
+      assignedAt: FieldValue.serverTimestamp(),
+      dueDate: dueDate ? Timestamp.fromDate(new Date(dueDate)) : null,
+      status: "Invited",
+      scores: {},
+      recommendation: null,
+      commentsToAuthor: null,
+      submittedAt: null,
+      respondedAt: null,
+      declineReason: null,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+    });
+    if (conflicts.length > 0) {
+      transaction.create(db.collection("conflictOverrides").doc(reviewRef.id), {
+        reviewId: reviewRef.id,
+        paperId,
+        reviewerId,
+        conflicts,
+        justification,
+        overriddenBy: adminId,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+    }
+    transaction.update(paperRef, {
+      reviewerIds: FieldValue.arrayUnion(reviewerId),
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+    });
+    addAuditEvent(transaction, auditActor, {
+      action: "review.assign",
+      targetType: "review",
+      targetId: reviewRef.id,
+      targetLabel: paper.title,
+      after: { paperId, reviewerId, dueDate, conflictOverride: conflicts.length > 0 ? justification : null },
+    });
+  });
+
+  const review = (await reviewRef.get()).data() || {};
+  return {
+    ...review,
+    id: reviewRef.id,
+    assignedAt: toIsoDate(review.assignedAt),
+    dueDate: toIsoDate(review.dueDate),
+    lastUpdatedAt: toIsoDate(review.lastUpdatedAt),
+  } as Review;
+};
+
+// Withdraws an invitation or assignment; submitted reviews stay on the record.
+export const removeReviewerFromPaper = async (adminId: string, reviewId: string): Promise<void> => {
+  const db = getAdminDb();
+  const reviewRef = db.collection("reviews").doc(reviewId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  await db.runTransaction(async transaction => {
+    const review = (await transaction.get(reviewRef)).data();
+    if (!review) {
+      throw new Error("Review not found.");
+    }
+    if (review.status === "Submitted") {
+      throw new Error("Submitted reviews cannot be removed.");
+    }
+    transaction.delete(reviewRef);
+    transaction.update(db.collection("papers").doc(review.paperId), {
+      reviewerIds: FieldValue.arrayRemove(review.reviewerId),
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+    });
+    addAuditEvent(transaction, auditActor, {
+      action: "review.remove",
+      targetType: "review",
+      targetId: reviewId,
+      targetLabel: review.paperTitle || null,
+      before: { paperId: review.paperId, reviewerId: review.reviewerId, status: review.status },
+    });
+  });
+};
+
+/**
+ * Conflict records used to be stored on the documents themselves: the authors' declarations on the
+ * paper and override justifications on the review. Moves any that are left to the admin-only collections.
+ */
+export const moveLegacyConflictRecords = async (): Promise<{ papers: number; reviews: number }> => {
+  const db = getAdminDb();
+  const [papersSnap, reviewsSnap] = await Promise.all([
+    db.collection("papers").where("declaredConflicts", "!=", null).get(),
+    db.collection("reviews").where("conflictOverride", "!=", null).get(),
+  ]);
+  for (const docSnap of papersSnap.docs) {
+    const paper = docSnap.data();
+    const batch = db.batch();
+    if ((paper.declaredConflicts || []).length > 0) {
+      batch.set(db.collection("conflictDeclarations").doc(docSnap.id), {
+        paperId: docSnap.id,
+        userId: paper.userId,
+        conflicts: paper.declaredConflicts,
+        createdAt: paper.uploadDate || FieldValue.serverTimestamp(),
+      });
+    }
+    batch.update(docSnap.ref, { declaredConflicts: FieldValue.delete() });
+    await batch.commit();
+  }
+  for (const docSnap of reviewsSnap.docs) {
+    const review = docSnap.data();
+    const batch = db.batch();
+    batch.set(db.collection("conflictOverrides").doc(docSnap.id), {
+      reviewId: docSnap.id,
+      paperId: review.paperId,
+      reviewerId: review.reviewerId,
+      ...review.conflictOverride,
+      createdAt: review.assignedAt || FieldValue.serverTimestamp(),
+    });
+    batch.update(docSnap.ref, { conflictOverride: FieldValue.delete() });
+    await batch.commit();
+  }
+  return { papers: papersSnap.size, reviews: reviewsSnap.size };
+};
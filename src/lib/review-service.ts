@@ -0,0 +1,316 @@
+
+"use client";
+
+import {
+  collection,
+  getDoc,
+  getDocs,
+  setDoc,
+  doc,
+  query,
+  where,
+  updateDoc,
+  arrayRemove,
+  Timestamp,
+  serverTimestamp,
+} from "firebase/firestore";
+import { auth, db as firestoreDb } from "@/lib/firebase";
+import type { AuthorDeclaredConflict, ConflictOverride, Paper, Review, User, ReviewConfidentialComments, ReviewCriterion, ReviewRecommendation } from '@/types';
+import { changePaperStatus } from "@/lib/paper-actions";
+import {
+  assignReviewer as assignReviewerAction,
+  getPaperForReviewer,
+  getSubmittedReviewsForAuthor as fetchSubmittedReviewsForAuthor,
+  removeReviewer,
+} from "@/lib/review-actions";
+import type { ReviewerPaperCopy } from "@/lib/reviewer-access";
+
+export const REVIEW_CRITERIA: { key: ReviewCriterion; label: string; description: string }[] = [
+  { key: "originality", label: "Originality", description: "Novelty of the problem, approach or findings." },
+  { key: "significance", label: "Significance", description: "Importance of the contribution to the field." },
+  { key: "technicalQuality", label: "Technical Quality", description: "Soundness of methodology, analysis and evidence." },
+  { key: "clarity", label: "Clarity of Presentation", description: "Structure, language, figures and tables." },
+  { key: "relevance", label: "Relevance", description: "Fit with the scope of the venue." },
+];
+
+// Mirrors the recommendation options on the Reviewer Report Form template (/sample-templates).
+export const REVIEW_RECOMMENDATIONS: ReviewRecommendation[] = ["Accept", "Minor Revision", "Major Revision", "Reject"];
+
+export const REVIEW_SCORE_MIN = 1;
+export const REVIEW_SCORE_MAX = 5;
+
+export interface ReviewFormData {
+  scores: Review['scores'];
+  recommendation: ReviewRecommendation | null;
+  commentsToAuthor: string;
+  confidentialComments: string;
+}
+
+const convertReviewTimestamps = (reviewData: any): Review => {
+  const convert = (timestamp: any) =>
+    timestamp instanceof Timestamp ? timestamp.toDate().toISOString() : (timestamp || null);
+
+  return {
+    ...reviewData,
+    scores: reviewData.scores || {},
+    assignedAt: convert(reviewData.assignedAt),
+    dueDate: convert(reviewData.dueDate),
+    submittedAt: convert(reviewData.submittedAt),
+    respondedAt: convert(reviewData.respondedAt),
+    lastUpdatedAt: convert(reviewData.lastUpdatedAt),
+  } as Review;
+};
+
+export interface AssignReviewerOptions {
+  overrideJustification?: string; // Required when the server finds a conflict of interest
+}
+
+// Conflicts are checked on the server (see review-assignment.ts), whatever the panel showed.
+export const assignReviewer = async (
+  paper: Paper,
+  reviewer: Pick<User, 'id'>,
+  dueDate: Date | null,
+  options: AssignReviewerOptions = {}
+): Promise<Review> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot assign reviewers.");
+  }
+  if (reviewer.id === paper.userId) {
+    throw new Error("The submitting author cannot review their own paper.");
+  }
+  return assignReviewerAction(
+    await auth.currentUser.getIdToken(),
+    paper.id,
+    reviewer.id,
+    dueDate ? dueDate.toISOString() : null,
+    options.overrideJustification || null
+  );
+};
+
+// Admin view: the authors' declared conflicts for the paper.
+export const getAuthorDeclaredConflicts = async (paperId: string): Promise<AuthorDeclaredConflict[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const declarationSnap = await getDoc(doc(firestoreDb, "conflictDeclarations", paperId));
+  return declarationSnap.exists() ? declarationSnap.data().conflicts || [] : [];
+};
+
+// Admin view: the reasons given for assigning conflicted reviewers to the paper.
+export const getConflictOverrides = async (paperId: string): Promise<ConflictOverride[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const querySnapshot = await getDocs(query(collection(firestoreDb, "conflictOverrides"), where("paperId", "==", paperId)));
+  return querySnapshot.docs.map(docSnap => {
+    const data = docSnap.data();
+    return { ...data, reviewId: docSnap.id, createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate().toISOString() : null } as ConflictOverride;
+  });
+};
+
+export const removeReviewAssignment = async (review: Review): Promise<void> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot remove the reviewer.");
+  }
+  if (review.status === "Submitted") {
+    throw new Error("Submitted reviews cannot be removed.");
+  }
+  await removeReviewer(await auth.currentUser.getIdToken(), review.id);
+};
+
+// Accepting moves a freshly submitted paper into "Under Review"; declining revokes the reviewer's read access to it.
+export const respondToReviewInvitation = async (review: Review, accept: boolean, declineReason?: string): Promise<Review> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (review.status !== "Invited") {
+    throw new Error("This invitation has already been answered.");
+  }
+  if (!accept && !declineReason?.trim()) {
+    throw new Error("Please give a reason for declining.");
+  }
+  const reviewDocRef = doc(firestoreDb, "reviews", review.id);
+  await updateDoc(reviewDocRef, {
+    status: accept ? "Accepted" : "Declined",
+    declineReason: accept ? null : declineReason!.trim(),
+    respondedAt: serverTimestamp(),
+    lastUpdatedAt: serverTimestamp(),
+  });
+
+  if (accept) {
+    const copy = await getReviewerPaperCopy(review.paperId);
+    if (copy?.paper.status === "Submitted" && auth.currentUser) {
+      await changePaperStatus(await auth.currentUser.getIdToken(), review.paperId, "Under Review");
+    }
+  } else {
+    await updateDoc(doc(firestoreDb, "papers", review.paperId), {
+      reviewerIds: arrayRemove(review.reviewerId),
+      lastUpdatedAt: serverTimestamp(),
+    });
+  }
+
+  const updatedSnap = await getDoc(reviewDocRef);
+  if (!updatedSnap.exists()) throw new Error("Failed to fetch review after responding.");
+  return convertReviewTimestamps({ id: updatedSnap.id, ...updatedSnap.data() });
+};
+
+export const getReview = async (reviewId: string): Promise<Review | null> => {
+  if (!firestoreDb) {
+    return null;
+  }
+  const reviewSnap = await getDoc(doc(firestoreDb, "reviews", reviewId));
+  return reviewSnap.exists() ? convertReviewTimestamps({ id: reviewSnap.id, ...reviewSnap.data() }) : null;
+};
+
+// Admin view: every assignment for the paper, whatever its status.
+export const getPaperReviews = async (paperId: string): Promise<Review[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const q = query(collection(firestoreDb, "reviews"), where("paperId", "==", paperId));
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(docSnap => convertReviewTimestamps({ id: docSnap.id, ...docSnap.data() }));
+};
+
+// Author view: only submitted reviews of a paper the author owns, stripped of reviewer identities on the server.
+export const getSubmittedReviewsForAuthor = async (paperId: string): Promise<Review[]> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot load reviews.");
+  }
+  return fetchSubmittedReviewsForAuthor(await auth.currentUser.getIdToken(), paperId);
+};
+
+// Reviewer view: reviewers cannot read the paper document, so the server sends a copy, anonymized under double-blind review.
+export const getReviewerPaperCopy = async (paperId: string): Promise<ReviewerPaperCopy | null> => {
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot load the paper.");
+  }
+  return getPaperForReviewer(await auth.currentUser.getIdToken(), paperId);
+};
+
+export const getReviewerReviews = async (reviewerId: string): Promise<Review[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const q = query(collection(firestoreDb, "reviews"), where("reviewerId", "==", reviewerId));
+  try {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => convertReviewTimestamps({ id: docSnap.id, ...docSnap.data() }));
+  } catch (error: any) {
+    console.error(`Review Service (getReviewerReviews): Error fetching reviews for reviewer ${reviewerId}:`, error);
+    throw error;
+  }
+};
+
+// All completed reviews across papers, e.g. to derive each reviewer's review history. Admin only.
+export const getSubmittedReviews = async (): Promise<Review[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  const q = query(collection(firestoreDb, "reviews"), where("status", "==", "Submitted"));
+  try {
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map(docSnap => convertReviewTimestamps({ id: docSnap.id, ...docSnap.data() }));
+  } catch (error: any) {
+    console.error("Review Service (getSubmittedReviews): Error fetching submitted reviews:", error);
+    throw error;
+  }
+};
+
+export const getReviewerAssignmentForPaper = async (paperId: string, reviewerId: string): Promise<Review | null> => {
+  if (!firestoreDb) {
+    return null;
+  }
+  const q = query(collection(firestoreDb, "reviews"), where("paperId", "==", paperId), where("reviewerId", "==", reviewerId));
+  const querySnapshot = await getDocs(q);
+  if (querySnapshot.empty) return null;
+  const docSnap = querySnapshot.docs[0];
+  return convertReviewTimestamps({ id: docSnap.id, ...docSnap.data() });
+};
+
+export const getConfidentialComments = async (reviewId: string): Promise<ReviewConfidentialComments | null> => {
+  if (!firestoreDb) {
+    return null;
+  }
+  const snap = await getDoc(doc(firestoreDb, "reviewConfidentialComments", reviewId));
+  return snap.exists() ? (snap.data() as ReviewConfidentialComments) : null;
+};
+
+const writeReview = async (review: Review, data: ReviewFormData, status: Review['status']): Promise<Review> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (review.status === "Submitted") {
+    throw new Error("This review has already been submitted and can no longer be edited.");
+  }
+  if (review.status === "Invited" || review.status === "Declined") {
+    throw new Error("Accept the review invitation before writing the review.");
+  }
+  // Confidential comments are written first: the rules stop reviewers editing them once the review is submitted.
+  await setDoc(doc(firestoreDb, "reviewConfidentialComments", review.id), {
+    reviewId: review.id,
+    paperId: review.paperId,
+    reviewerId: review.reviewerId,
+    comments: data.confidentialComments.trim(),
+  });
+
+  const reviewDocRef = doc(firestoreDb, "reviews", review.id);
+  await updateDoc(reviewDocRef, {
+    scores: data.scores,
+    recommendation: data.recommendation,
+    commentsToAuthor: data.commentsToAuthor.trim() || null,
+    status,
+    submittedAt: status === "Submitted" ? serverTimestamp() : null,
+    lastUpdatedAt: serverTimestamp(),
+  });
+  const updatedSnap = await getDoc(reviewDocRef);
+  if (!updatedSnap.exists()) throw new Error("Failed to fetch review after update.");
+  return convertReviewTimestamps({ id: updatedSnap.id, ...updatedSnap.data() });
+};
+
+export const saveReviewDraft = async (review: Review, data: ReviewFormData): Promise<Review> =>
+  writeReview(review, data, "Draft");
+
+export const submitReview = async (review: Review, data: ReviewFormData): Promise<Review> => {
+  const missingCriteria = REVIEW_CRITERIA.filter(c => !data.scores[c.key]);
+  if (missingCriteria.length > 0) {
+    throw new Error(`Please score every criterion before submitting (missing: ${missingCriteria.map(c => c.label).join(', ')}).`);
+  }
+  if (!data.recommendation) {
+    throw new Error("Please choose a recommendation before submitting.");
+  }
+  if (!data.commentsToAuthor.trim()) {
+    throw new Error("Comments to the author are required.");
+  }
+  return writeReview(review, data, "Submitted");
+};
+
+export interface ReviewAggregate {
+  submittedCount: number;
+  averageScores: Partial<Record<ReviewCriterion, number>>;
+  overallAverage: number | null;
+  recommendationCounts: Record<ReviewRecommendation, number>;
+}
+
+export const aggregateReviews = (reviews: Review[]): ReviewAggregate => {
+  const submitted = reviews.filter(r => r.status === "Submitted");
+  const recommendationCounts = REVIEW_RECOMMENDATIONS.reduce(
+    (counts, rec) => ({ ...counts, [rec]: submitted.filter(r => r.recommendation === rec).length }),
+    {} as Record<ReviewRecommendation, number>
+  );
+  const averageScores: Partial<Record<ReviewCriterion, number>> = {};
+  const criterionAverages: number[] = [];
+  REVIEW_CRITERIA.forEach(({ key }) => {
+    const values = submitted.map(r => r.scores[key]).filter((v): v is number => typeof v === 'number');
+    if (values.length > 0) {
+      averageScores[key] = values.reduce((sum, v) => sum + v, 0) / values.length;
+      criterionAverages.push(averageScores[key]!);
+    }
+  });
+  return {
+    submittedCount: submitted.length,
+    averageScores,
+    overallAverage: criterionAverages.length > 0 ? criterionAverages.reduce((sum, v) => sum + v, 0) / criterionAverages.length : null,
+    recommendationCounts,
+  };
+};
@@ -0,0 +1,98 @@
+
+import { FieldValue, Timestamp, type DocumentData } from "firebase-admin/firestore";
+import type { Paper, PaperVersion, Review } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { anonymizePaperForReviewer, anonymizeVersionForReviewer, getPaperReviewMode } from "@/lib/anonymization";
+
+/**
+ * What reviewers and authors see of each other's documents. Reviewers cannot read paper documents and
+ * authors cannot read review documents (see firestore.rules); both get copies made here instead, limited
+ * to what they need and with identities removed where the paper's review mode calls for it.
+ */
+
+// The paper fields a reviewer works with. Payment, coverage and conflict fields never leave the server.
+const REVIEWER_PAPER_FIELDS = [
+  "userId", "title", "abstract", "authors", "keywords", "fileName", "fileUrl", "uploadDate", "submissionDate", "status",
+  "reviewMode", "reviewersInDiscussion", "currentVersion", "extractedContent", "venueId", "trackId", "lastUpdatedAt",
+] as const;
+
+const toIsoDates = (data: DocumentData): DocumentData =>
+  Object.fromEntries(Object.entries(data).map(([key, value]) => [key, value instanceof Timestamp ? value.toDate().toISOString() : value]));
+
+export interface ReviewerPaperCopy {
+  paper: Paper;
+  versions: PaperVersion[];
+}
+
+/** The paper and its version history as an assigned reviewer may see them, or null if they are not assigned. */
+export const getPaperCopyForReviewer = async (userId: string, paperId: string): Promise<ReviewerPaperCopy | null> => {
+  const paperSnap = await getAdminDb().collection("papers").doc(paperId).get();
+  const data = paperSnap.data();
+  if (!data || !(data.reviewerIds || []).includes(userId)) {
+    return null;
+  }
+  const picked = Object.fromEntries(REVIEWER_PAPER_FIELDS.filter(field => field in data).map(field => [field, data[field]]));
+  // Each reviewer sees only themselves among the paper's reviewers.
+  const paper = { ...toIsoDates(picked), id: paperSnap.id, authors: data.authors || [], reviewerIds: [userId] } as Paper;
+  const versionsSnap = await paperSnap.ref.collection("versions").orderBy("versionNumber", "asc").get();
+  const versions = versionsSnap.docs.map(docSnap => ({ ...toIsoDates(docSnap.data()), id: docSnap.id }) as PaperVersion);
+
+  if (getPaperReviewMode(paper) !== "double-blind" || paper.status === "Published") {
+    return { paper, versions };
+  }
+  return {
+    paper: anonymizePaperForReviewer(paper),
+    versions: versions.map(version => anonymizeVersionForReviewer(version, paper.authors)),
+  };
+};
+
+/**
+ * Submitted reviews of the author's own paper, without the reviewer's ID or anything only editors see.
+ * Reviewer names are only kept under open review, where they are recorded at all.
+ */
+export const getSubmittedReviewsForAuthor = async (userId: string, paperId: string): Promise<Review[]> => {
+  const db = getAdminDb();
+  const paper = (await db.collection("papers").doc(paperId).get()).data();
+  if (!paper || paper.userId !== userId) {
+    throw new Error("Paper not found.");
+  }
+  const isOpenReview = getPaperReviewMode(paper) === "open";
+  // Filtered on status in memory to avoid a composite index on paperId + status.
+  const reviewsSnap = await db.collection("reviews").where("paperId", "==", paperId).get();
+  return reviewsSnap.docs
+    .filter(docSnap => docSnap.data().status === "Submitted")
+    .map(docSnap => {
+      const review = toIsoDates(docSnap.data());
+      return {
+        id: docSnap.id,
+        paperId,
+        paperTitle: paper.title || "",
+        reviewerId: "",
+        reviewerName: isOpenReview ? review.reviewerName || null : null,
+        assignedBy: "",
+        assignedAt: review.assignedAt || null,
+        status: review.status,
+        scores: review.scores || {},
+        recommendation: review.recommendation || null,
+        commentsToAuthor: review.commentsToAuthor || null,
+        submittedAt: review.submittedAt || null,
+      } as Review;
+    })
+    .sort((a, b) => (a.submittedAt || "").localeCompare(b.submittedAt || ""));
+};
+
+/**
+ * Review documents used to carry the submitting author's ID so authors could query their reviews directly.
+ * Reviewers can read their own review documents, so the field is removed from the ones written before.
+ */
+export const removeLegacyReviewOwnerIds = async (): Promise<number> => {
+  const db = getAdminDb();
+  const reviewsSnap = await db.collection("reviews").where("paperOwnerId", "!=", null).get();
+  // Batches hold at most 500 writes.
+  for (let start = 0; start < reviewsSnap.docs.length; start += 500) {
+    const batch = db.batch();
+    reviewsSnap.docs.slice(start, start + 500).forEach(docSnap => batch.update(docSnap.ref, { paperOwnerId: FieldValue.delete() }));
+    await batch.commit();
+  }
+  return reviewsSnap.size;
+};
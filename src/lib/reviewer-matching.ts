@@ -0,0 +1,173 @@
+
+import type { ConflictOfInterest, Paper, Review, User } from '@/types';
+
+/**
+ * Local reviewer suggestions: TF-IDF vectors over the paper (title, abstract, keywords) and each reviewer's
+ * expertise (declared keywords plus the titles and keywords of papers they have reviewed), ranked by cosine
+ * similarity. Runs entirely in the browser, so suggestions work without any model provider.
+ */
+
+export type ReviewedPaper = Pick<Paper, 'id' | 'title' | 'keywords'>;
+
+export interface ReviewerCandidate {
+  reviewer: User;
+  reviewedPapers: ReviewedPaper[];
+}
+
+export interface ReviewerMatch {
+  reviewer: User;
+  score: number; // Cosine similarity (0-1)
+  matchedKeywords: string[]; // Reviewer expertise keywords found in the paper
+  relatedPapers: ReviewedPaper[]; // Previously reviewed papers closest to this one
+  sharedTerms: string[];
+  explanation: string;
+}
+
+export interface ReviewerExclusion {
+  reviewer: User;
+  conflicts: ConflictOfInterest[];
+}
+
+const DEFAULT_SUGGESTION_LIMIT = 5;
+const RELATED_PAPER_THRESHOLD = 0.15;
+const MAX_RELATED_PAPERS = 3;
+const MAX_SHARED_TERMS = 5;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "from", "that", "this", "these", "those", "are", "was", "were", "been", "being",
+  "has", "have", "had", "not", "but", "its", "their", "our", "his", "her", "into", "onto", "over", "under",
+  "between", "than", "then", "also", "such", "can", "may", "will", "would", "could", "should", "which", "who",
+  "whom", "what", "when", "where", "how", "why", "all", "any", "each", "both", "more", "most", "other", "some",
+  "using", "use", "used", "based", "via", "new", "novel", "paper", "study", "approach", "method", "methods",
+  "results", "propose", "proposed", "present", "show", "shows", "work",
+]);
+
+type TermVector = Map<string, number>;
+
+// Lowercased words without stop words; a trailing plural "s" is dropped so "networks" matches "network".
+const tokenizeTerms = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+    .map(word => (word.length > 4 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+
+const countTerms = (weightedTexts: Array<[string, number]>): TermVector => {
+  const counts: TermVector = new Map();
+  weightedTexts.forEach(([text, weight]) => {
+    tokenizeTerms(text).forEach(term => counts.set(term, (counts.get(term) || 0) + weight));
+  });
+  return counts;
+};
+
+const paperTerms = (paper: Pick<Paper, 'title' | 'keywords'> & { abstract?: string }): TermVector =>
+  countTerms([
+    [paper.title, 2],
+    [paper.abstract || "", 1],
+    [paper.keywords.join(" "), 3],
+  ]);
+
+const reviewerTerms = (candidate: ReviewerCandidate): TermVector =>
+  countTerms([
+    [(candidate.reviewer.expertiseKeywords || []).join(" "), 3],
+    ...candidate.reviewedPapers.flatMap((paper): Array<[string, number]> => [[paper.title, 1], [paper.keywords.join(" "), 2]]),
+  ]);
+
+const weightByIdf = (vector: TermVector, idf: Map<string, number>): TermVector =>
+  new Map(Array.from(vector, ([term, count]) => [term, count * (idf.get(term) || 1)]));
+
+const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) || 0);
+  });
+  const norm = (v: TermVector) => Math.sqrt(Array.from(v.values()).reduce((sum, w) => sum + w * w, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator === 0 ? 0 : dot / denominator;
+};
+
+const formatList = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+const explainMatch = (match: Omit<ReviewerMatch, 'explanation' | 'reviewer' | 'score'>): string => {
+  const reasons: string[] = [];
+  if (match.matchedKeywords.length > 0) {
+    reasons.push(`Lists expertise in ${formatList(match.matchedKeywords)}`);
+  }
+  if (match.relatedPapers.length > 0) {
+    const count = match.relatedPapers.length;
+    reasons.push(`reviewed ${count} related paper${count === 1 ? "" : "s"}, e.g. "${match.relatedPapers[0].title}"`);
+  }
+  if (reasons.length === 0 && match.sharedTerms.length > 0) {
+    reasons.push(`Profile shares the terms ${formatList(match.sharedTerms)}`);
+  }
+  const sentence = reasons.join("; ");
+  return sentence ? `${sentence.charAt(0).toUpperCase()}${sentence.slice(1)}.` : "";
+};
+
+/** Groups each reviewer's submitted reviews into the papers they covered. */
+export const collectReviewedPapers = (reviews: Review[], papers: Paper[]): Record<string, ReviewedPaper[]> => {
+  const papersById = new Map(papers.map(paper => [paper.id, paper]));
+  const reviewed: Record<string, ReviewedPaper[]> = {};
+  reviews.forEach(review => {
+    const paper = papersById.get(review.paperId);
+    if (!paper) return;
+    const list = reviewed[review.reviewerId] || (reviewed[review.reviewerId] = []);
+    if (!list.some(p => p.id === paper.id)) list.push({ id: paper.id, title: paper.title, keywords: paper.keywords });
+  });
+  return reviewed;
+};
+
+export const rankReviewersForPaper = (
+  paper: Paper,
+  candidates: ReviewerCandidate[],
+  options: { limit?: number; excludeReviewerIds?: string[]; conflicts?: Record<string, ConflictOfInterest[]> } = {}
+): { matches: ReviewerMatch[]; exclusions: ReviewerExclusion[] } => {
+  const exclusions: ReviewerExclusion[] = [];
+  const eligible = candidates
+    .filter(candidate => !options.excludeReviewerIds?.includes(candidate.reviewer.id))
+    .filter(candidate => {
+      const conflicts = options.conflicts?.[candidate.reviewer.id] || [];
+      if (conflicts.length > 0) exclusions.push({ reviewer: candidate.reviewer, conflicts });
+      return conflicts.length === 0;
+    })
+    // A revised paper must not count as related work of its own reviewers.
+    .map(candidate => ({ ...candidate, reviewedPapers: candidate.reviewedPapers.filter(p => p.id !== paper.id) }));
+
+  const paperVector = paperTerms(paper);
+  const reviewerVectors = eligible.map(reviewerTerms);
+  const documents = [paperVector, ...reviewerVectors];
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(vector => vector.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+  const idf = new Map(Array.from(documentFrequency, ([term, df]) => [term, Math.log((documents.length + 1) / (df + 1)) + 1]));
+  const weightedPaper = weightByIdf(paperVector, idf);
+  const paperText = `${paper.title} ${paper.abstract} ${paper.keywords.join(" ")}`.toLowerCase();
+
+  const matches = eligible
+    .map((candidate, index): ReviewerMatch => {
+      const weightedReviewer = weightByIdf(reviewerVectors[index], idf);
+      const matchedKeywords = (candidate.reviewer.expertiseKeywords || []).filter(keyword => keyword.trim() && paperText.includes(keyword.trim().toLowerCase()));
+      const relatedPapers = candidate.reviewedPapers
+        .map(reviewed => ({ reviewed, similarity: cosineSimilarity(weightedPaper, weightByIdf(paperTerms(reviewed), idf)) }))
+        .filter(entry => entry.similarity >= RELATED_PAPER_THRESHOLD)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, MAX_RELATED_PAPERS)
+        .map(entry => entry.reviewed);
+      const sharedTerms = Array.from(weightedPaper.keys())
+        .filter(term => weightedReviewer.has(term))
+        .sort((a, b) => weightedPaper.get(b)! * weightedReviewer.get(b)! - weightedPaper.get(a)! * weightedReviewer.get(a)!)
+        .slice(0, MAX_SHARED_TERMS);
+      const details = { matchedKeywords, relatedPapers, sharedTerms };
+      return {
+        reviewer: candidate.reviewer,
+        score: cosineSimilarity(weightedPaper, weightedReviewer),
+        ...details,
+        explanation: explainMatch(details),
+      };
+    })
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit ?? DEFAULT_SUGGESTION_LIMIT);
+
+  return { matches, exclusions };
+};
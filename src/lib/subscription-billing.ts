@@ -0,0 +1,156 @@
+
+import { FieldValue } from "firebase-admin/firestore";
+import type { SubscriptionPaymentMethod, SubscriptionPlanId, SubscriptionRequest, UserSubscription } from '@/types';
+import { getAdminDb } from "@/lib/firebase-admin";
+import { isPayable } from "@/lib/payment-processing";
+import { submittedWithoutPayment } from "@/lib/fee-adjustments";
+import { extendSubscription, getRemainingSubmissions, SUBSCRIPTION_PLANS } from "@/lib/subscriptions";
+import { notifySubmissionReceived } from "@/lib/notification-delivery";
+import { addAuditEvent, resolveAuditActor } from "@/lib/audit-log";
+
+/**
+ * Subscriptions are paid by bank transfer or UPI outside the payment gateway. The author reports the
+ * transfer, an admin checks it against the bank statement and confirms it, and papers submitted while
+ * the quota lasts are moved on without a fee. Quota is only ever changed here, inside transactions.
+ */
+
+const TRANSACTION_REFERENCE_PATTERN = /^[A-Za-z0-9-]{6,40}$/;
+
+export interface SubscriptionRequestInput {
+  planId: SubscriptionPlanId;
+  paymentMethod: SubscriptionPaymentMethod;
+  transactionReference: string;
+  paidOn: string; // YYYY-MM-DD
+}
+
+export const requestSubscription = async (userId: string, input: SubscriptionRequestInput): Promise<SubscriptionRequest> => {
+  const db = getAdminDb();
+  const plan = SUBSCRIPTION_PLANS[input.planId];
+  const transactionReference = input.transactionReference.trim().toUpperCase();
+  if (!plan) {
+    throw new Error("Unknown subscription plan.");
+  }
+  if (!TRANSACTION_REFERENCE_PATTERN.test(transactionReference)) {
+    throw new Error("Please enter the UTR or UPI transaction ID exactly as shown on your receipt.");
+  }
+  const paidOn = new Date(`${input.paidOn}T00:00:00Z`);
+  if (isNaN(paidOn.getTime()) || paidOn.getTime() > Date.now()) {
+    throw new Error("Please enter the date you made the transfer.");
+  }
+
+  // Filtered in memory to avoid a composite index.
+  const existingSnap = await db.collection("subscriptionRequests").where("userId", "==", userId).get();
+  const existing = existingSnap.docs.map(docSnap => docSnap.data() as Omit<SubscriptionRequest, 'id'>);
+  if (existing.some(request => request.status === "pending")) {
+    throw new Error("Your previous subscription payment is still awaiting confirmation.");
+  }
+  if (existing.some(request => request.status === "approved" && request.transactionReference === transactionReference)) {
+    throw new Error("This transaction has already been used for a subscription.");
+  }
+
+  const profile = (await db.collection("users").doc(userId).get()).data();
+  const requestRef = db.collection("subscriptionRequests").doc();
+  const request: Omit<SubscriptionRequest, 'id'> = {
+    userId,
+    userName: profile?.displayName || profile?.email || "",
+    userEmail: profile?.email || null,
+    planId: plan.id,
+    amount: plan.price,
+    currency: plan.currency,
+    paymentMethod: input.paymentMethod,
+    transactionReference,
+    paidOn: input.paidOn,
+    status: "pending",
+    requestedAt: new Date().toISOString(),
+    decidedAt: null,
+    decidedBy: null,
+    decisionNote: null,
+  };
+  await requestRef.set(request);
+  return { id: requestRef.id, ...request };
+};
+
+/** Confirming the payment activates the subscription, or renews it if it is still running. */
+export const decideSubscriptionRequest = async (requestId: string, approve: boolean, adminId: string, note?: string | null): Promise<SubscriptionRequest> => {
+  const db = getAdminDb();
+  const requestRef = db.collection("subscriptionRequests").doc(requestId);
+  const auditActor = await resolveAuditActor({ id: adminId });
+
+  return db.runTransaction(async transaction => {
+    const requestSnap = await transaction.get(requestRef);
+    if (!requestSnap.exists) {
+      throw new Error("Subscription request not found.");
+    }
+    const request = { id: requestSnap.id, ...requestSnap.data() } as SubscriptionRequest;
+    if (request.status !== "pending") {
+      throw new Error("This subscription request has already been decided.");
+    }
+    const userRef = db.collection("users").doc(request.userId);
+    const userSnap = await transaction.get(userRef);
+    if (!userSnap.exists) {
+      throw new Error("The subscriber's profile no longer exists.");
+    }
+
+    const decision: Partial<SubscriptionRequest> = {
+      status: approve ? "approved" : "rejected",
+      decidedAt: new Date().toISOString(),
+      decidedBy: adminId,
+      decisionNote: note?.trim() || null,
+    };
+    transaction.update(requestRef, decision);
+    if (approve) {
+      const subscription = extendSubscription(userSnap.data()?.subscription, SUBSCRIPTION_PLANS[request.planId], request.id);
+      transaction.update(userRef, { subscription, updatedAt: FieldValue.serverTimestamp() });
+    }
+    addAuditEvent(transaction, auditActor, {
+      action: "subscription.decide",
+      targetType: "subscriptionRequest",
+      targetId: requestId,
+      targetLabel: request.userEmail || request.userName,
+      before: { status: "pending" },
+      after: { status: decision.status, planId: request.planId, transactionReference: request.transactionReference, decisionNote: decision.decisionNote },
+    });
+    return { ...request, ...decision };
+  });
+};
+
+// Submits an unpaid paper against the author's subscription, using up one submission from the quota.
+export const coverPaperWithSubscription = async (userId: string, paperId: string): Promise<UserSubscription> => {
+  const db = getAdminDb();
+  const paperRef = db.collection("papers").doc(paperId);
+  const userRef = db.collection("users").doc(userId);
+
+  // A payment already with the gateway would charge the author for a paper the subscription also covers.
+  const paymentsSnap = await db.collection("payments").where("paperId", "==", paperId).get();
+  if (paymentsSnap.docs.some(docSnap => docSnap.data().status === "pending")) {
+    throw new Error("A payment for this paper is still being processed, so it cannot be covered by your subscription.");
+  }
+
+  const covered = await db.runTransaction(async transaction => {
+    const [paperSnap, userSnap] = await Promise.all([transaction.get(paperRef), transaction.get(userRef)]);
+    const paper = paperSnap.data();
+    if (!paper || paper.userId !== userId) {
+      throw new Error("Paper not found.");
+    }
+    if (!isPayable(paper)) {
+      throw new Error(`A subscription cannot be used while the paper is "${paper.status}".`);
+    }
+    if (paper.feeWaiverStatus === "pending") {
+      throw new Error("A fee waiver request for this paper is awaiting review.");
+    }
+    const subscription = userSnap.data()?.subscription as UserSubscription | undefined;
+    if (getRemainingSubmissions(subscription) === 0) {
+      throw new Error("You have no subscription submissions left.");
+    }
+
+    transaction.update(paperRef, {
+      coveredBySubscription: true,
+      lastUpdatedAt: FieldValue.serverTimestamp(),
+      ...submittedWithoutPayment(paper, "system"),
+    });
+    transaction.update(userRef, { "subscription.submissionsUsed": FieldValue.increment(1), updatedAt: FieldValue.serverTimestamp() });
+    return { ...subscription!, submissionsUsed: subscription!.submissionsUsed + 1 };
+  });
+  await notifySubmissionReceived(paperId);
+  return covered;
+};
@@ -0,0 +1,36 @@
+"use client";
+
+import { collection, getDocs, orderBy, query, where } from "firebase/firestore";
+import { db as firestoreDb } from "@/lib/firebase";
+import type { SubscriptionRequest } from '@/types';
+
+// Subscription requests are written by the server (see subscription-billing.ts); these reads back the author and admin pages.
+
+export const getSubscriptionRequests = async (): Promise<SubscriptionRequest[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "subscriptionRequests"), orderBy("requestedAt", "desc")));
+    return querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as SubscriptionRequest);
+  } catch (error) {
+    console.error("Subscription Service (getSubscriptionRequests): Error fetching subscription requests:", error);
+    throw error;
+  }
+};
+
+// Newest first; sorted in memory to avoid a composite index.
+export const getUserSubscriptionRequests = async (userId: string): Promise<SubscriptionRequest[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "subscriptionRequests"), where("userId", "==", userId)));
+    return querySnapshot.docs
+      .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as SubscriptionRequest)
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+  } catch (error) {
+    console.error("Subscription Service (getUserSubscriptionRequests): Error fetching subscription requests:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,77 @@
+
+import type { SubscriptionPaymentMethod, SubscriptionPlanId, SubscriptionRequestStatus, UserSubscription } from '@/types';
+
+export interface SubscriptionPlan {
+  id: SubscriptionPlanId;
+  name: string;
+  price: number;
+  currency: string;
+  submissionQuota: number; // Papers submitted without a fee during one period
+  durationMonths: number;
+}
+
+export const SUBSCRIPTION_PLANS: Record<SubscriptionPlanId, SubscriptionPlan> = {
+  annual: {
+    id: "annual",
+    name: "Annual Subscription",
+    price: 4999,
+    currency: "INR",
+    submissionQuota: 15,
+    durationMonths: 12,
+  },
+};
+
+// Subscriptions are paid by transfer to this account and confirmed by an admin.
+export const SUBSCRIPTION_BANK_DETAILS = {
+  accountName: "ResearchSphere Subscriptions",
+  accountNumber: "123456789012",
+  ifscCode: "RSBK0001234",
+  bankName: "Global Scholarly Bank",
+  upiId: "researchsphere@gsbupi",
+};
+
+export const SUBSCRIPTION_PAYMENT_METHOD_LABELS: Record<SubscriptionPaymentMethod, string> = {
+  "bank-transfer": "Bank transfer (NEFT/RTGS/IMPS)",
+  upi: "UPI",
+};
+
+export const SUBSCRIPTION_REQUEST_STATUS_LABELS: Record<SubscriptionRequestStatus, string> = {
+  pending: "Awaiting confirmation",
+  approved: "Confirmed",
+  rejected: "Declined",
+};
+
+export const SUBSCRIPTION_REQUEST_STATUS_BADGE_VARIANTS: Record<SubscriptionRequestStatus, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+export const isSubscriptionActive = (subscription: UserSubscription | null | undefined, now: Date = new Date()): boolean =>
+  !!subscription && new Date(subscription.startDate) <= now && now < new Date(subscription.endDate);
+
+export const getRemainingSubmissions = (subscription: UserSubscription | null | undefined, now: Date = new Date()): number =>
+  subscription && isSubscriptionActive(subscription, now) ? Math.max(subscription.submissionQuota - subscription.submissionsUsed, 0) : 0;
+
+/**
+ * The subscription after a confirmed payment. Renewing an active subscription adds a period after the
+ * current one and carries the unused submissions over; otherwise a fresh period starts now.
+ */
+export const extendSubscription = (
+  current: UserSubscription | null | undefined,
+  plan: SubscriptionPlan,
+  requestId: string,
+  now: Date = new Date(),
+): UserSubscription => {
+  const renewing = isSubscriptionActive(current, now);
+  const endDate = new Date(renewing ? current!.endDate : now);
+  endDate.setMonth(endDate.getMonth() + plan.durationMonths);
+  return {
+    planId: plan.id,
+    startDate: renewing ? current!.startDate : now.toISOString(),
+    endDate: endDate.toISOString(),
+    submissionQuota: plan.submissionQuota + (renewing ? getRemainingSubmissions(current, now) : 0),
+    submissionsUsed: 0,
+    requestId,
+  };
+};
@@ -0,0 +1,24 @@
+'use server';
+
+/**
+ * @fileOverview Server-side text extraction for manuscripts an author is checking before submission.
+ *
+ * - extractDocumentText - Extracts text from a PDF or DOCX posted as FormData ("file").
+ *
+ * Takes the caller's Firebase ID token; parsing documents is too costly to offer to anyone who is not signed in.
+ * The text stored on papers is extracted by the server from the stored file (see document-extraction.ts).
+ */
+
+import type { ExtractedDocument } from '@/types';
+import { getAdminAuth } from '@/lib/firebase-admin';
+import { extractFromBytes } from '@/lib/document-extraction';
+
+export async function extractDocumentText(idToken: string, formData: FormData): Promise<ExtractedDocument> {
+  await getAdminAuth().verifyIdToken(idToken);
+  const file = formData.get("file");
+  if (!(file instanceof File)) {
+    throw new Error("No file was provided for text extraction.");
+  }
+  const data = new Uint8Array(await file.arrayBuffer());
+  return extractFromBytes(data, file.type, file.name);
+}
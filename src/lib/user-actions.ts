@@ -0,0 +1,63 @@
+'use server';
+
+import type { ReviewerDirectoryEntry } from '@/types';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import { addAuditEvent, resolveAuditActor } from '@/lib/audit-log';
+
+// Browsers cannot list other users' profiles (see firestore.rules); these return only what each screen needs.
+
+const verifyUser = async (idToken: string): Promise<string> => (await getAdminAuth().verifyIdToken(idToken)).uid;
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const uid = await verifyUser(idToken);
+  if ((await getAdminDb().collection('users').doc(uid).get()).data()?.isAdmin !== true) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+// Also used before signup, so the ID token is optional; when given, the caller's own profile does not count.
+export async function isProfileValueTaken(field: 'username' | 'phoneNumber', value: string, idToken?: string): Promise<boolean> {
+  if (!value) {
+    return false;
+  }
+  const excludeUserId = idToken ? await verifyUser(idToken) : null;
+  const snap = await getAdminDb().collection('users').where(field, '==', value).limit(2).get();
+  return snap.docs.some(docSnap => docSnap.id !== excludeUserId);
+}
+
+export async function getReviewerDirectory(idToken: string): Promise<ReviewerDirectoryEntry[]> {
+  const uid = await verifyUser(idToken);
+  const snap = await getAdminDb().collection('users').where('role', '==', 'Reviewer').get();
+  return snap.docs
+    .filter(docSnap => docSnap.id !== uid)
+    .map(docSnap => ({ id: docSnap.id, displayName: docSnap.data().displayName || null, institution: docSnap.data().institution || null }))
+    .sort((a, b) => (a.displayName || "").localeCompare(b.displayName || ""));
+}
+
+// Admin rights change only here, together with their audit log entry; nobody changes their own.
+export async function setUserAdminStatus(idToken: string, targetUserId: string, isAdmin: boolean): Promise<void> {
+  const uid = await verifyAdmin(idToken);
+  if (uid === targetUserId) {
+    throw new Error('You cannot change your own admin rights.');
+  }
+  const auditActor = await resolveAuditActor({ id: uid });
+  const db = getAdminDb();
+  const userRef = db.collection('users').doc(targetUserId);
+  await db.runTransaction(async transaction => {
+    const targetUser = (await transaction.get(userRef)).data();
+    if (!targetUser) {
+      throw new Error('User not found.');
+    }
+    transaction.update(userRef, { isAdmin, updatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, {
+      action: 'user.admin-status',
+      targetType: 'user',
+      targetId: targetUserId,
+      targetLabel: targetUser.email || targetUser.displayName || null,
+      before: { isAdmin: targetUser.isAdmin === true },
+      after: { isAdmin },
+    });
+  });
+}
@@ -10,13 +10,13 @@ import {
   setDoc,
   updateDoc,
   query,
-  where,
   Timestamp,
   serverTimestamp,
   orderBy,
 } from "firebase/firestore";
-import { db as firestoreDb } from "@/lib/firebase";
-import type { User } from '@/types';
+import { auth, db as firestoreDb } from "@/lib/firebase";
+import type { ReviewerDirectoryEntry, User } from '@/types';
+import { getReviewerDirectory as fetchReviewerDirectory, isProfileValueTaken, setUserAdminStatus } from "@/lib/user-actions";
 
 // Helper to convert Firestore Timestamps in user data
 const convertUserTimestamps = (userData: any): User => {
@@ -137,66 +137,29 @@ export const getAllUsers = async (): Promise<User[]> => {
   }
 };
 
-// Check if a username is already taken (excluding a specific user, for updates)
-export const isUsernameTaken = async (username: string, excludeUserId?: string): Promise<boolean> => {
-  if (!firestoreDb) {
-    console.error("User Service (isUsernameTaken): Firestore DB instance is not available.");
-    return false;
-  }
-  const usersRef = collection(firestoreDb, "users");
-  let q = query(usersRef, where("username", "==", username));
-  try {
-    const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) {
-      return false;
-    }
-    if (excludeUserId) {
-      return querySnapshot.docs.some(doc => doc.id !== excludeUserId);
-    }
-    return true;
-  } catch (error) {
-    console.error("User Service (isUsernameTaken): Error checking username:", error);
-    return false;
-  }
-};
+// Check if a username is already taken by someone other than the signed-in user (anyone, before signup)
+export const isUsernameTaken = async (username: string): Promise<boolean> =>
+  isProfileValueTaken("username", username, await auth.currentUser?.getIdToken());
 
-// Check if a phone number is already taken (excluding a specific user, for updates)
-export const isPhoneNumberTaken = async (phoneNumber: string, excludeUserId?: string): Promise<boolean> => {
-  if (!firestoreDb) {
-    console.error("User Service (isPhoneNumberTaken): Firestore DB instance is not available.");
-    return false;
-  }
-  if (!phoneNumber) return false;
+// Check if a phone number is already taken by someone other than the signed-in user (anyone, before signup)
+export const isPhoneNumberTaken = async (phoneNumber: string): Promise<boolean> =>
+  isProfileValueTaken("phoneNumber", phoneNumber, await auth.currentUser?.getIdToken());
 
-  const usersRef = collection(firestoreDb, "users");
-  let q = query(usersRef, where("phoneNumber", "==", phoneNumber));
-  try {
-    const querySnapshot = await getDocs(q);
-    if (querySnapshot.empty) {
-      return false;
-    }
-    if (excludeUserId) {
-      return querySnapshot.docs.some(doc => doc.id !== excludeUserId);
-    }
-    return true;
-  } catch (error) {
-    console.error("User Service (isPhoneNumberTaken): Error checking phone number:", error);
-    return false;
+// Reviewers an author can declare a conflict with; names and institutions only.
+export const getReviewerDirectory = async (): Promise<ReviewerDirectoryEntry[]> => {
+  if (!auth.currentUser) {
+    return [];
   }
+  return fetchReviewerDirectory(await auth.currentUser.getIdToken());
 };
 
 export const toggleUserAdminStatus = async (targetUserId: string, currentIsAdmin: boolean): Promise<void> => {
-  if (!firestoreDb) {
-    console.error("User Service (toggleUserAdminStatus): Firestore DB instance is not available.");
-    throw new Error("Database service unavailable.");
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot change admin rights.");
   }
   console.log(`User Service (toggleUserAdminStatus): Attempting to set admin status for user ${targetUserId} to ${!currentIsAdmin}.`);
-  const userDocRef = doc(firestoreDb, "users", targetUserId);
   try {
-    await updateDoc(userDocRef, {
-      isAdmin: !currentIsAdmin,
-      updatedAt: serverTimestamp(),
-    });
+    await setUserAdminStatus(await auth.currentUser.getIdToken(), targetUserId, !currentIsAdmin);
     console.log(`User Service (toggleUserAdminStatus): Successfully updated admin status for user ${targetUserId}.`);
   } catch (error) {
     console.error(`User Service (toggleUserAdminStatus): Error updating admin status for user ${targetUserId}:`, error);
@@ -4,3 +4,31 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function downloadTextFile(filename: string, content: string, mimeType = 'text/plain') {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
+
+// Quotes every cell so commas, quotes and line breaks in titles survive a spreadsheet import.
+export function toCsv(rows: Array<Array<string | number | null | undefined>>): string {
+  return rows.map(row => row.map(cell => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(',')).join('\r\n')
+}
+
+// <input type="datetime-local"> works in local time without a zone, Firestore keeps ISO strings.
+export function toDateTimeLocalInput(iso?: string | null): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export function fromDateTimeLocalInput(value?: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
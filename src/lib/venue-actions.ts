@@ -0,0 +1,50 @@
+'use server';
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminDb } from '@/lib/firebase-admin';
+import type { VenueInput } from '@/lib/venue-service';
+import { pickAuditFields } from '@/lib/audit';
+import { addAuditEvent, resolveAuditActor } from '@/lib/audit-log';
+
+// Venues are configured by admins; each change is saved together with its audit log entry.
+
+const verifyAdmin = async (idToken: string): Promise<string> => {
+  const { uid } = await getAdminAuth().verifyIdToken(idToken);
+  if ((await getAdminDb().collection('users').doc(uid).get()).data()?.isAdmin !== true) {
+    throw new Error('Only admins can do this.');
+  }
+  return uid;
+};
+
+// Returns the new venue's ID.
+export async function createVenue(idToken: string, venue: VenueInput): Promise<string> {
+  const auditActor = await resolveAuditActor({ id: await verifyAdmin(idToken) });
+  const db = getAdminDb();
+  const venueRef = db.collection('venues').doc();
+  const batch = db.batch();
+  batch.create(venueRef, { ...venue, createdAt: FieldValue.serverTimestamp(), updatedAt: FieldValue.serverTimestamp() });
+  addAuditEvent(batch, auditActor, { action: 'venue.create', targetType: 'venue', targetId: venueRef.id, targetLabel: venue.name, after: { ...venue } });
+  await batch.commit();
+  return venueRef.id;
+}
+
+export async function updateVenue(idToken: string, venueId: string, venue: Partial<VenueInput>): Promise<void> {
+  const auditActor = await resolveAuditActor({ id: await verifyAdmin(idToken) });
+  const db = getAdminDb();
+  const venueRef = db.collection('venues').doc(venueId);
+  await db.runTransaction(async transaction => {
+    const previous = (await transaction.get(venueRef)).data();
+    if (!previous) {
+      throw new Error('Venue not found.');
+    }
+    transaction.update(venueRef, { ...venue, updatedAt: FieldValue.serverTimestamp() });
+    addAuditEvent(transaction, auditActor, {
+      action: 'venue.update',
+      targetType: 'venue',
+      targetId: venueId,
+      targetLabel: venue.name || previous.name || null,
+      before: pickAuditFields(previous, venue),
+      after: { ...venue },
+    });
+  });
+}
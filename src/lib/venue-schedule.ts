@@ -0,0 +1,64 @@
+
+import type { SubmissionWindow, Venue, VenueCommitteeRole, VenueTrack, VenueType } from '@/types';
+
+export const VENUE_TYPE_LABELS: Record<VenueType, string> = {
+  conference: "Conference",
+  journal: "Journal",
+};
+
+export const VENUE_COMMITTEE_ROLE_LABELS: Record<VenueCommitteeRole, string> = {
+  chair: "Chair",
+  editor: "Editor",
+  member: "Committee Member",
+};
+
+// Fee for papers submitted before venues existed, which carry no submissionFee of their own.
+export const DEFAULT_SUBMISSION_FEE = 499;
+export const DEFAULT_CURRENCY = "INR";
+
+export const isWithinSubmissionWindow = (window: SubmissionWindow | null | undefined, now: Date = new Date()): boolean => {
+  if (!window) return true;
+  if (window.opensAt && new Date(window.opensAt) > now) return false;
+  if (window.closesAt && new Date(window.closesAt) < now) return false;
+  return true;
+};
+
+// Tracks are only open while the venue itself is.
+export const getOpenTracks = (venue: Venue, now: Date = new Date()): VenueTrack[] =>
+  isWithinSubmissionWindow(venue.submissionWindow, now)
+    ? venue.tracks.filter(track => isWithinSubmissionWindow(track.submissionWindow, now))
+    : [];
+
+export const isVenueOpenForSubmission = (venue: Venue, now: Date = new Date()): boolean =>
+  venue.isActive &&
+  isWithinSubmissionWindow(venue.submissionWindow, now) &&
+  (venue.tracks.length === 0 || getOpenTracks(venue, now).length > 0);
+
+/** Returns why a submission made at `at` falls outside the venue's (and track's) window, or null if it does not. */
+export const getSubmissionWindowBlocker = (venue: Venue, trackId: string | null | undefined, at: Date): string | null => {
+  if (!isWithinSubmissionWindow(venue.submissionWindow, at)) return `The submission window for ${venue.name} is closed.`;
+  if (venue.tracks.length === 0) return null;
+  const track = venue.tracks.find(t => t.id === trackId);
+  if (!track) return `Please choose a track of ${venue.name}.`;
+  if (!isWithinSubmissionWindow(track.submissionWindow, at)) return `Submissions to the ${track.name} track are closed.`;
+  return null;
+};
+
+/** Returns why a submission to the venue (and track) is not accepted right now, or null if it is. */
+export const getSubmissionBlocker = (venue: Venue, trackId: string | null | undefined, now: Date = new Date()): string | null => {
+  if (!venue.isActive) return `${venue.name} is not accepting submissions.`;
+  return getSubmissionWindowBlocker(venue, trackId, now);
+};
+
+export const getSubmissionFee = (venue: Pick<Venue, 'feeSchedule'>, now: Date = new Date()): number => {
+  const tiers = venue.feeSchedule;
+  if (tiers.length === 0) return 0;
+  const current = tiers.find(tier => !tier.until || new Date(tier.until) >= now);
+  return (current || tiers[tiers.length - 1]).amount;
+};
+
+export const formatFee = (amount: number, currency: string = DEFAULT_CURRENCY): string =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency }).format(amount);
+
+export const formatVenueName = (venue: Pick<Venue, 'name' | 'acronym'>): string =>
+  venue.acronym ? `${venue.name} (${venue.acronym})` : venue.name;
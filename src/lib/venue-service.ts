@@ -0,0 +1,82 @@
+"use client";
+
+import {
+  collection,
+  getDoc,
+  getDocs,
+  doc,
+  query,
+  orderBy,
+  Timestamp,
+} from "firebase/firestore";
+import { auth, db as firestoreDb } from "@/lib/firebase";
+import type { Venue } from '@/types';
+import { isVenueOpenForSubmission } from "@/lib/venue-schedule";
+import { createVenue as createVenueAction, updateVenue as updateVenueAction } from "@/lib/venue-actions";
+
+export type VenueInput = Omit<Venue, 'id' | 'createdAt' | 'updatedAt'>;
+
+const convertVenueTimestamps = (venueData: any): Venue => {
+  const convert = (timestamp: any) => timestamp instanceof Timestamp ? timestamp.toDate().toISOString() : (timestamp || null);
+  return {
+    ...venueData,
+    tracks: venueData.tracks || [],
+    submissionWindow: venueData.submissionWindow || {},
+    feeSchedule: venueData.feeSchedule || [],
+    committee: venueData.committee || [],
+    createdAt: convert(venueData.createdAt),
+    updatedAt: convert(venueData.updatedAt),
+  } as Venue;
+};
+
+export const getVenues = async (): Promise<Venue[]> => {
+  if (!firestoreDb) {
+    return [];
+  }
+  try {
+    const querySnapshot = await getDocs(query(collection(firestoreDb, "venues"), orderBy("name", "asc")));
+    return querySnapshot.docs.map(docSnap => convertVenueTimestamps({ id: docSnap.id, ...docSnap.data() }));
+  } catch (error) {
+    console.error("Venue Service (getVenues): Error fetching venues:", error);
+    throw error;
+  }
+};
+
+export const getOpenVenues = async (now: Date = new Date()): Promise<Venue[]> =>
+  (await getVenues()).filter(venue => isVenueOpenForSubmission(venue, now));
+
+export const getVenue = async (venueId: string): Promise<Venue | null> => {
+  if (!firestoreDb) {
+    return null;
+  }
+  const venueSnap = await getDoc(doc(firestoreDb, "venues", venueId));
+  return venueSnap.exists() ? convertVenueTimestamps({ id: venueSnap.id, ...venueSnap.data() }) : null;
+};
+
+// Venues are written on the server, together with their audit log entries.
+export const createVenue = async (venue: VenueInput): Promise<Venue> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot create the venue.");
+  }
+  const venueId = await createVenueAction(await auth.currentUser.getIdToken(), venue);
+  const snap = await getDoc(doc(firestoreDb, "venues", venueId));
+  return convertVenueTimestamps({ id: venueId, ...snap.data() });
+};
+
+export const updateVenue = async (venueId: string, venue: Partial<VenueInput>): Promise<Venue> => {
+  if (!firestoreDb) {
+    throw new Error("Database service unavailable.");
+  }
+  if (!auth.currentUser) {
+    throw new Error("User not authenticated. Cannot update the venue.");
+  }
+  await updateVenueAction(await auth.currentUser.getIdToken(), venueId, venue);
+  const snap = await getDoc(doc(firestoreDb, "venues", venueId));
+  if (!snap.exists()) {
+    throw new Error("Venue not found.");
+  }
+  return convertVenueTimestamps({ id: venueId, ...snap.data() });
+};
@@ -13,10 +13,19 @@ export interface User {
   institution?: string | null; // Stored in Firestore
   role?: "Author" | "Reviewer" | "Admin" | null; // Stored in Firestore
   researcherId?: string | null;// Stored in Firestore
+  expertiseKeywords?: string[] | null; // Reviewer research areas, used to suggest reviewers for papers
+  declaredConflicts?: string[] | null; // Names of people a reviewer must not review papers from
+  gstin?: string | null; // GST registration printed on the author's invoices, for institutions claiming input tax credit
+  subscription?: UserSubscription | null; // Set by the server once an admin confirms the subscription payment
+  institutionId?: string | null; // Institution the user is a member of, set by the server when they join
+  notificationPreferences?: NotificationPreferences | null; // Which notifications are also sent by email
   createdAt?: string | Timestamp; // Firestore Timestamp on write, string on read (after conversion)
   updatedAt?: string | Timestamp; // Firestore Timestamp on write, string on read (after conversion)
 }
 
+// What an author sees of the reviewers when declaring conflicts of interest.
+export type ReviewerDirectoryEntry = Pick<User, 'id' | 'displayName' | 'institution'>;
+
 export type PaperStatus =
   | "Draft"
   | "Submitted"
@@ -44,16 +53,701 @@ export interface Paper {
   status: PaperStatus;
   plagiarismScore?: number | null;
   plagiarismReport?: {
-    highlightedSections: string[];
+    highlightedSections: Array<PlagiarismMatch | string>; // Plain strings come from reports made before corpus matching
   } | null;
   acceptanceProbability?: number | null;
   acceptanceReport?: {
     reasoning: string;
   } | null;
-  adminFeedback?: string | null;
+  officialAnalysisRuns?: Partial<Record<AiAnalysisFlow, string>>; // Run IDs whose results are shown as plagiarismScore / acceptanceProbability
+  adminFeedback?: string | null; // Feedback from before the discussion thread; new feedback is posted as a PaperMessage
   submissionDate?: string | null; // ISO date string (after conversion from Firestore Timestamp)
   paymentDueDate?: string | null; // ISO date string (after conversion from Firestore Timestamp)
   paymentOption?: "payNow" | "payLater" | null;
   paidAt?: string | null; // ISO date string (after conversion from Firestore Timestamp)
   lastUpdatedAt?: string | Timestamp; // ISO date string (after conversion from Firestore Timestamp)
+  reviewerIds?: string[]; // UIDs of assigned reviewers, used by Firestore rules to grant read access
+  reviewMode?: ReviewMode | null; // Fixed at submission; missing on older papers, which use the default mode
+  reviewersInDiscussion?: boolean | null; // Assigned reviewers can read and post editors-only messages
+  currentVersion?: number | null; // Number of the latest entry in the papers/{id}/versions subcollection
+  extractedContent?: ExtractedDocument | null; // Text pulled from the current manuscript file on upload
+  venueId?: string | null; // Missing on papers submitted before venues existed
+  trackId?: string | null; // Track or special issue within the venue, if it has any
+  submissionFee?: number | null; // Fee charged at submission, from the venue's fee schedule
+  currency?: string | null; // ISO 4217 code of submissionFee
+  paymentOverdueAt?: string | null; // When the payment enforcement job marked the paper overdue
+  latePaymentAllowed?: boolean | null; // Set by the job when the venue's overdue action is "notify"
+  paymentId?: string | null; // The payments record that paid the submission fee
+  discountCode?: string | null; // Coupon applied to submissionFee, set by the server when redeemed
+  discountAmount?: number | null; // Taken off the venue's fee by discountCode
+  feeWaiverId?: string | null; // Latest feeWaivers request for this paper
+  feeWaiverStatus?: FeeWaiverStatus | null; // A pending request holds the payment deadline
+  coveredBySubscription?: boolean | null; // Submitted against the author's subscription quota instead of paying the fee
+  institutionId?: string | null; // Institution whose allowance covered the fee; billed on its consolidated invoice
+  institutionInvoiceId?: string | null; // The institutionInvoices record that billed this submission
+}
+
+export type VenueType = "conference" | "journal";
+
+// A submission period; either end may be open.
+export interface SubmissionWindow {
+  opensAt?: string | null; // ISO date string
+  closesAt?: string | null; // ISO date string
+}
+
+// A conference track or a journal special issue. Its own window, if set, narrows the venue's.
+export interface VenueTrack {
+  id: string;
+  name: string;
+  description?: string | null;
+  submissionWindow?: SubmissionWindow | null;
+}
+
+// One tier of the fee schedule; the first tier whose deadline has not passed applies.
+export interface VenueFeeTier {
+  label: string; // e.g. "Early", "Regular"
+  amount: number;
+  until?: string | null; // ISO date string; null for the final tier
+}
+
+export type OverduePaymentAction = "auto-reject" | "hold" | "notify";
+
+// How long authors who chose "Pay Later" have to pay, and what happens when they don't.
+export interface PaymentPolicy {
+  gracePeriodHours: number;
+  reminderHoursBeforeDue: number[]; // e.g. [24, 1] sends reminders a day and an hour before the deadline
+  overdueAction: OverduePaymentAction;
+}
+
+export type VenueCommitteeRole = "chair" | "editor" | "member";
+
+export interface VenueCommitteeMember {
+  userId: string;
+  name: string;
+  role: VenueCommitteeRole;
+}
+
+export interface Venue {
+  id: string; // Firestore document ID
+  name: string;
+  acronym?: string | null;
+  type: VenueType;
+  description?: string | null;
+  tracks: VenueTrack[];
+  submissionWindow: SubmissionWindow;
+  currency: string; // ISO 4217 code
+  feeSchedule: VenueFeeTier[];
+  reviewMode: ReviewMode;
+  committee: VenueCommitteeMember[];
+  isActive: boolean; // Inactive venues are hidden from authors regardless of their windows
+  paymentPolicy?: PaymentPolicy | null; // Missing on venues never configured, which use DEFAULT_PAYMENT_POLICY
+  createdAt?: string | Timestamp;
+  updatedAt?: string | Timestamp;
+}
+
+export interface AuthorDeclaredConflict {
+  reviewerId: string;
+  reviewerName: string;
+  reason?: string | null;
+}
+
+export type ConflictOfInterestType =
+  | "listed-author"
+  | "same-institution"
+  | "prior-coauthor"
+  | "declared-by-author"
+  | "declared-by-reviewer";
+
+export interface ConflictOfInterest {
+  type: ConflictOfInterestType;
+  description: string; // e.g. "Same institution as Jane Smith (MIT)"
+}
+
+// Reviewers the authors named as conflicted at submission. Kept apart from the paper, which reviewers
+// and (once published) any user can read; only admins read these.
+export interface ConflictDeclaration {
+  paperId: string; // Also the Firestore document ID
+  userId: string; // Submitting author
+  conflicts: AuthorDeclaredConflict[];
+  createdAt?: string | Timestamp;
+}
+
+// Recorded when an admin assigns a reviewer despite detected conflicts; only admins read these.
+export interface ConflictOverride {
+  reviewId: string; // Also the Firestore document ID
+  paperId: string;
+  reviewerId: string;
+  conflicts: ConflictOfInterest[];
+  justification: string;
+  overriddenBy: string; // Admin UID
+  createdAt?: string | null; // ISO date string (after conversion from Firestore Timestamp)
+}
+
+// Plain text and structure extracted server-side from an uploaded PDF or DOCX.
+export interface ExtractedDocument {
+  text: string; // Capped at MAX_EXTRACTED_TEXT_LENGTH characters
+  headings: string[];
+  references: string[];
+  wordCount: number; // Counted before truncation
+  pageCount?: number | null; // PDFs only
+  truncated: boolean;
+}
+
+// A passage of the checked document that also occurs in another paper of the corpus.
+export interface PlagiarismMatch {
+  passage: string; // Quoted from the checked document
+  sourcePaperId: string;
+  sourceSimilarity: number; // MinHash estimate of whole-document resemblance (0-1)
+  wordCount: number;
+}
+
+export type AiAnalysisFlow = "plagiarism" | "acceptance";
+
+// One analysis run, stored in the papers/{paperId}/aiRuns subcollection. Runs are never modified.
+export interface AiAnalysisRun {
+  id: string;
+  paperId: string;
+  flow: AiAnalysisFlow;
+  model: string; // Model name, or the engine identifier for corpus plagiarism checks
+  promptVersion: string;
+  inputHash: string; // SHA-256 of the analysed text
+  paperVersion: number; // Manuscript version that was analysed
+  score: number; // plagiarismScore or probabilityScore (0-1)
+  output: {
+    highlightedSections?: PlagiarismMatch[]; // plagiarism
+    reasoning?: string; // acceptance
+  };
+  triggeredBy: string; // Admin user ID
+  triggeredByName?: string | null;
+  createdAt?: string | Timestamp;
+}
+
+// Shingle fingerprint of a paper's extracted text, stored in paperFingerprints/{paperId}.
+export interface PaperFingerprint {
+  paperId: string;
+  signature: number[]; // MinHash signature
+  shingleHashes: number[];
+  updatedAt?: string | Timestamp;
+}
+
+// Immutable snapshot of a manuscript, stored in the papers/{paperId}/versions subcollection.
+export interface PaperVersion {
+  id: string; // Firestore document ID, equal to the version number
+  paperId: string;
+  versionNumber: number; // 1 is the original submission
+  title: string;
+  abstract: string;
+  authors?: string[]; // Missing on versions recorded before author lists were snapshotted
+  keywords: string[];
+  fileName?: string | null;
+  fileUrl?: string | null;
+  responseToReviewers?: string | null; // Cover letter for revisions; null for the original submission
+  createdBy: string; // UID of the author who uploaded this version
+  createdAt: string; // ISO date string (after conversion from Firestore Timestamp)
+}
+
+// "author": the author and editors. "editors": editors, plus assigned reviewers when the paper includes them.
+export type PaperMessageVisibility = "author" | "editors";
+
+export type PaperMessageRole = "admin" | "author" | "reviewer" | "system";
+
+export interface PaperMessageAttachment {
+  name: string;
+  url: string;
+  size?: number | null; // Bytes
+}
+
+// One post in a paper's discussion thread (papers/{paperId}/messages). Messages are never edited.
+export interface PaperMessage {
+  id: string;
+  paperId: string;
+  authorId: string | null; // Null for messages posted by the system, e.g. the payment enforcement job
+  authorName: string | null;
+  authorRole: PaperMessageRole;
+  body: string;
+  visibility: PaperMessageVisibility;
+  attachments: PaperMessageAttachment[];
+  statusChange?: { from: PaperStatus; to: PaperStatus } | null; // The status change this message accompanied
+  createdAt: string; // ISO date string (after conversion from Firestore Timestamp)
+}
+
+export type ReviewMode = "single-blind" | "double-blind" | "open";
+
+export type ReviewRecommendation = "Accept" | "Minor Revision" | "Major Revision" | "Reject";
+
+// Invited -> Accepted | Declined; Accepted -> Draft -> Submitted
+export type ReviewStatus = "Invited" | "Accepted" | "Declined" | "Draft" | "Submitted";
+
+export type ReviewCriterion = "originality" | "significance" | "technicalQuality" | "clarity" | "relevance";
+
+export interface Review {
+  id: string; // Firestore document ID
+  paperId: string;
+  paperTitle: string;
+  reviewerId: string;
+  reviewerName?: string | null; // Only recorded for open review, where authors see who reviewed their paper
+  assignedBy: string; // Admin UID
+  assignedAt: string; // ISO date string (after conversion from Firestore Timestamp)
+  dueDate?: string | null; // ISO date string (after conversion from Firestore Timestamp)
+  status: ReviewStatus;
+  scores: Partial<Record<ReviewCriterion, number>>; // 1 (poor) to 5 (excellent)
+  recommendation?: ReviewRecommendation | null;
+  commentsToAuthor?: string | null;
+  submittedAt?: string | null; // ISO date string (after conversion from Firestore Timestamp)
+  respondedAt?: string | null; // When the reviewer accepted or declined the invitation
+  declineReason?: string | null;
+  lastUpdatedAt?: string | Timestamp;
+}
+
+// Stored separately from Review so authors who can read their reviews never receive these comments.
+export interface ReviewConfidentialComments {
+  reviewId: string; // Also the Firestore document ID
+  paperId: string;
+  reviewerId: string;
+  comments: string;
+}
+
+export type JobTrigger = "schedule" | "script" | "admin";
+
+// What the payment enforcement job did to one overdue paper.
+export interface PaymentEnforcementAction {
+  paperId: string;
+  paperTitle: string;
+  userId: string;
+  venueId?: string | null;
+  paymentDueDate: string; // ISO date string
+  overdueAction: OverduePaymentAction;
+  finalStatus: PaperStatus;
+}
+
+// One run of the payment enforcement job, stored in jobRuns. Written only by the server.
+export interface PaymentEnforcementRun {
+  id: string;
+  job: "payment-enforcement";
+  trigger: JobTrigger;
+  triggeredBy?: string | null; // Admin UID for runs started from the admin panel
+  dryRun: boolean;
+  startedAt: string; // ISO date string
+  finishedAt: string; // ISO date string
+  papersChecked: number; // Papers in "Payment Pending" at the time of the run
+  actions: PaymentEnforcementAction[];
+  paymentsPending?: string[]; // Overdue papers left for a later run because the gateway is still processing a payment
+  remindersQueued?: number; // Payment reminder emails put in the outbox by this run
+  errors: Array<{ paperId: string; message: string }>;
+}
+
+export type PaymentGatewayId = "sandbox" | "razorpay" | "stripe";
+
+export type PaymentStatus = "created" | "pending" | "paid" | "failed" | "partially-refunded" | "refunded";
+
+export type PaymentMethod = "card" | "upi" | "netbanking" | "wallet" | "other";
+
+// Who paid, copied from their profile when the order was created.
+export interface PaymentPayer {
+  name: string;
+  email: string | null;
+  institution?: string | null;
+  gstin?: string | null;
+}
+
+// One attempt to pay a paper's submission fee, stored in the payments collection. Written only by the server.
+export interface PaymentRecord {
+  id: string;
+  paperId: string;
+  userId: string;
+  gateway: PaymentGatewayId;
+  gatewayOrderId: string; // Razorpay order ID, Stripe Checkout Session ID or sandbox order ID
+  gatewayPaymentId?: string | null; // Set once the author has paid (or tried to) at the gateway
+  method?: PaymentMethod | null; // As reported by the gateway once the payment is confirmed
+  payer?: PaymentPayer | null; // Missing on payments made before payer details were recorded
+  amount: number; // In major currency units, e.g. rupees
+  currency: string; // ISO 4217 code
+  status: PaymentStatus;
+  failureReason?: string | null;
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+  paidAt?: string | null; // ISO date string
+  invoiceId?: string | null; // Issued once the payment is paid
+  invoiceNumber?: string | null;
+  refundedAmount?: number | null; // Sum of processed refunds
+}
+
+export interface InvoiceParty {
+  name: string;
+  address?: string | null;
+  email?: string | null;
+  institution?: string | null;
+  gstin?: string | null;
+  stateCode?: string | null; // Two-digit GST state code
+}
+
+// Tax on a GST-inclusive amount. Intra-state supplies are split into CGST + SGST, inter-state ones charge IGST.
+export interface GstBreakdown {
+  rate: number; // Percentage, e.g. 18; 0 for fees not charged in INR
+  taxableAmount: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number; // taxableAmount plus all tax; equals the amount paid
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  sacCode: string; // Services Accounting Code
+  amount: number; // Taxable value
+}
+
+// Tax invoice cum receipt for a paid submission fee, stored in the invoices collection under the payment's ID.
+// Written only by the server; everything printed on it is copied in at issue time.
+export interface Invoice {
+  id: string; // Same as the payment's ID, so a payment can never get two invoices
+  number: string; // Sequential per financial year, e.g. "INV/2026-27/00042"
+  paymentId: string;
+  paperId: string;
+  paperTitle: string;
+  userId: string;
+  issuedAt: string; // ISO date string
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply: string | null; // GST state code
+  lineItems: InvoiceLineItem[];
+  currency: string;
+  gst: GstBreakdown;
+  paymentMethod?: PaymentMethod | null;
+  gateway: PaymentGatewayId;
+  gatewayPaymentId?: string | null;
+  paidAt: string; // ISO date string
+}
+
+// What the browser needs to take the author through the gateway's checkout.
+export interface PaymentCheckout {
+  paymentId: string; // PaymentRecord ID
+  gateway: PaymentGatewayId;
+  orderId: string;
+  amount: number; // In major currency units
+  currency: string;
+  publicKey?: string | null; // Razorpay key ID for checkout.js
+  redirectUrl?: string | null; // Hosted checkout page (Stripe)
+}
+
+// What the gateway's checkout hands back to the browser, passed to the server for verification.
+export interface PaymentConfirmation {
+  orderId: string;
+  gatewayPaymentId?: string | null;
+  signature?: string | null;
+}
+
+export type RefundStatus = "requested" | "processed" | "failed";
+
+// A full or partial refund of a payment, issued by an admin and stored in the refunds collection. Written only by the server.
+export interface RefundRecord {
+  id: string;
+  paymentId: string;
+  paperId: string;
+  userId: string; // The author who paid
+  amount: number; // In major currency units
+  currency: string;
+  reason: string;
+  status: RefundStatus;
+  gateway: PaymentGatewayId;
+  gatewayRefundId?: string | null;
+  failureReason?: string | null;
+  requestedBy: string; // Admin UID
+  requestedAt: string; // ISO date string
+  processedAt?: string | null; // ISO date string
+  creditNoteId?: string | null; // Issued once the refund is processed
+  creditNoteNumber?: string | null;
+}
+
+// Credit note reversing part or all of an invoice, stored in the creditNotes collection under the refund's ID.
+export interface CreditNote {
+  id: string; // Same as the refund's ID
+  number: string; // Sequential per financial year, e.g. "CN/2026-27/00003"
+  refundId: string;
+  paymentId: string;
+  invoiceId: string;
+  invoiceNumber: string; // The invoice being credited
+  paperId: string;
+  paperTitle: string;
+  userId: string;
+  issuedAt: string; // ISO date string
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply: string | null;
+  lineItems: InvoiceLineItem[];
+  currency: string;
+  gst: GstBreakdown; // Of the refunded amount, at the original invoice's rate
+  reason: string;
+}
+
+export type DiscountType = "percentage" | "fixed";
+
+// Admin-managed coupon, stored in the discountCodes collection under the code itself.
+export interface DiscountCode {
+  id: string; // The code, upper-cased
+  description?: string | null;
+  type: DiscountType;
+  value: number; // Percent off, or an amount off in `currency`
+  currency?: string | null; // Fixed discounts only apply to fees in this currency
+  venueIds?: string[] | null; // Venues the code is valid for; empty means every venue
+  maxRedemptions?: number | null; // Across all authors; missing means unlimited
+  maxRedemptionsPerAuthor?: number | null;
+  redemptionCount: number; // Kept by the server as codes are redeemed
+  expiresAt?: string | null; // ISO date string
+  isActive: boolean;
+  createdAt?: string | Timestamp;
+  updatedAt?: string | Timestamp;
+}
+
+// What redeeming a discount code did to a paper's fee.
+export interface DiscountRedemption {
+  paperId: string;
+  discountCode: string;
+  discountAmount: number;
+  submissionFee: number; // After the discount
+  currency: string;
+  paperStatus: PaperStatus; // "Submitted" when the discount covers the whole fee
+}
+
+// The server's record of a code redeemed for a paper, stored in discountRedemptions under the paper's ID.
+// The fee is worked out from this, not from the discount fields shown on the paper.
+export interface DiscountRedemptionRecord {
+  paperId: string;
+  userId: string;
+  discountCode: string;
+  discountAmount: number;
+  redeemedAt: string; // ISO date string
+}
+
+export type FeeWaiverReason = "student" | "low-income-country" | "other";
+export type FeeWaiverStatus = "pending" | "approved" | "rejected";
+
+// An author's request to have the submission fee waived, decided by an admin. Written only by the server.
+export interface FeeWaiverRequest {
+  id: string;
+  paperId: string;
+  paperTitle: string;
+  userId: string;
+  authorName: string;
+  reason: FeeWaiverReason;
+  country?: string | null; // Required for "low-income-country"
+  justification: string;
+  submissionFee: number; // The fee being waived
+  currency: string;
+  status: FeeWaiverStatus;
+  requestedAt: string; // ISO date string
+  decidedAt?: string | null; // ISO date string
+  decidedBy?: string | null; // Admin UID
+  decisionNote?: string | null; // Shown to the author
+}
+
+export type SubscriptionPlanId = "annual";
+export type SubscriptionPaymentMethod = "bank-transfer" | "upi";
+
+// A paid subscription on the author's profile. Written only by the server, when an admin confirms the payment.
+export interface UserSubscription {
+  planId: SubscriptionPlanId;
+  startDate: string; // ISO date string
+  endDate: string; // ISO date string; the quota cannot be used from then on
+  submissionQuota: number; // Papers covered, including any carried over from the previous period on renewal
+  submissionsUsed: number;
+  requestId?: string | null; // The subscriptionRequests record that last activated or renewed it
+}
+
+export type SubscriptionRequestStatus = "pending" | "approved" | "rejected";
+
+// An author's report of a bank or UPI transfer for a subscription, confirmed by an admin. Written only by the server.
+export interface SubscriptionRequest {
+  id: string;
+  userId: string;
+  userName: string;
+  userEmail: string | null;
+  planId: SubscriptionPlanId;
+  amount: number; // The plan price at the time of the request
+  currency: string;
+  paymentMethod: SubscriptionPaymentMethod;
+  transactionReference: string; // UTR or UPI transaction ID given by the author
+  paidOn: string; // Date of the transfer, YYYY-MM-DD
+  status: SubscriptionRequestStatus;
+  requestedAt: string; // ISO date string
+  decidedAt?: string | null; // ISO date string
+  decidedBy?: string | null; // Admin UID
+  decisionNote?: string | null; // Shown to the author
+}
+
+// A university or research body whose members submit against a pooled allowance, billed to the institution.
+export interface Institution {
+  id: string;
+  name: string;
+  emailDomains: string[]; // Members with a verified email at one of these domains can join without an invite
+  adminIds: string[]; // Members who manage seats and see the usage report
+  memberIds: string[]; // Includes the admins; kept by the server
+  seatLimit: number;
+  submissionAllowance: number; // Submissions covered in the current period
+  submissionsUsed: number; // In the current period; kept by the server
+  submissionRate: number; // Billed per covered submission, including GST
+  currency: string;
+  periodStart: string; // ISO date string
+  periodEnd: string; // ISO date string
+  billingEmail?: string | null;
+  billingAddress?: string | null;
+  gstin?: string | null; // Printed on consolidated invoices
+  isActive: boolean;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type InstitutionInviteStatus = "pending" | "accepted" | "revoked";
+
+// A seat offered to an email address by an institution admin. Written only by the server.
+// What the institution's admins see of its members.
+export type InstitutionMember = Pick<User, 'id' | 'displayName' | 'email'>;
+
+export interface InstitutionInvite {
+  id: string;
+  institutionId: string;
+  institutionName: string;
+  email: string; // Lower-cased
+  invitedBy: string; // UID
+  status: InstitutionInviteStatus;
+  createdAt: string; // ISO date string
+  respondedAt?: string | null; // When it was accepted or revoked
+  userId?: string | null; // Who accepted it
+}
+
+// One invoice for a batch of submissions covered by an institution's allowance, paid by bank transfer.
+export interface InstitutionInvoice {
+  id: string;
+  number: string; // From the same series as per-payment invoices
+  institutionId: string;
+  institutionName: string;
+  issuedAt: string; // ISO date string
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply: string | null; // GST state code
+  lineItems: InvoiceLineItem[]; // One per submission
+  paperIds: string[];
+  currency: string;
+  gst: GstBreakdown;
+  status: "unpaid" | "paid";
+  paidAt?: string | null; // ISO date string
+  paymentReference?: string | null; // Bank reference recorded by the admin
+}
+
+// A submission by an institution member, as listed in the institution's usage report.
+export interface InstitutionUsageRecord {
+  paperId: string;
+  paperTitle: string;
+  authorId: string;
+  authorName: string;
+  venueId?: string | null;
+  status: PaperStatus;
+  submittedAt: string | null; // ISO date string
+  coveredByInstitution: boolean;
+  invoiceId?: string | null;
+}
+
+export type EmailTemplateId =
+  | "submission-received"
+  | "payment-due"
+  | "payment-overdue"
+  | "status-changed"
+  | "feedback-posted"
+  | "reviewer-invited"
+  | "decision";
+
+export type EmailTransportId = "console" | "file" | "smtp";
+
+export type EmailMessageStatus = "pending" | "sent" | "failed";
+
+// A rendered email in the emailOutbox collection. Written only by the server, which retries failed deliveries.
+export interface EmailMessage {
+  id: string; // Deterministic for messages that must only go out once, e.g. "payment-due_<paperId>_<time>"
+  template: EmailTemplateId;
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+  userId?: string | null; // Recipient, when they have an account
+  paperId?: string | null;
+  status: EmailMessageStatus;
+  attempts: number;
+  nextAttemptAt: string; // ISO date string; also holds a message while a delivery attempt is in flight
+  lastError?: string | null;
+  transport?: EmailTransportId | null; // Set once sent
+  transportMessageId?: string | null;
+  createdAt: string; // ISO date string
+  sentAt?: string | null; // ISO date string
+}
+
+// Every event that emails a user also notifies them in the app.
+export type NotificationEvent = EmailTemplateId;
+
+// Which events are also emailed; a missing entry means yes. In-app notifications are always created.
+export type NotificationPreferences = Partial<Record<NotificationEvent, boolean>>;
+
+export interface UserNotification {
+  id: string;
+  userId: string; // Recipient
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  paperId?: string | null;
+  link?: string | null; // In-app path to open, e.g. the paper or the review assignment
+  read: boolean;
+  createdAt: string; // ISO date string
+  readAt?: string | null; // ISO date string
+}
+
+export type AuditAction =
+  | "user.admin-status"
+  | "paper.status"
+  | "paper.update"
+  | "paper.official-analysis"
+  | "review.assign"
+  | "review.remove"
+  | "venue.create"
+  | "venue.update"
+  | "discount-code.create"
+  | "discount-code.update"
+  | "fee-waiver.decide"
+  | "subscription.decide"
+  | "payment.refund"
+  | "institution.save"
+  | "institution.invite"
+  | "institution.revoke-invite"
+  | "institution.remove-member"
+  | "institution.invoice"
+  | "institution.invoice-paid"
+  | "job.payment-enforcement"
+  | "email.deliver"
+  | "email.retry";
+
+export type AuditTargetType =
+  | "user"
+  | "paper"
+  | "review"
+  | "venue"
+  | "discountCode"
+  | "feeWaiver"
+  | "subscriptionRequest"
+  | "payment"
+  | "institution"
+  | "institutionInvoice"
+  | "job"
+  | "email";
+
+// One entry in the append-only audit log (auditLog collection). Entries are never edited or deleted.
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  actorId: string | null; // Null when a scheduled job acted on its own
+  actorName?: string | null;
+  actorEmail?: string | null;
+  targetType: AuditTargetType;
+  targetId: string;
+  targetLabel?: string | null; // e.g. the paper title or user email, as it was at the time
+  before?: Record<string, unknown> | null; // Changed fields only
+  after?: Record<string, unknown> | null;
+  createdAt: string; // ISO date string (after conversion from Firestore Timestamp)
 }